@@ -5,6 +5,23 @@ import { ai } from '@/ai/genkit';
 import { z } from 'zod';
 import { getDb, getCustomNumberAudio } from '@/app/actions';
 import { generateSpeech } from '@/ai/flows/tts-flow';
+import { translateText } from '@/ai/flows/translate-flow';
+import { verbalizeDigits, verbalizeNumber } from '@/lib/spoken-numbers';
+import { assembleAudio, assembleSegments, PlayoutSegment, PlayoutCueSheet } from '@/lib/audio-assembly';
+import { getAudioConfig, getPlayoutConfig, AudioConfig } from '@/lib/config';
+import { getChimesForCategory } from '@/app/chime-actions';
+import { getStaticPartAudioPaths } from '@/lib/template-diff';
+import {
+    extractPlaceholders,
+    findMissingPlaceholderValues,
+    formatPlaceholderForIsl,
+    formatPlaceholderSpeech,
+    formatPlaceholderText,
+    getOperatorInputPlaceholders,
+    getPlaceholderDefinition,
+    PlaceholderValues,
+    validatePlaceholderValue,
+} from '@/lib/announcement-placeholders';
 import * as fsPromises from 'fs/promises';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -13,17 +30,81 @@ const AnnouncementInputSchema = z.object({
   routeId: z.number(),
   platform: z.string(),
   category: z.string(),
+  placeholderValues: z.record(z.string()).optional(),
+  // Overrides for the playout file, falling back to the server config.
+  playout: z.object({
+    order: z.array(z.string()).optional(),
+    gapMs: z.number().min(0).optional(),
+    repeat: z.number().int().min(1).max(5).optional(),
+  }).optional(),
 });
 
 export type AnnouncementInput = z.infer<typeof AnnouncementInputSchema>;
 
+const AudioSegmentSourceSchema = z.enum(['template_part', 'route_audio', 'custom_number', 'tts', 'missing']);
+
+// One text span of an announcement and the audio it was spoken with.
+// start/end are seconds into the announcement body (before chimes); null when nothing was played.
+const AudioSegmentSchema = z.object({
+    text: z.string(),
+    placeholder: z.string().nullable(),
+    source: AudioSegmentSourceSchema,
+    audio_path: z.string().nullable(),
+    start: z.number().nullable(),
+    end: z.number().nullable(),
+    issue: z.string().nullable(),
+});
+
+export type AudioSegmentSource = z.infer<typeof AudioSegmentSourceSchema>;
+export type AudioSegment = z.infer<typeof AudioSegmentSchema>;
+
 const AnnouncementOutputSchema = z.object({
     announcements: z.array(z.object({
         language_code: z.string(),
         text: z.string(),
         audio_path: z.string().nullable(),
+        segments: z.array(AudioSegmentSchema).optional(),
+        body_duration: z.number().optional(),
+        gap_ms: z.number().optional(),
     })),
+    // Empty until the ISL video render job finishes (see queueIslGlossVideo).
     isl_video_playlist: z.array(z.string()),
+    isl_source_text: z.string().optional(),
+    // ISL gloss the video was looked up from; filled in by handleGenerateAnnouncement.
+    isl_gloss: z.string().optional(),
+    // Speed the ISL video was played at to match the spoken audio (see lib/isl-timing).
+    isl_timing: z.object({
+        source: z.enum(['audio', 'signing_rate', 'natural']),
+        speedFactor: z.number(),
+        clamped: z.boolean(),
+        naturalDurationSec: z.number().nullable(),
+        targetDurationSec: z.number().nullable(),
+        outputDurationSec: z.number().nullable(),
+    }).nullable().optional(),
+    // Word for each sign as it is signed (see lib/isl-gloss-track).
+    isl_gloss_track: z.object({
+        cues: z.array(z.object({
+            start: z.number(),
+            end: z.number(),
+            gloss: z.string(),
+            translation: z.string().nullable(),
+        })),
+        vtt: z.string().nullable(),
+    }).nullable().optional(),
+    // WebVTT and SRT captions of each language for the ISL video; filled in once the video is rendered.
+    subtitles: z.record(z.object({ vtt: z.string(), srt: z.string() })).optional(),
+    intro_chime_path: z.string().nullable().optional(),
+    outro_chime_path: z.string().nullable().optional(),
+    playout: z.object({
+        audio_path: z.string(),
+        duration: z.number(),
+        cues: z.array(z.object({
+            language_code: z.string(),
+            repeat: z.number(),
+            start: z.number(),
+            end: z.number(),
+        })),
+    }).nullable().optional(),
 });
 
 export type AnnouncementOutput = z.infer<typeof AnnouncementOutputSchema>;
@@ -51,127 +132,154 @@ async function getTemplate(category: string, languageCode: string) {
     return null;
 }
 
-function replacePlaceholders(template: string, data: any, platform: string, trainNumber: string): string {
+function replacePlaceholders(template: string, data: any, platform: string, trainNumber: string, operatorText: PlaceholderValues = {}): string {
     return template
         .replace(/{train_number}/g, data.train_number_translation || trainNumber)
         .replace(/{train_name}/g, data.train_name_translation)
         .replace(/{start_station}/g, data.start_station_translation)
         .replace(/{end_station}/g, data.end_station_translation)
-        .replace(/{platform}/g, platform);
+        .replace(/{platform}/g, platform)
+        .replace(/{([a-zA-Z0-9_]+)}/g, (match, key) => operatorText[key] ?? match);
 }
 
-// A simple digit-to-word map for platform numbers, extend as needed.
-const platformNumberWords: { [key: string]: { [lang: string]: string } } = {
-    'en': { '1': 'one', '2': 'two', '3': 'three', '4': 'four', '5': 'five', '6': 'six', '7': 'seven', '8': 'eight', '9': 'nine', '0': 'zero' },
-    'hi': { '1': 'एक', '2': 'दो', '3': 'तीन', '4': 'चार', '5': 'पांच', '6': 'छह', '7': 'सात', '8': 'आठ', '9': 'नौ', '0': 'शून्य' },
-    'mr': { '1': 'एक', '2': 'दोन', '3': 'तीन', '4': 'चार', '5': 'पाच', '6': 'सहा', '7': 'सात', '8': 'आठ', '9': 'नऊ', '0': 'शून्य' },
-    'gu': { '1': 'એક', '2': 'બે', '3': 'ત્રણ', '4': 'ચાર', '5': 'પાંચ', '6': 'છ', '7': 'સાત', '8': 'આઠ', '9': 'નવ', '0': 'શૂન્ય' },
-};
+// Resolves the per-language text of the operator placeholders used in a template.
+// Station names are entered in English and translated, everything else is formatted as typed.
+async function getOperatorPlaceholderText(templateText: string, values: PlaceholderValues, lang: string): Promise<PlaceholderValues> {
+    const resolved: PlaceholderValues = {};
+    for (const key of extractPlaceholders(templateText)) {
+        const definition = getPlaceholderDefinition(key);
+        if (!definition || definition.source !== 'operator' || key === 'platform') continue;
+        const value = values[key];
+        if (!value) continue;
+        if (definition.inputType === 'station' && lang !== 'en') {
+            resolved[key] = await translateText(value.trim(), lang, 'en');
+        } else {
+            resolved[key] = formatPlaceholderText(key, value, lang);
+        }
+    }
+    return resolved;
+}
 
-async function generatePlatformAudio(platform: string, lang: string): Promise<string | null> {
-    // Try to get custom audio for each digit in the platform number
+type AudioSnippet = { filePath: string | null; source: AudioSegmentSource };
+
+// Synthesised snippets go in `tempDir`, which belongs to one generation (see generateAnnouncementFlow),
+// so concurrent generations (dashboard and scheduler) never share file names.
+async function generatePlatformAudio(platform: string, lang: string, tempDir: string): Promise<AudioSnippet> {
+    // Recorded digit audio is preferred, but only when every digit has a recording,
+    // so one announcement never mixes recorded and synthesised voices.
     const digits = platform.split('');
     const customAudioFiles: string[] = [];
     
     for (const digit of digits) {
         try {
-            // Try to get custom audio for this digit
             const customAudio = await getCustomNumberAudio(digit, lang);
             if (customAudio) {
-                // Use the custom audio file
                 const customFilePath = path.join(process.cwd(), 'public', customAudio.audio_file_path);
                 if (await fsPromises.access(customFilePath).then(() => true).catch(() => false)) {
                     customAudioFiles.push(customFilePath);
-                    continue; // Skip TTS generation for this digit
                 }
             }
         } catch (error) {
             console.warn(`Failed to get custom audio for digit ${digit} in language ${lang}:`, error);
         }
-        
-        // Fallback to TTS generation for this digit
-        const digitWord = platformNumberWords[lang]?.[digit] || digit;
-        const audioContent = await generateSpeech(digitWord, lang);
-        if (audioContent) {
-            const audioDir = path.join(process.cwd(), 'public', 'audio', '_temp');
-            await fsPromises.mkdir(audioDir, { recursive: true });
-            const filePath = path.join(audioDir, `platform_digit_${digit}_${lang}.wav`);
-            await fsPromises.writeFile(filePath, audioContent);
-            customAudioFiles.push(filePath);
-        }
     }
-    
-    // If we have custom audio files, concatenate them
-    if (customAudioFiles.length > 0) {
-        const audioDir = path.join(process.cwd(), 'public', 'audio', '_temp');
-        await fsPromises.mkdir(audioDir, { recursive: true });
-        const outputPath = path.join(audioDir, `platform_${platform}_${lang}.wav`);
-        
-        // Simple concatenation for now
+
+    const outputPath = path.join(tempDir, `platform_${platform}_${lang}.wav`);
+
+    if (digits.length > 0 && customAudioFiles.length === digits.length) {
         if (customAudioFiles.length === 1) {
-            // If only one file, just copy it
             await fsPromises.copyFile(customAudioFiles[0], outputPath);
-        } else {
-            // Concatenate multiple files
-            const concatenatedPath = await concatenateAudio(customAudioFiles, `platform_${platform}_${lang}.wav`);
-            if (concatenatedPath) {
-                return concatenatedPath;
-            }
+            return { filePath: outputPath, source: 'custom_number' };
+        }
+        const concatenatedPath = await assembleAudio(customAudioFiles, outputPath, { ...getAudioConfig(), outputFormat: 'wav', gapMs: 0, loudnessLufs: null });
+        if (concatenatedPath) {
+            return { filePath: concatenatedPath, source: 'custom_number' };
         }
-        
-        return outputPath;
     }
     
-    // Fallback to original TTS approach if no custom audio found
-    const platformWord = platform.split('').map(digit => platformNumberWords[lang]?.[digit] || digit).join(' ');
+    // Otherwise speak the number as a whole ("twelve", not "one two").
+    const platformWord = /^\d+$/.test(platform) ? verbalizeNumber(platform, lang) : verbalizeDigits(platform, lang);
     const audioContent = await generateSpeech(platformWord, lang);
-    if (!audioContent) return null;
+    if (!audioContent) return { filePath: null, source: 'tts' };
 
-    const audioDir = path.join(process.cwd(), 'public', 'audio', '_temp');
-    await fsPromises.mkdir(audioDir, { recursive: true });
-    const filePath = path.join(audioDir, `platform_${platform}_${lang}.wav`);
+    await fsPromises.writeFile(outputPath, audioContent);
+    return { filePath: outputPath, source: 'tts' };
+}
+
+// Speaks an operator placeholder value. Numbers reuse the platform digit audio,
+// translated stations are synthesised from their rendered text and everything
+// else from its spoken form (times and the delay in words).
+async function generateOperatorPlaceholderAudio(key: string, value: string, text: string, lang: string, tempDir: string): Promise<AudioSnippet> {
+    const definition = getPlaceholderDefinition(key);
+    if (definition?.inputType === 'number' && key !== 'delay_minutes') {
+        return await generatePlatformAudio(value.trim(), lang, tempDir);
+    }
+    const speech = definition?.inputType === 'station' ? text : formatPlaceholderSpeech(key, value, lang);
+    const audioContent = await generateSpeech(speech, lang);
+    if (!audioContent) return { filePath: null, source: 'tts' };
+
+    const filePath = path.join(tempDir, `${key}_${lang}.wav`);
     await fsPromises.writeFile(filePath, audioContent);
-    return filePath;
+    return { filePath, source: 'tts' };
+}
+
+
+function describeMissingSnippet(source: AudioSegmentSource, placeholder: string | null): string {
+    switch (source) {
+        case 'template_part':
+            return 'Template audio part is missing; generate it on the Announcement Templates page';
+        case 'route_audio':
+            return `No route audio for {${placeholder}}; generate it for this train`;
+        case 'tts':
+        case 'custom_number':
+            return 'Text-to-speech failed for this value';
+        default:
+            return `{${placeholder}} has no value and was left out`;
+    }
 }
 
+// Sequences the per-language announcement bodies into a single file for the PA system:
+// intro, each language in order (repeated as configured), outro. Returns the file with a cue sheet.
+async function buildPlayout(
+    bodies: { [lang: string]: string },
+    chimePaths: { intro: string | null; outro: string | null },
+    settings: { order: string[]; gapMs: number; repeat: number },
+    outputFileName: string
+): Promise<PlayoutCueSheet | null> {
+    const order = settings.order.filter(lang => bodies[lang]);
+    if (order.length === 0) return null;
+
+    const segments: PlayoutSegment[] = [];
+    if (chimePaths.intro) segments.push({ filePath: chimePaths.intro });
+    for (let repeat = 1; repeat <= settings.repeat; repeat++) {
+        for (const lang of order) {
+            segments.push({ filePath: bodies[lang], language_code: lang, repeat });
+        }
+    }
+    if (chimePaths.outro) segments.push({ filePath: chimePaths.outro });
+
+    const audioDir = path.join(process.cwd(), 'public', 'audio', '_announcements');
+    const result = await assembleSegments(segments, path.join(audioDir, outputFileName), { ...getAudioConfig(), gapMs: settings.gapMs });
+    if (!result) return null;
+
+    return {
+        audio_path: result.path.replace(path.join(process.cwd(), 'public'), ''),
+        duration: result.duration,
+        cues: result.cues,
+    };
+}
 
-async function concatenateAudio(filePaths: (string | null | undefined)[], outputFileName: string): Promise<string | null> {
+// Assembles snippets into public/audio/_announcements and returns the public path.
+// Pass overrides for intermediate snippets that should not get gaps or loudness processing.
+async function concatenateAudio(filePaths: (string | null | undefined)[], outputFileName: string, overrides: Partial<AudioConfig> = {}): Promise<string | null> {
     const validFiles = filePaths.filter((p): p is string => !!p && fs.existsSync(p));
     if (validFiles.length === 0) return null;
 
     const audioDir = path.join(process.cwd(), 'public', 'audio', '_announcements');
     await fsPromises.mkdir(audioDir, { recursive: true });
-    const outputPath = path.join(audioDir, outputFileName);
-    
-    // Simple concatenation by appending buffer data. This works for raw PCM/WAV without headers.
-    // For a production system, a more robust library like ffmpeg would be better.
-    const headerLength = 44; // Standard WAV header size
-    let totalLength = 0;
-    const audioData: Buffer[] = [];
 
-    for (const filePath of validFiles) {
-        try {
-            const content = await fsPromises.readFile(filePath);
-            const data = content.slice(headerLength);
-            audioData.push(data);
-            totalLength += data.length;
-        } catch (error) {
-            console.warn(`Could not read audio file: ${filePath}`, error);
-        }
-    }
-
-    if (audioData.length === 0) return null;
-    
-    const firstFileContent = await fsPromises.readFile(validFiles[0]);
-    const header = firstFileContent.slice(0, headerLength);
-    
-    // Update RIFF chunk size (bytes 4-7)
-    header.writeUInt32LE(totalLength + headerLength - 8, 4);
-    // Update data sub-chunk size (bytes 40-43)
-    header.writeUInt32LE(totalLength, 40);
-
-    const finalBuffer = Buffer.concat([header, ...audioData]);
-    await fsPromises.writeFile(outputPath, finalBuffer);
+    const outputPath = await assembleAudio(validFiles, path.join(audioDir, outputFileName), { ...getAudioConfig(), ...overrides });
+    if (!outputPath) return null;
     
     return outputPath.replace(path.join(process.cwd(), 'public'), '');
 }
@@ -183,7 +291,7 @@ const generateAnnouncementFlow = ai.defineFlow(
     inputSchema: AnnouncementInputSchema,
     outputSchema: AnnouncementOutputSchema,
   },
-  async ({ routeId, platform, category }) => {
+  async ({ routeId, platform, category, placeholderValues = {}, playout: playoutOverrides }) => {
     const { route, translations, audioFiles } = await getRouteData(routeId);
     if (!route) {
         throw new Error('Train route not found');
@@ -191,71 +299,182 @@ const generateAnnouncementFlow = ai.defineFlow(
 
     const announcements: any[] = [];
     const languages = ['en', 'hi', 'mr', 'gu'];
+    let islSourceText: string | undefined;
+    const chimes = await getChimesForCategory(category);
+    const publicPath = (filePath: string) => path.join(process.cwd(), 'public', filePath);
+    const introPath = chimes.intro ? publicPath(chimes.intro.file_path) : null;
+    const outroPath = chimes.outro ? publicPath(chimes.outro.file_path) : null;
+    // Chime-less WAV body of each language, reused for the playout file.
+    const bodies: { [lang: string]: string } = {};
+    // Synthesised snippets of this generation only; removed when it finishes.
+    const tempRoot = path.join(process.cwd(), 'public', 'audio', '_temp');
+    await fsPromises.mkdir(tempRoot, { recursive: true });
+    const tempDir = await fsPromises.mkdtemp(path.join(tempRoot, 'run_'));
+
+    try {
+        for (const lang of languages) {
+            const template = await getTemplate(category, lang);
+            if (!template || !template.text) continue;
+
+            const missing = findMissingPlaceholderValues(template.text, placeholderValues);
+            if (missing.length > 0) {
+                throw new Error(`Missing values for ${missing.map(key => `{${key}}`).join(', ')} in the ${category} template.`);
+            }
+            // The dashboard checks these too, but the action can be called with anything
+            const invalid = getOperatorInputPlaceholders(template.text)
+                .map(definition => validatePlaceholderValue(definition.key, placeholderValues[definition.key]))
+                .filter((error): error is string => error !== null);
+            if (invalid.length > 0) {
+                throw new Error(invalid.join(' '));
+            }
 
-    for (const lang of languages) {
-        const template = await getTemplate(category, lang);
-        if (!template || !template.text) continue;
-
-        const translationData = translations.find(t => t.language_code === lang);
-        const audioData = audioFiles.find(a => a.language_code === lang);
+            const translationData = translations.find(t => t.language_code === lang);
+            const audioData = audioFiles.find(a => a.language_code === lang);
         
-        if (!translationData) continue;
+            if (!translationData) continue;
 
-        // 1. Generate Text
-        const text = replacePlaceholders(template.text, translationData, platform, route.train_number);
+            // 1. Generate Text
+            const operatorText = await getOperatorPlaceholderText(template.text, placeholderValues, lang);
+            const text = replacePlaceholders(template.text, translationData, platform, route.train_number, operatorText);
+
+            if (lang === 'en') {
+                const islValues: PlaceholderValues = {};
+                for (const key of Object.keys(operatorText)) {
+                    islValues[key] = formatPlaceholderForIsl(key, placeholderValues[key]);
+                }
+                islSourceText = replacePlaceholders(template.text, translationData, platform, route.train_number, islValues);
+            }
         
-        // 2. Generate Audio
-        let finalAudioPath: string | null = null;
-        if(audioData && template.audio_parts) {
-            const placeholderRegex = /({[a-zA-Z0-9_]+})/g;
-            const textParts = template.text.split(placeholderRegex).filter(p => p.length > 0);
-            
-            const audioSnippets: (string | null)[] = [];
-            let staticAudioIndex = 0;
-            
-            for (const part of textParts) {
-                if (placeholderRegex.test(part)) {
-                    const placeholder = part.slice(1, -1); // remove {}
-                    switch(placeholder) {
-                        case 'train_number':
-                            audioSnippets.push(audioData.train_number_audio_path ? path.join(process.cwd(), 'public', audioData.train_number_audio_path) : null);
-                            break;
-                        case 'train_name':
-                             audioSnippets.push(audioData.train_name_audio_path ? path.join(process.cwd(), 'public', audioData.train_name_audio_path) : null);
-                            break;
-                        case 'start_station':
-                             audioSnippets.push(audioData.start_station_audio_path ? path.join(process.cwd(), 'public', audioData.start_station_audio_path) : null);
-                            break;
-                        case 'end_station':
-                             audioSnippets.push(audioData.end_station_audio_path ? path.join(process.cwd(), 'public', audioData.end_station_audio_path) : null);
-                            break;
-                        case 'platform':
-                            audioSnippets.push(await generatePlatformAudio(platform, lang));
-                            break;
+            // 2. Generate Audio
+            let finalAudioPath: string | null = null;
+            let segments: AudioSegment[] | undefined;
+            let bodyDuration: number | undefined;
+            let gapMs: number | undefined;
+            if(audioData && template.audio_parts) {
+                const routeAudioPaths: { [key: string]: string | null } = {
+                    train_number: audioData.train_number_audio_path,
+                    train_name: audioData.train_name_audio_path,
+                    start_station: audioData.start_station_audio_path,
+                    end_station: audioData.end_station_audio_path,
+                };
+                const staticPartAudio = getStaticPartAudioPaths(template.text, template.audio_parts);
+                let staticAudioIndex = 0;
+
+                // Every text span gets a snippet and a segment record, so gaps show up in the preview.
+                const snippets: AudioSnippet[] = [];
+                segments = [];
+                const parts = template.text.split(/({[a-zA-Z0-9_]+})/);
+                for (let position = 0; position < parts.length; position++) {
+                    const part = parts[position];
+                    let snippet: AudioSnippet;
+                    let placeholder: string | null = null;
+                    let spanText: string;
+
+                    if (position % 2 === 1) {
+                        // split() with a capture group puts placeholders at the odd positions
+                        const key = part.slice(1, -1);
+                        placeholder = key;
+                        spanText = replacePlaceholders(part, translationData, platform, route.train_number, operatorText);
+                        if (key in routeAudioPaths) {
+                            const routeAudio = routeAudioPaths[key];
+                            snippet = { filePath: routeAudio ? publicPath(routeAudio) : null, source: 'route_audio' };
+                        } else if (key === 'platform') {
+                            snippet = await generatePlatformAudio(platform, lang, tempDir);
+                        } else if (operatorText[key]) {
+                            snippet = await generateOperatorPlaceholderAudio(key, placeholderValues[key], operatorText[key], lang, tempDir);
+                        } else {
+                            snippet = { filePath: null, source: 'missing' };
+                        }
+                    } else if (part.trim().length > 0) {
+                        spanText = part.trim();
+                        const staticAudioPart = staticPartAudio[staticAudioIndex++];
+                        snippet = { filePath: staticAudioPart ? publicPath(staticAudioPart) : null, source: 'template_part' };
+                    } else {
+                        continue;
                     }
-                } else if (part.trim().length > 0) {
-                     const staticAudioPart = template.audio_parts.find((p: string | null) => p?.includes(`part_${staticAudioIndex}.wav`));
-                     if (staticAudioPart) {
-                        audioSnippets.push(path.join(process.cwd(), 'public', staticAudioPart));
-                     }
-                     staticAudioIndex++;
+
+                    if (snippet.filePath && !fs.existsSync(snippet.filePath)) {
+                        snippet = { ...snippet, filePath: null };
+                    }
+                    snippets.push(snippet);
+                    segments.push({
+                        text: spanText,
+                        placeholder,
+                        source: snippet.filePath ? snippet.source : 'missing',
+                        // Snippets synthesised into _temp are deleted below, so only lasting files are linked.
+                        audio_path: snippet.filePath && !snippet.filePath.includes(`${path.sep}_temp${path.sep}`)
+                            ? snippet.filePath.replace(path.join(process.cwd(), 'public'), '')
+                            : null,
+                        start: null,
+                        end: null,
+                        issue: snippet.filePath ? null : describeMissingSnippet(snippet.source, placeholder),
+                    });
+                }
+
+                const audioConfig = getAudioConfig();
+                gapMs = audioConfig.gapMs;
+                const available = snippets
+                    .map((snippet, index) => ({ filePath: snippet.filePath, index }))
+                    .filter((entry): entry is { filePath: string; index: number } => !!entry.filePath);
+                const audioDir = path.join(process.cwd(), 'public', 'audio', '_announcements');
+                const body = available.length > 0
+                    ? await assembleSegments(
+                        available.map(entry => ({ filePath: entry.filePath })),
+                        path.join(audioDir, `announcement_body_${route.train_number}_${category}_${lang}_${Date.now()}.wav`),
+                        { ...audioConfig, outputFormat: 'wav', loudnessLufs: null }
+                    )
+                    : null;
+
+                if (body) {
+                    bodyDuration = body.duration;
+                    for (const span of body.spans) {
+                        const segment = segments[available[span.index].index];
+                        segment.start = span.start;
+                        segment.end = span.end;
+                    }
+                    for (const entry of available) {
+                        const segment = segments[entry.index];
+                        if (segment.start === null) {
+                            segment.issue = 'Audio file could not be decoded';
+                        }
+                    }
+
+                    bodies[lang] = body.path;
+                    // Chimes are baked into every language so each file stands on its own.
+                    const outputFileName = `announcement_${route.train_number}_${category}_${lang}_${Date.now()}.wav`;
+                    finalAudioPath = await concatenateAudio([introPath, bodies[lang], outroPath], outputFileName);
                 }
             }
-            
-            const outputFileName = `announcement_${route.train_number}_${category}_${lang}_${Date.now()}.wav`;
-            finalAudioPath = await concatenateAudio(audioSnippets, outputFileName);
-            
-            // Clean up temporary files
-            const tempDir = path.join(process.cwd(), 'public', 'audio', '_temp');
-            if (fs.existsSync(tempDir)) {
-                 await fsPromises.rm(tempDir, { recursive: true, force: true });
-            }
-        }
         
-        announcements.push({ language_code: lang, text, audio_path: finalAudioPath });
+            announcements.push({ language_code: lang, text, audio_path: finalAudioPath, segments, body_duration: bodyDuration, gap_ms: gapMs });
+        }
+    } finally {
+        await fsPromises.rm(tempDir, { recursive: true, force: true });
+    }
+
+    const playoutSettings = getPlayoutConfig();
+    const playout = await buildPlayout(
+        bodies,
+        { intro: introPath, outro: outroPath },
+        {
+            order: playoutOverrides?.order ?? playoutSettings.order,
+            gapMs: playoutOverrides?.gapMs ?? playoutSettings.gapMs,
+            repeat: playoutOverrides?.repeat ?? playoutSettings.repeat,
+        },
+        `playout_${route.train_number}_${category}_${Date.now()}.wav`
+    );
+    for (const bodyPath of Object.values(bodies)) {
+        await fsPromises.unlink(bodyPath).catch(() => {});
     }
     
-    return { announcements, isl_video_playlist: [] };
+    return {
+        announcements,
+        isl_video_playlist: [],
+        isl_source_text: islSourceText,
+        intro_chime_path: chimes.intro?.file_path ?? null,
+        outro_chime_path: chimes.outro?.file_path ?? null,
+        playout,
+    };
   }
 );
 
@@ -271,6 +490,9 @@ const TemplateAudioInputSchema = z.object({
     templateText: z.string(),
     category: z.string(),
     languageCode: z.string(),
+    // Existing audio to keep, keyed by static part index; only the other parts are synthesised.
+    reuseParts: z.record(z.string()).optional(),
+    filePrefix: z.string().optional(),
 });
 
 const TemplateAudioOutputSchema = z.array(z.string().nullable());
@@ -279,7 +501,7 @@ const generateTemplateAudioFlow = ai.defineFlow({
     name: 'generateTemplateAudioFlow',
     inputSchema: TemplateAudioInputSchema,
     outputSchema: TemplateAudioOutputSchema,
-}, async ({ templateText, category, languageCode }) => {
+}, async ({ templateText, category, languageCode, reuseParts = {}, filePrefix = '' }) => {
     
     const placeholderRegex = /({[a-zA-Z0-9_]+})/g;
     const parts = templateText.split(placeholderRegex);
@@ -301,10 +523,17 @@ const generateTemplateAudioFlow = ai.defineFlow({
             if (cleanText.length === 0) {
                 continue;
             }
+
+            const reusedPath = reuseParts[String(staticPartIndex)];
+            if (reusedPath) {
+                audioFilePaths.push(reusedPath);
+                staticPartIndex++;
+                continue;
+            }
             
             const audioContent = await generateSpeech(cleanText, languageCode);
             if (audioContent) {
-                const filePath = path.join(audioDir, `part_${staticPartIndex}.wav`);
+                const filePath = path.join(audioDir, `${filePrefix}part_${staticPartIndex}.wav`);
                 await fsPromises.writeFile(filePath, audioContent);
                 audioFilePaths.push(filePath.replace(path.join(process.cwd(), 'public'), ''));
             } else {
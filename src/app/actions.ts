@@ -39,9 +39,53 @@ async function streamFileToDisk(file: File, filePath: string): Promise<void> {
 import { generateAnnouncement, AnnouncementInput, AnnouncementOutput, generateTemplateAudio } from '@/ai/flows/announcement-flow';
 import { transcribeAudio } from '@/ai/flows/speech-to-text-flow';
 import { getCustomStationTranslation } from '@/lib/translation-utils';
+import { getTemplateStaticParts, getStaticPartAudio, findReusableAudioParts } from '@/lib/template-diff';
+import { lintTemplate, TemplateLintIssue } from '@/lib/template-lint';
+import { AnnouncementCategory, CATEGORY_KEY_REGEX } from '@/lib/announcement-categories';
+import { generateGloss, parseGloss, IslGlossResult } from '@/lib/isl-gloss';
+import { DEFAULT_ISL_LEXICON, IslLexiconEntry, getSignNameFromPath, suggestSigns } from '@/lib/isl-lexicon';
+import { SignIndex, buildSignIndex, matchSignPhrases, getCachedSignIndex, setCachedSignIndex, invalidateSignIndex } from '@/lib/isl-sign-index';
+import { getIslGlossRules, getFingerspellingConfig, getIslVideoCacheConfig, getIslTransitionConfig, getIslTimingConfig, getIslGlossTrackConfig } from '@/lib/config';
+import { ISL_VIDEO_CACHE_FOLDER, IslVideoCacheEntry, IslVideoRenderSettings, selectEvictions } from '@/lib/isl-video-cache';
+import { createHash, randomBytes } from 'crypto';
+import type { RenderJobContext } from '@/lib/job-queue';
+import { getMediaDuration, probeMedia, runFfmpeg, writeConcatList } from '@/lib/media-tools';
+import { buildFingerspellingFilter, getFingerspellingFileName, getSpellableLetters } from '@/lib/isl-fingerspelling';
+import { ClipTrim, IslTransitionConfig, TransitionClip, buildTransitionFilter, getClipTimeline, hasTrim, validateClipTrim } from '@/lib/isl-transitions';
+import { GlossTrack, buildGlossCues, formatGlossVtt } from '@/lib/isl-gloss-track';
+import { IslTiming, computeIslTiming, pickAudioDuration } from '@/lib/isl-timing';
+import { SubtitleFiles, buildSubtitleCues, estimateCaptionDuration, formatSrt, formatWebVtt } from '@/lib/subtitles';
+import { IslClipMetadata, IslClipReviewStatus, IslClipTag, ISL_CLIP_TAGS, REVIEW_STATUS_LABELS, parseClipTags, validateSigningSpeed } from '@/lib/isl-clip-metadata';
 
 const SESSION_COOKIE_NAME = 'session';
 
+const DEFAULT_ANNOUNCEMENT_CATEGORIES: AnnouncementCategory[] = [
+  {
+    key: 'Arriving',
+    display_names: { en: 'Arriving', hi: 'आगमन', mr: 'आगमन', gu: 'આગમન' },
+    icon: 'TrainFront', color: '#16a34a', priority: 5,
+    required_placeholders: ['train_number', 'train_name', 'platform'], sort_order: 1,
+  },
+  {
+    key: 'Delay',
+    display_names: { en: 'Delay', hi: 'विलंब', mr: 'उशीर', gu: 'વિલંબ' },
+    icon: 'Clock', color: '#d97706', priority: 6,
+    required_placeholders: ['train_number', 'train_name'], sort_order: 2,
+  },
+  {
+    key: 'Cancelled',
+    display_names: { en: 'Cancelled', hi: 'रद्द', mr: 'रद्द', gu: 'રદ' },
+    icon: 'XCircle', color: '#dc2626', priority: 8,
+    required_placeholders: ['train_number', 'train_name'], sort_order: 3,
+  },
+  {
+    key: 'Platform_Change',
+    display_names: { en: 'Platform Change', hi: 'प्लेटफॉर्म परिवर्तन', mr: 'प्लॅटफॉर्म बदल', gu: 'પ્લેટફોર્મ ફેરફાર' },
+    icon: 'ArrowRightLeft', color: '#2563eb', priority: 7,
+    required_placeholders: ['train_number', 'train_name', 'platform'], sort_order: 4,
+  },
+];
+
 const loginSchema = z.object({
   email: z.string().min(1, { message: 'Username cannot be empty.' }),
   password: z.string().min(1, { message: 'Password cannot be empty.' }),
@@ -126,8 +170,29 @@ export async function getDb() {
       ADD COLUMN template_audio_parts TEXT
     `);
   }
+  if (!tableInfo.some(col => col.name === 'version')) {
+    await db.exec(`
+      ALTER TABLE announcement_templates
+      ADD COLUMN version INTEGER DEFAULT 1
+    `);
+  }
   // --- End Migration ---
 
+  // Announcement Template Versions Table (every saved revision of a template, for diff/rollback)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS announcement_template_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      category TEXT NOT NULL,
+      language_code TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      template_text TEXT NOT NULL,
+      template_audio_parts TEXT,
+      change_note TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(category, language_code, version)
+    )
+  `);
+
   // Custom Audio Files Table
   await db.exec(`
     CREATE TABLE IF NOT EXISTS custom_audio_files (
@@ -191,6 +256,29 @@ export async function getDb() {
     )
   `);
 
+  // Per-clip metadata: in/out points trim idle frames when a clip is stitched, signing_speed is the
+  // signer's pace relative to a typical signer, tags is a JSON array, and only approved clips are used.
+  // Clips that were already in use when review_status was added count as approved; new clips wait for review.
+  const islClipColumns: [string, string][] = [
+    ['in_point', 'REAL'],
+    ['out_point', 'REAL'],
+    ['signing_speed', 'REAL'],
+    ['tags', 'TEXT'],
+    ['review_status', "TEXT DEFAULT 'pending'"],
+    ['reviewed_at', 'DATETIME'],
+  ];
+  for (const table of ['isl_dataset_videos', 'isl_dataset_female_videos']) {
+    const columns = await db.all(`PRAGMA table_info(${table})`);
+    for (const [name, definition] of islClipColumns) {
+      if (!columns.some(col => col.name === name)) {
+        await db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+        if (name === 'review_status') {
+          await db.exec(`UPDATE ${table} SET review_status = 'approved'`);
+        }
+      }
+    }
+  }
+
   // Text to ISL Projects Table
   await db.exec(`
     CREATE TABLE IF NOT EXISTS text_to_isl_projects (
@@ -270,6 +358,249 @@ export async function getDb() {
     )
   `);
 
+  // Train Schedules Table (timetable entries driving the announcement scheduler)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS train_schedules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      route_id INTEGER NOT NULL,
+      arrival_time TEXT, -- 'HH:MM' station local time
+      departure_time TEXT, -- 'HH:MM' station local time
+      platform TEXT NOT NULL,
+      status TEXT DEFAULT 'active',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (route_id) REFERENCES train_routes(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Schedule Announcement Rules Table (which category fires how long before/after arrival or departure)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schedule_announcement_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      schedule_id INTEGER NOT NULL,
+      category TEXT NOT NULL,
+      reference TEXT NOT NULL DEFAULT 'arrival', -- 'arrival' or 'departure'
+      offset_minutes INTEGER NOT NULL DEFAULT 0, -- minutes before the reference time, negative for after
+      FOREIGN KEY (schedule_id) REFERENCES train_schedules(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Scheduler Log Table (what the scheduler played, skipped or failed, and when)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS scheduler_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      schedule_id INTEGER NOT NULL,
+      rule_id INTEGER NOT NULL,
+      route_id INTEGER NOT NULL,
+      train_number TEXT NOT NULL,
+      train_name TEXT,
+      platform TEXT NOT NULL,
+      category TEXT NOT NULL,
+      service_date TEXT NOT NULL, -- 'YYYY-MM-DD'
+      scheduled_for TEXT NOT NULL, -- ISO timestamp of the planned fire time
+      status TEXT NOT NULL, -- 'generating', 'ready', 'played', 'skipped', 'failed' or 'missed'
+      audio_files TEXT, -- JSON string: {en: "path", hi: "path", mr: "path", gu: "path"}
+      playout_path TEXT, -- all languages in sequence, when the category has a playout
+      error TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(rule_id, service_date)
+    )
+  `);
+  const schedulerLogColumns = await db.all('PRAGMA table_info(scheduler_log)');
+  if (!schedulerLogColumns.some(col => col.name === 'playout_path')) {
+    await db.exec('ALTER TABLE scheduler_log ADD COLUMN playout_path TEXT');
+  }
+
+  // Scheduler Settings Table (key/value flags such as the global pause switch)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS scheduler_settings (
+      key TEXT PRIMARY KEY,
+      value TEXT
+    )
+  `);
+
+  // Announcement Chimes Table (intro/outro jingles played around an announcement)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS announcement_chimes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK(kind IN ('intro', 'outro')),
+      file_path TEXT NOT NULL,
+      status TEXT DEFAULT 'active',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Category Chimes Table (which intro/outro each template category uses)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS category_chimes (
+      category TEXT PRIMARY KEY,
+      intro_chime_id INTEGER,
+      outro_chime_id INTEGER,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (intro_chime_id) REFERENCES announcement_chimes (id) ON DELETE SET NULL,
+      FOREIGN KEY (outro_chime_id) REFERENCES announcement_chimes (id) ON DELETE SET NULL
+    )
+  `);
+
+  // Announcement Categories Table (registry of template categories and their display settings)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS announcement_categories (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      key TEXT NOT NULL UNIQUE,
+      display_names TEXT NOT NULL, -- JSON string: {en: "...", hi: "...", mr: "...", gu: "..."}
+      icon TEXT DEFAULT 'Megaphone',
+      color TEXT DEFAULT '#2563eb',
+      priority INTEGER DEFAULT 5,
+      required_placeholders TEXT DEFAULT '[]', -- JSON array of placeholder keys
+      sort_order INTEGER DEFAULT 0,
+      status TEXT DEFAULT 'active',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Seed the original four categories; deleted ones keep their row and are not re-added.
+  for (const category of DEFAULT_ANNOUNCEMENT_CATEGORIES) {
+    await db.run(
+      `INSERT OR IGNORE INTO announcement_categories (key, display_names, icon, color, priority, required_placeholders, sort_order)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        category.key,
+        JSON.stringify(category.display_names),
+        category.icon,
+        category.color,
+        category.priority,
+        JSON.stringify(category.required_placeholders),
+        category.sort_order,
+      ]
+    );
+  }
+
+  // ISL Lexicon Table (aliases that map inflections and synonyms onto an existing sign video)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS isl_lexicon (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      alias TEXT NOT NULL,
+      sign TEXT NOT NULL,
+      avatar_model TEXT NOT NULL DEFAULT 'all', -- 'all', 'male' or 'female'
+      kind TEXT NOT NULL DEFAULT 'synonym',
+      status TEXT DEFAULT 'active',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(alias, avatar_model)
+    )
+  `);
+
+  for (const entry of DEFAULT_ISL_LEXICON) {
+    await db.run(
+      'INSERT OR IGNORE INTO isl_lexicon (alias, sign, avatar_model, kind) VALUES (?, ?, ?, ?)',
+      [entry.alias, entry.sign, entry.avatar_model, entry.kind]
+    );
+  }
+
+  // ISL Video Cache Tables (stitched announcement videos keyed by clip sequence, plus lookup counters)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS isl_video_cache (
+      cache_key TEXT PRIMARY KEY,
+      file_path TEXT NOT NULL,
+      avatar_model TEXT NOT NULL,
+      clip_count INTEGER NOT NULL,
+      size_bytes INTEGER DEFAULT 0,
+      hit_count INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS isl_video_cache_stats (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      hits INTEGER DEFAULT 0,
+      misses INTEGER DEFAULT 0,
+      evictions INTEGER DEFAULT 0,
+      reset_at DATETIME
+    )
+  `);
+  await db.run('INSERT OR IGNORE INTO isl_video_cache_stats (id) VALUES (1)');
+
+  // Render Jobs Table (background ffmpeg queue, see src/lib/job-queue.ts)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS render_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued', -- 'queued', 'running', 'completed', 'failed' or 'cancelled'
+      progress REAL,
+      message TEXT,
+      payload TEXT, -- JSON string
+      result TEXT, -- JSON string
+      error TEXT,
+      attempts INTEGER DEFAULT 0,
+      max_attempts INTEGER DEFAULT 1,
+      cancel_requested INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      started_at DATETIME,
+      finished_at DATETIME
+    )
+  `);
+
+  // Announcements published to station display boards (see src/lib/kiosk-feed.ts)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS kiosk_announcements (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      platform TEXT NOT NULL,
+      payload TEXT NOT NULL, -- JSON string
+      target_ids TEXT DEFAULT '[]', -- JSON array of display_targets ids
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  const kioskColumns = await db.all('PRAGMA table_info(kiosk_announcements)');
+  if (!kioskColumns.some(col => col.name === 'target_ids')) {
+    await db.exec("ALTER TABLE kiosk_announcements ADD COLUMN target_ids TEXT DEFAULT '[]'");
+  }
+
+  // Station display screens and the rules that route announcements to them (see src/lib/display-targets.ts)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS display_targets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      kind TEXT NOT NULL, -- 'platform', 'concourse' or 'waiting_hall'
+      platform TEXT, -- platform screens only
+      location TEXT,
+      enabled INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  const hasRoutingRules = await db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'display_routing_rules'");
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS display_routing_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      category TEXT, -- NULL matches every category
+      destination TEXT NOT NULL, -- 'announcement_platform', 'target_kind' or 'target'
+      include_adjacent INTEGER DEFAULT 0,
+      target_kind TEXT,
+      target_id INTEGER,
+      enabled INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  // Seeded once, so rules the station removes stay removed
+  if (!hasRoutingRules) {
+    await db.run("INSERT INTO display_routing_rules (category, destination, include_adjacent) VALUES (NULL, 'announcement_platform', 1)");
+    await db.run("INSERT INTO display_routing_rules (category, destination, target_kind) VALUES ('Cancelled', 'target_kind', 'concourse')");
+  }
+
+  // Published ISL pages, rendered on request by /published/<id> (see src/lib/published-page.ts)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS published_pages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL, -- 'announcement' or 'podcast'
+      title TEXT NOT NULL,
+      data TEXT NOT NULL, -- JSON PublishedPageData
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
   return db;
 }
 
@@ -673,6 +1004,11 @@ export type VideoMetadata = {
   name: string;
   size: number;
   duration?: number;
+  inPoint?: number | null;
+  outPoint?: number | null;
+  signingSpeed?: number | null;
+  tags?: IslClipTag[];
+  reviewStatus?: IslClipReviewStatus;
 };
 
 export async function getIslVideos(): Promise<string[]> {
@@ -748,7 +1084,7 @@ export async function getIslVideosWithMetadata(): Promise<VideoMetadata[]> {
   const db = await getDb();
   try {
     const videos = await db.all(`
-      SELECT file_path, name, size, duration 
+      SELECT file_path, name, size, duration, in_point, out_point, signing_speed, tags, review_status 
       FROM isl_dataset_videos 
       WHERE status = 'active' 
       ORDER BY name ASC
@@ -758,7 +1094,12 @@ export async function getIslVideosWithMetadata(): Promise<VideoMetadata[]> {
       path: video.file_path,
       name: video.name,
       size: video.size,
-      duration: video.duration
+      duration: video.duration,
+      inPoint: video.in_point,
+      outPoint: video.out_point,
+      signingSpeed: video.signing_speed,
+      tags: parseClipTags(video.tags),
+      reviewStatus: video.review_status || 'approved'
     }));
   } catch (error) {
     console.error('Failed to fetch ISL videos from database:', error);
@@ -785,7 +1126,7 @@ export async function getIslFemaleVideosWithMetadata(): Promise<VideoMetadata[]>
       }
       
       const videos = await db.all(`
-        SELECT file_path, name, size, duration 
+        SELECT file_path, name, size, duration, in_point, out_point, signing_speed, tags, review_status 
         FROM isl_dataset_female_videos 
         WHERE status = 'active' 
         ORDER BY name ASC
@@ -795,7 +1136,12 @@ export async function getIslFemaleVideosWithMetadata(): Promise<VideoMetadata[]>
         path: video.file_path,
         name: video.name,
         size: video.size,
-        duration: video.duration
+        duration: video.duration,
+        inPoint: video.in_point,
+        outPoint: video.out_point,
+        signingSpeed: video.signing_speed,
+        tags: parseClipTags(video.tags),
+        reviewStatus: video.review_status || 'approved'
       }));
     } finally {
       await db.close();
@@ -818,14 +1164,7 @@ export async function syncIslDatasetWithDatabase(): Promise<void> {
     // Function to get video duration using ffprobe
     const getVideoDuration = async (filePath: string): Promise<number | undefined> => {
       try {
-        const { exec } = await import('child_process');
-        const { promisify } = await import('util');
-        const execAsync = promisify(exec);
-        
-        const command = `ffprobe -v quiet -show_entries format=duration -of csv=p=0 "${filePath}"`;
-        const { stdout } = await execAsync(command);
-        const duration = parseFloat(stdout.trim());
-        return isNaN(duration) ? undefined : duration;
+        return (await getMediaDuration(filePath)) ?? undefined;
       } catch (error) {
         console.warn(`Could not get duration for ${filePath}:`, error);
         return undefined;
@@ -869,9 +1208,9 @@ export async function syncIslDatasetWithDatabase(): Promise<void> {
                 // Get video duration for new files
                 const duration = await getVideoDuration(fullPath);
                 
-                // Insert new video record
+                // Insert new video record; clips found on disk wait for review like uploaded ones
                 await db.run(
-                  `INSERT INTO ${tableName} (file_path, name, size, duration) VALUES (?, ?, ?, ?)`,
+                  `INSERT INTO ${tableName} (file_path, name, size, duration, review_status) VALUES (?, ?, ?, ?, 'pending')`,
                   [webPath, videoName, stats.size, duration]
                 );
               }
@@ -925,6 +1264,8 @@ export async function syncIslDatasetWithDatabase(): Promise<void> {
     console.warn('Error syncing ISL datasets:', error);
   } finally {
     await db.close();
+    // Whatever the sync found on disk, rebuild both lookup indexes from it
+    invalidateSignIndex();
   }
 }
 
@@ -933,12 +1274,34 @@ export type Template = {
   category: string;
   language_code: string;
   template_text: string;
+  version?: number;
+};
+
+export type TemplateVersion = {
+  id: number;
+  category: string;
+  language_code: string;
+  version: number;
+  template_text: string;
+  has_audio: boolean;
+  change_note: string | null;
+  created_at: string;
+};
+
+export type TemplateSaveResult = {
+  changed: boolean;
+  // Not saved because of lint errors; save again with allowLintErrors once the user confirms.
+  blocked: boolean;
+  version: number;
+  regeneratedParts: number;
+  reusedParts: number;
+  issues: TemplateLintIssue[];
 };
 
 export async function getAnnouncementTemplates(): Promise<Template[]> {
     const db = await getDb();
     try {
-        const templates = await db.all('SELECT id, category, language_code, template_text FROM announcement_templates');
+        const templates = await db.all('SELECT id, category, language_code, template_text, version FROM announcement_templates');
         return templates;
     } catch (error) {
         console.error('Failed to fetch announcement templates:', error);
@@ -948,18 +1311,99 @@ export async function getAnnouncementTemplates(): Promise<Template[]> {
     }
 }
 
-export async function saveAnnouncementTemplate(template: Omit<Template, 'id'>) {
+// Saves a template as a new version. Unchanged text is a no-op. When the template already
+// has audio, parts whose static text is unchanged keep their audio and only the rest is regenerated.
+// Text with lint errors is not saved unless `allowLintErrors` is set; warnings never block.
+export async function saveAnnouncementTemplate(
+    template: Omit<Template, 'id' | 'version'>,
+    changeNote?: string,
+    extraAudioCandidates: { text: string; audioPath: string }[] = [],
+    allowLintErrors: boolean = false
+): Promise<TemplateSaveResult> {
+    const { category, language_code, template_text } = template;
     const db = await getDb();
     try {
-        // Use INSERT OR REPLACE to either insert a new record or replace an existing one
-        // based on the UNIQUE constraint on (category, language_code).
-        // Also, explicitly set template_audio_parts to NULL to clear old audio paths.
-        const stmt = await db.prepare(
-            'INSERT OR REPLACE INTO announcement_templates (category, language_code, template_text, template_audio_parts) VALUES (?, ?, ?, NULL)'
+        const siblings: { language_code: string; template_text: string }[] = await db.all(
+            'SELECT language_code, template_text FROM announcement_templates WHERE category = ? AND language_code != ?',
+            [category, language_code]
+        );
+        const categoryRow = await db.get('SELECT required_placeholders FROM announcement_categories WHERE key = ?', [category]);
+        const issues = lintTemplate(
+            language_code,
+            template_text,
+            Object.fromEntries(siblings.map(sibling => [sibling.language_code, sibling.template_text])),
+            categoryRow?.required_placeholders ? JSON.parse(categoryRow.required_placeholders) : []
+        );
+        if (issues.length > 0) {
+            console.warn(`Template lint issues for ${category} - ${language_code}:`, issues.map(issue => issue.message));
+        }
+
+        const existing = await db.get(
+            'SELECT template_text, template_audio_parts, version FROM announcement_templates WHERE category = ? AND language_code = ?',
+            [category, language_code]
+        );
+        if (existing && existing.template_text === template_text) {
+            return { changed: false, blocked: false, version: existing.version || 1, regeneratedParts: 0, reusedParts: 0, issues };
+        }
+        if (!allowLintErrors && issues.some(issue => issue.severity === 'error')) {
+            return { changed: false, blocked: true, version: existing?.version || 1, regeneratedParts: 0, reusedParts: 0, issues };
+        }
+
+        const latest = await db.get(
+            'SELECT MAX(version) as version FROM announcement_template_versions WHERE category = ? AND language_code = ?',
+            [category, language_code]
         );
-        await stmt.run(template.category, template.language_code, template.template_text);
-        await stmt.finalize();
+        // Templates saved before versioning existed get their current text recorded as the first version.
+        if (existing && !latest?.version) {
+            await db.run(
+                'INSERT INTO announcement_template_versions (category, language_code, version, template_text, template_audio_parts, change_note) VALUES (?, ?, ?, ?, ?, ?)',
+                [category, language_code, existing.version || 1, existing.template_text, existing.template_audio_parts, 'Initial version']
+            );
+        }
+        const newVersion = Math.max(latest?.version || 0, existing?.version || 0) + 1;
+
+        let audioParts: (string | null)[] | null = null;
+        let regeneratedParts = 0;
+        let reusedParts = 0;
+        const existingAudio = existing?.template_audio_parts ? JSON.parse(existing.template_audio_parts) : null;
+        if (existingAudio) {
+            const candidates = [...getStaticPartAudio(existing.template_text, existingAudio), ...extraAudioCandidates];
+            const reuse = findReusableAudioParts(template_text, candidates);
+            reusedParts = Object.keys(reuse).length;
+            regeneratedParts = getTemplateStaticParts(template_text).length - reusedParts;
+            try {
+                audioParts = await generateTemplateAudio({
+                    templateText: template_text,
+                    category,
+                    languageCode: language_code,
+                    reuseParts: Object.fromEntries(Object.entries(reuse)),
+                    filePrefix: `v${newVersion}_`,
+                });
+            } catch (error) {
+                // The text is still saved; audio can be regenerated from the template audio page.
+                console.error('Failed to regenerate changed template audio parts:', error);
+                audioParts = null;
+                regeneratedParts = 0;
+            }
+        }
+
+        const audioJson = audioParts ? JSON.stringify(audioParts) : null;
+        await db.run(
+            `INSERT INTO announcement_templates (category, language_code, template_text, template_audio_parts, version)
+             VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT(category, language_code) DO UPDATE SET
+               template_text = excluded.template_text,
+               template_audio_parts = excluded.template_audio_parts,
+               version = excluded.version`,
+            [category, language_code, template_text, audioJson, newVersion]
+        );
+        await db.run(
+            'INSERT INTO announcement_template_versions (category, language_code, version, template_text, template_audio_parts, change_note) VALUES (?, ?, ?, ?, ?, ?)',
+            [category, language_code, newVersion, template_text, audioJson, changeNote || null]
+        );
+
         revalidatePath('/announcement-templates');
+        return { changed: true, blocked: false, version: newVersion, regeneratedParts, reusedParts, issues };
     } catch (error) {
         console.error('Failed to save announcement template:', error);
         throw new Error('Failed to save template.');
@@ -968,6 +1412,103 @@ export async function saveAnnouncementTemplate(template: Omit<Template, 'id'>) {
     }
 }
 
+export async function getTemplateVersions(category: string, languageCode: string): Promise<TemplateVersion[]> {
+    const db = await getDb();
+    try {
+        const rows = await db.all(
+            `SELECT id, category, language_code, version, template_text, template_audio_parts, change_note, created_at
+             FROM announcement_template_versions
+             WHERE category = ? AND language_code = ?
+             ORDER BY version DESC`,
+            [category, languageCode]
+        );
+        return rows.map(row => ({
+            id: row.id,
+            category: row.category,
+            language_code: row.language_code,
+            version: row.version,
+            template_text: row.template_text,
+            has_audio: !!row.template_audio_parts,
+            change_note: row.change_note,
+            created_at: row.created_at,
+        }));
+    } catch (error) {
+        console.error('Failed to fetch template versions:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+// Restores an old version by saving its text as a new version, reusing that version's audio where it still exists.
+export async function rollbackAnnouncementTemplate(
+    category: string,
+    languageCode: string,
+    version: number,
+    allowLintErrors: boolean = false
+): Promise<TemplateSaveResult> {
+    const db = await getDb();
+    let target;
+    try {
+        target = await db.get(
+            'SELECT template_text, template_audio_parts FROM announcement_template_versions WHERE category = ? AND language_code = ? AND version = ?',
+            [category, languageCode, version]
+        );
+    } finally {
+        await db.close();
+    }
+    if (!target) {
+        throw new Error(`Version ${version} not found for ${category} - ${languageCode}`);
+    }
+
+    const targetAudio = target.template_audio_parts ? JSON.parse(target.template_audio_parts) : null;
+    const candidates = [];
+    for (const part of getStaticPartAudio(target.template_text, targetAudio)) {
+        const exists = await fs.access(path.join(process.cwd(), 'public', part.audioPath)).then(() => true).catch(() => false);
+        if (exists) candidates.push(part);
+    }
+
+    return await saveAnnouncementTemplate(
+        { category, language_code: languageCode, template_text: target.template_text },
+        `Restored version ${version}`,
+        candidates,
+        allowLintErrors
+    );
+}
+
+const TEMPLATE_LANGUAGE_CODES = ['en', 'hi', 'mr', 'gu'];
+
+export async function deleteAnnouncementTemplate(category: string, languageCode: string) {
+    if (!TEMPLATE_LANGUAGE_CODES.includes(languageCode) || !CATEGORY_KEY_REGEX.test(category)) {
+        throw new Error('Invalid template category or language.');
+    }
+    // The audio folder is removed recursively, so it has to stay inside public/audio/templates.
+    const templatesAudioDir = path.join(process.cwd(), 'public', 'audio', 'templates');
+    const audioDir = path.resolve(templatesAudioDir, category, languageCode);
+    if (!audioDir.startsWith(templatesAudioDir + path.sep)) {
+        throw new Error('Invalid template category or language.');
+    }
+
+    const db = await getDb();
+    try {
+        // Deleted categories still count, so their leftover templates can be cleaned up.
+        const registered = await db.get('SELECT 1 FROM announcement_categories WHERE key = ?', [category]);
+        if (!registered) {
+            throw new Error(`Unknown category "${category}".`);
+        }
+        await db.run('DELETE FROM announcement_templates WHERE category = ? AND language_code = ?', [category, languageCode]);
+        await db.run('DELETE FROM announcement_template_versions WHERE category = ? AND language_code = ?', [category, languageCode]);
+        await fs.rm(audioDir, { recursive: true, force: true });
+        revalidatePath('/announcement-templates');
+        return { message: `Template deleted for ${category} - ${languageCode}.` };
+    } catch (error) {
+        console.error('Failed to delete announcement template:', error);
+        throw new Error('Failed to delete template.');
+    } finally {
+        await db.close();
+    }
+}
+
 export async function generateAndSaveTemplateAudio(category: string, lang: string) {
     const db = await getDb();
     try {
@@ -984,12 +1525,18 @@ export async function generateAndSaveTemplateAudio(category: string, lang: strin
             languageCode: lang,
         });
 
-        // 3. Save the returned paths to the database
+        // 3. Save the returned paths to the database, on the template and its current version
         await db.run('UPDATE announcement_templates SET template_audio_parts = ? WHERE category = ? AND language_code = ?', [
             JSON.stringify(audioParts),
             category,
             lang
         ]);
+        await db.run(
+            `UPDATE announcement_template_versions SET template_audio_parts = ?
+             WHERE category = ? AND language_code = ?
+               AND version = (SELECT version FROM announcement_templates WHERE category = ? AND language_code = ?)`,
+            [JSON.stringify(audioParts), category, lang, category, lang]
+        );
         
         revalidatePath('/ai-database/template-audio');
         return { message: `Audio successfully generated for ${category} in ${lang}.` };
@@ -1014,6 +1561,7 @@ export async function clearAllAnnouncementTemplates() {
     });
 
     await db.run('DELETE FROM announcement_templates');
+    await db.run('DELETE FROM announcement_template_versions');
     revalidatePath('/announcement-templates');
     return { message: 'All announcement templates and their audio have been deleted.' };
   } catch (error) {
@@ -1027,36 +1575,20 @@ export async function clearAllAnnouncementTemplates() {
 // Add this function before stitchVideosWithFfmpeg
 async function validateVideoFile(videoPath: string): Promise<{ valid: boolean; duration?: number; resolution?: string; frameRate?: number; error?: string }> {
     try {
-        const { exec } = require('child_process');
-        const util = require('util');
-        const execAsync = util.promisify(exec);
-        
         const absolutePath = path.join(process.cwd(), 'public', videoPath);
         
         // Use ffprobe to get video information
-        const command = `ffprobe -v quiet -print_format json -show_format -show_streams "${absolutePath}"`;
-        const { stdout } = await execAsync(command);
-        const videoInfo = JSON.parse(stdout);
-        
-        if (!videoInfo.streams || videoInfo.streams.length === 0) {
-            return { valid: false, error: 'No video streams found' };
-        }
-        
-        const videoStream = videoInfo.streams.find((stream: any) => stream.codec_type === 'video');
+        const info = await probeMedia(absolutePath);
+        const videoStream = info.video[0];
         if (!videoStream) {
             return { valid: false, error: 'No video stream found' };
         }
         
-        const duration = parseFloat(videoInfo.format?.duration || '0');
-        const width = parseInt(videoStream.width || '0');
-        const height = parseInt(videoStream.height || '0');
-        const frameRate = videoStream.r_frame_rate ? eval(videoStream.r_frame_rate) : undefined;
-        
         return {
             valid: true,
-            duration,
-            resolution: `${width}x${height}`,
-            frameRate
+            duration: info.durationSec ?? 0,
+            resolution: `${videoStream.width}x${videoStream.height}`,
+            frameRate: videoStream.frameRate ?? undefined
         };
     } catch (error) {
         return { valid: false, error: `Validation failed: ${error instanceof Error ? error.message : String(error)}` };
@@ -1102,21 +1634,23 @@ async function reencodeVideoFile(videoPath: string, outputFileName: string): Pro
     try {
         console.log(`Re-encoding video file: ${videoPath}`);
         
-        const { exec } = require('child_process');
-        const util = require('util');
-        const execAsync = util.promisify(exec);
-        
         const absoluteInputPath = path.join(process.cwd(), 'public', videoPath);
         const outputDir = path.join(process.cwd(), 'public', 'isl_video');
         await fs.mkdir(outputDir, { recursive: true });
         const outputPath = path.join(outputDir, outputFileName);
         
         // Use a more aggressive re-encoding approach for problematic videos
-        const ffmpegCommand = `ffmpeg -i "${absoluteInputPath}" -c:v libx264 -preset fast -crf 20 -an -movflags +faststart -pix_fmt yuv420p -vf "fps=30,scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2" "${outputPath}" -y`;
+        const ffmpegArgs = [
+            '-i', absoluteInputPath,
+            '-c:v', 'libx264', '-preset', 'fast', '-crf', '20', '-an',
+            '-movflags', '+faststart', '-pix_fmt', 'yuv420p',
+            '-vf', 'fps=30,scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2',
+            '-y', outputPath,
+        ];
         
-        console.log('Re-encoding command:', ffmpegCommand);
+        console.log('Re-encoding with ffmpeg:', ffmpegArgs.join(' '));
         
-        const { stdout, stderr } = await execAsync(ffmpegCommand);
+        const { stderr } = await runFfmpeg(ffmpegArgs);
         
         if (stderr) {
             console.log('FFmpeg stderr output:', stderr);
@@ -1144,22 +1678,25 @@ async function reencodeVideoFile(videoPath: string, outputFileName: string): Pro
     }
 }
 
-async function normalizeVideoForStitching(videoPath: string, outputPath: string, targetFrameRate: number = 30, targetResolution: string = '1280x720'): Promise<string | null> {
+async function normalizeVideoForStitching(videoPath: string, outputPath: string, targetFrameRate: number = 30, targetResolution: string = '1280x720', job?: RenderJobContext): Promise<string | null> {
     try {
-        const { exec } = require('child_process');
-        const util = require('util');
-        const execAsync = util.promisify(exec);
-        
         const absoluteInputPath = path.join(process.cwd(), 'public', videoPath);
         const absoluteOutputPath = path.join(process.cwd(), 'public', outputPath);
         
         // Normalize video to standard format for stitching (remove audio for ISL videos)
-        const ffmpegCommand = `ffmpeg -i "${absoluteInputPath}" -vf "fps=${targetFrameRate},scale=${targetResolution}:force_original_aspect_ratio=decrease,pad=${targetResolution}:(ow-iw)/2:(oh-ih)/2" -c:v libx264 -preset fast -crf 23 -an -movflags +faststart -pix_fmt yuv420p "${absoluteOutputPath}" -y`;
+        const ffmpegArgs = [
+            '-i', absoluteInputPath,
+            '-vf', `fps=${targetFrameRate},scale=${targetResolution}:force_original_aspect_ratio=decrease,pad=${targetResolution}:(ow-iw)/2:(oh-ih)/2`,
+            '-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-an',
+            '-movflags', '+faststart', '-pix_fmt', 'yuv420p',
+            '-y', absoluteOutputPath,
+        ];
         
         console.log(`Normalizing video ${videoPath} to ${targetResolution} @ ${targetFrameRate}fps`);
-        console.log('FFmpeg command:', ffmpegCommand);
         
-        const { stdout, stderr } = await execAsync(ffmpegCommand);
+        const { stderr } = job
+            ? await job.runFfmpeg(ffmpegArgs, { range: [50, 100], message: 'Normalizing video' })
+            : await runFfmpeg(ffmpegArgs);
         
         if (stderr) {
             console.log('FFmpeg stderr output:', stderr);
@@ -1184,10 +1721,6 @@ async function preprocessVideoForStitching(videoPath: string): Promise<string |
     try {
         console.log(`Pre-processing video for stitching: ${videoPath}`);
         
-        const { exec } = require('child_process');
-        const util = require('util');
-        const execAsync = util.promisify(exec);
-        
         const absoluteInputPath = path.join(process.cwd(), 'public', videoPath);
         const outputDir = path.join(process.cwd(), 'public', 'isl_video');
         await fs.mkdir(outputDir, { recursive: true });
@@ -1202,11 +1735,17 @@ async function preprocessVideoForStitching(videoPath: string): Promise<string |
         // - Ensure consistent resolution (1280x720)
         // - Remove all audio tracks (-an flag)
         // - Use consistent codec settings (H.264)
-        const ffmpegCommand = `ffmpeg -i "${absoluteInputPath}" -vf "fps=30:round=up,scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2" -c:v libx264 -preset fast -crf 23 -an -movflags +faststart -pix_fmt yuv420p "${outputPath}" -y`;
+        const ffmpegArgs = [
+            '-i', absoluteInputPath,
+            '-vf', 'fps=30:round=up,scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2',
+            '-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-an',
+            '-movflags', '+faststart', '-pix_fmt', 'yuv420p',
+            '-y', outputPath,
+        ];
         
-        console.log('Pre-processing command:', ffmpegCommand);
+        console.log('Pre-processing with ffmpeg:', ffmpegArgs.join(' '));
         
-        const { stdout, stderr } = await execAsync(ffmpegCommand);
+        const { stderr } = await runFfmpeg(ffmpegArgs);
         
         if (stderr) {
             console.log('FFmpeg stderr output:', stderr);
@@ -1243,13 +1782,16 @@ async function preprocessVideoForStitching(videoPath: string): Promise<string |
 async function createFinalIslAnnouncementVideo(
     videoPaths: string[], 
     outputFileName: string,
-    targetDuration: number = 30,
-    playbackSpeed: number = 1.33  // Default 1.33x speed (0.75 PTS)
+    speedFactor: number = 1,
+    job?: RenderJobContext,
+    transition: IslTransitionConfig = getIslTransitionConfig(),
+    clipTrims: Map<string, ClipTrim> = new Map()
 ): Promise<string | null> {
+    const tempListPath = path.join(process.cwd(), 'public', 'isl_video', `temp_video_list_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.txt`);
     try {
         console.log('Creating final ISL announcement video (video only)...');
         console.log('Video paths:', videoPaths);
-        console.log(`Playback speed: ${playbackSpeed}x (PTS multiplier: ${1/playbackSpeed})`);
+        console.log(`Playback speed: ${speedFactor}x`);
         
         // Check and fix problematic videos (especially vapi.mp4)
         const processedVideoPaths: string[] = [];
@@ -1279,45 +1821,46 @@ async function createFinalIslAnnouncementVideo(
         const outputPath = path.join(outputDir, outputFileName);
         
         // Create a temporary file list for ffmpeg
-        const tempListPath = path.join(outputDir, 'temp_video_list.txt');
-        const fileListContent = preprocessedVideoPaths
-            .map(videoPath => `file '${path.join(process.cwd(), 'public', videoPath)}'`)
-            .join('\n');
-        
-        await fs.writeFile(tempListPath, fileListContent);
+        await writeConcatList(tempListPath, preprocessedVideoPaths.map(videoPath => path.join(process.cwd(), 'public', videoPath)));
         console.log('Created temporary file list:', tempListPath);
 
-        const { exec } = require('child_process');
-        const util = require('util');
-        const execAsync = util.promisify(exec);
-
         // Create a video-only file with optimized settings for smooth playback
         // No audio merging - just clean video that won't get stuck
         // Use fast copy method for quick stitching (no re-encoding)
-        const speedMultiplier = 1 / playbackSpeed;  // Convert speed to PTS multiplier
-        let ffmpegCommand = `ffmpeg -f concat -safe 0 -i "${tempListPath}" -c copy "${outputPath}" -y`;
-        
-        console.log('Executing FFmpeg command for video-only announcement:', ffmpegCommand);
+        let ffmpegArgs = ['-f', 'concat', '-safe', '0', '-i', tempListPath, '-c', 'copy', '-y', outputPath];
         
         let success = false;
-        try {
-            const { stdout, stderr } = await execAsync(ffmpegCommand);
-            
-            if (stderr) {
-                console.log('FFmpeg stderr output:', stderr);
-            }
-            if (stdout) {
-                console.log('FFmpeg stdout output:', stdout);
+
+        // Transitions, trimmed clips and speed changes need a filter graph; a hard cut of untrimmed clips at natural speed keeps the fast copy
+        if (transition.type !== 'cut' || speedFactor !== 1 || preprocessedVideoPaths.some(videoPath => hasTrim(clipTrims.get(videoPath)))) {
+            success = await renderIslClipsWithTransitions(preprocessedVideoPaths, outputPath, transition, clipTrims, speedFactor, job);
+            if (!success) {
+                console.log('Transition render failed, falling back to a hard cut...');
             }
+        }
+        
+        // A stream copy can't change the speed, so a retimed video goes straight to re-encoding
+        if (!success && speedFactor === 1) {
+            try {
+                console.log('Executing FFmpeg for video-only announcement:', ffmpegArgs.join(' '));
             
-            // Check if the simple concatenation worked
-            const outputStats = await fs.stat(outputPath);
-            if (outputStats.size > 0) {
-                success = true;
-                console.log('Simple concatenation successful');
+                const { stderr } = job
+                    ? await job.runFfmpeg(ffmpegArgs, { range: [0, 50], message: 'Joining clips' })
+                    : await runFfmpeg(ffmpegArgs);
+            
+                if (stderr) {
+                    console.log('FFmpeg stderr output:', stderr);
+                }
+            
+                // Check if the simple concatenation worked
+                const outputStats = await fs.stat(outputPath);
+                if (outputStats.size > 0) {
+                    success = true;
+                    console.log('Simple concatenation successful');
+                }
+            } catch (error) {
+                console.log('Simple concatenation failed, trying fallback method...');
             }
-        } catch (error) {
-            console.log('Simple concatenation failed, trying fallback method...');
         }
         
         // If simple concatenation failed, try a more robust approach
@@ -1325,18 +1868,23 @@ async function createFinalIslAnnouncementVideo(
             console.log('Using fallback method with re-encoding for better compatibility...');
             
             // Fallback: Create a more robust final video with re-encoding and speed control
-            ffmpegCommand = `ffmpeg -f concat -safe 0 -i "${tempListPath}" -filter_complex "[0:v]fps=30,scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,setpts=${speedMultiplier}*PTS" -c:v libx264 -preset fast -crf 23 -an -movflags +faststart -pix_fmt yuv420p -t ${targetDuration} "${outputPath}" -y`;
+            ffmpegArgs = [
+                '-f', 'concat', '-safe', '0', '-i', tempListPath,
+                '-filter_complex', `[0:v]fps=30,scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,setpts=PTS/${speedFactor.toFixed(3)}`,
+                '-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-an',
+                '-movflags', '+faststart', '-pix_fmt', 'yuv420p',
+                '-y', outputPath,
+            ];
             
-            console.log('Fallback FFmpeg command:', ffmpegCommand);
+            console.log('Fallback FFmpeg args:', ffmpegArgs.join(' '));
             
-            const { stdout, stderr } = await execAsync(ffmpegCommand);
+            const { stderr } = job
+                ? await job.runFfmpeg(ffmpegArgs, { range: [50, 100], message: 'Re-encoding clips' })
+                : await runFfmpeg(ffmpegArgs);
             
             if (stderr) {
                 console.log('Fallback FFmpeg stderr output:', stderr);
             }
-            if (stdout) {
-                console.log('Fallback FFmpeg stdout output:', stdout);
-            }
         }
         
         // Verify the output file was created and has content
@@ -1378,21 +1926,148 @@ async function createFinalIslAnnouncementVideo(
         console.error('Error creating final ISL announcement video:', error);
         
         // Clean up temporary file on error
-        try {
-            const tempListPath = path.join(process.cwd(), 'public', 'isl_video', 'temp_video_list.txt');
-            await fs.unlink(tempListPath).catch(() => {});
-        } catch (cleanupError) {
-            console.warn('Could not clean up temporary file on error');
-        }
+        await fs.unlink(tempListPath).catch(() => {});
         
         return null;
     }
 }
 
-export async function stitchVideosWithFfmpeg(videoPaths: string[], outputFileName: string, normalizeVideos: boolean = false): Promise<string | null> {
+// Joins the clips through the transition filter graph. Returns false (and leaves no output) if ffmpeg fails.
+async function renderIslClipsWithTransitions(
+    videoPaths: string[],
+    outputPath: string,
+    transition: IslTransitionConfig,
+    clipTrims: Map<string, ClipTrim>,
+    speedFactor: number,
+    job?: RenderJobContext
+): Promise<boolean> {
+    try {
+        const clips = [];
+        for (const videoPath of videoPaths) {
+            const validation = await validateVideoFile(videoPath);
+            if (!validation.valid || !validation.duration) {
+                throw new Error(`Cannot read clip ${videoPath}: ${validation.error}`);
+            }
+            clips.push({ durationSec: validation.duration, trim: clipTrims.get(videoPath) ?? null });
+        }
+
+        const { filter, durationSec } = buildTransitionFilter(clips, transition, speedFactor);
+        const ffmpegArgs = [
+            ...videoPaths.flatMap(videoPath => ['-i', path.join(process.cwd(), 'public', videoPath)]),
+            '-filter_complex', filter,
+            '-map', '[out]',
+            '-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-an',
+            '-movflags', '+faststart', '-pix_fmt', 'yuv420p',
+            '-y', outputPath,
+        ];
+
+        console.log(`Joining ${videoPaths.length} clips with ${transition.type} transition (${transition.durationMs}ms) at ${speedFactor}x`);
+        if (job) {
+            await job.runFfmpeg(ffmpegArgs, { durationSec, message: 'Rendering transitions' });
+        } else {
+            await runFfmpeg(ffmpegArgs);
+        }
+
+        const outputStats = await fs.stat(outputPath);
+        return outputStats.size > 0;
+    } catch (error) {
+        console.error('Failed to join ISL clips with transitions:', error);
+        await fs.unlink(outputPath).catch(() => {});
+        return false;
+    }
+}
+
+// Stored in/out points for the clips that have them, keyed by clip path.
+async function getIslClipTrims(videoPaths: string[], avatarModel: 'male' | 'female'): Promise<Map<string, ClipTrim>> {
+    const trims = new Map<string, ClipTrim>();
+    if (videoPaths.length === 0) return trims;
+
+    const tableName = avatarModel === 'female' ? 'isl_dataset_female_videos' : 'isl_dataset_videos';
+    const db = await getDb();
+    try {
+        const rows = await db.all(
+            `SELECT file_path, in_point, out_point FROM ${tableName}
+             WHERE file_path IN (${videoPaths.map(() => '?').join(', ')}) AND (in_point IS NOT NULL OR out_point IS NOT NULL)`,
+            ...videoPaths
+        );
+        for (const row of rows) {
+            trims.set(row.file_path, { inPoint: row.in_point, outPoint: row.out_point });
+        }
+    } catch (error) {
+        console.error('Failed to load ISL clip trims:', error);
+    } finally {
+        await db.close();
+    }
+    return trims;
+}
+
+// Transition used for announcements, shown as the starting point of the preview on the ISL dataset page.
+export async function getDefaultIslTransition(): Promise<IslTransitionConfig> {
+    return getIslTransitionConfig();
+}
+
+export async function saveIslClipMetadata(videoPath: string, avatarModel: 'male' | 'female', metadata: IslClipMetadata): Promise<{ success: boolean; message: string }> {
+    const tableName = avatarModel === 'female' ? 'isl_dataset_female_videos' : 'isl_dataset_videos';
+    const db = await getDb();
+    try {
+        const video = await db.get(`SELECT duration FROM ${tableName} WHERE file_path = ? AND status = 'active'`, videoPath);
+        if (!video) {
+            return { success: false, message: 'Video not found in the dataset.' };
+        }
+        const error = validateClipTrim(metadata, video.duration ?? undefined) || validateSigningSpeed(metadata.signingSpeed);
+        if (error) {
+            return { success: false, message: error };
+        }
+        const tags = ISL_CLIP_TAGS.filter(tag => metadata.tags.includes(tag));
+
+        await db.run(
+            `UPDATE ${tableName} SET in_point = ?, out_point = ?, signing_speed = ?, tags = ?, updated_at = CURRENT_TIMESTAMP WHERE file_path = ?`,
+            metadata.inPoint, metadata.outPoint, metadata.signingSpeed, JSON.stringify(tags), videoPath
+        );
+        revalidatePath('/isl-dataset');
+        return { success: true, message: 'Clip details saved.' };
+    } catch (error) {
+        console.error('Failed to save ISL clip metadata:', error);
+        return { success: false, message: 'Failed to save clip details.' };
+    } finally {
+        await db.close();
+    }
+}
+
+export async function setIslClipReviewStatus(videoPath: string, avatarModel: 'male' | 'female', reviewStatus: IslClipReviewStatus): Promise<{ success: boolean; message: string }> {
+    if (!(reviewStatus in REVIEW_STATUS_LABELS)) {
+        return { success: false, message: 'Unknown review status.' };
+    }
+    const tableName = avatarModel === 'female' ? 'isl_dataset_female_videos' : 'isl_dataset_videos';
+    const db = await getDb();
+    try {
+        const result = await db.run(
+            `UPDATE ${tableName} SET review_status = ?, reviewed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE file_path = ? AND status = 'active'`,
+            reviewStatus, videoPath
+        );
+        if (!result.changes) {
+            return { success: false, message: 'Video not found in the dataset.' };
+        }
+        // Approval decides whether the clip is in the sign index
+        invalidateSignIndex(avatarModel);
+        revalidatePath('/isl-dataset');
+        return { success: true, message: `Clip marked as ${REVIEW_STATUS_LABELS[reviewStatus].toLowerCase()}.` };
+    } catch (error) {
+        console.error('Failed to update ISL clip review status:', error);
+        return { success: false, message: 'Failed to update review status.' };
+    } finally {
+        await db.close();
+    }
+}
+
+// Pass `job` when running inside the render queue to report progress and honour cancellation.
+export async function stitchVideosWithFfmpeg(videoPaths: string[], outputFileName: string, normalizeVideos: boolean = false, job?: RenderJobContext): Promise<string | null> {
     if (videoPaths.length === 0) return null;
     if (videoPaths.length === 1) return videoPaths[0]; // No need to stitch if only one video
 
+    // Unique per call, so stitches running side by side in the render queue don't share a list
+    const tempListPath = path.join(process.cwd(), 'public', 'isl_video', `temp_video_list_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.txt`);
+
     try {
         console.log('Starting video stitching process...');
         console.log('Input videos:', videoPaths);
@@ -1430,33 +2105,26 @@ export async function stitchVideosWithFfmpeg(videoPaths: string[], outputFileNam
         const outputPath = path.join(outputDir, outputFileName);
         
         // Create a temporary file list for ffmpeg
-        const tempListPath = path.join(outputDir, 'temp_video_list.txt');
-        const fileListContent = videoPaths
-            .map(videoPath => `file '${path.join(process.cwd(), 'public', videoPath)}'`)
-            .join('\n');
-        
-        await fs.writeFile(tempListPath, fileListContent);
+        await writeConcatList(tempListPath, videoPaths.map(videoPath => path.join(process.cwd(), 'public', videoPath)));
         console.log('Created temporary file list:', tempListPath);
 
-        // Use ffmpeg to concatenate videos with proper re-encoding for compatibility
-        const { exec } = require('child_process');
-        const util = require('util');
-        const execAsync = util.promisify(exec);
-
         // Fast FFmpeg command using copy mode for quick stitching
         // This avoids re-encoding and is much faster
-        const ffmpegCommand = `ffmpeg -f concat -safe 0 -i "${tempListPath}" -c copy "${outputPath}" -y`;
+        const ffmpegArgs = ['-f', 'concat', '-safe', '0', '-i', tempListPath, '-c', 'copy', '-y', outputPath];
         
-        console.log('Executing FFmpeg command:', ffmpegCommand);
+        console.log('Executing FFmpeg:', ffmpegArgs.join(' '));
         
-        const { stdout, stderr } = await execAsync(ffmpegCommand);
+        const { stderr } = job
+            ? await job.runFfmpeg(ffmpegArgs, {
+                durationSec: durations.reduce((sum, duration) => sum + duration, 0),
+                range: normalizeVideos ? [0, 50] : [0, 100],
+                message: `Stitching ${videoPaths.length} clips`,
+            })
+            : await runFfmpeg(ffmpegArgs);
         
         if (stderr) {
             console.log('FFmpeg stderr output:', stderr);
         }
-        if (stdout) {
-            console.log('FFmpeg stdout output:', stdout);
-        }
         
         // Verify the output file was created and has content
         try {
@@ -1483,48 +2151,72 @@ export async function stitchVideosWithFfmpeg(videoPaths: string[], outputFileNam
             console.warn('Could not clean up temporary file list');
         });
         
+        const relativeOutputPath = outputPath.replace(path.join(process.cwd(), 'public'), '');
         if (normalizeVideos) {
-            return await normalizeVideoForStitching(outputPath, outputPath, 30, '1280x720');
+            // ffmpeg can't write over its own input, so the normalized copy gets its own name
+            return await normalizeVideoForStitching(relativeOutputPath, relativeOutputPath.replace(/\.mp4$/, '_normalized.mp4'), 30, '1280x720', job);
         }
         
-        return outputPath.replace(path.join(process.cwd(), 'public'), '');
+        return relativeOutputPath;
     } catch (error) {
         console.error('Error stitching videos with ffmpeg:', error);
         
         // Clean up temporary file on error
-        try {
-            const tempListPath = path.join(process.cwd(), 'public', 'isl_video', 'temp_video_list.txt');
-            await fs.unlink(tempListPath).catch(() => {});
-        } catch (cleanupError) {
-            console.warn('Could not clean up temporary file on error');
-        }
+        await fs.unlink(tempListPath).catch(() => {});
         
         return null;
     }
 }
 
-export async function getIslVideoPlaylist(text: string, avatarModel: 'male' | 'female' = 'male'): Promise<{ playlist: string[]; unmatchedWords: string[] }> {
+// First stage of text-to-ISL: reorders English into ISL sign order using the configured grammar rules.
+export async function generateIslGloss(text: string): Promise<IslGlossResult> {
+    return generateGloss(text, getIslGlossRules());
+}
+
+export type IslPlaylistResult = {
+    playlist: string[];
+    unmatchedWords: string[];
+    // Words with no sign that were spelled out from the alphabet clips instead.
+    fingerspelledWords: string[];
+    // Closest existing signs for each unmatched word, for the report shown to the operator.
+    suggestions: { [word: string]: string[] };
+    // How the stitched video was retimed; absent when the clips were not stitched.
+    timing?: IslTiming;
+    // The word for each sign as it is signed in the stitched video.
+    glossTrack?: GlossTrack;
+};
+
+export async function getIslVideoPlaylist(
+    text: string,
+    avatarModel: 'male' | 'female' = 'male',
+    audioDurationSec: number | null = null
+): Promise<IslPlaylistResult & { gloss: string }> {
     if (!text.trim()) {
-        return { playlist: [], unmatchedWords: [] };
+        return { playlist: [], unmatchedWords: [], fingerspelledWords: [], suggestions: {}, gloss: '' };
     }
 
-    const allVideoPaths = await getIslVideosByModel(avatarModel);
-    const videoMap = new Map<string, string>();
-    
-    // Create mapping from video names to paths
-    allVideoPaths.forEach(p => {
-        // Extract the filename without extension
-        const fileName = p.split('/').pop()?.replace('.mp4', '') ?? '';
-        if (fileName) {
-            // For new uploads, use filename directly; for existing videos with timestamps, remove timestamp
-            const wordName = fileName.replace(/_\d+$/, '');
-            videoMap.set(wordName.toLowerCase(), p);
-        }
-    });
+    const { gloss } = await generateIslGloss(text);
+    const result = await getIslVideoPlaylistForGloss(gloss, avatarModel, undefined, undefined, audioDurationSec);
+    return { ...result, gloss };
+}
+
+// Second stage: looks up videos for a gloss, in the gloss's word order. The gloss may have been edited by an operator.
+// `transition` overrides the configured one, e.g. to preview a transition before switching to it.
+// With `audioDurationSec` the video is retimed to the spoken announcement, otherwise to the signing rate.
+export async function getIslVideoPlaylistForGloss(
+    gloss: string,
+    avatarModel: 'male' | 'female' = 'male',
+    job?: RenderJobContext,
+    transition: IslTransitionConfig = getIslTransitionConfig(),
+    audioDurationSec: number | null = null
+): Promise<IslPlaylistResult> {
+    if (!gloss.trim()) {
+        return { playlist: [], unmatchedWords: [], fingerspelledWords: [], suggestions: {} };
+    }
+
+    const signIndex = await getSignIndex(avatarModel);
     
-    // Process the text to handle spaced numbers properly
-    const processedText = text.toLowerCase().replace(/[.,]/g, '');
-    const words = processedText.split(/\s+/);
+    const words = parseGloss(gloss);
     
     // Split multi-digit numbers into individual digits
     const processedWords: string[] = [];
@@ -1538,82 +2230,458 @@ export async function getIslVideoPlaylist(text: string, avatarModel: 'male' | 'f
     });
     
     const playlist: string[] = [];
+    // Gloss words signed by each clip, for the gloss track
+    const clipLabels: string[] = [];
     const unmatchedWords: string[] = [];
-    let i = 0;
+    const fingerspelledWords: string[] = [];
     
-    while (i < processedWords.length) {
-        const currentWord = processedWords[i];
-        
-        // Check for multi-word phrases first (e.g., "mumbai central")
-        let foundMatch = false;
-        // Check for phrases up to 3 words long
-        for (let j = Math.min(i + 2, processedWords.length - 1); j >= i; j--) {
-            const phrase = processedWords.slice(i, j + 1).join(' ');
-            if (videoMap.has(phrase)) {
-                playlist.push(videoMap.get(phrase)!);
-                i = j + 1;
-                foundMatch = true;
-                break;
-            }
+    // Longest known phrase first (e.g., "please stand behind the yellow line"), then single words
+    for (const match of matchSignPhrases(signIndex, processedWords)) {
+        if (match.video) {
+            playlist.push(match.video);
+            clipLabels.push(match.words.join(' ').toUpperCase());
+            continue;
         }
-        if (!foundMatch) {
-            // If no phrase match, check for single word
-            if (videoMap.has(currentWord)) {
-                playlist.push(videoMap.get(currentWord)!);
-            } else {
-                // Track unmatched words
-                unmatchedWords.push(currentWord);
-            }
-            i++;
+        // Spell out names and other words without a sign; only words that can't be spelled are unmatched
+        const currentWord = match.words[0];
+        const spelledVideo = await getFingerspelledVideo(currentWord, signIndex.signs, avatarModel);
+        if (spelledVideo) {
+            playlist.push(spelledVideo);
+            clipLabels.push(currentWord.toUpperCase());
+            fingerspelledWords.push(currentWord);
+        } else {
+            unmatchedWords.push(currentWord);
         }
     }
     
+    const suggestions: { [word: string]: string[] } = {};
+    const signNames = Array.from(signIndex.signs.keys());
+    for (const word of unmatchedWords) {
+        const closest = suggestSigns(word, signNames);
+        if (closest.length > 0) suggestions[word] = closest;
+    }
+    
     // Create a final, optimized ISL announcement video that won't get stuck
     if (playlist.length > 0) {
-        const outputFileName = `isl_announcement_final_${Date.now()}.mp4`;
-        
-        // Calculate target duration based on number of videos (minimum 30 seconds)
-        const estimatedDuration = Math.max(30, playlist.length * 3);
+        // Speed the joined clips up or down towards the audio length, or the signing rate for this many signs
+        const clipTrims = await getIslClipTrims(playlist, avatarModel);
+        const transitionClips = await getIslTransitionClips(playlist, clipTrims);
+        const naturalDuration = transitionClips ? buildTransitionFilter(transitionClips, transition).durationSec : null;
+        const timing = computeIslTiming(naturalDuration, playlist.length, audioDurationSec, getIslTimingConfig());
+        const renderSettings: IslVideoRenderSettings = {
+            speedFactor: timing.speedFactor,
+            transition,
+            trims: playlist.map(clip => clipTrims.get(clip) ?? null),
+        };
+
+        // The same clip sequence (same train, category and gloss) reuses the earlier stitch
+        const cacheConfig = getIslVideoCacheConfig();
+        const cacheKey = cacheConfig.enabled ? await getIslVideoCacheKey(playlist, avatarModel, renderSettings) : null;
+        if (cacheKey) {
+            const cachedVideo = await findCachedIslVideo(cacheKey);
+            if (cachedVideo) {
+                console.log('Reusing cached ISL announcement video:', cachedVideo);
+                const glossTrack = transitionClips
+                    ? await writeIslGlossTrack(clipLabels, getClipTimeline(transitionClips, transition, timing.speedFactor))
+                    : undefined;
+                return { playlist: [cachedVideo], unmatchedWords, fingerspelledWords, suggestions, timing, glossTrack };
+            }
+            await fs.mkdir(path.join(process.cwd(), 'public', 'isl_video', ISL_VIDEO_CACHE_FOLDER), { recursive: true });
+        }
+
+        const outputFileName = cacheKey
+            ? `${ISL_VIDEO_CACHE_FOLDER}/${cacheKey}.mp4`
+            : `isl_announcement_final_${Date.now()}.mp4`;
         
         console.log(`Creating final ISL announcement video with ${playlist.length} video segments`);
-        console.log(`Target duration: ${estimatedDuration} seconds`);
+        console.log(`Timing: ${timing.source}, ${timing.speedFactor}x (target ${timing.targetDurationSec ?? 'none'}s)`);
         
         // Use the new robust video creation function
         const finalVideo = await createFinalIslAnnouncementVideo(
             playlist, 
             outputFileName,
-            estimatedDuration
+            renderSettings.speedFactor,
+            job,
+            transition,
+            clipTrims
         );
         
         if (finalVideo) {
             console.log('Final ISL announcement video created successfully:', finalVideo);
-            return { playlist: [finalVideo], unmatchedWords };
+            if (cacheKey) {
+                await storeCachedIslVideo(cacheKey, finalVideo, avatarModel, playlist.length, cacheConfig.maxSizeMb * 1024 * 1024);
+            }
+            const glossTrack = transitionClips
+                ? await writeIslGlossTrack(clipLabels, getClipTimeline(transitionClips, transition, timing.speedFactor))
+                : undefined;
+            return { playlist: [finalVideo], unmatchedWords, fingerspelledWords, suggestions, timing, glossTrack };
         } else {
             console.warn('Failed to create final video, falling back to individual videos');
             // Fallback to individual videos if final creation fails
-            return { playlist, unmatchedWords };
+            return { playlist, unmatchedWords, fingerspelledWords, suggestions };
         }
     }
     
-    return { playlist: [], unmatchedWords };
+    return { playlist: [], unmatchedWords, fingerspelledWords, suggestions };
+}
+
+// Length and trim of each clip, or null if a clip can't be probed.
+async function getIslTransitionClips(playlist: string[], clipTrims: Map<string, ClipTrim>): Promise<TransitionClip[] | null> {
+    try {
+        const clips: TransitionClip[] = [];
+        for (const clip of playlist) {
+            const durationSec = await getMediaDuration(path.join(process.cwd(), 'public', clip));
+            if (!durationSec) return null;
+            clips.push({ durationSec, trim: clipTrims.get(clip) ?? null });
+        }
+        return clips;
+    } catch (error) {
+        console.error('Failed to measure ISL clip durations:', error);
+        return null;
+    }
+}
+
+// Gloss translations are looked up once per word for the life of the server process.
+const glossTranslationCache = new Map<string, string>();
+
+async function translateGlossLabels(labels: string[], languageCode: string): Promise<Map<string, string>> {
+    const translations = new Map<string, string>();
+    for (const label of Array.from(new Set(labels))) {
+        // Digits and spelled letters read the same in any language
+        if (/^[A-Z0-9]$/.test(label)) continue;
+        const cacheKey = `${languageCode}:${label}`;
+        let translated = glossTranslationCache.get(cacheKey);
+        if (translated === undefined) {
+            translated = (await translateFlowText(label.toLowerCase(), languageCode, 'en')).trim();
+            // translateText hands back the input when the API fails; don't remember that
+            if (translated.toLowerCase() === label.toLowerCase()) continue;
+            glossTranslationCache.set(cacheKey, translated);
+        }
+        translations.set(label, translated);
+    }
+    return translations;
+}
+
+// Base name for one render's sidecar files. A cached video is shared by every announcement
+// that reuses it, so its captions can't be named after the video.
+function newIslSidecarName(): string {
+    return `isl_render_${Date.now()}_${randomBytes(4).toString('hex')}`;
+}
+
+// Writes a new _gloss.vtt next to the other generated files in public/isl_video, so
+// "Clear ISL videos" removes it too.
+async function writeIslGlossTrack(labels: string[], timeline: { start: number; end: number }[]): Promise<GlossTrack | undefined> {
+    const config = getIslGlossTrackConfig();
+    if (!config.enabled) return undefined;
+    try {
+        const translations = config.secondLanguage && config.secondLanguage !== 'en'
+            ? await translateGlossLabels(labels, config.secondLanguage)
+            : new Map<string, string>();
+        const cues = buildGlossCues(labels, timeline, translations);
+        const vttPath = path.join(process.cwd(), 'public', 'isl_video', `${newIslSidecarName()}_gloss.vtt`);
+        try {
+            await fs.writeFile(vttPath, formatGlossVtt(cues));
+            return { cues, vtt: vttPath.replace(path.join(process.cwd(), 'public'), '') };
+        } catch (error) {
+            console.error('Failed to write ISL gloss track:', error);
+            return { cues, vtt: null };
+        }
+    } catch (error) {
+        console.error('Failed to build ISL gloss track:', error);
+        return undefined;
+    }
+}
+
+// Content hash of the ordered clips (path, size and mtime, so overwritten clips miss), avatar and render settings.
+async function getIslVideoCacheKey(clips: string[], avatarModel: 'male' | 'female', settings: IslVideoRenderSettings): Promise<string> {
+    const fingerprints = await Promise.all(clips.map(async clip => {
+        try {
+            const stats = await fs.stat(path.join(process.cwd(), 'public', clip));
+            return `${clip}:${stats.size}:${stats.mtimeMs}`;
+        } catch {
+            return `${clip}:missing`;
+        }
+    }));
+    return createHash('sha256')
+        .update(JSON.stringify({ clips: fingerprints, avatarModel, settings }))
+        .digest('hex')
+        .slice(0, 32);
+}
+
+async function findCachedIslVideo(cacheKey: string): Promise<string | null> {
+    const db = await getDb();
+    try {
+        const entry = await db.get('SELECT file_path FROM isl_video_cache WHERE cache_key = ?', cacheKey);
+        if (entry) {
+            try {
+                await fs.access(path.join(process.cwd(), 'public', entry.file_path));
+                await db.run('UPDATE isl_video_cache SET hit_count = hit_count + 1, last_used_at = CURRENT_TIMESTAMP WHERE cache_key = ?', cacheKey);
+                await db.run('UPDATE isl_video_cache_stats SET hits = hits + 1 WHERE id = 1');
+                return entry.file_path;
+            } catch {
+                // File was removed behind the cache's back; forget it and rebuild
+                await db.run('DELETE FROM isl_video_cache WHERE cache_key = ?', cacheKey);
+            }
+        }
+        await db.run('UPDATE isl_video_cache_stats SET misses = misses + 1 WHERE id = 1');
+        return null;
+    } catch (error) {
+        console.error('ISL video cache lookup failed:', error);
+        return null;
+    } finally {
+        await db.close();
+    }
+}
+
+async function storeCachedIslVideo(cacheKey: string, filePath: string, avatarModel: 'male' | 'female', clipCount: number, maxBytes: number): Promise<void> {
+    const db = await getDb();
+    try {
+        const { size } = await fs.stat(path.join(process.cwd(), 'public', filePath));
+        await db.run(
+            `INSERT OR REPLACE INTO isl_video_cache (cache_key, file_path, avatar_model, clip_count, size_bytes, hit_count, created_at, last_used_at)
+             VALUES (?, ?, ?, ?, ?, 0, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+            cacheKey, filePath, avatarModel, clipCount, size
+        );
+
+        const entries: IslVideoCacheEntry[] = await db.all('SELECT * FROM isl_video_cache');
+        for (const entry of selectEvictions(entries, maxBytes, cacheKey)) {
+            await deleteCachedIslVideoFiles(entry.file_path);
+            await db.run('DELETE FROM isl_video_cache WHERE cache_key = ?', entry.cache_key);
+            await db.run('UPDATE isl_video_cache_stats SET evictions = evictions + 1 WHERE id = 1');
+            console.log('Evicted cached ISL video:', entry.file_path);
+        }
+    } catch (error) {
+        console.error('Failed to record ISL video in cache:', error);
+    } finally {
+        await db.close();
+    }
+}
+
+// Removes a cached stitch together with the chime-mixed copy made from it.
+async function deleteCachedIslVideoFiles(filePath: string): Promise<void> {
+    const absolutePath = path.join(process.cwd(), 'public', filePath);
+    await fs.unlink(absolutePath).catch(() => {});
+    await fs.unlink(absolutePath.replace(/\.mp4$/, '_chimes.mp4')).catch(() => {});
+}
+
+// Builds (or reuses) a clip that fingerspells the word from the avatar's alphabet clips.
+// Returns null when fingerspelling is off or a letter has no clip.
+async function getFingerspelledVideo(word: string, signMap: Map<string, string>, avatarModel: 'male' | 'female'): Promise<string | null> {
+    const config = getFingerspellingConfig();
+    if (!config.enabled) return null;
+
+    const letters = getSpellableLetters(word, config);
+    if (!letters) return null;
+
+    const missingLetters = letters.filter(letter => !signMap.has(letter));
+    if (missingLetters.length > 0) {
+        console.warn(`Cannot fingerspell "${word}", no ${avatarModel} clip for: ${Array.from(new Set(missingLetters)).join(', ')}`);
+        return null;
+    }
+
+    const outputDir = path.join(process.cwd(), 'public', 'isl_video');
+    const outputFileName = getFingerspellingFileName(word, avatarModel, config);
+    const outputPath = path.join(outputDir, outputFileName);
+    const relativeOutputPath = `/isl_video/${outputFileName}`;
+
+    try {
+        await fs.access(outputPath);
+        return relativeOutputPath;
+    } catch {
+        // Not built yet
+    }
+
+    try {
+        const letterPaths = letters.map(letter => signMap.get(letter)!);
+        const durations: number[] = [];
+        for (const letterPath of letterPaths) {
+            const validation = await validateVideoFile(letterPath);
+            if (!validation.valid || !validation.duration) {
+                console.warn(`Cannot fingerspell "${word}", letter clip ${letterPath} is invalid:`, validation.error);
+                return null;
+            }
+            durations.push(validation.duration);
+        }
+
+        await fs.mkdir(outputDir, { recursive: true });
+        const inputs = letterPaths.flatMap(letterPath => ['-i', path.join(process.cwd(), 'public', letterPath)]);
+        const filter = buildFingerspellingFilter(word, durations, config);
+
+        console.log(`Fingerspelling "${word}" from ${letters.length} letter clips`);
+        await runFfmpeg([
+            ...inputs,
+            '-filter_complex', filter,
+            '-map', '[out]',
+            '-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-an',
+            '-movflags', '+faststart', '-pix_fmt', 'yuv420p',
+            '-y', outputPath,
+        ]);
+
+        const outputStats = await fs.stat(outputPath);
+        if (outputStats.size === 0) {
+            throw new Error('Fingerspelled video file is empty');
+        }
+        return relativeOutputPath;
+    } catch (error) {
+        console.error(`Failed to fingerspell "${word}":`, error);
+        await fs.unlink(outputPath).catch(() => {});
+        return null;
+    }
+}
+
+// Sign lookup index for the model, rebuilt from the dataset folders and lexicon only after an invalidation.
+async function getSignIndex(avatarModel: 'male' | 'female'): Promise<SignIndex> {
+    const cached = getCachedSignIndex(avatarModel);
+    if (cached) return cached;
+
+    // Only approved clips are signed; pending, rejected and not yet synced clips are left out
+    const approved = await getApprovedIslClips(avatarModel);
+    const signs = new Map<string, string>();
+    (await getIslVideosByModel(avatarModel)).filter(p => approved.has(p)).forEach(p => {
+        const signName = getSignNameFromPath(p);
+        if (signName) {
+            signs.set(signName, p);
+        }
+    });
+
+    // Lexicon aliases let inflections and synonyms reuse an existing sign
+    const index = buildSignIndex(signs, await getActiveLexiconEntries(), avatarModel);
+    setCachedSignIndex(avatarModel, index);
+    return index;
+}
+
+async function getApprovedIslClips(avatarModel: 'male' | 'female'): Promise<Set<string>> {
+    const tableName = avatarModel === 'female' ? 'isl_dataset_female_videos' : 'isl_dataset_videos';
+    const db = await getDb();
+    try {
+        const rows = await db.all(`SELECT file_path FROM ${tableName} WHERE review_status = 'approved'`);
+        return new Set(rows.map((row: any) => row.file_path));
+    } catch (error) {
+        console.error('Failed to load ISL clip review status:', error);
+        return new Set();
+    } finally {
+        await db.close();
+    }
+}
+
+async function getActiveLexiconEntries(): Promise<IslLexiconEntry[]> {
+    const db = await getDb();
+    try {
+        return await db.all("SELECT id, alias, sign, avatar_model, kind FROM isl_lexicon WHERE status = 'active'");
+    } catch (error) {
+        console.error('Failed to load ISL lexicon:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+// Lays the category's intro/outro chimes onto the (silent) stitched ISL video as its audio track.
+// The intro starts with the video and the outro is timed to finish with it, so the picture is untouched.
+async function addChimesToIslVideo(videoPath: string, introPath: string | null, outroPath: string | null, job?: RenderJobContext): Promise<string | null> {
+    if (!introPath && !outroPath) return null;
+
+    try {
+        const validation = await validateVideoFile(videoPath);
+        if (!validation.valid || !validation.duration) {
+            console.warn('Cannot add chimes, video validation failed:', validation.error);
+            return null;
+        }
+
+        const absoluteVideoPath = path.join(process.cwd(), 'public', videoPath);
+        const outputPath = absoluteVideoPath.replace(/\.mp4$/, '_chimes.mp4');
+        const inputs = [absoluteVideoPath];
+        const labels: string[] = [];
+        const filters: string[] = [];
+
+        if (introPath) {
+            inputs.push(path.join(process.cwd(), 'public', introPath));
+            labels.push(`[${inputs.length - 1}:a]`);
+        }
+        if (outroPath) {
+            const absoluteOutroPath = path.join(process.cwd(), 'public', outroPath);
+            const outroDuration = (await getMediaDuration(absoluteOutroPath)) || 0;
+            const delayMs = Math.max(0, Math.round((validation.duration - outroDuration) * 1000));
+            inputs.push(absoluteOutroPath);
+            filters.push(`[${inputs.length - 1}:a]adelay=${delayMs}|${delayMs}[outro]`);
+            labels.push('[outro]');
+        }
+
+        filters.push(labels.length > 1
+            ? `${labels.join('')}amix=inputs=${labels.length}:duration=longest:dropout_transition=0,apad[chimes]`
+            : `${labels[0]}apad[chimes]`);
+
+        const ffmpegArgs = [
+            ...inputs.flatMap(input => ['-i', input]),
+            '-filter_complex', filters.join(';'),
+            '-map', '0:v', '-map', '[chimes]',
+            '-c:v', 'copy', '-c:a', 'aac', '-b:a', '128k',
+            '-t', String(validation.duration),
+            '-movflags', '+faststart',
+            '-y', outputPath,
+        ];
+        console.log('Adding chimes to ISL video:', ffmpegArgs.join(' '));
+        if (job) {
+            await job.runFfmpeg(ffmpegArgs, { durationSec: validation.duration, message: 'Adding chimes' });
+        } else {
+            await runFfmpeg(ffmpegArgs);
+        }
+
+        return outputPath.replace(path.join(process.cwd(), 'public'), '');
+    } catch (error) {
+        console.error('Failed to add chimes to ISL video:', error);
+        return null;
+    }
 }
 
-export async function handleGenerateAnnouncement(input: AnnouncementInput, avatarModel: 'male' | 'female' = 'male'): Promise<AnnouncementOutput> {
+export async function handleGenerateAnnouncement(input: AnnouncementInput): Promise<AnnouncementOutput> {
   const announcementData = await generateAnnouncement(input);
   
+  // Only the gloss is built here; the video is rendered in the render queue (queueIslGlossVideo
+  // with the announcement options), so a long stitch doesn't hold up this request.
   const englishAnnouncement = announcementData.announcements.find(a => a.language_code === 'en');
   if (englishAnnouncement && englishAnnouncement.text) {
+      // Prefer the ISL-friendly rendering of operator values (e.g. times without the colon)
+      const sourceText = announcementData.isl_source_text || englishAnnouncement.text;
       // Add spaces between digits for ISL video generation
-      const processedText = englishAnnouncement.text.replace(/(\d)/g, ' $1 ');
-      const result = await getIslVideoPlaylist(processedText, avatarModel);
-      announcementData.isl_video_playlist = result.playlist;
-  } else {
-      announcementData.isl_video_playlist = [];
+      const processedText = sourceText.replace(/(\d)/g, ' $1 ');
+      const { gloss } = await generateIslGloss(processedText);
+      announcementData.isl_gloss = gloss;
   }
 
   return announcementData;
 }
 
+// Builds the announcement's ISL video from a gloss, so an operator-edited gloss can replace the generated one.
+// `audioDurations` (seconds per language code) retimes the video to the spoken announcement.
+// Runs as an isl_gloss_video render job; see queueIslGlossVideo.
+export async function regenerateAnnouncementIslVideo(
+  gloss: string,
+  avatarModel: 'male' | 'female' = 'male',
+  introChimePath: string | null = null,
+  outroChimePath: string | null = null,
+  audioDurations: { [languageCode: string]: number | null } = {},
+  job?: RenderJobContext
+): Promise<{ playlist: string[]; timing: IslTiming | null; glossTrack: GlossTrack | null }> {
+  const audioDurationSec = pickAudioDuration(audioDurations, getIslTimingConfig());
+  const result = await getIslVideoPlaylistForGloss(gloss, avatarModel, job, undefined, audioDurationSec);
+  const timing = result.timing ?? null;
+  const glossTrack = result.glossTrack ?? null;
+
+  // Only a single stitched video can carry the chimes. A playlist of several clips is what is
+  // left when stitching failed; those are shared dataset clips, so they play without chimes
+  // (the announcement audio still has them).
+  if (result.playlist.length === 1 && result.playlist[0].startsWith('/isl_video/') && (introChimePath || outroChimePath)) {
+      const chimedVideo = await addChimesToIslVideo(result.playlist[0], introChimePath, outroChimePath, job);
+      if (chimedVideo) {
+          return { playlist: [chimedVideo], timing, glossTrack };
+      }
+  } else if (result.playlist.length > 1 && (introChimePath || outroChimePath)) {
+      console.warn(`ISL video fell back to ${result.playlist.length} separate clips; its chimes are left out.`);
+  }
+  return { playlist: result.playlist, timing, glossTrack };
+}
+
 
 // --- Auth Functions ---
 
@@ -1680,7 +2748,10 @@ export type TemplateAudioRecord = {
 };
 
 export type TemplateAudioInfo = {
+    key: string;
     category: string;
+    icon: string | null;
+    color: string | null;
     templates: TemplateAudioRecord[];
 };
 
@@ -1688,18 +2759,24 @@ export async function getTemplateAudioData(): Promise<TemplateAudioInfo[]> {
     const db = await getDb();
     try {
         const results = await db.all(`
-            SELECT category, language_code, template_text, template_audio_parts
-            FROM announcement_templates
-            WHERE template_audio_parts IS NOT NULL
-            ORDER BY category, language_code
+            SELECT t.category, t.language_code, t.template_text, t.template_audio_parts,
+                   c.display_names, c.icon, c.color
+            FROM announcement_templates t
+            LEFT JOIN announcement_categories c ON c.key = t.category
+            WHERE t.template_audio_parts IS NOT NULL
+            ORDER BY COALESCE(c.sort_order, 999), t.category, t.language_code
         `);
         
         const groupedData: Record<string, TemplateAudioInfo> = {};
 
         results.forEach(row => {
             if (!groupedData[row.category]) {
+                const displayNames = row.display_names ? JSON.parse(row.display_names) : {};
                 groupedData[row.category] = {
-                    category: row.category.replace(/_/g, ' '),
+                    key: row.category,
+                    category: displayNames.en || row.category.replace(/_/g, ' '),
+                    icon: row.icon,
+                    color: row.color,
                     templates: [],
                 };
             }
@@ -2170,8 +3247,9 @@ export async function saveAnnouncementToFiles(
   platform: string,
   category: string,
   announcements: any[],
-  islVideoPlaylist: string[]
-): Promise<{ audioFiles: { [key: string]: string }, islVideoFiles: string[], announcementTexts: { [key: string]: string } }> {
+  islVideoPlaylist: string[],
+  burnInLanguage: string | null = null
+): Promise<{ audioFiles: { [key: string]: string }, islVideoFiles: string[], announcementTexts: { [key: string]: string }, subtitleFiles: { [key: string]: SubtitleFiles }, burnedInLanguage: string | null }> {
   const fs = await import('fs/promises');
   const path = await import('path');
   
@@ -2190,7 +3268,7 @@ export async function saveAnnouncementToFiles(
     for (const announcement of announcements) {
       if (announcement.audio_path) {
         const sourcePath = path.join(process.cwd(), 'public', announcement.audio_path);
-        const fileName = `${announcement.language_code}_announcement.wav`;
+        const fileName = `${announcement.language_code}_announcement${path.extname(announcement.audio_path) || '.wav'}`;
         const destPath = path.join(savedAnnouncementsDir, 'audio', fileName);
         
         await fs.copyFile(sourcePath, destPath);
@@ -2214,8 +3292,24 @@ export async function saveAnnouncementToFiles(
     for (const announcement of announcements) {
       announcementTexts[announcement.language_code] = announcement.text;
     }
+
+    // Captions for every language, timed to the stitched video
+    const videoPath = islVideoFiles.length > 0 ? path.join(process.cwd(), 'public', islVideoFiles[0]) : null;
+    const subtitleFiles = await writeSubtitleFiles(
+      path.join(savedAnnouncementsDir, 'subtitles'),
+      'announcement',
+      announcements.map(announcement => ({ languageCode: announcement.language_code, text: announcement.text, durationSec: announcement.body_duration ?? null })),
+      videoPath ? await getMediaDuration(videoPath).catch(() => null) : null
+    );
+
+    let burnedInLanguage: string | null = null;
+    if (burnInLanguage && videoPath && subtitleFiles[burnInLanguage]) {
+      if (await burnInSubtitles(videoPath, path.join(process.cwd(), 'public', subtitleFiles[burnInLanguage].srt))) {
+        burnedInLanguage = burnInLanguage;
+      }
+    }
     
-    return { audioFiles, islVideoFiles, announcementTexts };
+    return { audioFiles, islVideoFiles, announcementTexts, subtitleFiles, burnedInLanguage };
   } catch (error) {
     console.error('Failed to save announcement files:', error);
     throw error;
@@ -2264,7 +3358,7 @@ export async function deleteAnnouncement(id: number): Promise<boolean> {
   }
 }
 
-async function mergeAudioWithVideo(videoPath: string, audioPath: string, outputFileName: string, padDuration: number = 85): Promise<string | null> {
+async function mergeAudioWithVideo(videoPath: string, audioPath: string, outputFileName: string, padDuration: number = 85, job?: RenderJobContext): Promise<string | null> {
     if (!videoPath || !audioPath) {
         console.error('Missing paths:', { videoPath, audioPath });
         return null;
@@ -2309,14 +3403,21 @@ async function mergeAudioWithVideo(videoPath: string, audioPath: string, outputF
         }
         
         // Use ffmpeg to merge audio with video
-        const { exec } = require('child_process');
-        const util = require('util');
-        const execAsync = util.promisify(exec);
-
-        const ffmpegCommand = `ffmpeg -i "${absoluteVideoPath}" -i "${absoluteAudioPath}" -filter_complex "[1:a]apad=pad_dur=${padDuration}[a]" -map 0:v:0 -map "[a]" -c:v copy -c:a aac -b:a 192k -shortest "${outputPath}" -y`;
-        
-        console.log('Executing FFmpeg command:', ffmpegCommand);
-        await execAsync(ffmpegCommand);
+        const ffmpegArgs = [
+            '-i', absoluteVideoPath,
+            '-i', absoluteAudioPath,
+            '-filter_complex', `[1:a]apad=pad_dur=${padDuration}[a]`,
+            '-map', '0:v:0', '-map', '[a]',
+            '-c:v', 'copy', '-c:a', 'aac', '-b:a', '192k', '-shortest',
+            '-y', outputPath,
+        ];
+        
+        console.log('Executing FFmpeg:', ffmpegArgs.join(' '));
+        if (job) {
+            await job.runFfmpeg(ffmpegArgs, { message: 'Merging audio' });
+        } else {
+            await runFfmpeg(ffmpegArgs);
+        }
         
         return outputPath.replace(path.join(process.cwd(), 'public'), '');
     } catch (error) {
@@ -2325,7 +3426,7 @@ async function mergeAudioWithVideo(videoPath: string, audioPath: string, outputF
     }
 }
 
-async function mergeMultipleAudioWithVideo(videoPath: string, audioPaths: string[], outputFileName: string, padDuration: number = 85): Promise<string | null> {
+async function mergeMultipleAudioWithVideo(videoPath: string, audioPaths: string[], outputFileName: string, padDuration: number = 85, job?: RenderJobContext): Promise<string | null> {
     if (!videoPath || audioPaths.length === 0) return null;
 
     try {
@@ -2339,19 +3440,26 @@ async function mergeMultipleAudioWithVideo(videoPath: string, audioPaths: string
         const absoluteAudioPaths = audioPaths.map(audioPath => path.join(process.cwd(), 'public', audioPath));
         
         // Create filter complex for multiple audio files
-        const audioInputs = absoluteAudioPaths.map((_, index) => `-i "${absoluteAudioPaths[index]}"`).join(' ');
+        const audioInputs = absoluteAudioPaths.flatMap(audioPath => ['-i', audioPath]);
         const filterComplex = absoluteAudioPaths.map((_, index) => `[${index + 1}:a]apad=pad_dur=${padDuration}[a${index}]`).join(';');
-        const audioMaps = absoluteAudioPaths.map((_, index) => `-map "[a${index}]"`).join(' ');
+        const audioMaps = absoluteAudioPaths.flatMap((_, index) => ['-map', `[a${index}]`]);
         
         // Use ffmpeg to merge multiple audio files with video
-        const { exec } = require('child_process');
-        const util = require('util');
-        const execAsync = util.promisify(exec);
-
-        const ffmpegCommand = `ffmpeg -i "${absoluteVideoPath}" ${audioInputs} -filter_complex "${filterComplex}" -map 0:v:0 ${audioMaps} -c:v copy -c:a aac -b:a 192k -shortest "${outputPath}" -y`;
-        
-        console.log('Executing FFmpeg command for multiple audio files:', ffmpegCommand);
-        await execAsync(ffmpegCommand);
+        const ffmpegArgs = [
+            '-i', absoluteVideoPath,
+            ...audioInputs,
+            '-filter_complex', filterComplex,
+            '-map', '0:v:0', ...audioMaps,
+            '-c:v', 'copy', '-c:a', 'aac', '-b:a', '192k', '-shortest',
+            '-y', outputPath,
+        ];
+        
+        console.log('Executing FFmpeg for multiple audio files:', ffmpegArgs.join(' '));
+        if (job) {
+            await job.runFfmpeg(ffmpegArgs, { message: 'Merging audio' });
+        } else {
+            await runFfmpeg(ffmpegArgs);
+        }
         
         return outputPath.replace(path.join(process.cwd(), 'public'), '');
     } catch (error) {
@@ -2363,11 +3471,96 @@ async function mergeMultipleAudioWithVideo(videoPath: string, audioPaths: string
 // Export the functions for use in ISL Editor
 export { mergeAudioWithVideo, mergeMultipleAudioWithVideo };
 
+type SubtitleSource = {
+    languageCode: string;
+    text: string;
+    // Length of the language's spoken audio; estimated from the text when unknown.
+    durationSec: number | null;
+};
+
+// Writes <baseName>_<language>.vtt and .srt into `dir` for every language with text.
+// Cues follow each language's audio but never run past the end of the video.
+async function writeSubtitleFiles(
+    dir: string,
+    baseName: string,
+    sources: SubtitleSource[],
+    videoDurationSec: number | null
+): Promise<{ [languageCode: string]: SubtitleFiles }> {
+    const files: { [languageCode: string]: SubtitleFiles } = {};
+    await fs.mkdir(dir, { recursive: true });
+    for (const source of sources) {
+        if (!source.text?.trim() || !/^[a-z]{2,3}$/.test(source.languageCode)) continue;
+        const spokenSec = source.durationSec && source.durationSec > 0 ? source.durationSec : estimateCaptionDuration(source.text);
+        const cues = buildSubtitleCues(source.text, videoDurationSec ? Math.min(spokenSec, videoDurationSec) : spokenSec);
+
+        const vttPath = path.join(dir, `${baseName}_${source.languageCode}.vtt`);
+        const srtPath = path.join(dir, `${baseName}_${source.languageCode}.srt`);
+        await fs.writeFile(vttPath, formatWebVtt(cues));
+        await fs.writeFile(srtPath, formatSrt(cues));
+        files[source.languageCode] = {
+            vtt: vttPath.replace(path.join(process.cwd(), 'public'), ''),
+            srt: srtPath.replace(path.join(process.cwd(), 'public'), ''),
+        };
+    }
+    return files;
+}
+
+// Burns an SRT file into the video in place. ffmpeg runs from the subtitle's folder so the
+// file name inside the filter graph needs no escaping. Returns false and leaves the video
+// untouched if the render fails.
+async function burnInSubtitles(videoPath: string, subtitlePath: string): Promise<boolean> {
+    const subtitleName = path.basename(subtitlePath);
+    if (!/^[\w.-]+$/.test(subtitleName)) {
+        console.error('Refusing to burn in subtitles with an unexpected file name:', subtitleName);
+        return false;
+    }
+    const outputPath = videoPath.replace(/\.mp4$/, '') + '_captioned.mp4';
+    try {
+        await runFfmpeg([
+            '-i', videoPath,
+            '-vf', `subtitles=${subtitleName}:force_style='FontSize=24,Outline=2,MarginV=30'`,
+            '-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-c:a', 'copy',
+            '-movflags', '+faststart', '-pix_fmt', 'yuv420p',
+            '-y', outputPath,
+        ], { cwd: path.dirname(subtitlePath) });
+        await fs.rename(outputPath, videoPath);
+        return true;
+    } catch (error) {
+        console.error('Failed to burn subtitles into video:', error);
+        await fs.unlink(outputPath).catch(() => {});
+        return false;
+    }
+}
+
+// Captions for the announcement's ISL video, written to public/isl_video under a name of their own so
+// "Clear ISL videos" removes them too. The published page loads the WebVTT files as tracks.
+export async function generateAnnouncementSubtitles(
+    announcements: { language_code: string; text: string; body_duration?: number }[],
+    islVideoPath: string
+): Promise<{ [languageCode: string]: SubtitleFiles }> {
+    if (!islVideoPath.startsWith('/isl_video/')) return {};
+    try {
+        const videoPath = path.join(process.cwd(), 'public', islVideoPath);
+        return await writeSubtitleFiles(
+            path.join(process.cwd(), 'public', 'isl_video'),
+            newIslSidecarName(),
+            announcements.map(announcement => ({ languageCode: announcement.language_code, text: announcement.text, durationSec: announcement.body_duration ?? null })),
+            await getMediaDuration(videoPath).catch(() => null)
+        );
+    } catch (error) {
+        console.error('Failed to generate announcement subtitles:', error);
+        return {};
+    }
+}
+
 // ISL Editor Export Function
+// `subtitles` adds caption files for each language's text, timed to that language's audio on the
+// timeline, and optionally burns one language into the picture.
 export async function exportISLVideoWithAudio(
   timelineItems: TimelineItem[],
-  projectName: string = 'untitled'
-): Promise<{ success: boolean; outputPath?: string; error?: string }> {
+  projectName: string = 'untitled',
+  subtitles: { texts: { [languageCode: string]: string }; burnInLanguage?: string | null } | null = null
+): Promise<{ success: boolean; outputPath?: string; subtitleFiles?: { [languageCode: string]: SubtitleFiles }; error?: string }> {
   try {
     // Separate video and audio items from timeline
     const videoItems = timelineItems.filter(item => item.type === 'video');
@@ -2432,11 +3625,31 @@ export async function exportISLVideoWithAudio(
       outputPath = await mergeMultipleAudioWithVideo(videoData.path, audioPaths, outputFileName);
     }
     
-    if (outputPath) {
-      return { success: true, outputPath };
-    } else {
+    if (!outputPath) {
       return { success: false, error: 'Failed to merge audio with video' };
     }
+
+    if (!subtitles) {
+      return { success: true, outputPath };
+    }
+
+    // Each language's audio is its own track starting at zero, so its captions do too
+    const absoluteOutputPath = path.join(process.cwd(), 'public', outputPath);
+    const audioDurations: { [languageCode: string]: number } = {};
+    for (const item of audioItems) {
+      const duration = audioSources.find(a => a.id === item.sourceId)?.duration ?? item.duration;
+      audioDurations[item.language] = Math.max(audioDurations[item.language] ?? 0, duration);
+    }
+    const subtitleFiles = await writeSubtitleFiles(
+      path.dirname(absoluteOutputPath),
+      path.basename(outputFileName, '.mp4').replace(/[^\w-]/g, '_'),
+      Object.entries(subtitles.texts).map(([languageCode, text]) => ({ languageCode, text, durationSec: audioDurations[languageCode] ?? null })),
+      await getMediaDuration(absoluteOutputPath).catch(() => null)
+    );
+    if (subtitles.burnInLanguage && subtitleFiles[subtitles.burnInLanguage]) {
+      await burnInSubtitles(absoluteOutputPath, path.join(process.cwd(), 'public', subtitleFiles[subtitles.burnInLanguage].srt));
+    }
+    return { success: true, outputPath, subtitleFiles };
     
   } catch (error) {
     console.error('Error exporting ISL video with audio:', error);
@@ -2529,7 +3742,8 @@ export async function getAudioSourcesForEditor(): Promise<AudioSource[]> {
     });
 
     // 2. Get Template Audio from file system
-    const templateCategories = ['Arriving', 'Delay', 'Cancelled', 'Platform_Change'];
+    const categoryRows: { key: string }[] = await db.all("SELECT key FROM announcement_categories WHERE status = 'active' ORDER BY sort_order, key");
+    const templateCategories = categoryRows.map(row => row.key);
     const languages = ['en', 'hi', 'mr', 'gu'];
     
     for (const category of templateCategories) {
@@ -3219,50 +4433,29 @@ async function testVideoPlayback(videoPath: string): Promise<{ success: boolean;
     try {
         console.log(`Testing video playback for: ${videoPath}`);
         
-        const { exec } = require('child_process');
-        const util = require('util');
-        const execAsync = util.promisify(exec);
-        
         const absolutePath = path.join(process.cwd(), 'public', videoPath);
         
         // Use ffprobe to check if the video can be read and has valid structure
-        const command = `ffprobe -v quiet -print_format json -show_format -show_streams "${absolutePath}"`;
-        const { stdout, stderr } = await execAsync(command);
-        
-        if (!stdout) {
-            return { success: false, error: 'FFprobe failed to analyze video' };
-        }
-        
-        const videoInfo = JSON.parse(stdout);
-        
-        // Check if video has valid streams
-        if (!videoInfo.streams || videoInfo.streams.length === 0) {
-            return { success: false, error: 'No video streams found' };
-        }
+        const info = await probeMedia(absolutePath);
         
         // Check if video stream exists and is valid
-        const videoStream = videoInfo.streams.find((s: any) => s.codec_type === 'video');
-        if (!videoStream) {
+        if (info.video.length === 0) {
             return { success: false, error: 'No video stream found' };
         }
         
         // Check if video has reasonable duration
-        if (videoInfo.format && videoInfo.format.duration) {
-            const duration = parseFloat(videoInfo.format.duration);
-            if (duration < 0.1) {
+        if (info.durationSec !== null) {
+            if (info.durationSec < 0.1) {
                 return { success: false, error: 'Video duration too short' };
             }
-            if (duration > 3600) { // More than 1 hour
+            if (info.durationSec > 3600) { // More than 1 hour
                 return { success: false, error: 'Video duration too long' };
             }
         }
         
         // Check if video has reasonable file size
-        if (videoInfo.format && videoInfo.format.size) {
-            const size = parseInt(videoInfo.format.size);
-            if (size < 1000) { // Less than 1KB
-                return { success: false, error: 'Video file too small' };
-            }
+        if (info.sizeBytes !== null && info.sizeBytes < 1000) { // Less than 1KB
+            return { success: false, error: 'Video file too small' };
         }
         
         console.log('Video playback test passed - all checks successful');
@@ -3486,20 +4679,13 @@ export async function uploadIslVideo(formData: FormData): Promise<{ success: boo
                 // Get video duration using ffprobe
                 let duration: number | undefined;
                 try {
-                    const { exec } = await import('child_process');
-                    const { promisify } = await import('util');
-                    const execAsync = promisify(exec);
-                    
-                    const command = `ffprobe -v quiet -show_entries format=duration -of csv=p=0 "${finalFilePath}"`;
-                    const { stdout } = await execAsync(command);
-                    duration = parseFloat(stdout.trim());
-                    if (isNaN(duration)) duration = undefined;
+                    duration = (await getMediaDuration(finalFilePath)) ?? undefined;
                 } catch (error) {
                     console.warn(`Could not get duration for ${finalFilePath}:`, error);
                 }
                 
                 await db.run(
-                    'INSERT OR REPLACE INTO isl_dataset_videos (file_path, name, size, duration, status) VALUES (?, ?, ?, ?, "active")',
+                    'INSERT OR REPLACE INTO isl_dataset_videos (file_path, name, size, duration, status, review_status) VALUES (?, ?, ?, ?, "active", "pending")',
                     [relativePath, sanitizedName.replace(/_/g, ' '), file.size, duration]
                 );
                 console.log(`Video added to database: ${relativePath}`);
@@ -3511,6 +4697,7 @@ export async function uploadIslVideo(formData: FormData): Promise<{ success: boo
             // Don't fail the upload if database update fails
         }
         
+        invalidateSignIndex('male');
         return { 
             success: true, 
             message: 'Video uploaded and preprocessed successfully!',
@@ -3559,6 +4746,7 @@ export async function deleteIslVideo(videoPath: string): Promise<{ success: bool
         }
         
         console.log(`ISL video deleted: ${videoPath}`);
+        invalidateSignIndex('male');
         return { 
             success: true,
             message: 'Video deleted successfully'
@@ -3678,37 +4866,7 @@ export async function uploadIslFemaleVideo(formData: FormData): Promise<{ succes
         // Get video duration using ffprobe
         let duration: number | null = null;
         try {
-            const { spawn } = await import('child_process');
-            const ffprobe = spawn('ffprobe', [
-                '-v', 'quiet',
-                '-print_format', 'json',
-                '-show_format',
-                finalFilePath
-            ]);
-            
-            let output = '';
-            ffprobe.stdout.on('data', (data: Buffer) => {
-                output += data.toString();
-            });
-            
-            await new Promise((resolve, reject) => {
-                ffprobe.on('close', (code: number) => {
-                    if (code === 0) {
-                        try {
-                            const metadata = JSON.parse(output);
-                            duration = parseFloat(metadata.format.duration) || null;
-                            resolve(duration);
-                        } catch (parseError) {
-                            console.warn('Failed to parse ffprobe output:', parseError);
-                            resolve(null);
-                        }
-                    } else {
-                        console.warn('ffprobe failed with code:', code);
-                        resolve(null);
-                    }
-                });
-                ffprobe.on('error', reject);
-            });
+            duration = await getMediaDuration(finalFilePath);
         } catch (ffprobeError) {
             console.warn('Failed to get video duration:', ffprobeError);
         }
@@ -3718,8 +4876,8 @@ export async function uploadIslFemaleVideo(formData: FormData): Promise<{ succes
         const db = await getDb();
         try {
             await db.run(`
-                INSERT INTO isl_dataset_female_videos (file_path, name, size, duration, created_at, updated_at)
-                VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+                INSERT INTO isl_dataset_female_videos (file_path, name, size, duration, review_status, created_at, updated_at)
+                VALUES (?, ?, ?, ?, 'pending', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
             `, [relativePath, sanitizedName, fileSize, duration]);
             
             console.log(`ISL female video saved to database: ${relativePath}`);
@@ -3727,6 +4885,7 @@ export async function uploadIslFemaleVideo(formData: FormData): Promise<{ succes
             await db.close();
         }
         
+        invalidateSignIndex('female');
         return { 
             success: true, 
             message: 'Female ISL video uploaded and preprocessed successfully!',
@@ -3845,14 +5004,7 @@ export async function overwriteIslVideo(formData: FormData): Promise<{ success:
                 // Get video duration using ffprobe
                 let duration: number | undefined;
                 try {
-                    const { exec } = await import('child_process');
-                    const { promisify } = await import('util');
-                    const execAsync = promisify(exec);
-                    
-                    const command = `ffprobe -v quiet -show_entries format=duration -of csv=p=0 "${finalFilePath}"`;
-                    const { stdout } = await execAsync(command);
-                    duration = parseFloat(stdout.trim());
-                    if (isNaN(duration)) duration = undefined;
+                    duration = (await getMediaDuration(finalFilePath)) ?? undefined;
                 } catch (ffprobeError) {
                     console.warn('Failed to get video duration:', ffprobeError);
                 }
@@ -3863,8 +5015,8 @@ export async function overwriteIslVideo(formData: FormData): Promise<{ success:
                 
                 // Update existing record or insert new one
                 await db.run(`
-                    INSERT OR REPLACE INTO isl_dataset_videos (file_path, name, size, duration, created_at, updated_at)
-                    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+                    INSERT OR REPLACE INTO isl_dataset_videos (file_path, name, size, duration, review_status, created_at, updated_at)
+                    VALUES (?, ?, ?, ?, 'pending', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
                 `, [relativePath, sanitizedName, fileSize, duration]);
                 
                 console.log(`ISL video updated in database: ${relativePath}`);
@@ -3875,6 +5027,7 @@ export async function overwriteIslVideo(formData: FormData): Promise<{ success:
             console.warn('Failed to update video in database:', dbError);
         }
         
+        invalidateSignIndex('male');
         return { 
             success: true, 
             message: 'Video uploaded and preprocessed successfully!',
@@ -3989,37 +5142,7 @@ export async function overwriteIslFemaleVideo(formData: FormData): Promise<{ suc
         // Get video duration using ffprobe
         let duration: number | null = null;
         try {
-            const { spawn } = await import('child_process');
-            const ffprobe = spawn('ffprobe', [
-                '-v', 'quiet',
-                '-print_format', 'json',
-                '-show_format',
-                finalFilePath
-            ]);
-            
-            let output = '';
-            ffprobe.stdout.on('data', (data: Buffer) => {
-                output += data.toString();
-            });
-            
-            await new Promise((resolve, reject) => {
-                ffprobe.on('close', (code: number) => {
-                    if (code === 0) {
-                        try {
-                            const metadata = JSON.parse(output);
-                            duration = parseFloat(metadata.format.duration) || null;
-                            resolve(duration);
-                        } catch (parseError) {
-                            console.warn('Failed to parse ffprobe output:', parseError);
-                            resolve(null);
-                        }
-                    } else {
-                        console.warn('ffprobe failed with code:', code);
-                        resolve(null);
-                    }
-                });
-                ffprobe.on('error', reject);
-            });
+            duration = await getMediaDuration(finalFilePath);
         } catch (ffprobeError) {
             console.warn('Failed to get video duration:', ffprobeError);
         }
@@ -4029,8 +5152,8 @@ export async function overwriteIslFemaleVideo(formData: FormData): Promise<{ suc
         const db = await getDb();
         try {
             await db.run(`
-                INSERT OR REPLACE INTO isl_dataset_female_videos (file_path, name, size, duration, created_at, updated_at)
-                VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+                INSERT OR REPLACE INTO isl_dataset_female_videos (file_path, name, size, duration, review_status, created_at, updated_at)
+                VALUES (?, ?, ?, ?, 'pending', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
             `, [relativePath, sanitizedName, fileSize, duration]);
             
             console.log(`ISL female video updated in database: ${relativePath}`);
@@ -4038,6 +5161,7 @@ export async function overwriteIslFemaleVideo(formData: FormData): Promise<{ suc
             await db.close();
         }
         
+        invalidateSignIndex('female');
         return { 
             success: true, 
             message: 'Female ISL video uploaded and preprocessed successfully!',
@@ -4086,6 +5210,7 @@ export async function deleteIslFemaleVideo(videoPath: string): Promise<{ success
         }
         
         console.log(`ISL female video deleted: ${videoPath}`);
+        invalidateSignIndex('female');
         return { 
             success: true,
             message: 'Female video deleted successfully'
@@ -12,7 +12,8 @@ import {
 } from '@/components/ui/accordion';
 import { getTemplateAudioData, TemplateAudioInfo } from '@/app/actions';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, ChevronRight, Speaker, Languages } from 'lucide-react';
+import { Loader2, ChevronRight, Languages } from 'lucide-react';
+import CategoryIcon from '@/components/category-icon';
 
 const LANGUAGE_MAP: { [key: string]: string } = {
   'en': 'English',
@@ -104,10 +105,10 @@ export default function TemplateAudioPage({ onViewChange }: { onViewChange: (vie
         ) : audioData.length > 0 ? (
           <Accordion type="single" collapsible className="w-full space-y-4">
             {audioData.map((item) => (
-                <Card key={item.category}>
+                <Card key={item.key}>
                     <CardHeader>
                         <CardTitle className="text-lg flex items-center gap-2">
-                            <Speaker className="h-5 w-5 text-primary" />
+                            <CategoryIcon icon={item.icon} color={item.color} className="h-5 w-5" />
                             {item.category}
                         </CardTitle>
                     </CardHeader>
@@ -0,0 +1,341 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Tags, Loader2, Plus, Pencil, Trash2 } from 'lucide-react';
+import CategoryIcon from '@/components/category-icon';
+import {
+    getAnnouncementCategories,
+    saveAnnouncementCategory,
+    deleteAnnouncementCategory,
+} from '@/app/category-actions';
+import {
+    AnnouncementCategory,
+    CATEGORY_ICON_NAMES,
+    DEFAULT_CATEGORY_COLOR,
+    DEFAULT_CATEGORY_ICON,
+    DEFAULT_CATEGORY_PRIORITY,
+} from '@/lib/announcement-categories';
+import { PLACEHOLDER_DEFINITIONS } from '@/lib/announcement-placeholders';
+
+const LANGUAGES = [
+    { code: 'en', label: 'English' },
+    { code: 'hi', label: 'हिंदी' },
+    { code: 'mr', label: 'मराठी' },
+    { code: 'gu', label: 'ગુજરાતી' },
+];
+
+const EMPTY_CATEGORY: AnnouncementCategory = {
+    key: '',
+    display_names: { en: '', hi: '', mr: '', gu: '' },
+    icon: DEFAULT_CATEGORY_ICON,
+    color: DEFAULT_CATEGORY_COLOR,
+    priority: DEFAULT_CATEGORY_PRIORITY,
+    required_placeholders: ['train_number', 'train_name'],
+    sort_order: 0,
+};
+
+export default function AnnouncementCategoriesPage() {
+    const [categories, setCategories] = useState<AnnouncementCategory[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [editing, setEditing] = useState<AnnouncementCategory | null>(null);
+    const [isNew, setIsNew] = useState(false);
+    const { toast } = useToast();
+
+    const loadCategories = async () => {
+        try {
+            setCategories(await getAnnouncementCategories());
+        } catch (error) {
+            console.error('Failed to load categories:', error);
+            toast({ variant: 'destructive', title: 'Error', description: 'Failed to load announcement categories.' });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadCategories();
+    }, []);
+
+    const openNew = () => {
+        setIsNew(true);
+        setEditing({ ...EMPTY_CATEGORY, sort_order: categories.length + 1 });
+    };
+
+    const openEdit = (category: AnnouncementCategory) => {
+        setIsNew(false);
+        setEditing({ ...category, display_names: { ...category.display_names } });
+    };
+
+    const toggleRequired = (key: string, checked: boolean) => {
+        setEditing(prev => prev && ({
+            ...prev,
+            required_placeholders: checked
+                ? [...prev.required_placeholders, key]
+                : prev.required_placeholders.filter(k => k !== key),
+        }));
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        setIsSaving(true);
+        try {
+            const result = await saveAnnouncementCategory(editing);
+            toast({
+                variant: result.success ? 'default' : 'destructive',
+                title: result.success ? 'Saved' : 'Error',
+                description: result.message,
+            });
+            if (result.success) {
+                setEditing(null);
+                await loadCategories();
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (category: AnnouncementCategory) => {
+        const result = await deleteAnnouncementCategory(category.key);
+        toast({
+            variant: result.success ? 'default' : 'destructive',
+            title: result.success ? 'Deleted' : 'Error',
+            description: result.message,
+        });
+        if (result.success) await loadCategories();
+    };
+
+    return (
+        <div className="w-full space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-lg font-semibold md:text-2xl flex items-center gap-2">
+                        <Tags className="h-6 w-6 text-primary" />
+                        Announcement Categories
+                    </h1>
+                    <p className="text-muted-foreground">
+                        Define the categories templates, schedules and chimes are grouped by.
+                    </p>
+                </div>
+                <Button onClick={openNew}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Category
+                </Button>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Categories</CardTitle>
+                    <CardDescription>
+                        Priority decides which announcement plays first when several are due at once (10 is highest).
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : categories.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">No categories defined.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Category</TableHead>
+                                    <TableHead>Key</TableHead>
+                                    <TableHead>Display Names</TableHead>
+                                    <TableHead className="text-center">Priority</TableHead>
+                                    <TableHead>Required Placeholders</TableHead>
+                                    <TableHead className="w-[100px]">Action</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {categories.map(category => (
+                                    <TableRow key={category.key}>
+                                        <TableCell className="font-medium">
+                                            <span className="flex items-center gap-2">
+                                                <CategoryIcon icon={category.icon} color={category.color} />
+                                                {category.display_names.en}
+                                            </span>
+                                        </TableCell>
+                                        <TableCell className="font-mono text-xs">{category.key}</TableCell>
+                                        <TableCell className="text-xs">
+                                            {LANGUAGES.filter(l => l.code !== 'en').map(l => category.display_names[l.code]).filter(Boolean).join(' / ')}
+                                        </TableCell>
+                                        <TableCell className="text-center">{category.priority}</TableCell>
+                                        <TableCell>
+                                            <div className="flex flex-wrap gap-1">
+                                                {category.required_placeholders.map(key => (
+                                                    <Badge key={key} variant="secondary" className="font-mono text-xs">{`{${key}}`}</Badge>
+                                                ))}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex gap-1">
+                                                <Button variant="ghost" size="icon" onClick={() => openEdit(category)}>
+                                                    <Pencil className="h-4 w-4" />
+                                                </Button>
+                                                <AlertDialog>
+                                                    <AlertDialogTrigger asChild>
+                                                        <Button variant="ghost" size="icon">
+                                                            <Trash2 className="h-4 w-4 text-destructive" />
+                                                        </Button>
+                                                    </AlertDialogTrigger>
+                                                    <AlertDialogContent>
+                                                        <AlertDialogHeader>
+                                                            <AlertDialogTitle>Delete category?</AlertDialogTitle>
+                                                            <AlertDialogDescription>
+                                                                &quot;{category.display_names.en}&quot; will no longer be offered on the dashboard or scheduler.
+                                                                Its templates and audio are kept.
+                                                            </AlertDialogDescription>
+                                                        </AlertDialogHeader>
+                                                        <AlertDialogFooter>
+                                                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                                            <AlertDialogAction onClick={() => handleDelete(category)}>Delete</AlertDialogAction>
+                                                        </AlertDialogFooter>
+                                                    </AlertDialogContent>
+                                                </AlertDialog>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+                <DialogContent className="sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>{isNew ? 'Add Category' : `Edit ${editing?.display_names.en}`}</DialogTitle>
+                        <DialogDescription>
+                            The key is used in template JSON files and audio folders and cannot be changed later.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {editing && (
+                        <div className="grid gap-4 py-2">
+                            <div className="grid grid-cols-3 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="category-key">Key</Label>
+                                    <Input
+                                        id="category-key"
+                                        value={editing.key}
+                                        disabled={!isNew}
+                                        onChange={(e) => setEditing({ ...editing, key: e.target.value })}
+                                        placeholder="e.g. Departing"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="category-priority">Priority</Label>
+                                    <Input
+                                        id="category-priority"
+                                        type="number"
+                                        min={1}
+                                        max={10}
+                                        value={editing.priority}
+                                        onChange={(e) => setEditing({ ...editing, priority: parseInt(e.target.value, 10) || 0 })}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="category-order">Display Order</Label>
+                                    <Input
+                                        id="category-order"
+                                        type="number"
+                                        value={editing.sort_order}
+                                        onChange={(e) => setEditing({ ...editing, sort_order: parseInt(e.target.value, 10) || 0 })}
+                                    />
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                {LANGUAGES.map(language => (
+                                    <div key={language.code} className="space-y-2">
+                                        <Label htmlFor={`category-name-${language.code}`}>Name ({language.label})</Label>
+                                        <Input
+                                            id={`category-name-${language.code}`}
+                                            value={editing.display_names[language.code] || ''}
+                                            onChange={(e) => setEditing({ ...editing, display_names: { ...editing.display_names, [language.code]: e.target.value } })}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label>Icon</Label>
+                                    <Select value={editing.icon} onValueChange={(value) => setEditing({ ...editing, icon: value })}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {CATEGORY_ICON_NAMES.map(name => (
+                                                <SelectItem key={name} value={name}>
+                                                    <span className="flex items-center gap-2">
+                                                        <CategoryIcon icon={name} color={editing.color} />
+                                                        {name}
+                                                    </span>
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="category-color">Colour</Label>
+                                    <Input
+                                        id="category-color"
+                                        type="color"
+                                        value={editing.color}
+                                        onChange={(e) => setEditing({ ...editing, color: e.target.value })}
+                                        className="h-10 p-1"
+                                    />
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Required Placeholders</Label>
+                                <p className="text-xs text-muted-foreground">Templates of this category are flagged when they leave one of these out.</p>
+                                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                                    {PLACEHOLDER_DEFINITIONS.map(definition => (
+                                        <label key={definition.key} className="flex items-center gap-2 text-sm">
+                                            <Checkbox
+                                                checked={editing.required_placeholders.includes(definition.key)}
+                                                onCheckedChange={(checked) => toggleRequired(definition.key, checked === true)}
+                                            />
+                                            {definition.label}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                        <Button onClick={handleSave} disabled={isSaving}>
+                            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,562 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, Loader2, Pause, Play, Plus, SkipForward, Trash2, Pencil, Radio } from 'lucide-react';
+import { getTrainRoutes, TrainRoute } from '@/app/actions';
+import {
+    getTrainSchedules,
+    saveTrainSchedule,
+    deleteTrainSchedule,
+    getSchedulerQueue,
+    setSchedulerPaused,
+    skipQueueItem,
+    takeReadyAnnouncements,
+    getSchedulerLog,
+    clearSchedulerLog,
+    TrainSchedule,
+    ScheduleRule,
+    SchedulerQueueItem,
+    SchedulerLogEntry,
+} from '@/app/scheduler-actions';
+import { getAnnouncementCategories } from '@/app/category-actions';
+import { AnnouncementCategory, getCategoryDisplayName } from '@/lib/announcement-categories';
+
+const PLAYBACK_LANGUAGE_ORDER = ['en', 'hi', 'mr', 'gu'];
+const POLL_INTERVAL_MS = 5000;
+
+const EMPTY_SCHEDULE: TrainSchedule = {
+    route_id: 0,
+    arrival_time: '',
+    departure_time: '',
+    platform: '1',
+    rules: [{ category: 'Arriving', reference: 'arrival', offset_minutes: 5 }],
+};
+
+const STATUS_VARIANTS: { [key: string]: 'default' | 'secondary' | 'destructive' | 'outline' } = {
+    pending: 'outline',
+    due: 'default',
+    ready: 'default',
+    played: 'secondary',
+    skipped: 'outline',
+    failed: 'destructive',
+    missed: 'destructive',
+    generating: 'default',
+};
+
+export default function AnnouncementSchedulerPage() {
+    const [routes, setRoutes] = useState<TrainRoute[]>([]);
+    const [schedules, setSchedules] = useState<TrainSchedule[]>([]);
+    const [categories, setCategories] = useState<AnnouncementCategory[]>([]);
+    const [queue, setQueue] = useState<SchedulerQueueItem[]>([]);
+    const [log, setLog] = useState<SchedulerLogEntry[]>([]);
+    const [isPaused, setIsPaused] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isConsoleRunning, setIsConsoleRunning] = useState(false);
+    const [isEditorOpen, setIsEditorOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [editingSchedule, setEditingSchedule] = useState<TrainSchedule>(EMPTY_SCHEDULE);
+    const [nowPlaying, setNowPlaying] = useState<string | null>(null);
+    const playbackQueueRef = useRef<{ label: string; src: string }[]>([]);
+    const isPlayingRef = useRef(false);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const { toast } = useToast();
+
+    const refreshQueueAndLog = useCallback(async () => {
+        const [queueData, logData] = await Promise.all([getSchedulerQueue(), getSchedulerLog()]);
+        setQueue(queueData.items);
+        setIsPaused(queueData.paused);
+        setLog(logData);
+    }, []);
+
+    const fetchAll = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const [routeData, scheduleData, categoryData] = await Promise.all([getTrainRoutes(), getTrainSchedules(), getAnnouncementCategories()]);
+            setRoutes(routeData);
+            setSchedules(scheduleData);
+            setCategories(categoryData);
+            await refreshQueueAndLog();
+        } catch (error) {
+            console.error('Failed to load scheduler data:', error);
+            toast({
+                variant: 'destructive',
+                title: 'Error',
+                description: 'Failed to load scheduler data.',
+            });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [refreshQueueAndLog, toast]);
+
+    useEffect(() => {
+        fetchAll();
+    }, [fetchAll]);
+
+    const playNext = useCallback(() => {
+        const next = playbackQueueRef.current.shift();
+        if (!next || !audioRef.current) {
+            isPlayingRef.current = false;
+            setNowPlaying(null);
+            return;
+        }
+        isPlayingRef.current = true;
+        setNowPlaying(next.label);
+        audioRef.current.src = next.src;
+        audioRef.current.play().catch(e => {
+            console.error('Scheduled audio play error:', e);
+            playNext();
+        });
+    }, []);
+
+    const enqueuePlayback = useCallback((entries: SchedulerLogEntry[]) => {
+        for (const item of entries) {
+            // The playout file already has every language in sequence
+            if (item.playout_path) {
+                playbackQueueRef.current.push({
+                    label: `${item.train_number} ${getCategoryDisplayName(categories, item.category)} (All Languages)`,
+                    src: item.playout_path,
+                });
+                continue;
+            }
+            for (const lang of PLAYBACK_LANGUAGE_ORDER) {
+                const audioPath = item.audio_files[lang];
+                if (audioPath) {
+                    playbackQueueRef.current.push({
+                        label: `${item.train_number} ${getCategoryDisplayName(categories, item.category)} (${lang.toUpperCase()})`,
+                        src: audioPath,
+                    });
+                }
+            }
+        }
+        if (!isPlayingRef.current) playNext();
+    }, [playNext, categories]);
+
+    // The server generates due announcements; while the console is running it takes them and plays them.
+    useEffect(() => {
+        if (!isConsoleRunning) return;
+
+        let cancelled = false;
+        const tick = async () => {
+            try {
+                // Taken announcements are logged as played, so they are played even if the console was just stopped
+                const ready = await takeReadyAnnouncements();
+                if (ready.length > 0) {
+                    enqueuePlayback(ready);
+                    toast({
+                        title: 'Announcement Fired',
+                        description: ready.map(item => `${item.train_number} - ${getCategoryDisplayName(categories, item.category)}`).join(', '),
+                    });
+                }
+                if (cancelled) return;
+                await refreshQueueAndLog();
+            } catch (error) {
+                console.error('Scheduler poll failed:', error);
+            }
+        };
+
+        tick();
+        const interval = setInterval(tick, POLL_INTERVAL_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [isConsoleRunning, enqueuePlayback, refreshQueueAndLog, toast, categories]);
+
+    const handleTogglePause = async () => {
+        const result = await setSchedulerPaused(!isPaused);
+        setIsPaused(result.paused);
+        toast({
+            title: result.paused ? 'Scheduler Paused' : 'Scheduler Resumed',
+            description: result.paused ? 'No announcements will fire until the scheduler is resumed.' : 'Due announcements will fire automatically.',
+        });
+        await refreshQueueAndLog();
+    };
+
+    const handleSkip = async (item: SchedulerQueueItem) => {
+        const result = await skipQueueItem(item);
+        toast({
+            variant: result.success ? 'default' : 'destructive',
+            title: result.success ? 'Skipped' : 'Error',
+            description: result.message,
+        });
+        await refreshQueueAndLog();
+    };
+
+    const handleOpenEditor = (schedule?: TrainSchedule) => {
+        setEditingSchedule(schedule
+            ? { ...schedule, arrival_time: schedule.arrival_time || '', departure_time: schedule.departure_time || '', rules: schedule.rules.map(r => ({ ...r })) }
+            : { ...EMPTY_SCHEDULE, route_id: routes[0]?.id || 0, rules: EMPTY_SCHEDULE.rules.map(r => ({ ...r })) });
+        setIsEditorOpen(true);
+    };
+
+    const updateRule = (index: number, changes: Partial<ScheduleRule>) => {
+        setEditingSchedule(prev => ({
+            ...prev,
+            rules: prev.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+        }));
+    };
+
+    const handleSaveSchedule = async () => {
+        setIsSaving(true);
+        try {
+            const result = await saveTrainSchedule(editingSchedule);
+            if (!result.success) {
+                toast({ variant: 'destructive', title: 'Error', description: result.message });
+                return;
+            }
+            toast({ title: 'Success', description: result.message });
+            setIsEditorOpen(false);
+            await fetchAll();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDeleteSchedule = async (id: number) => {
+        const result = await deleteTrainSchedule(id);
+        toast({
+            variant: result.success ? 'default' : 'destructive',
+            title: result.success ? 'Success' : 'Error',
+            description: result.message,
+        });
+        await fetchAll();
+    };
+
+    const handleClearLog = async () => {
+        const result = await clearSchedulerLog();
+        toast({ title: 'Success', description: result.message });
+        await refreshQueueAndLog();
+    };
+
+    const describeRule = (rule: ScheduleRule) => {
+        const minutes = Math.abs(rule.offset_minutes);
+        const direction = rule.offset_minutes >= 0 ? 'before' : 'after';
+        return `${getCategoryDisplayName(categories, rule.category)}: ${minutes} min ${direction} ${rule.reference}`;
+    };
+
+    return (
+        <div className="w-full space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-lg font-semibold md:text-2xl flex items-center gap-2">
+                        <CalendarClock className="h-6 w-6 text-primary" />
+                        Announcement Scheduler
+                    </h1>
+                    <p className="text-muted-foreground">
+                        Fire announcements automatically from the timetable, with a live queue and a log of everything played. The server prepares due announcements; a running console plays them.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant={isConsoleRunning ? 'secondary' : 'default'} size="sm" onClick={() => setIsConsoleRunning(!isConsoleRunning)}>
+                        <Radio className="mr-2 h-4 w-4" />
+                        {isConsoleRunning ? 'Stop Console' : 'Start Console'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleTogglePause}>
+                        {isPaused ? <Play className="mr-2 h-4 w-4" /> : <Pause className="mr-2 h-4 w-4" />}
+                        {isPaused ? 'Resume' : 'Pause'}
+                    </Button>
+                </div>
+            </div>
+
+            <audio ref={audioRef} onEnded={playNext} className="hidden" />
+            {(isConsoleRunning || nowPlaying) && (
+                <div className="rounded-md border p-3 text-sm flex items-center gap-2 bg-muted/50">
+                    <Radio className={`h-4 w-4 ${nowPlaying ? 'text-red-600 animate-pulse' : 'text-muted-foreground'}`} />
+                    {nowPlaying ? `Now playing: ${nowPlaying}` : `Console running${isPaused ? ' (scheduler paused)' : ''} - waiting for the next due announcement.`}
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center items-center h-48">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+            ) : (
+                <>
+                    <Card>
+                        <CardHeader className="flex flex-row items-center justify-between">
+                            <div>
+                                <CardTitle>Timetable</CardTitle>
+                                <CardDescription>Expected arrival/departure times, platform assignments and announcement offsets per route.</CardDescription>
+                            </div>
+                            <Button size="sm" onClick={() => handleOpenEditor()} disabled={routes.length === 0}>
+                                <Plus className="mr-2 h-4 w-4" />
+                                Add Schedule
+                            </Button>
+                        </CardHeader>
+                        <CardContent>
+                            {schedules.length > 0 ? (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Train</TableHead>
+                                            <TableHead>Arrival</TableHead>
+                                            <TableHead>Departure</TableHead>
+                                            <TableHead>Platform</TableHead>
+                                            <TableHead>Announcements</TableHead>
+                                            <TableHead className="text-right">Actions</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {schedules.map(schedule => (
+                                            <TableRow key={schedule.id}>
+                                                <TableCell className="font-medium">{schedule.train_number} - {schedule.train_name}</TableCell>
+                                                <TableCell>{schedule.arrival_time || '-'}</TableCell>
+                                                <TableCell>{schedule.departure_time || '-'}</TableCell>
+                                                <TableCell>{schedule.platform}</TableCell>
+                                                <TableCell className="text-xs space-y-1">
+                                                    {schedule.rules.map(rule => <div key={rule.id}>{describeRule(rule)}</div>)}
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                    <div className="flex justify-end gap-1">
+                                                        <Button variant="ghost" size="icon" onClick={() => handleOpenEditor(schedule)}>
+                                                            <Pencil className="h-4 w-4" />
+                                                        </Button>
+                                                        <Button variant="ghost" size="icon" onClick={() => handleDeleteSchedule(schedule.id!)}>
+                                                            <Trash2 className="h-4 w-4 text-destructive" />
+                                                        </Button>
+                                                    </div>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            ) : (
+                                <div className="text-center text-muted-foreground p-12 border rounded-md">
+                                    <p>No schedules yet.</p>
+                                    <p className="text-sm">Add a schedule to start firing announcements automatically.</p>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Today&apos;s Queue</CardTitle>
+                            <CardDescription>Announcements planned for today. Skip any item before it fires.</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {queue.length > 0 ? (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Time</TableHead>
+                                            <TableHead>Train</TableHead>
+                                            <TableHead>Platform</TableHead>
+                                            <TableHead>Category</TableHead>
+                                            <TableHead>Status</TableHead>
+                                            <TableHead className="text-right">Action</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {queue.map(item => (
+                                            <TableRow key={`${item.rule_id}:${item.service_date}`}>
+                                                <TableCell className="font-mono">{item.fire_time}</TableCell>
+                                                <TableCell>{item.train_number} - {item.train_name}</TableCell>
+                                                <TableCell>{item.platform}</TableCell>
+                                                <TableCell>{getCategoryDisplayName(categories, item.category)}</TableCell>
+                                                <TableCell>
+                                                    <Badge variant={STATUS_VARIANTS[item.status]}>{item.status}</Badge>
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                    {(item.status === 'pending' || item.status === 'due' || item.status === 'ready') && (
+                                                        <Button variant="ghost" size="sm" onClick={() => handleSkip(item)}>
+                                                            <SkipForward className="mr-1 h-4 w-4" />
+                                                            Skip
+                                                        </Button>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            ) : (
+                                <p className="text-sm text-muted-foreground">Nothing is scheduled for today.</p>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader className="flex flex-row items-center justify-between">
+                            <div>
+                                <CardTitle>Playback Log</CardTitle>
+                                <CardDescription>What the scheduler played, skipped or failed, and when.</CardDescription>
+                            </div>
+                            <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                    <Button variant="destructive" size="sm" disabled={log.length === 0}>Clear Log</Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                        <AlertDialogTitle>Clear the scheduler log?</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                            This permanently deletes the playback history. Items already handled today may fire again if they are still due.
+                                        </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                        <AlertDialogAction onClick={handleClearLog}>Continue</AlertDialogAction>
+                                    </AlertDialogFooter>
+                                </AlertDialogContent>
+                            </AlertDialog>
+                        </CardHeader>
+                        <CardContent>
+                            {log.length > 0 ? (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Logged At</TableHead>
+                                            <TableHead>Scheduled For</TableHead>
+                                            <TableHead>Train</TableHead>
+                                            <TableHead>Category</TableHead>
+                                            <TableHead>Status</TableHead>
+                                            <TableHead>Details</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {log.map(entry => (
+                                            <TableRow key={entry.id}>
+                                                <TableCell className="text-xs">{new Date(entry.created_at + 'Z').toLocaleString()}</TableCell>
+                                                <TableCell className="text-xs">{new Date(entry.scheduled_for).toLocaleTimeString()}</TableCell>
+                                                <TableCell>{entry.train_number} (PF {entry.platform})</TableCell>
+                                                <TableCell>{getCategoryDisplayName(categories, entry.category)}</TableCell>
+                                                <TableCell>
+                                                    <Badge variant={STATUS_VARIANTS[entry.status] || 'outline'}>{entry.status}</Badge>
+                                                </TableCell>
+                                                <TableCell className="text-xs text-muted-foreground">
+                                                    {entry.error || Object.keys(entry.audio_files).map(lang => lang.toUpperCase()).join(', ')}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            ) : (
+                                <p className="text-sm text-muted-foreground">No announcements have been logged yet.</p>
+                            )}
+                        </CardContent>
+                    </Card>
+                </>
+            )}
+
+            <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+                <DialogContent className="sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>{editingSchedule.id ? 'Edit Schedule' : 'Add Schedule'}</DialogTitle>
+                        <DialogDescription>
+                            Times use the station&apos;s local 24-hour clock. Offsets are minutes before the reference time; use a negative value for after.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-2">
+                        <div className="space-y-1">
+                            <Label>Train Route</Label>
+                            <Select
+                                value={editingSchedule.route_id ? String(editingSchedule.route_id) : ''}
+                                onValueChange={(value) => setEditingSchedule(prev => ({ ...prev, route_id: parseInt(value, 10) }))}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select route" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {routes.map(route => (
+                                        <SelectItem key={route.id} value={String(route.id)}>
+                                            {route['Train Number']} - {route['Train Name']}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid grid-cols-3 gap-4">
+                            <div className="space-y-1">
+                                <Label>Arrival</Label>
+                                <Input type="time" value={editingSchedule.arrival_time || ''} onChange={(e) => setEditingSchedule(prev => ({ ...prev, arrival_time: e.target.value }))} />
+                            </div>
+                            <div className="space-y-1">
+                                <Label>Departure</Label>
+                                <Input type="time" value={editingSchedule.departure_time || ''} onChange={(e) => setEditingSchedule(prev => ({ ...prev, departure_time: e.target.value }))} />
+                            </div>
+                            <div className="space-y-1">
+                                <Label>Platform</Label>
+                                <Input type="number" value={editingSchedule.platform} onChange={(e) => setEditingSchedule(prev => ({ ...prev, platform: e.target.value }))} />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <Label>Announcements</Label>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setEditingSchedule(prev => ({ ...prev, rules: [...prev.rules, { category: categories[0]?.key || 'Arriving', reference: 'arrival', offset_minutes: 0 }] }))}
+                                >
+                                    <Plus className="mr-1 h-4 w-4" />
+                                    Add Rule
+                                </Button>
+                            </div>
+                            {editingSchedule.rules.map((rule, index) => (
+                                <div key={index} className="grid grid-cols-[1fr_1fr_100px_40px] gap-2 items-center">
+                                    <Select value={rule.category} onValueChange={(value) => updateRule(index, { category: value })}>
+                                        <SelectTrigger className="h-8">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {categories.map(category => (
+                                                <SelectItem key={category.key} value={category.key}>{category.display_names.en || category.key}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <Select value={rule.reference} onValueChange={(value) => updateRule(index, { reference: value as ScheduleRule['reference'] })}>
+                                        <SelectTrigger className="h-8">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="arrival">Arrival</SelectItem>
+                                            <SelectItem value="departure">Departure</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                    <Input
+                                        type="number"
+                                        className="h-8"
+                                        value={rule.offset_minutes}
+                                        onChange={(e) => updateRule(index, { offset_minutes: parseInt(e.target.value || '0', 10) })}
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => setEditingSchedule(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }))}
+                                    >
+                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsEditorOpen(false)}>Cancel</Button>
+                        <Button onClick={handleSaveSchedule} disabled={isSaving}>
+                            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save Schedule
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -39,10 +39,14 @@ import {
     TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { useToast } from '@/hooks/use-toast';
-import { Upload, Loader2, ClipboardList, Volume2 } from 'lucide-react';
+import { Upload, Loader2, ClipboardList, Volume2, AlertTriangle, Pencil } from 'lucide-react';
 import { getAnnouncementTemplates, saveAnnouncementTemplate, Template, clearAllAnnouncementTemplates, generateAndSaveTemplateAudio, checkTemplateAudioExists } from '@/app/actions';
+import { lintTemplateSet, TemplateLintIssue } from '@/lib/template-lint';
+import TemplateEditorDialog from '@/components/template-editor-dialog';
+import CategoryIcon from '@/components/category-icon';
+import { getAnnouncementCategories } from '@/app/category-actions';
+import { AnnouncementCategory } from '@/lib/announcement-categories';
 
-const ANNOUNCEMENT_CATEGORIES = ['Arriving', 'Delay', 'Cancelled', 'Platform_Change'];
 const LANGUAGES = ['English', 'हिंदी', 'मराठी', 'ગુજરાતી'];
 const LANGUAGE_CODES: { [key: string]: string } = {
     'English': 'en',
@@ -60,6 +64,7 @@ const LANGUAGE_MAP: { [key: string]: string } = {
 
 export default function AnnouncementTemplatesPage() {
   const [templates, setTemplates] = useState<Template[]>([]);
+  const [categories, setCategories] = useState<AnnouncementCategory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
@@ -68,13 +73,17 @@ export default function AnnouncementTemplatesPage() {
   const [generatingAudioCategory, setGeneratingAudioCategory] = useState<string | null>(null);
   const [showRegenerateDialog, setShowRegenerateDialog] = useState(false);
   const [pendingAudioCategory, setPendingAudioCategory] = useState<string | null>(null);
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  // An upload whose templates have lint errors, waiting for the user to confirm
+  const [pendingUpload, setPendingUpload] = useState<{ content: string; errors: string[] } | null>(null);
   const { toast } = useToast();
 
   const fetchTemplates = async () => {
     setIsLoading(true);
     try {
-        const data = await getAnnouncementTemplates();
+        const [data, categoryData] = await Promise.all([getAnnouncementTemplates(), getAnnouncementCategories()]);
         setTemplates(data);
+        setCategories(categoryData);
     } catch(error) {
         toast({
             variant: 'destructive',
@@ -113,29 +122,60 @@ export default function AnnouncementTemplatesPage() {
     }
   };
   
-  const processFileContent = async (content: string) => {
+  // Lints the uploaded languages of each category against each other rather than against
+  // what is already stored. Templates with errors are only saved once the user confirms.
+  const processFileContent = async (content: string, allowLintErrors: boolean = false) => {
     setIsProcessing(true);
     try {
         const parsedData = JSON.parse(content);
         let templatesSaved = 0;
+        const lintIssues: string[] = [];
+        const lintErrors: string[] = [];
         
-        for (const category of ANNOUNCEMENT_CATEGORIES) {
+        const unknownCategories = Object.keys(parsedData).filter(key => !categories.some(c => c.key === key));
+        if (unknownCategories.length > 0) {
+            lintIssues.push(`Skipped categories not in the registry: ${unknownCategories.join(', ')}.`);
+        }
+
+        const uploadedCategories = categories.map(c => c.key).filter(category => {
             if (!parsedData[category]) {
                 console.warn(`Category "${category}" not found in JSON file. Skipping.`);
-                continue;
+                return false;
+            }
+            return true;
+        });
+
+        for (const category of uploadedCategories) {
+            const uploaded: { [langCode: string]: string } = {};
+            for (const langCode of Object.values(LANGUAGE_CODES)) {
+                if (typeof parsedData[category][langCode] === 'string') uploaded[langCode] = parsedData[category][langCode];
+            }
+            const required = categories.find(c => c.key === category)?.required_placeholders || [];
+            for (const issue of lintTemplateSet(uploaded, required)) {
+                const message = `${category}/${issue.language_code}: ${issue.message}`;
+                lintIssues.push(message);
+                if (issue.severity === 'error') lintErrors.push(message);
             }
+        }
+
+        if (lintErrors.length > 0 && !allowLintErrors) {
+            setPendingUpload({ content, errors: lintErrors });
+            return;
+        }
 
+        for (const category of uploadedCategories) {
             for (const lang of LANGUAGES) {
                 const langCode = LANGUAGE_CODES[lang];
                  if (typeof parsedData[category][langCode] !== 'string') {
                     console.warn(`Template for category "${category}" and language "${langCode}" is missing or invalid. Skipping.`);
                     continue;
                 }
+                // The set was linted above, so the stored templates it is replacing don't block it
                 await saveAnnouncementTemplate({
                     category,
                     language_code: langCode,
                     template_text: parsedData[category][langCode],
-                });
+                }, 'Bulk JSON upload', [], true);
                 templatesSaved++;
             }
         }
@@ -146,6 +186,13 @@ export default function AnnouncementTemplatesPage() {
               title: 'Success',
               description: 'Announcement templates have been saved successfully.',
             });
+            if (lintIssues.length > 0) {
+                toast({
+                  variant: 'destructive',
+                  title: `Template Issues (${lintIssues.length})`,
+                  description: lintIssues.join(' '),
+                });
+            }
         } else {
              toast({
               variant: 'destructive',
@@ -233,6 +280,14 @@ export default function AnnouncementTemplatesPage() {
     return templates.find(t => t.category === category && t.language_code === langCode);
   }
 
+  const getCategoryIssues = (category: string): TemplateLintIssue[] => {
+    const categoryTemplates = templates.filter(t => t.category === category);
+    return lintTemplateSet(
+      Object.fromEntries(categoryTemplates.map(t => [t.language_code, t.template_text])),
+      categories.find(c => c.key === category)?.required_placeholders || []
+    );
+  }
+
   const handleOpenModal = (template: Template | undefined) => {
     if (template) {
         setSelectedTemplate(template);
@@ -330,7 +385,7 @@ export default function AnnouncementTemplatesPage() {
             Announcement Templates
           </h1>
           <p className="text-muted-foreground">
-            Upload and manage multilingual announcement templates from a single JSON file.
+            Upload multilingual announcement templates from a JSON file, then edit them individually with version history.
           </p>
         </div>
         <AlertDialog>
@@ -428,13 +483,27 @@ export default function AnnouncementTemplatesPage() {
                                 <TableHead className="w-[45%]">English Template</TableHead>
                                 <TableHead className="text-center">Translations</TableHead>
                                 <TableHead className="text-center">AI Audio</TableHead>
+                                <TableHead className="text-center">Edit</TableHead>
                             </TableRow>
                             </TableHeader>
                             <TableBody>
-                            {ANNOUNCEMENT_CATEGORIES.map(category => (
+                            {categories.map(({ key: category, display_names, icon, color }) => (
                                 <TableRow key={category}>
-                                <TableCell className="font-medium">{category.replace('_', ' ')}</TableCell>
-                                <TableCell className="text-xs">{getTemplate(category, 'English')?.template_text || 'N/A'}</TableCell>
+                                <TableCell className="font-medium">
+                                    <span className="flex items-center gap-2">
+                                        <CategoryIcon icon={icon} color={color} />
+                                        {display_names.en || category}
+                                    </span>
+                                </TableCell>
+                                <TableCell className="text-xs">
+                                    {getTemplate(category, 'English')?.template_text || 'N/A'}
+                                    {getCategoryIssues(category).map((issue, index) => (
+                                        <div key={index} className={`flex items-center gap-1 mt-1 ${issue.severity === 'error' ? 'text-destructive' : 'text-amber-600'}`}>
+                                            <AlertTriangle className="h-3 w-3 shrink-0" />
+                                            <span>{issue.language_code}: {issue.message}</span>
+                                        </div>
+                                    ))}
+                                </TableCell>
                                 <TableCell className="text-center">
                                    <div className="flex gap-1 justify-center">
                                         <DialogTrigger asChild>
@@ -471,6 +540,11 @@ export default function AnnouncementTemplatesPage() {
                                         </Tooltip>
                                     </TooltipProvider>
                                 </TableCell>
+                                <TableCell className="text-center">
+                                    <Button variant="ghost" size="icon" onClick={() => setEditingCategory(category)}>
+                                        <Pencil className="h-4 w-4" />
+                                    </Button>
+                                </TableCell>
                                 </TableRow>
                             ))}
                             </TableBody>
@@ -502,6 +576,14 @@ export default function AnnouncementTemplatesPage() {
         </div>
       </div>
       
+       <TemplateEditorDialog
+            category={editingCategory}
+            templates={templates}
+            requiredPlaceholders={categories.find(c => c.key === editingCategory)?.required_placeholders || []}
+            onOpenChange={(open) => !open && setEditingCategory(null)}
+            onSaved={fetchTemplates}
+        />
+
        <Dialog open={isProcessing}>
             <DialogContent className="sm:max-w-md" onInteractOutside={(e) => e.preventDefault()}>
                 <DialogHeader>
@@ -516,6 +598,31 @@ export default function AnnouncementTemplatesPage() {
             </DialogContent>
         </Dialog>
 
+        {/* Upload With Lint Errors Confirmation Dialog */}
+        <AlertDialog open={!!pendingUpload} onOpenChange={(open) => !open && setPendingUpload(null)}>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>Templates Have Errors</AlertDialogTitle>
+                    <AlertDialogDescription>
+                        {pendingUpload?.errors.length} problem(s) will stop these templates from playing correctly. Save them anyway?
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <ul className="max-h-60 overflow-y-auto space-y-1 text-xs text-destructive">
+                    {pendingUpload?.errors.map((error, index) => <li key={index}>{error}</li>)}
+                </ul>
+                <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => {
+                        const content = pendingUpload?.content;
+                        setPendingUpload(null);
+                        if (content) processFileContent(content, true);
+                    }}>
+                        Save Anyway
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+
         {/* Regenerate Audio Confirmation Dialog */}
         <AlertDialog open={showRegenerateDialog} onOpenChange={setShowRegenerateDialog}>
             <AlertDialogContent>
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerConfig } from '@/lib/config';
+import { getServerConfig, getFrontendUrl } from '@/lib/config';
 
 export async function GET(request: NextRequest) {
   try {
@@ -8,6 +8,7 @@ export async function GET(request: NextRequest) {
     // Return only the necessary configuration for the client
     const clientConfig = {
       serverUrl: `${config.server.protocol}://${config.server.domain}:${config.server.port}`,
+      frontendUrl: getFrontendUrl(),
       serverIP: config.server.ip,
       serverPort: config.server.port,
       protocol: config.server.protocol,
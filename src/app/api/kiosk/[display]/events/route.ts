@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKioskAnnouncementsSince, getLatestKioskAnnouncementId, getUpcomingTrains } from '@/app/kiosk-actions';
+import { getDisplayTarget } from '@/app/display-target-actions';
+import {
+  ALL_PLATFORMS,
+  KIOSK_HEARTBEAT_MS,
+  KIOSK_RETRY_MS,
+  KIOSK_UPCOMING_REFRESH_MS,
+  KioskAnnouncement,
+  formatSseEvent,
+  subscribeToKioskFeed,
+} from '@/lib/kiosk-feed';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ display: string }> };
+
+/**
+ * Server-Sent Events stream for a display screen. Sends announcements routed to the
+ * screen as they are published, plus the next trains every minute. A display that
+ * reconnects with Last-Event-ID (or ?lastEventId=) first gets the announcements it missed.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const targetId = parseInt((await params).display, 10);
+  const target = isNaN(targetId) ? null : await getDisplayTarget(targetId);
+  if (!target || !target.enabled) {
+    return NextResponse.json({ success: false, message: 'Display screen not found' }, { status: 404 });
+  }
+  const platform = target.kind === 'platform' && target.platform ? target.platform : ALL_PLATFORMS;
+  const lastEventId = parseInt(
+    request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId') ?? '',
+    10
+  );
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      // Subscribe before replaying so nothing published in between is lost
+      let lastSentId = isNaN(lastEventId) ? 0 : lastEventId;
+      let pending: KioskAnnouncement[] | null = [];
+      const sendAnnouncement = (announcement: KioskAnnouncement) => {
+        if (announcement.id <= lastSentId) return;
+        lastSentId = announcement.id;
+        send(formatSseEvent('announcement', announcement, announcement.id));
+      };
+      const unsubscribe = subscribeToKioskFeed(targetId, announcement => {
+        if (pending) pending.push(announcement);
+        else sendAnnouncement(announcement);
+      });
+
+      // A failure closes the stream; the display reconnects and replays what it missed
+      const sendUpcoming = async () => {
+        try {
+          send(formatSseEvent('upcoming', await getUpcomingTrains(platform)));
+        } catch (error) {
+          console.error(`Kiosk stream for display ${targetId} failed:`, error);
+          cleanup();
+        }
+      };
+      const heartbeat = setInterval(() => send(formatSseEvent('heartbeat', { time: new Date().toISOString() })), KIOSK_HEARTBEAT_MS);
+      const upcomingTimer = setInterval(sendUpcoming, KIOSK_UPCOMING_REFRESH_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        clearInterval(upcomingTimer);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+      if (request.signal.aborted) {
+        cleanup();
+        return;
+      }
+
+      try {
+        send(`retry: ${KIOSK_RETRY_MS}\n\n`);
+        if (lastSentId > 0) {
+          send(formatSseEvent('hello', target));
+          for (const announcement of await getKioskAnnouncementsSince(targetId, lastSentId)) {
+            sendAnnouncement(announcement);
+          }
+        } else {
+          // Gives a fresh display an event id, so a reconnect asks for what it missed
+          const latestId = await getLatestKioskAnnouncementId();
+          lastSentId = pending.length > 0 ? Math.min(latestId, pending[0].id - 1) : latestId;
+          send(formatSseEvent('hello', target, lastSentId));
+        }
+        const buffered = pending;
+        pending = null;
+        buffered.forEach(sendAnnouncement);
+
+        await sendUpcoming();
+      } catch (error) {
+        console.error(`Kiosk stream for display ${targetId} failed to start:`, error);
+        cleanup();
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stops nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
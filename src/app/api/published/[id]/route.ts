@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublishedPage } from '@/app/published-page-actions';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// The stored PublishedPageData behind /published/<id>, for players other than the page itself.
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const id = parseInt((await params).id, 10);
+  const page = isNaN(id) ? null : await getPublishedPage(id);
+  if (!page) {
+    return NextResponse.json({ success: false, message: 'Published page not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, page });
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRenderJob, cancelRenderJob } from '@/app/render-job-actions';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Polled by pages that follow a job's progress
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const jobId = parseInt((await params).id, 10);
+    if (isNaN(jobId)) {
+      return NextResponse.json({ success: false, message: 'Invalid job id' }, { status: 400 });
+    }
+
+    const job = await getRenderJob(jobId);
+    if (!job) {
+      return NextResponse.json({ success: false, message: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error('Error fetching render job:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch render job' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancels a queued or running job
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const jobId = parseInt((await params).id, 10);
+    if (isNaN(jobId)) {
+      return NextResponse.json({ success: false, message: 'Invalid job id' }, { status: 400 });
+    }
+
+    const result = await cancelRenderJob(jobId);
+    return NextResponse.json(result, { status: result.success ? 200 : 409 });
+  } catch (error) {
+    console.error('Error cancelling render job:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to cancel render job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRenderJobs } from '@/app/render-job-actions';
+import { RenderJobStatus } from '@/lib/render-jobs';
+
+const JOB_STATUSES: RenderJobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+// Lists recent render jobs, optionally filtered with ?status=
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !JOB_STATUSES.includes(status as RenderJobStatus)) {
+      return NextResponse.json(
+        { success: false, message: `Unknown job status "${status}"` },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await getRenderJobs((status as RenderJobStatus) || undefined);
+    return NextResponse.json({ success: true, jobs });
+  } catch (error) {
+    console.error('Error fetching render jobs:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch render jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir, unlink, readdir, createWriteStream } from 'fs/promises';
+import { mkdir, unlink, readdir, rm } from 'fs/promises';
 import { createWriteStream as createWriteStreamSync } from 'fs';
-import { join } from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { join, extname } from 'path';
+import { queueUploadedVideoStitch } from '@/app/render-job-actions';
 
 export async function POST(request: NextRequest) {
   try {
@@ -87,7 +84,9 @@ export async function POST(request: NextRequest) {
       const tempVideoPaths: string[] = [];
       for (let i = 0; i < videoFiles.length; i++) {
         const file = videoFiles[i];
-        const tempPath = join(sessionDir, `input_${i}_${file.name}`);
+        // The uploaded name is only shown in error messages; it never becomes part of a path
+        const extension = extname(file.name).toLowerCase().replace(/[^a-z0-9.]/g, '');
+        const tempPath = join(sessionDir, `input_${i}${extension}`);
         
         // Use streaming to avoid loading entire file into memory
         const writeStream = createWriteStreamSync(tempPath);
@@ -115,69 +114,25 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Preprocess each video
-      const preprocessedPaths: string[] = [];
-      for (let i = 0; i < tempVideoPaths.length; i++) {
-        const inputPath = tempVideoPaths[i];
-        const outputPath = join(sessionDir, `preprocessed_${i}.mp4`);
-        
-        // Preprocess video: normalize resolution, frame rate, remove audio
-        const ffmpegCommand = `ffmpeg -i "${inputPath}" -vf "fps=30:round=up,scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2" -c:v libx264 -preset fast -crf 23 -an -movflags +faststart -pix_fmt yuv420p "${outputPath}" -y`;
-        
-        console.log(`Preprocessing video ${i + 1}/${tempVideoPaths.length}: ${ffmpegCommand}`);
-        try {
-          await execAsync(ffmpegCommand);
-        } catch (error) {
-          console.error(`Failed to preprocess video ${i + 1}:`, error);
-          throw new Error(`Failed to preprocess video "${videoFiles[i].name}". Please ensure it's a valid video file.`);
-        }
-        
-        preprocessedPaths.push(outputPath);
-      }
-
-      // Create file list for ffmpeg concat
-      const fileListPath = join(sessionDir, 'filelist.txt');
-      const fileListContent = preprocessedPaths
-        .map(path => `file '${path}'`)
-        .join('\n');
-      await writeFile(fileListPath, fileListContent);
-
-      // Stitch videos together using fast copy method
-      const outputPath = join(sessionDir, `${sanitizedName}_stitched.mp4`);
-      const stitchCommand = `ffmpeg -f concat -safe 0 -i "${fileListPath}" -c copy "${outputPath}" -y`;
-      
-      console.log(`Stitching videos: ${stitchCommand}`);
-      try {
-        await execAsync(stitchCommand);
-      } catch (error) {
-        console.error('Failed to stitch videos:', error);
-        throw new Error('Failed to stitch videos together. Please ensure all videos are valid and compatible.');
-      }
-
-      // Move final video to a preview location
-      const previewDir = join(process.cwd(), 'public', 'temp-videos', 'previews');
-      await mkdir(previewDir, { recursive: true });
-      
-      const previewPath = join(previewDir, `${sanitizedName}_preview_${Date.now()}.mp4`);
-      await execAsync(`mv "${outputPath}" "${previewPath}"`);
-
-      // Clean up session directory
-      await execAsync(`rm -rf "${sessionDir}"`);
+      // Preprocessing and stitching run in the render queue; the page polls /api/render-jobs/<jobId>
+      const jobId = await queueUploadedVideoStitch(
+        sessionDir,
+        tempVideoPaths,
+        videoFiles.map(file => file.name),
+        sanitizedName
+      );
 
-      // Return preview URL
-      const previewUrl = `/temp-videos/previews/${previewPath.split('/').pop()}`;
-      
       return NextResponse.json({
         success: true,
-        message: 'Videos stitched successfully',
-        previewUrl: previewUrl,
+        message: 'Video stitching queued',
+        jobId,
         videoName: sanitizedName
       });
 
     } catch (processingError) {
       // Clean up session directory on error
       try {
-        await execAsync(`rm -rf "${sessionDir}"`);
+        await rm(sessionDir, { recursive: true, force: true });
       } catch (cleanupError) {
         console.warn('Failed to clean up session directory:', cleanupError);
       }
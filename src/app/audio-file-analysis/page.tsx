@@ -6,9 +6,11 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Textarea } from '@/components/ui/textarea';
 import { Upload, FileAudio, Loader2, Languages, MessageSquare, Globe, Volume2, X, CheckCircle, Film, Rocket } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { describeUnmatchedWords } from '@/lib/isl-lexicon';
 import { detectAudioLanguage } from '@/ai/speech-language-detection';
 import { getIslVideoPlaylist } from '@/app/actions';
-import { generateTextToIslHtml } from '@/lib/utils';
+import { openPublishedPage } from '@/lib/utils';
+import { createPublishedPageData, toPublishedTexts } from '@/lib/published-page';
 
 // Language mapping for display
 const LANGUAGE_MAPPING = {
@@ -378,7 +380,7 @@ export default function AudioFileAnalysisPage() {
             // Show toast based on results
             if (result.playlist.length === 0) {
                 // No videos generated at all
-                const unmatchedText = result.unmatchedWords.join(', ');
+                const unmatchedText = describeUnmatchedWords(result.unmatchedWords, result.suggestions);
                 toast({
                     title: "No ISL Videos Found",
                     description: `No matching ISL videos found for any words: ${unmatchedText}`,
@@ -386,7 +388,7 @@ export default function AudioFileAnalysisPage() {
                 });
             } else if (result.unmatchedWords.length > 0) {
                 // Some videos generated, but some words unmatched
-                const unmatchedText = result.unmatchedWords.join(', ');
+                const unmatchedText = describeUnmatchedWords(result.unmatchedWords, result.suggestions);
                 toast({
                     title: "ISL Video Generated",
                     description: `ISL video generated successfully. No matching videos found for: ${unmatchedText}`,
@@ -411,7 +413,7 @@ export default function AudioFileAnalysisPage() {
         }
     }, [translations, toast]);
 
-    const handlePublish = (selectedPlaybackSpeed: number = 1.0) => {
+    const handlePublish = async (selectedPlaybackSpeed: number = 1.0) => {
         const englishText = translations['en-IN'];
         if (!englishText && !transcribedText) {
             toast({
@@ -432,30 +434,28 @@ export default function AudioFileAnalysisPage() {
             return;
         }
 
-        // Convert relative video path to absolute URL
-        const baseUrl = window.location.origin;
-        const absoluteVideoPath = `${baseUrl}${islPlaylist[0]}`;
-        
-        console.log('Publishing with video path:', absoluteVideoPath);
-        console.log('ISL Playlist:', islPlaylist);
-
-        // Use the proper generateTextToIslHtml function
-        const htmlContent = generateTextToIslHtml(
-            transcribedText || englishText, // original text
-            {
-                en: englishText || transcribedText,
-                hi: translations['hi-IN'] || '',
-                mr: translations['mr-IN'] || '',
-                gu: translations['gu-IN'] || ''
-            },
-            absoluteVideoPath, // absolute video path
-            {}, // no audio files for Audio File Analysis
-            selectedPlaybackSpeed
-        );
-
-        const blob = new Blob([htmlContent], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
-        window.open(url, '_blank');
+        try {
+            await openPublishedPage(createPublishedPageData({
+                title: `ISL Announcement - ${transcribedText || englishText}`,
+                heading: transcribedText || englishText,
+                texts: toPublishedTexts({
+                    en: englishText || transcribedText,
+                    hi: translations['hi-IN'],
+                    mr: translations['mr-IN'],
+                    gu: translations['gu-IN'],
+                }),
+                video_path: islPlaylist[0],
+                // no audio files for Audio File Analysis
+                playback_speed: selectedPlaybackSpeed,
+            }));
+        } catch (error) {
+            console.error('Failed to publish page:', error);
+            toast({
+                title: "Publish Failed",
+                description: error instanceof Error ? error.message : "Failed to publish page.",
+                variant: "destructive"
+            });
+        }
     };
 
     const handleClearResults = async () => {
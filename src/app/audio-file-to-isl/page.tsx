@@ -9,6 +9,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Loader2, Languages, MessageSquare, Video, FileAudio, Film, Rocket, Upload } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { describeUnmatchedWords } from '@/lib/isl-lexicon';
 import { transcribeAndTranslateAudio, getIslVideoPlaylist } from '@/app/actions';
 import { Input } from '@/components/ui/input';
 
@@ -215,7 +216,7 @@ export default function AudioFileToIslPage() {
             // Show toast based on results
             if (result.playlist.length === 0) {
                 // No videos generated at all
-                const unmatchedText = result.unmatchedWords.join(', ');
+                const unmatchedText = describeUnmatchedWords(result.unmatchedWords, result.suggestions);
                 toast({
                     title: "No ISL Videos Found",
                     description: `No matching ISL videos found for any words: ${unmatchedText}`,
@@ -223,7 +224,7 @@ export default function AudioFileToIslPage() {
                 });
             } else if (result.unmatchedWords.length > 0) {
                 // Some videos generated, but some words unmatched
-                const unmatchedText = result.unmatchedWords.join(', ');
+                const unmatchedText = describeUnmatchedWords(result.unmatchedWords, result.suggestions);
                 toast({
                     title: "ISL Video Generated",
                     description: `ISL video generated successfully. No matching videos found for: ${unmatchedText}`,
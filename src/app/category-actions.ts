@@ -0,0 +1,134 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getDb } from './actions';
+import {
+    AnnouncementCategory,
+    CATEGORY_KEY_REGEX,
+    DEFAULT_CATEGORY_COLOR,
+    DEFAULT_CATEGORY_ICON,
+    DEFAULT_CATEGORY_PRIORITY,
+} from '@/lib/announcement-categories';
+import { getPlaceholderDefinition } from '@/lib/announcement-placeholders';
+
+function toCategory(row: any): AnnouncementCategory {
+    return {
+        id: row.id,
+        key: row.key,
+        display_names: row.display_names ? JSON.parse(row.display_names) : {},
+        icon: row.icon || DEFAULT_CATEGORY_ICON,
+        color: row.color || DEFAULT_CATEGORY_COLOR,
+        priority: row.priority ?? DEFAULT_CATEGORY_PRIORITY,
+        required_placeholders: row.required_placeholders ? JSON.parse(row.required_placeholders) : [],
+        sort_order: row.sort_order ?? 0,
+    };
+}
+
+export async function getAnnouncementCategories(): Promise<AnnouncementCategory[]> {
+    const db = await getDb();
+    try {
+        const rows = await db.all(
+            "SELECT * FROM announcement_categories WHERE status = 'active' ORDER BY sort_order, key"
+        );
+        return rows.map(toCategory);
+    } catch (error) {
+        console.error('Failed to fetch announcement categories:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+export async function getAnnouncementCategory(key: string): Promise<AnnouncementCategory | null> {
+    const db = await getDb();
+    try {
+        const row = await db.get("SELECT * FROM announcement_categories WHERE key = ? AND status = 'active'", key);
+        return row ? toCategory(row) : null;
+    } catch (error) {
+        console.error('Failed to fetch announcement category:', error);
+        return null;
+    } finally {
+        await db.close();
+    }
+}
+
+function validateCategory(category: AnnouncementCategory): string | null {
+    if (!CATEGORY_KEY_REGEX.test(category.key)) {
+        return 'Category key must start with a letter and use only letters, digits and underscores.';
+    }
+    if (!category.display_names.en || !category.display_names.en.trim()) {
+        return 'An English display name is required.';
+    }
+    if (!Number.isInteger(category.priority) || category.priority < 1 || category.priority > 10) {
+        return 'Priority must be a whole number from 1 to 10.';
+    }
+    if (!/^#[0-9a-fA-F]{6}$/.test(category.color)) {
+        return 'Colour must be a hex value like #2563eb.';
+    }
+    const unknown = category.required_placeholders.filter(key => !getPlaceholderDefinition(key));
+    if (unknown.length > 0) {
+        return `Unknown placeholders: ${unknown.map(key => `{${key}}`).join(', ')}.`;
+    }
+    return null;
+}
+
+export async function saveAnnouncementCategory(category: AnnouncementCategory): Promise<{ success: boolean; message: string }> {
+    const validationError = validateCategory(category);
+    if (validationError) {
+        return { success: false, message: validationError };
+    }
+
+    const db = await getDb();
+    try {
+        // Re-saving a deleted key brings the category back rather than failing on the unique key.
+        await db.run(
+            `INSERT INTO announcement_categories (key, display_names, icon, color, priority, required_placeholders, sort_order, status, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, 'active', CURRENT_TIMESTAMP)
+             ON CONFLICT(key) DO UPDATE SET
+               display_names = excluded.display_names,
+               icon = excluded.icon,
+               color = excluded.color,
+               priority = excluded.priority,
+               required_placeholders = excluded.required_placeholders,
+               sort_order = excluded.sort_order,
+               status = 'active',
+               updated_at = CURRENT_TIMESTAMP`,
+            category.key,
+            JSON.stringify(category.display_names),
+            category.icon,
+            category.color,
+            category.priority,
+            JSON.stringify(category.required_placeholders),
+            category.sort_order
+        );
+        revalidatePath('/announcement-categories');
+        return { success: true, message: `Category "${category.display_names.en}" saved.` };
+    } catch (error) {
+        console.error('Failed to save announcement category:', error);
+        return { success: false, message: 'Failed to save category.' };
+    } finally {
+        await db.close();
+    }
+}
+
+// Soft delete, so schedules and logs that name the category still resolve.
+export async function deleteAnnouncementCategory(key: string): Promise<{ success: boolean; message: string }> {
+    const db = await getDb();
+    try {
+        const usage = await db.get('SELECT COUNT(*) as count FROM schedule_announcement_rules WHERE category = ?', key);
+        if (usage?.count > 0) {
+            return { success: false, message: `Category is used by ${usage.count} schedule rule(s). Remove those first.` };
+        }
+        const result = await db.run("UPDATE announcement_categories SET status = 'deleted' WHERE key = ?", key);
+        if (result.changes === 0) {
+            return { success: false, message: 'Category not found.' };
+        }
+        revalidatePath('/announcement-categories');
+        return { success: true, message: 'Category deleted.' };
+    } catch (error) {
+        console.error('Failed to delete announcement category:', error);
+        return { success: false, message: 'Failed to delete category.' };
+    } finally {
+        await db.close();
+    }
+}
@@ -0,0 +1,201 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import fs from 'fs/promises';
+import path from 'path';
+import { getDb } from './actions';
+
+export type ChimeKind = 'intro' | 'outro';
+
+export type AnnouncementChime = {
+    id: number;
+    name: string;
+    kind: ChimeKind;
+    file_path: string;
+    created_at?: string;
+};
+
+export type CategoryChimeAssignment = {
+    category: string;
+    intro_chime_id: number | null;
+    outro_chime_id: number | null;
+};
+
+export type CategoryChimes = {
+    intro: AnnouncementChime | null;
+    outro: AnnouncementChime | null;
+};
+
+const CHIME_EXTENSIONS = ['.wav', '.mp3', '.ogg', '.opus', '.m4a'];
+const MAX_CHIME_SIZE = 5 * 1024 * 1024; // 5MB
+
+export async function getChimes(): Promise<AnnouncementChime[]> {
+    const db = await getDb();
+    try {
+        return await db.all(
+            "SELECT id, name, kind, file_path, created_at FROM announcement_chimes WHERE status = 'active' ORDER BY kind, name"
+        );
+    } catch (error) {
+        console.error('Failed to fetch chimes:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+export async function uploadChime(formData: FormData): Promise<{ success: boolean; message: string; chime?: AnnouncementChime }> {
+    const file = formData.get('audio') as File | null;
+    const name = ((formData.get('name') as string) || '').trim();
+    const kind = formData.get('kind') as ChimeKind;
+
+    if (!file) {
+        return { success: false, message: 'No audio file provided' };
+    }
+    if (!name) {
+        return { success: false, message: 'Chime name is required' };
+    }
+    if (kind !== 'intro' && kind !== 'outro') {
+        return { success: false, message: 'Chime type must be intro or outro' };
+    }
+
+    const extension = path.extname(file.name).toLowerCase();
+    if (!file.type.startsWith('audio/') && !CHIME_EXTENSIONS.includes(extension)) {
+        return { success: false, message: 'Please upload a valid audio file' };
+    }
+    if (file.size > MAX_CHIME_SIZE) {
+        return { success: false, message: 'Chime file size must be less than 5MB' };
+    }
+
+    const sanitizedName = name.toLowerCase().replace(/[^a-z0-9-_]+/g, '_').replace(/^_+|_+$/g, '') || 'chime';
+    const fileName = `${kind}_${sanitizedName}_${Date.now()}${CHIME_EXTENSIONS.includes(extension) ? extension : '.wav'}`;
+    const chimesDir = path.join(process.cwd(), 'public', 'audio', 'chimes');
+    const filePath = `/audio/chimes/${fileName}`;
+
+    const db = await getDb();
+    try {
+        await fs.mkdir(chimesDir, { recursive: true });
+        await fs.writeFile(path.join(chimesDir, fileName), Buffer.from(await file.arrayBuffer()));
+
+        const result = await db.run(
+            'INSERT INTO announcement_chimes (name, kind, file_path) VALUES (?, ?, ?)',
+            name, kind, filePath
+        );
+        revalidatePath('/chime-library');
+        return {
+            success: true,
+            message: `Chime "${name}" uploaded successfully.`,
+            chime: { id: result.lastID!, name, kind, file_path: filePath },
+        };
+    } catch (error) {
+        console.error('Failed to upload chime:', error);
+        return { success: false, message: 'Failed to upload chime.' };
+    } finally {
+        await db.close();
+    }
+}
+
+export async function deleteChime(id: number): Promise<{ success: boolean; message: string }> {
+    const db = await getDb();
+    try {
+        const chime = await db.get('SELECT file_path FROM announcement_chimes WHERE id = ?', id);
+        if (!chime) {
+            return { success: false, message: 'Chime not found.' };
+        }
+
+        await db.run("UPDATE announcement_chimes SET status = 'deleted' WHERE id = ?", id);
+        await db.run('UPDATE category_chimes SET intro_chime_id = NULL WHERE intro_chime_id = ?', id);
+        await db.run('UPDATE category_chimes SET outro_chime_id = NULL WHERE outro_chime_id = ?', id);
+        await fs.unlink(path.join(process.cwd(), 'public', chime.file_path)).catch(() => {});
+
+        revalidatePath('/chime-library');
+        return { success: true, message: 'Chime deleted.' };
+    } catch (error) {
+        console.error('Failed to delete chime:', error);
+        return { success: false, message: 'Failed to delete chime.' };
+    } finally {
+        await db.close();
+    }
+}
+
+export async function getCategoryChimeAssignments(): Promise<CategoryChimeAssignment[]> {
+    const db = await getDb();
+    try {
+        return await db.all('SELECT category, intro_chime_id, outro_chime_id FROM category_chimes');
+    } catch (error) {
+        console.error('Failed to fetch category chimes:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+export async function setCategoryChimes(
+    category: string,
+    introChimeId: number | null,
+    outroChimeId: number | null
+): Promise<{ success: boolean; message: string }> {
+    const db = await getDb();
+    try {
+        for (const [kind, chimeId] of [['intro', introChimeId], ['outro', outroChimeId]] as const) {
+            if (chimeId === null) continue;
+            const chime = await db.get(
+                "SELECT 1 FROM announcement_chimes WHERE id = ? AND kind = ? AND status = 'active'",
+                chimeId, kind
+            );
+            if (!chime) {
+                return { success: false, message: `Selected ${kind} chime does not exist or is not an ${kind} chime.` };
+            }
+        }
+
+        await db.run(
+            `INSERT INTO category_chimes (category, intro_chime_id, outro_chime_id, updated_at)
+             VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+             ON CONFLICT(category) DO UPDATE SET
+               intro_chime_id = excluded.intro_chime_id,
+               outro_chime_id = excluded.outro_chime_id,
+               updated_at = CURRENT_TIMESTAMP`,
+            category, introChimeId, outroChimeId
+        );
+        revalidatePath('/chime-library');
+        return { success: true, message: `Chimes updated for ${category.replace(/_/g, ' ')}.` };
+    } catch (error) {
+        console.error('Failed to save category chimes:', error);
+        return { success: false, message: 'Failed to save category chimes.' };
+    } finally {
+        await db.close();
+    }
+}
+
+// Chimes to wrap around announcements of a category. Missing files are treated as unset.
+export async function getChimesForCategory(category: string): Promise<CategoryChimes> {
+    const db = await getDb();
+    try {
+        const row = await db.get(
+            `SELECT
+                i.id AS intro_id, i.name AS intro_name, i.file_path AS intro_path,
+                o.id AS outro_id, o.name AS outro_name, o.file_path AS outro_path
+             FROM category_chimes c
+             LEFT JOIN announcement_chimes i ON i.id = c.intro_chime_id AND i.status = 'active'
+             LEFT JOIN announcement_chimes o ON o.id = c.outro_chime_id AND o.status = 'active'
+             WHERE c.category = ?`,
+            category
+        );
+        if (!row) return { intro: null, outro: null };
+
+        const toChime = async (id: number | null, name: string, filePath: string, kind: ChimeKind) => {
+            if (!id || !filePath) return null;
+            const exists = await fs.access(path.join(process.cwd(), 'public', filePath)).then(() => true).catch(() => false);
+            return exists ? { id, name, kind, file_path: filePath } : null;
+        };
+
+        return {
+            intro: await toChime(row.intro_id, row.intro_name, row.intro_path, 'intro'),
+            outro: await toChime(row.outro_id, row.outro_name, row.outro_path, 'outro'),
+        };
+    } catch (error) {
+        console.error('Failed to fetch chimes for category:', error);
+        return { intro: null, outro: null };
+    } finally {
+        await db.close();
+    }
+}
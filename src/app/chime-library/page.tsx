@@ -0,0 +1,314 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Bell, Loader2, Trash2, Upload, Save } from 'lucide-react';
+import {
+    getChimes,
+    uploadChime,
+    deleteChime,
+    getCategoryChimeAssignments,
+    setCategoryChimes,
+    AnnouncementChime,
+    CategoryChimeAssignment,
+    ChimeKind,
+} from '@/app/chime-actions';
+import { getAnnouncementCategories } from '@/app/category-actions';
+import { AnnouncementCategory } from '@/lib/announcement-categories';
+import CategoryIcon from '@/components/category-icon';
+
+const NONE_VALUE = 'none';
+
+type AssignmentDraft = { intro: string; outro: string };
+
+export default function ChimeLibraryPage() {
+    const [chimes, setChimes] = useState<AnnouncementChime[]>([]);
+    const [categories, setCategories] = useState<AnnouncementCategory[]>([]);
+    const [assignments, setAssignments] = useState<{ [category: string]: AssignmentDraft }>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [isUploading, setIsUploading] = useState(false);
+    const [savingCategory, setSavingCategory] = useState<string | null>(null);
+    const [chimeName, setChimeName] = useState('');
+    const [chimeKind, setChimeKind] = useState<ChimeKind>('intro');
+    const [chimeFile, setChimeFile] = useState<File | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { toast } = useToast();
+
+    const toDrafts = (rows: CategoryChimeAssignment[], categoryKeys: string[]) => {
+        const drafts: { [category: string]: AssignmentDraft } = {};
+        for (const category of categoryKeys) {
+            const row = rows.find(r => r.category === category);
+            drafts[category] = {
+                intro: row?.intro_chime_id ? String(row.intro_chime_id) : NONE_VALUE,
+                outro: row?.outro_chime_id ? String(row.outro_chime_id) : NONE_VALUE,
+            };
+        }
+        return drafts;
+    };
+
+    const loadData = async () => {
+        try {
+            const [chimeList, assignmentRows, categoryList] = await Promise.all([getChimes(), getCategoryChimeAssignments(), getAnnouncementCategories()]);
+            setChimes(chimeList);
+            setCategories(categoryList);
+            setAssignments(toDrafts(assignmentRows, categoryList.map(c => c.key)));
+        } catch (error) {
+            console.error('Failed to load chimes:', error);
+            toast({ variant: 'destructive', title: 'Error', description: 'Failed to load the chime library.' });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    const handleUpload = async () => {
+        if (!chimeFile || !chimeName.trim()) {
+            toast({ variant: 'destructive', title: 'Missing Details', description: 'Please enter a name and choose an audio file.' });
+            return;
+        }
+        setIsUploading(true);
+        try {
+            const formData = new FormData();
+            formData.append('audio', chimeFile);
+            formData.append('name', chimeName);
+            formData.append('kind', chimeKind);
+            const result = await uploadChime(formData);
+            toast({
+                variant: result.success ? 'default' : 'destructive',
+                title: result.success ? 'Chime Uploaded' : 'Upload Failed',
+                description: result.message,
+            });
+            if (result.success) {
+                setChimeName('');
+                setChimeFile(null);
+                if (fileInputRef.current) fileInputRef.current.value = '';
+                await loadData();
+            }
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const handleDelete = async (chime: AnnouncementChime) => {
+        const result = await deleteChime(chime.id);
+        toast({
+            variant: result.success ? 'default' : 'destructive',
+            title: result.success ? 'Deleted' : 'Error',
+            description: result.message,
+        });
+        if (result.success) await loadData();
+    };
+
+    const handleAssignmentChange = (category: string, kind: ChimeKind, value: string) => {
+        setAssignments(prev => ({ ...prev, [category]: { ...prev[category], [kind]: value } }));
+    };
+
+    const handleSaveAssignment = async (category: string) => {
+        const draft = assignments[category];
+        if (!draft) return;
+        setSavingCategory(category);
+        try {
+            const result = await setCategoryChimes(
+                category,
+                draft.intro === NONE_VALUE ? null : Number(draft.intro),
+                draft.outro === NONE_VALUE ? null : Number(draft.outro)
+            );
+            toast({
+                variant: result.success ? 'default' : 'destructive',
+                title: result.success ? 'Saved' : 'Error',
+                description: result.message,
+            });
+        } finally {
+            setSavingCategory(null);
+        }
+    };
+
+    const renderChimeSelect = (category: string, kind: ChimeKind) => (
+        <Select
+            value={assignments[category]?.[kind] || NONE_VALUE}
+            onValueChange={(value) => handleAssignmentChange(category, kind, value)}
+        >
+            <SelectTrigger className="h-8">
+                <SelectValue placeholder={`Select ${kind}`} />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value={NONE_VALUE}>None</SelectItem>
+                {chimes.filter(c => c.kind === kind).map(chime => (
+                    <SelectItem key={chime.id} value={String(chime.id)}>{chime.name}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+
+    return (
+        <div className="w-full space-y-6">
+            <div>
+                <h1 className="text-lg font-semibold md:text-2xl flex items-center gap-2">
+                    <Bell className="h-6 w-6 text-primary" />
+                    Chime Library
+                </h1>
+                <p className="text-muted-foreground">
+                    Manage intro and outro chimes and choose which ones play around each announcement category.
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Upload Chime</CardTitle>
+                    <CardDescription>WAV, MP3, OGG, Opus or M4A up to 5MB. Chimes are resampled to match the announcement audio.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid gap-4 md:grid-cols-4 items-end">
+                        <div className="space-y-2">
+                            <Label htmlFor="chime-name">Name</Label>
+                            <Input id="chime-name" value={chimeName} onChange={(e) => setChimeName(e.target.value)} placeholder="e.g. Station Bell" />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Type</Label>
+                            <Select value={chimeKind} onValueChange={(value) => setChimeKind(value as ChimeKind)}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="intro">Intro</SelectItem>
+                                    <SelectItem value="outro">Outro</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="chime-file">Audio File</Label>
+                            <Input id="chime-file" ref={fileInputRef} type="file" accept="audio/*" onChange={(e) => setChimeFile(e.target.files?.[0] || null)} />
+                        </div>
+                        <Button onClick={handleUpload} disabled={isUploading}>
+                            {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                            Upload
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Library</CardTitle>
+                    <CardDescription>All chimes available for announcements.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : chimes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">No chimes uploaded yet.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Type</TableHead>
+                                    <TableHead>Preview</TableHead>
+                                    <TableHead className="w-[80px]">Action</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {chimes.map(chime => (
+                                    <TableRow key={chime.id}>
+                                        <TableCell className="font-medium">{chime.name}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={chime.kind === 'intro' ? 'default' : 'secondary'}>{chime.kind}</Badge>
+                                        </TableCell>
+                                        <TableCell>
+                                            <audio controls className="h-8" src={chime.file_path} />
+                                        </TableCell>
+                                        <TableCell>
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild>
+                                                    <Button variant="ghost" size="icon">
+                                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                                    </Button>
+                                                </AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader>
+                                                        <AlertDialogTitle>Delete chime?</AlertDialogTitle>
+                                                        <AlertDialogDescription>
+                                                            &quot;{chime.name}&quot; will be removed and unassigned from every category that uses it.
+                                                        </AlertDialogDescription>
+                                                    </AlertDialogHeader>
+                                                    <AlertDialogFooter>
+                                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                                        <AlertDialogAction onClick={() => handleDelete(chime)}>Delete</AlertDialogAction>
+                                                    </AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Category Chimes</CardTitle>
+                    <CardDescription>
+                        The intro and outro are added to every language of the announcement audio and to the stitched ISL video. If stitching fails and the ISL video falls back to separate clips, the clips play without the chimes.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Category</TableHead>
+                                <TableHead className="w-[220px]">Intro</TableHead>
+                                <TableHead className="w-[220px]">Outro</TableHead>
+                                <TableHead className="w-[100px]">Action</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {categories.map(({ key: category, display_names, icon, color }) => (
+                                <TableRow key={category}>
+                                    <TableCell className="font-medium">
+                                        <span className="flex items-center gap-2">
+                                            <CategoryIcon icon={icon} color={color} />
+                                            {display_names.en || category}
+                                        </span>
+                                    </TableCell>
+                                    <TableCell>{renderChimeSelect(category, 'intro')}</TableCell>
+                                    <TableCell>{renderChimeSelect(category, 'outro')}</TableCell>
+                                    <TableCell>
+                                        <Button size="sm" variant="outline" onClick={() => handleSaveAssignment(category)} disabled={savingCategory === category}>
+                                            {savingCategory === category ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                                            Save
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
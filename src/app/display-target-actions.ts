@@ -0,0 +1,208 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getDb } from './actions';
+import {
+    DISPLAY_TARGET_KINDS,
+    DisplayRoutingRule,
+    DisplayTarget,
+    resolveDisplayTargets,
+} from '@/lib/display-targets';
+
+function toDisplayTarget(row: any): DisplayTarget {
+    return {
+        id: row.id,
+        name: row.name,
+        kind: row.kind,
+        platform: row.platform ?? null,
+        location: row.location ?? '',
+        enabled: row.enabled !== 0,
+    };
+}
+
+function toRoutingRule(row: any): DisplayRoutingRule {
+    return {
+        id: row.id,
+        category: row.category ?? null,
+        destination: row.destination,
+        include_adjacent: row.include_adjacent === 1,
+        target_kind: row.target_kind ?? null,
+        target_id: row.target_id ?? null,
+        enabled: row.enabled !== 0,
+    };
+}
+
+export async function getDisplayTargets(): Promise<DisplayTarget[]> {
+    const db = await getDb();
+    try {
+        const rows = await db.all('SELECT * FROM display_targets ORDER BY kind, platform, name');
+        return rows.map(toDisplayTarget);
+    } catch (error) {
+        console.error('Failed to fetch display targets:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+export async function getDisplayTarget(id: number): Promise<DisplayTarget | null> {
+    const db = await getDb();
+    try {
+        const row = await db.get('SELECT * FROM display_targets WHERE id = ?', id);
+        return row ? toDisplayTarget(row) : null;
+    } catch (error) {
+        console.error('Failed to fetch display target:', error);
+        return null;
+    } finally {
+        await db.close();
+    }
+}
+
+function validateDisplayTarget(target: DisplayTarget): string | null {
+    if (!target.name.trim()) {
+        return 'A screen name is required.';
+    }
+    if (!DISPLAY_TARGET_KINDS.includes(target.kind)) {
+        return `Unknown screen type "${target.kind}".`;
+    }
+    if (target.kind === 'platform' && !target.platform?.trim()) {
+        return 'Platform screens need a platform number.';
+    }
+    return null;
+}
+
+export async function saveDisplayTarget(target: DisplayTarget): Promise<{ success: boolean; message: string }> {
+    const validationError = validateDisplayTarget(target);
+    if (validationError) {
+        return { success: false, message: validationError };
+    }
+
+    const platform = target.kind === 'platform' ? target.platform!.trim() : null;
+    const db = await getDb();
+    try {
+        if (target.id) {
+            await db.run(
+                'UPDATE display_targets SET name = ?, kind = ?, platform = ?, location = ?, enabled = ? WHERE id = ?',
+                target.name.trim(), target.kind, platform, target.location.trim(), target.enabled ? 1 : 0, target.id
+            );
+        } else {
+            await db.run(
+                'INSERT INTO display_targets (name, kind, platform, location, enabled) VALUES (?, ?, ?, ?, ?)',
+                target.name.trim(), target.kind, platform, target.location.trim(), target.enabled ? 1 : 0
+            );
+        }
+        revalidatePath('/display-targets');
+        return { success: true, message: `Screen "${target.name.trim()}" saved.` };
+    } catch (error) {
+        console.error('Failed to save display target:', error);
+        return { success: false, message: 'Failed to save screen.' };
+    } finally {
+        await db.close();
+    }
+}
+
+export async function deleteDisplayTarget(id: number): Promise<{ success: boolean; message: string }> {
+    const db = await getDb();
+    try {
+        const usage = await db.get("SELECT COUNT(*) as count FROM display_routing_rules WHERE destination = 'target' AND target_id = ?", id);
+        if (usage?.count > 0) {
+            return { success: false, message: `Screen is used by ${usage.count} routing rule(s). Remove those first.` };
+        }
+        const result = await db.run('DELETE FROM display_targets WHERE id = ?', id);
+        if (result.changes === 0) {
+            return { success: false, message: 'Screen not found.' };
+        }
+        revalidatePath('/display-targets');
+        return { success: true, message: 'Screen deleted.' };
+    } catch (error) {
+        console.error('Failed to delete display target:', error);
+        return { success: false, message: 'Failed to delete screen.' };
+    } finally {
+        await db.close();
+    }
+}
+
+export async function getDisplayRoutingRules(): Promise<DisplayRoutingRule[]> {
+    const db = await getDb();
+    try {
+        const rows = await db.all('SELECT * FROM display_routing_rules ORDER BY category IS NOT NULL, category, id');
+        return rows.map(toRoutingRule);
+    } catch (error) {
+        console.error('Failed to fetch display routing rules:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+function validateRoutingRule(rule: DisplayRoutingRule): string | null {
+    if (rule.destination === 'target_kind' && !rule.target_kind) {
+        return 'Choose which type of screen the rule sends to.';
+    }
+    if (rule.destination === 'target' && !rule.target_id) {
+        return 'Choose which screen the rule sends to.';
+    }
+    return null;
+}
+
+export async function saveDisplayRoutingRule(rule: DisplayRoutingRule): Promise<{ success: boolean; message: string }> {
+    const validationError = validateRoutingRule(rule);
+    if (validationError) {
+        return { success: false, message: validationError };
+    }
+
+    // Only the fields the destination uses are kept
+    const values = [
+        rule.category || null,
+        rule.destination,
+        rule.destination === 'announcement_platform' && rule.include_adjacent ? 1 : 0,
+        rule.destination === 'target_kind' ? rule.target_kind : null,
+        rule.destination === 'target' ? rule.target_id : null,
+        rule.enabled ? 1 : 0,
+    ];
+    const db = await getDb();
+    try {
+        if (rule.id) {
+            await db.run(
+                'UPDATE display_routing_rules SET category = ?, destination = ?, include_adjacent = ?, target_kind = ?, target_id = ?, enabled = ? WHERE id = ?',
+                ...values, rule.id
+            );
+        } else {
+            await db.run(
+                'INSERT INTO display_routing_rules (category, destination, include_adjacent, target_kind, target_id, enabled) VALUES (?, ?, ?, ?, ?, ?)',
+                ...values
+            );
+        }
+        revalidatePath('/display-targets');
+        return { success: true, message: 'Routing rule saved.' };
+    } catch (error) {
+        console.error('Failed to save display routing rule:', error);
+        return { success: false, message: 'Failed to save routing rule.' };
+    } finally {
+        await db.close();
+    }
+}
+
+export async function deleteDisplayRoutingRule(id: number): Promise<{ success: boolean; message: string }> {
+    const db = await getDb();
+    try {
+        const result = await db.run('DELETE FROM display_routing_rules WHERE id = ?', id);
+        if (result.changes === 0) {
+            return { success: false, message: 'Routing rule not found.' };
+        }
+        revalidatePath('/display-targets');
+        return { success: true, message: 'Routing rule deleted.' };
+    } catch (error) {
+        console.error('Failed to delete display routing rule:', error);
+        return { success: false, message: 'Failed to delete routing rule.' };
+    } finally {
+        await db.close();
+    }
+}
+
+// Screens an announcement for this platform and category would be shown on.
+export async function getDisplayTargetsForAnnouncement(platform: string, category: string): Promise<DisplayTarget[]> {
+    const targets = await getDisplayTargets();
+    const rules = await getDisplayRoutingRules();
+    return resolveDisplayTargets(platform, category, targets, rules);
+}
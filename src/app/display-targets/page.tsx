@@ -0,0 +1,460 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { MonitorPlay, Loader2, Plus, Pencil, Trash2, ExternalLink } from 'lucide-react';
+import {
+    getDisplayTargets,
+    saveDisplayTarget,
+    deleteDisplayTarget,
+    getDisplayRoutingRules,
+    saveDisplayRoutingRule,
+    deleteDisplayRoutingRule,
+} from '@/app/display-target-actions';
+import { getAnnouncementCategories } from '@/app/category-actions';
+import { AnnouncementCategory, getCategoryDisplayName } from '@/lib/announcement-categories';
+import {
+    DISPLAY_TARGET_KINDS,
+    DISPLAY_TARGET_KIND_LABELS,
+    DisplayRoutingRule,
+    DisplayTarget,
+    DisplayTargetKind,
+    ROUTING_DESTINATION_LABELS,
+    RoutingDestination,
+    describeRoutingDestination,
+} from '@/lib/display-targets';
+
+const EMPTY_TARGET: DisplayTarget = {
+    name: '',
+    kind: 'platform',
+    platform: '',
+    location: '',
+    enabled: true,
+};
+
+const EMPTY_RULE: DisplayRoutingRule = {
+    category: null,
+    destination: 'announcement_platform',
+    include_adjacent: false,
+    target_kind: null,
+    target_id: null,
+    enabled: true,
+};
+
+// Select value for rules that apply to every category
+const ANY_CATEGORY = '__any';
+
+export default function DisplayTargetsPage() {
+    const [targets, setTargets] = useState<DisplayTarget[]>([]);
+    const [rules, setRules] = useState<DisplayRoutingRule[]>([]);
+    const [categories, setCategories] = useState<AnnouncementCategory[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [editingTarget, setEditingTarget] = useState<DisplayTarget | null>(null);
+    const [editingRule, setEditingRule] = useState<DisplayRoutingRule | null>(null);
+    const { toast } = useToast();
+
+    const loadData = async () => {
+        try {
+            setTargets(await getDisplayTargets());
+            setRules(await getDisplayRoutingRules());
+            setCategories(await getAnnouncementCategories());
+        } catch (error) {
+            console.error('Failed to load display screens:', error);
+            toast({ variant: 'destructive', title: 'Error', description: 'Failed to load display screens.' });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    const showResult = async (result: { success: boolean; message: string }, title: string) => {
+        toast({
+            variant: result.success ? 'default' : 'destructive',
+            title: result.success ? title : 'Error',
+            description: result.message,
+        });
+        if (result.success) await loadData();
+        return result.success;
+    };
+
+    const handleSaveTarget = async () => {
+        if (!editingTarget) return;
+        setIsSaving(true);
+        try {
+            if (await showResult(await saveDisplayTarget(editingTarget), 'Saved')) setEditingTarget(null);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSaveRule = async () => {
+        if (!editingRule) return;
+        setIsSaving(true);
+        try {
+            if (await showResult(await saveDisplayRoutingRule(editingRule), 'Saved')) setEditingRule(null);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const getKioskUrl = (target: DisplayTarget) => `/kiosk/${target.id}`;
+
+    return (
+        <div className="w-full space-y-6">
+            <div>
+                <h1 className="text-lg font-semibold md:text-2xl flex items-center gap-2">
+                    <MonitorPlay className="h-6 w-6 text-primary" />
+                    Display Screens
+                </h1>
+                <p className="text-muted-foreground">
+                    Register the station&apos;s screens and decide which announcements each one shows.
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div className="space-y-1.5">
+                        <CardTitle>Screens</CardTitle>
+                        <CardDescription>
+                            Open a screen&apos;s kiosk page once on the display; published announcements then play on it automatically.
+                        </CardDescription>
+                    </div>
+                    <Button onClick={() => setEditingTarget({ ...EMPTY_TARGET })}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Screen
+                    </Button>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : targets.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">No screens registered.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Type</TableHead>
+                                    <TableHead>Platform</TableHead>
+                                    <TableHead>Location</TableHead>
+                                    <TableHead>Kiosk Page</TableHead>
+                                    <TableHead className="w-[100px]">Action</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {targets.map(target => (
+                                    <TableRow key={target.id}>
+                                        <TableCell className="font-medium">
+                                            <span className="flex items-center gap-2">
+                                                {target.name}
+                                                {!target.enabled && <Badge variant="outline">Disabled</Badge>}
+                                            </span>
+                                        </TableCell>
+                                        <TableCell>{DISPLAY_TARGET_KIND_LABELS[target.kind]}</TableCell>
+                                        <TableCell>{target.platform ?? '—'}</TableCell>
+                                        <TableCell className="text-sm text-muted-foreground">{target.location || '—'}</TableCell>
+                                        <TableCell>
+                                            <a href={getKioskUrl(target)} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 font-mono text-xs text-primary hover:underline">
+                                                {getKioskUrl(target)}
+                                                <ExternalLink className="h-3 w-3" />
+                                            </a>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex gap-1">
+                                                <Button variant="ghost" size="icon" onClick={() => setEditingTarget({ ...target })}>
+                                                    <Pencil className="h-4 w-4" />
+                                                </Button>
+                                                <AlertDialog>
+                                                    <AlertDialogTrigger asChild>
+                                                        <Button variant="ghost" size="icon">
+                                                            <Trash2 className="h-4 w-4 text-destructive" />
+                                                        </Button>
+                                                    </AlertDialogTrigger>
+                                                    <AlertDialogContent>
+                                                        <AlertDialogHeader>
+                                                            <AlertDialogTitle>Delete screen?</AlertDialogTitle>
+                                                            <AlertDialogDescription>
+                                                                &quot;{target.name}&quot; will stop receiving announcements. Its kiosk page will keep trying to reconnect.
+                                                            </AlertDialogDescription>
+                                                        </AlertDialogHeader>
+                                                        <AlertDialogFooter>
+                                                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                                            <AlertDialogAction onClick={async () => showResult(await deleteDisplayTarget(target.id!), 'Deleted')}>Delete</AlertDialogAction>
+                                                        </AlertDialogFooter>
+                                                    </AlertDialogContent>
+                                                </AlertDialog>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div className="space-y-1.5">
+                        <CardTitle>Routing Rules</CardTitle>
+                        <CardDescription>
+                            An announcement goes to the screens of every rule that matches its category. If none match, it goes to the screens on its own platform.
+                        </CardDescription>
+                    </div>
+                    <Button onClick={() => setEditingRule({ ...EMPTY_RULE })}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Rule
+                    </Button>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : rules.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">No routing rules. Announcements go to the screens on their own platform.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Category</TableHead>
+                                    <TableHead>Shown On</TableHead>
+                                    <TableHead className="w-[100px]">Action</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {rules.map(rule => (
+                                    <TableRow key={rule.id}>
+                                        <TableCell className="font-medium">
+                                            <span className="flex items-center gap-2">
+                                                {rule.category ? getCategoryDisplayName(categories, rule.category) : 'Any category'}
+                                                {!rule.enabled && <Badge variant="outline">Disabled</Badge>}
+                                            </span>
+                                        </TableCell>
+                                        <TableCell>{describeRoutingDestination(rule, targets)}</TableCell>
+                                        <TableCell>
+                                            <div className="flex gap-1">
+                                                <Button variant="ghost" size="icon" onClick={() => setEditingRule({ ...rule })}>
+                                                    <Pencil className="h-4 w-4" />
+                                                </Button>
+                                                <Button variant="ghost" size="icon" onClick={async () => showResult(await deleteDisplayRoutingRule(rule.id!), 'Deleted')}>
+                                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                                </Button>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={!!editingTarget} onOpenChange={(open) => !open && setEditingTarget(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{editingTarget?.id ? `Edit ${editingTarget.name}` : 'Add Screen'}</DialogTitle>
+                        <DialogDescription>
+                            Platform screens receive announcements for their platform; other screens are reached through routing rules.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {editingTarget && (
+                        <div className="grid gap-4 py-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="target-name">Name</Label>
+                                <Input
+                                    id="target-name"
+                                    value={editingTarget.name}
+                                    onChange={(e) => setEditingTarget({ ...editingTarget, name: e.target.value })}
+                                    placeholder="e.g. PF 3 North"
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label>Type</Label>
+                                    <Select value={editingTarget.kind} onValueChange={(value) => setEditingTarget({ ...editingTarget, kind: value as DisplayTargetKind })}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {DISPLAY_TARGET_KINDS.map(kind => (
+                                                <SelectItem key={kind} value={kind}>{DISPLAY_TARGET_KIND_LABELS[kind]}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                {editingTarget.kind === 'platform' && (
+                                    <div className="space-y-2">
+                                        <Label htmlFor="target-platform">Platform</Label>
+                                        <Input
+                                            id="target-platform"
+                                            value={editingTarget.platform ?? ''}
+                                            onChange={(e) => setEditingTarget({ ...editingTarget, platform: e.target.value })}
+                                            placeholder="e.g. 3"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="target-location">Location</Label>
+                                <Input
+                                    id="target-location"
+                                    value={editingTarget.location}
+                                    onChange={(e) => setEditingTarget({ ...editingTarget, location: e.target.value })}
+                                    placeholder="e.g. Near the foot overbridge"
+                                />
+                            </div>
+                            <label className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                    checked={editingTarget.enabled}
+                                    onCheckedChange={(checked) => setEditingTarget({ ...editingTarget, enabled: checked === true })}
+                                />
+                                Receives announcements
+                            </label>
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditingTarget(null)}>Cancel</Button>
+                        <Button onClick={handleSaveTarget} disabled={isSaving}>
+                            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={!!editingRule} onOpenChange={(open) => !open && setEditingRule(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{editingRule?.id ? 'Edit Routing Rule' : 'Add Routing Rule'}</DialogTitle>
+                        <DialogDescription>
+                            Choose which announcements the rule applies to and where they are shown.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {editingRule && (
+                        <div className="grid gap-4 py-2">
+                            <div className="space-y-2">
+                                <Label>Category</Label>
+                                <Select
+                                    value={editingRule.category ?? ANY_CATEGORY}
+                                    onValueChange={(value) => setEditingRule({ ...editingRule, category: value === ANY_CATEGORY ? null : value })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ANY_CATEGORY}>Any category</SelectItem>
+                                        {categories.map(category => (
+                                            <SelectItem key={category.key} value={category.key}>{category.display_names.en}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Shown On</Label>
+                                <Select
+                                    value={editingRule.destination}
+                                    onValueChange={(value) => setEditingRule({ ...editingRule, destination: value as RoutingDestination })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(ROUTING_DESTINATION_LABELS) as RoutingDestination[]).map(destination => (
+                                            <SelectItem key={destination} value={destination}>{ROUTING_DESTINATION_LABELS[destination]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {editingRule.destination === 'announcement_platform' && (
+                                <label className="flex items-center gap-2 text-sm">
+                                    <Checkbox
+                                        checked={editingRule.include_adjacent}
+                                        onCheckedChange={(checked) => setEditingRule({ ...editingRule, include_adjacent: checked === true })}
+                                    />
+                                    Also the adjacent platforms (one number either side)
+                                </label>
+                            )}
+                            {editingRule.destination === 'target_kind' && (
+                                <div className="space-y-2">
+                                    <Label>Screen Type</Label>
+                                    <Select
+                                        value={editingRule.target_kind ?? ''}
+                                        onValueChange={(value) => setEditingRule({ ...editingRule, target_kind: value as DisplayTargetKind })}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Select a screen type" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {DISPLAY_TARGET_KINDS.map(kind => (
+                                                <SelectItem key={kind} value={kind}>{DISPLAY_TARGET_KIND_LABELS[kind]}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+                            {editingRule.destination === 'target' && (
+                                <div className="space-y-2">
+                                    <Label>Screen</Label>
+                                    <Select
+                                        value={editingRule.target_id ? String(editingRule.target_id) : ''}
+                                        onValueChange={(value) => setEditingRule({ ...editingRule, target_id: parseInt(value, 10) })}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Select a screen" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {targets.map(target => (
+                                                <SelectItem key={target.id} value={String(target.id)}>{target.name}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+                            <label className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                    checked={editingRule.enabled}
+                                    onCheckedChange={(checked) => setEditingRule({ ...editingRule, enabled: checked === true })}
+                                />
+                                Enabled
+                            </label>
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditingRule(null)}>Cancel</Button>
+                        <Button onClick={handleSaveRule} disabled={isSaving}>
+                            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -29,7 +29,8 @@ import {
 import { Loader2, Languages, MessageSquare, Video, Text, Film, Rocket, Globe, Volume2, Megaphone, PlayCircle, FileVideo, Calendar, HardDrive, Clock, Trash2, Plus, ChevronLeft, ChevronRight, Save } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { translateInputText, getIslVideoPlaylist, translateTextToMultipleLanguages, generateTextToSpeech, saveTextToIslAudio, saveGeneralAnnouncement, getGeneralAnnouncements, deleteGeneralAnnouncement, clearIslVideoFolder, GeneralAnnouncement } from '@/app/actions';
-import { generateTextToIslHtml } from '@/lib/utils';
+import { openPublishedPage } from '@/lib/utils';
+import { createPublishedPageData, toPublishedTexts } from '@/lib/published-page';
 
 // Source language is fixed to English only
 const SOURCE_LANGUAGE = 'en';
@@ -399,18 +400,13 @@ export default function GeneralAnnouncementPage() {
             console.log('ISL Playlist:', islPlaylist);
             console.log('ISL Video Path:', islVideoPath);
 
-            const htmlContent = generateTextToIslHtml(
-                inputText,
-                translations,
-                videoPath,
-                { en: '', mr: '', hi: '', gu: '' }, // No audio files for now
-                playbackSpeed,
-                true // Hide info-header for General Announcement
-            );
-
-            const blob = new Blob([htmlContent], { type: 'text/html' });
-            const url = URL.createObjectURL(blob);
-            window.open(url, '_blank');
+            // No audio files for now, and no info-header for General Announcement
+            await openPublishedPage(createPublishedPageData({
+                title: `ISL Announcement - ${inputText}`,
+                texts: toPublishedTexts(translations),
+                video_path: videoPath,
+                playback_speed: playbackSpeed,
+            }));
         } catch (error) {
             console.error('Publish error:', error);
             toast({
@@ -471,18 +467,12 @@ export default function GeneralAnnouncementPage() {
             console.log('Video path:', videoPath);
             console.log('Translations:', announcement.translations);
 
-            const htmlContent = generateTextToIslHtml(
-                announcement.original_text,
-                announcement.translations,
-                videoPath,
-                { en: '', mr: '', hi: '', gu: '' }, // No audio files for now
-                1.0, // Default playback speed
-                true // Hide info-header for General Announcement
-            );
-
-            const blob = new Blob([htmlContent], { type: 'text/html' });
-            const url = URL.createObjectURL(blob);
-            window.open(url, '_blank');
+            // No audio files for now, and no info-header for General Announcement
+            await openPublishedPage(createPublishedPageData({
+                title: `ISL Announcement - ${announcement.original_text}`,
+                texts: toPublishedTexts(announcement.translations),
+                video_path: videoPath,
+            }));
         } catch (error) {
             console.error('Publish error:', error);
             toast({
@@ -20,9 +20,14 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { VideoMetadata, uploadIslVideo, uploadIslFemaleVideo, deleteIslVideo, deleteIslFemaleVideo, overwriteIslVideo, overwriteIslFemaleVideo } from '@/app/actions';
+import { VideoMetadata, saveIslClipMetadata, setIslClipReviewStatus, uploadIslVideo, uploadIslFemaleVideo, deleteIslVideo, deleteIslFemaleVideo, overwriteIslVideo, overwriteIslFemaleVideo } from '@/app/actions';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, FolderKanban, PlayCircle, FileVideo, Calendar, HardDrive, Clock, Upload, Trash2, Plus, ChevronLeft, ChevronRight, Search, Scissors } from 'lucide-react';
+import { waitForRenderJob } from '@/hooks/use-render-job';
+import { IslTransitionPreviewDialog } from '@/components/isl-transition-preview-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { IslClipReviewStatus, IslClipTag, ISL_CLIP_TAGS, REVIEW_STATUS_LABELS, MIN_SIGNING_SPEED, MAX_SIGNING_SPEED } from '@/lib/isl-clip-metadata';
+import { Loader2, FolderKanban, PlayCircle, FileVideo, Calendar, HardDrive, Clock, Upload, Trash2, Plus, ChevronLeft, ChevronRight, Search, Scissors, Clapperboard, Save, CheckCircle, XCircle } from 'lucide-react';
 
 const VIDEOS_PER_PAGE = 42; // 6 rows × 7 columns
 
@@ -41,6 +46,7 @@ export default function IslDatasetPage() {
   const [uploadedVideos, setUploadedVideos] = useState<File[]>([]);
   const [isStitching, setIsStitching] = useState(false);
   const [stitchProgress, setStitchProgress] = useState(0);
+  const [stitchMessage, setStitchMessage] = useState('');
   const [stitchedVideoUrl, setStitchedVideoUrl] = useState<string | null>(null);
   const [stitchedVideoName, setStitchedVideoName] = useState('');
   const [stitchedVideoNameError, setStitchedVideoNameError] = useState('');
@@ -48,6 +54,14 @@ export default function IslDatasetPage() {
   const [currentDataset, setCurrentDataset] = useState<'male' | 'female'>('male');
   const [uploadDatasetType, setUploadDatasetType] = useState<'male' | 'female'>('male');
   const [showOverwriteDialog, setShowOverwriteDialog] = useState(false);
+  const [isTransitionPreviewOpen, setIsTransitionPreviewOpen] = useState(false);
+  const [trimInPoint, setTrimInPoint] = useState('');
+  const [trimOutPoint, setTrimOutPoint] = useState('');
+  const [signingSpeed, setSigningSpeed] = useState('');
+  const [clipTags, setClipTags] = useState<IslClipTag[]>([]);
+  const [isSavingClip, setIsSavingClip] = useState(false);
+  const [reviewFilter, setReviewFilter] = useState<IslClipReviewStatus | 'all'>('all');
+  const playerRef = useRef<HTMLVideoElement>(null);
   const [pendingUpload, setPendingUpload] = useState<{ file: File; videoName: string; datasetType: 'male' | 'female' } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const stitchFileInputRef = useRef<HTMLInputElement>(null);
@@ -118,9 +132,12 @@ export default function IslDatasetPage() {
 
   // Filter videos based on search query
   const filteredVideos = videos.filter(video =>
-    video.name.toLowerCase().includes(searchQuery.toLowerCase())
+    video.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
+    (reviewFilter === 'all' || (video.reviewStatus ?? 'approved') === reviewFilter)
   );
 
+  const selectedReviewStatus: IslClipReviewStatus = videos.find(v => v.path === selectedVideo)?.reviewStatus ?? 'approved';
+
   const totalPages = Math.ceil(filteredVideos.length / VIDEOS_PER_PAGE);
   const paginatedVideos = filteredVideos.slice(
     (currentPage - 1) * VIDEOS_PER_PAGE,
@@ -130,7 +147,7 @@ export default function IslDatasetPage() {
   // Reset to first page when search query changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery]);
+  }, [searchQuery, reviewFilter]);
 
   const prevPage = () => {
     if (currentPage > 1) {
@@ -145,10 +162,60 @@ export default function IslDatasetPage() {
   };
 
     const handlePlayClick = (videoSrc: string) => {
+    const video = videos.find(v => v.path === videoSrc);
+    setTrimInPoint(video?.inPoint != null ? String(video.inPoint) : '');
+    setTrimOutPoint(video?.outPoint != null ? String(video.outPoint) : '');
+    setSigningSpeed(video?.signingSpeed != null ? String(video.signingSpeed) : '');
+    setClipTags(video?.tags ?? []);
     setSelectedVideo(videoSrc);
     setIsModalOpen(true);
   }
 
+  const toggleClipTag = (tag: IslClipTag) => {
+    setClipTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  // Blank fields clear the value, so the clip plays from its own start or to its own end
+  const handleSaveClip = async () => {
+    if (!selectedVideo) return;
+    const inPoint = trimInPoint.trim() === '' ? null : parseFloat(trimInPoint);
+    const outPoint = trimOutPoint.trim() === '' ? null : parseFloat(trimOutPoint);
+    const speed = signingSpeed.trim() === '' ? null : parseFloat(signingSpeed);
+
+    setIsSavingClip(true);
+    try {
+      const result = await saveIslClipMetadata(selectedVideo, currentDataset, { inPoint, outPoint, signingSpeed: speed, tags: clipTags });
+      toast({
+        variant: result.success ? 'default' : 'destructive',
+        title: result.success ? 'Saved' : 'Error',
+        description: result.message,
+      });
+      if (result.success) {
+        setVideos(prev => prev.map(v => v.path === selectedVideo ? { ...v, inPoint, outPoint, signingSpeed: speed, tags: clipTags } : v));
+      }
+    } finally {
+      setIsSavingClip(false);
+    }
+  };
+
+  const handleReview = async (reviewStatus: IslClipReviewStatus) => {
+    if (!selectedVideo) return;
+    setIsSavingClip(true);
+    try {
+      const result = await setIslClipReviewStatus(selectedVideo, currentDataset, reviewStatus);
+      toast({
+        variant: result.success ? 'default' : 'destructive',
+        title: result.success ? 'Review Saved' : 'Error',
+        description: result.message,
+      });
+      if (result.success) {
+        setVideos(prev => prev.map(v => v.path === selectedVideo ? { ...v, reviewStatus } : v));
+      }
+    } finally {
+      setIsSavingClip(false);
+    }
+  };
+
   const formatDuration = (seconds: number): string => {
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = Math.floor(seconds % 60);
@@ -456,17 +523,6 @@ export default function IslDatasetPage() {
     setStitchProgress(0);
 
     try {
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setStitchProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + 10;
-        });
-      }, 500);
-
       const formData = new FormData();
       formData.append('videoName', stitchedVideoName);
       uploadedVideos.forEach((file, index) => {
@@ -478,24 +534,26 @@ export default function IslDatasetPage() {
         body: formData,
       });
 
-      clearInterval(progressInterval);
-      setStitchProgress(100);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to stitch videos');
+      }
 
-      if (response.ok) {
-        const result = await response.json();
-        if (result.success) {
-          setStitchedVideoUrl(result.previewUrl);
-          toast({
-            title: 'Success',
-            description: 'Videos stitched successfully! Please review the preview.',
-          });
-        } else {
-          throw new Error(result.message || 'Failed to stitch videos');
-        }
-      } else {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to stitch videos');
+      // The upload is queued as a render job; follow it until ffmpeg finishes
+      const job = await waitForRenderJob<{ previewUrl: string }>(result.jobId, update => {
+        setStitchProgress(Math.round(update.progress ?? 0));
+        if (update.message) setStitchMessage(update.message);
+      });
+      if (job.status !== 'completed' || !job.result) {
+        throw new Error(job.error || (job.status === 'cancelled' ? 'Stitching was cancelled' : 'Failed to stitch videos'));
       }
+
+      setStitchProgress(100);
+      setStitchedVideoUrl(job.result.previewUrl);
+      toast({
+        title: 'Success',
+        description: 'Videos stitched successfully! Please review the preview.',
+      });
     } catch (error) {
       toast({
         variant: 'destructive',
@@ -506,6 +564,7 @@ export default function IslDatasetPage() {
     } finally {
       setIsStitching(false);
       setStitchProgress(0);
+      setStitchMessage('');
     }
   };
 
@@ -783,6 +842,14 @@ export default function IslDatasetPage() {
             )}
             Sync Database
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsTransitionPreviewOpen(true)}
+            className="flex items-center gap-2"
+          >
+            <Clapperboard className="h-4 w-4" />
+            Transition Preview
+          </Button>
           <Dialog open={isStitchModalOpen} onOpenChange={setIsStitchModalOpen}>
             <DialogTrigger asChild>
               <Button variant="outline" className="flex items-center gap-2">
@@ -1074,7 +1141,7 @@ export default function IslDatasetPage() {
                 {isStitching && (
                   <div className="space-y-2">
                     <div className="flex items-center justify-between text-sm">
-                      <span>Processing and stitching videos...</span>
+                      <span>{stitchMessage || 'Processing and stitching videos...'}</span>
                       <span>{stitchProgress}%</span>
                     </div>
                     <div className="w-full bg-gray-200 rounded-full h-2">
@@ -1206,8 +1273,8 @@ export default function IslDatasetPage() {
           ) : videos.length > 0 ? (
             <>
               {/* Search Input */}
-              <div className="mb-4">
-                <div className="relative">
+              <div className="mb-4 flex gap-2">
+                <div className="relative flex-1">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
                     type="text"
@@ -1217,6 +1284,17 @@ export default function IslDatasetPage() {
                     className="pl-10"
                   />
                 </div>
+                <Select value={reviewFilter} onValueChange={(value) => setReviewFilter(value as IslClipReviewStatus | 'all')}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All clips</SelectItem>
+                    {(Object.keys(REVIEW_STATUS_LABELS) as IslClipReviewStatus[]).map(status => (
+                      <SelectItem key={status} value={status}>{REVIEW_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               
               {/* Card Grid Layout */}
@@ -1232,6 +1310,11 @@ export default function IslDatasetPage() {
                       <h3 className="font-medium text-sm text-gray-900 capitalize truncate w-full">
                         {video.name}
                       </h3>
+                      {video.reviewStatus && video.reviewStatus !== 'approved' && (
+                        <Badge variant={video.reviewStatus === 'rejected' ? 'destructive' : 'outline'} className="mt-1 text-[10px]">
+                          {REVIEW_STATUS_LABELS[video.reviewStatus]}
+                        </Badge>
+                      )}
                     </div>
 
                     {/* Hover Overlay */}
@@ -1361,14 +1444,120 @@ export default function IslDatasetPage() {
           </DialogHeader>
           {selectedVideo && (
             <div className="mt-4">
-                <video key={selectedVideo} controls autoPlay className="w-full rounded-md" muted>
+                <video ref={playerRef} key={selectedVideo} controls autoPlay className="w-full rounded-md" muted>
                     <source src={selectedVideo} type="video/mp4" />
                     Your browser does not support the video tag.
                 </video>
+
+                {/* In/out points trim idle frames when this clip is stitched into an announcement */}
+                <div className="mt-4 grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="trim-in">In point (s)</Label>
+                    <div className="flex gap-1">
+                      <Input
+                        id="trim-in"
+                        type="number"
+                        min={0}
+                        step={0.05}
+                        value={trimInPoint}
+                        onChange={(e) => setTrimInPoint(e.target.value)}
+                        placeholder="Start"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setTrimInPoint((playerRef.current?.currentTime ?? 0).toFixed(2))}
+                      >
+                        Mark
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="trim-out">Out point (s)</Label>
+                    <div className="flex gap-1">
+                      <Input
+                        id="trim-out"
+                        type="number"
+                        min={0}
+                        step={0.05}
+                        value={trimOutPoint}
+                        onChange={(e) => setTrimOutPoint(e.target.value)}
+                        placeholder="End"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setTrimOutPoint((playerRef.current?.currentTime ?? 0).toFixed(2))}
+                      >
+                        Mark
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+                <div className="mt-3 grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="signing-speed">Signing speed</Label>
+                    <Input
+                      id="signing-speed"
+                      type="number"
+                      min={MIN_SIGNING_SPEED}
+                      max={MAX_SIGNING_SPEED}
+                      step={0.05}
+                      value={signingSpeed}
+                      onChange={(e) => setSigningSpeed(e.target.value)}
+                      placeholder="1.0 = typical"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Tags</Label>
+                    <div className="flex flex-wrap gap-1">
+                      {ISL_CLIP_TAGS.map(tag => (
+                        <Button
+                          key={tag}
+                          type="button"
+                          variant={clipTags.includes(tag) ? 'default' : 'outline'}
+                          size="sm"
+                          className="h-7 px-2 text-xs capitalize"
+                          onClick={() => toggleClipTag(tag)}
+                        >
+                          {tag}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <div className="mt-3 flex items-center justify-between gap-2">
+                  {/* Only approved clips are used when announcements are signed */}
+                  <div className="flex items-center gap-2">
+                    <Badge variant={selectedReviewStatus === 'rejected' ? 'destructive' : selectedReviewStatus === 'approved' ? 'secondary' : 'outline'}>
+                      {REVIEW_STATUS_LABELS[selectedReviewStatus]}
+                    </Badge>
+                    <Button size="sm" variant="outline" onClick={() => handleReview('approved')} disabled={isSavingClip || selectedReviewStatus === 'approved'}>
+                      <CheckCircle className="mr-2 h-4 w-4" />
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleReview('rejected')} disabled={isSavingClip || selectedReviewStatus === 'rejected'}>
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Reject
+                    </Button>
+                  </div>
+                  <Button size="sm" onClick={handleSaveClip} disabled={isSavingClip}>
+                    {isSavingClip ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    Save Clip Details
+                  </Button>
+                </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      <IslTransitionPreviewDialog
+        open={isTransitionPreviewOpen}
+        avatarModel={currentDataset}
+        onOpenChange={setIsTransitionPreviewOpen}
+      />
     </div>
   );
 }
@@ -0,0 +1,125 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getDb, getIslVideosByModel } from './actions';
+import {
+    IslLexiconEntry,
+    LEXICON_KIND_LABELS,
+    getSignNameFromPath,
+    normalizeLexiconWord,
+} from '@/lib/isl-lexicon';
+import { invalidateSignIndex } from '@/lib/isl-sign-index';
+
+export async function getIslLexicon(): Promise<IslLexiconEntry[]> {
+    const db = await getDb();
+    try {
+        return await db.all(
+            "SELECT id, alias, sign, avatar_model, kind FROM isl_lexicon WHERE status = 'active' ORDER BY sign, alias"
+        );
+    } catch (error) {
+        console.error('Failed to fetch ISL lexicon:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+// Sign names that have a clip for the model, i.e. the valid targets for an alias.
+export async function getIslSignNames(avatarModel: 'male' | 'female'): Promise<string[]> {
+    const videoPaths = await getIslVideosByModel(avatarModel);
+    const names = new Set(videoPaths.map(getSignNameFromPath).filter(Boolean));
+    return Array.from(names).sort();
+}
+
+async function validateLexiconEntry(entry: IslLexiconEntry): Promise<string | null> {
+    if (!entry.alias) {
+        return 'Alias is required.';
+    }
+    if (!entry.sign) {
+        return 'Sign is required.';
+    }
+    if (entry.alias === entry.sign) {
+        return 'Alias and sign are the same word.';
+    }
+    if (!(entry.kind in LEXICON_KIND_LABELS)) {
+        return `Unknown entry type "${entry.kind}".`;
+    }
+
+    const models: ('male' | 'female')[] = entry.avatar_model === 'all' ? ['male', 'female'] : [entry.avatar_model];
+    const available = await Promise.all(models.map(async model => (await getIslSignNames(model)).includes(entry.sign)));
+    if (!available.some(Boolean)) {
+        return `There is no "${entry.sign}" sign video for the ${entry.avatar_model === 'all' ? 'male or female' : entry.avatar_model} avatar.`;
+    }
+    return null;
+}
+
+export async function saveIslLexiconEntry(entry: IslLexiconEntry): Promise<{ success: boolean; message: string }> {
+    const normalized: IslLexiconEntry = {
+        ...entry,
+        alias: normalizeLexiconWord(entry.alias),
+        sign: normalizeLexiconWord(entry.sign),
+    };
+    const validationError = await validateLexiconEntry(normalized);
+    if (validationError) {
+        return { success: false, message: validationError };
+    }
+
+    const db = await getDb();
+    try {
+        if (normalized.id) {
+            await db.run(
+                `UPDATE isl_lexicon SET alias = ?, sign = ?, avatar_model = ?, kind = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+                normalized.alias,
+                normalized.sign,
+                normalized.avatar_model,
+                normalized.kind,
+                normalized.id
+            );
+        } else {
+            // Re-adding a deleted alias brings the row back rather than failing on the unique key.
+            await db.run(
+                `INSERT INTO isl_lexicon (alias, sign, avatar_model, kind, status, updated_at)
+                 VALUES (?, ?, ?, ?, 'active', CURRENT_TIMESTAMP)
+                 ON CONFLICT(alias, avatar_model) DO UPDATE SET
+                   sign = excluded.sign,
+                   kind = excluded.kind,
+                   status = 'active',
+                   updated_at = CURRENT_TIMESTAMP`,
+                normalized.alias,
+                normalized.sign,
+                normalized.avatar_model,
+                normalized.kind
+            );
+        }
+        invalidateSignIndex();
+        revalidatePath('/isl-lexicon');
+        return { success: true, message: `"${normalized.alias}" now signs as "${normalized.sign}".` };
+    } catch (error: any) {
+        console.error('Failed to save ISL lexicon entry:', error);
+        if (error?.code === 'SQLITE_CONSTRAINT') {
+            return { success: false, message: `"${normalized.alias}" already has an entry for this avatar.` };
+        }
+        return { success: false, message: 'Failed to save lexicon entry.' };
+    } finally {
+        await db.close();
+    }
+}
+
+// Soft delete, so the seeded defaults are not re-added on the next start.
+export async function deleteIslLexiconEntry(id: number): Promise<{ success: boolean; message: string }> {
+    const db = await getDb();
+    try {
+        const result = await db.run("UPDATE isl_lexicon SET status = 'deleted' WHERE id = ?", id);
+        if (result.changes === 0) {
+            return { success: false, message: 'Lexicon entry not found.' };
+        }
+        invalidateSignIndex();
+        revalidatePath('/isl-lexicon');
+        return { success: true, message: 'Lexicon entry deleted.' };
+    } catch (error) {
+        console.error('Failed to delete ISL lexicon entry:', error);
+        return { success: false, message: 'Failed to delete lexicon entry.' };
+    } finally {
+        await db.close();
+    }
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { BookA, Loader2, Plus, Pencil, Trash2, Search } from 'lucide-react';
+import {
+    getIslLexicon,
+    getIslSignNames,
+    saveIslLexiconEntry,
+    deleteIslLexiconEntry,
+} from '@/app/isl-lexicon-actions';
+import {
+    IslLexiconEntry,
+    IslLexiconAvatar,
+    IslLexiconKind,
+    LEXICON_KIND_LABELS,
+    normalizeLexiconWord,
+    suggestSigns,
+} from '@/lib/isl-lexicon';
+
+const AVATAR_LABELS: { [avatar in IslLexiconAvatar]: string } = {
+    all: 'Both avatars',
+    male: 'Male avatar',
+    female: 'Female avatar',
+};
+
+const EMPTY_ENTRY: IslLexiconEntry = {
+    alias: '',
+    sign: '',
+    avatar_model: 'all',
+    kind: 'inflection',
+};
+
+export default function IslLexiconPage() {
+    const [entries, setEntries] = useState<IslLexiconEntry[]>([]);
+    const [signNames, setSignNames] = useState<{ male: string[]; female: string[] }>({ male: [], female: [] });
+    const [filter, setFilter] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [editing, setEditing] = useState<IslLexiconEntry | null>(null);
+    const { toast } = useToast();
+
+    const loadEntries = async () => {
+        try {
+            const [lexicon, male, female] = await Promise.all([
+                getIslLexicon(),
+                getIslSignNames('male'),
+                getIslSignNames('female'),
+            ]);
+            setEntries(lexicon);
+            setSignNames({ male, female });
+        } catch (error) {
+            console.error('Failed to load ISL lexicon:', error);
+            toast({ variant: 'destructive', title: 'Error', description: 'Failed to load the ISL lexicon.' });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadEntries();
+    }, []);
+
+    const availableSigns = useMemo(() => {
+        if (!editing) return [];
+        if (editing.avatar_model === 'all') {
+            return Array.from(new Set([...signNames.male, ...signNames.female])).sort();
+        }
+        return signNames[editing.avatar_model];
+    }, [editing?.avatar_model, signNames]);
+
+    const aliasSuggestions = useMemo(() => {
+        if (!editing || !editing.alias.trim()) return [];
+        return suggestSigns(editing.alias, availableSigns, 5);
+    }, [editing?.alias, availableSigns]);
+
+    const filteredEntries = useMemo(() => {
+        const query = normalizeLexiconWord(filter);
+        if (!query) return entries;
+        return entries.filter(entry => entry.alias.includes(query) || entry.sign.includes(query));
+    }, [entries, filter]);
+
+    const isMissingSign = (entry: IslLexiconEntry) => {
+        const models: ('male' | 'female')[] = entry.avatar_model === 'all' ? ['male', 'female'] : [entry.avatar_model];
+        return models.filter(model => !signNames[model].includes(entry.sign));
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        setIsSaving(true);
+        try {
+            const result = await saveIslLexiconEntry(editing);
+            toast({
+                variant: result.success ? 'default' : 'destructive',
+                title: result.success ? 'Saved' : 'Error',
+                description: result.message,
+            });
+            if (result.success) {
+                setEditing(null);
+                await loadEntries();
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (entry: IslLexiconEntry) => {
+        if (!entry.id) return;
+        const result = await deleteIslLexiconEntry(entry.id);
+        toast({
+            variant: result.success ? 'default' : 'destructive',
+            title: result.success ? 'Deleted' : 'Error',
+            description: result.message,
+        });
+        if (result.success) await loadEntries();
+    };
+
+    return (
+        <div className="w-full space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-lg font-semibold md:text-2xl flex items-center gap-2">
+                        <BookA className="h-6 w-6 text-primary" />
+                        ISL Lexicon
+                    </h1>
+                    <p className="text-muted-foreground">
+                        Map inflections, lemmas and synonyms onto an existing sign video.
+                    </p>
+                </div>
+                <Button onClick={() => setEditing({ ...EMPTY_ENTRY })}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Alias
+                </Button>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Aliases</CardTitle>
+                    <CardDescription>
+                        A word without its own clip is signed with the alias&apos;s sign. Clips always win over aliases of the same name.
+                    </CardDescription>
+                    <div className="relative pt-2 max-w-sm">
+                        <Search className="absolute left-2.5 top-4.5 h-4 w-4 text-muted-foreground" />
+                        <Input
+                            placeholder="Filter by alias or sign..."
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value)}
+                            className="pl-8"
+                        />
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : filteredEntries.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">No lexicon entries found.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Alias</TableHead>
+                                    <TableHead>Sign</TableHead>
+                                    <TableHead>Type</TableHead>
+                                    <TableHead>Avatar</TableHead>
+                                    <TableHead className="w-[100px]">Action</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {filteredEntries.map(entry => {
+                                    const missing = isMissingSign(entry);
+                                    return (
+                                        <TableRow key={entry.id}>
+                                            <TableCell className="font-medium">{entry.alias}</TableCell>
+                                            <TableCell>
+                                                <span className="flex items-center gap-2">
+                                                    {entry.sign}
+                                                    {missing.length > 0 && (
+                                                        <Badge variant="destructive" className="text-xs">
+                                                            No {missing.join('/')} clip
+                                                        </Badge>
+                                                    )}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant="secondary">{LEXICON_KIND_LABELS[entry.kind] || entry.kind}</Badge>
+                                            </TableCell>
+                                            <TableCell className="text-sm">{AVATAR_LABELS[entry.avatar_model]}</TableCell>
+                                            <TableCell>
+                                                <div className="flex gap-1">
+                                                    <Button variant="ghost" size="icon" onClick={() => setEditing({ ...entry })}>
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                    <AlertDialog>
+                                                        <AlertDialogTrigger asChild>
+                                                            <Button variant="ghost" size="icon">
+                                                                <Trash2 className="h-4 w-4 text-destructive" />
+                                                            </Button>
+                                                        </AlertDialogTrigger>
+                                                        <AlertDialogContent>
+                                                            <AlertDialogHeader>
+                                                                <AlertDialogTitle>Delete alias?</AlertDialogTitle>
+                                                                <AlertDialogDescription>
+                                                                    &quot;{entry.alias}&quot; will be reported as unmatched unless it has its own clip.
+                                                                </AlertDialogDescription>
+                                                            </AlertDialogHeader>
+                                                            <AlertDialogFooter>
+                                                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                                                <AlertDialogAction onClick={() => handleDelete(entry)}>Delete</AlertDialogAction>
+                                                            </AlertDialogFooter>
+                                                        </AlertDialogContent>
+                                                    </AlertDialog>
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>{editing?.id ? `Edit "${editing.alias}"` : 'Add Alias'}</DialogTitle>
+                        <DialogDescription>
+                            Words are matched in lower case. Multi-word aliases such as &quot;will arrive&quot; are allowed.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {editing && (
+                        <div className="grid gap-4 py-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="lexicon-alias">Alias</Label>
+                                <Input
+                                    id="lexicon-alias"
+                                    value={editing.alias}
+                                    onChange={(e) => setEditing({ ...editing, alias: e.target.value })}
+                                    placeholder="e.g. arrival"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="lexicon-sign">Sign</Label>
+                                <Input
+                                    id="lexicon-sign"
+                                    list="lexicon-sign-names"
+                                    value={editing.sign}
+                                    onChange={(e) => setEditing({ ...editing, sign: e.target.value })}
+                                    placeholder="e.g. arrive"
+                                />
+                                <datalist id="lexicon-sign-names">
+                                    {availableSigns.map(name => <option key={name} value={name} />)}
+                                </datalist>
+                                {aliasSuggestions.length > 0 && (
+                                    <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                                        Closest signs:
+                                        {aliasSuggestions.map(name => (
+                                            <Button
+                                                key={name}
+                                                variant="outline"
+                                                size="sm"
+                                                className="h-6 px-2 text-xs"
+                                                onClick={() => setEditing({ ...editing, sign: name })}
+                                            >
+                                                {name}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label>Type</Label>
+                                    <Select value={editing.kind} onValueChange={(value) => setEditing({ ...editing, kind: value as IslLexiconKind })}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {Object.entries(LEXICON_KIND_LABELS).map(([kind, label]) => (
+                                                <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Avatar</Label>
+                                    <Select value={editing.avatar_model} onValueChange={(value) => setEditing({ ...editing, avatar_model: value as IslLexiconAvatar })}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {Object.entries(AVATAR_LABELS).map(([avatar, label]) => (
+                                                <SelectItem key={avatar} value={avatar}>{label}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                        <Button onClick={handleSave} disabled={isSaving}>
+                            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,58 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getDb } from './actions';
+import { getIslVideoCacheConfig } from '@/lib/config';
+import { ISL_VIDEO_CACHE_FOLDER, IslVideoCacheStats } from '@/lib/isl-video-cache';
+
+export async function getIslVideoCacheStats(): Promise<IslVideoCacheStats> {
+    const maxBytes = getIslVideoCacheConfig().maxSizeMb * 1024 * 1024;
+    const db = await getDb();
+    try {
+        const counters = await db.get('SELECT hits, misses, evictions, reset_at FROM isl_video_cache_stats WHERE id = 1');
+        const entries = await db.all('SELECT * FROM isl_video_cache ORDER BY last_used_at DESC');
+        return {
+            hits: counters?.hits ?? 0,
+            misses: counters?.misses ?? 0,
+            evictions: counters?.evictions ?? 0,
+            reset_at: counters?.reset_at ?? null,
+            totalBytes: entries.reduce((sum: number, entry: any) => sum + (entry.size_bytes || 0), 0),
+            maxBytes,
+            entries,
+        };
+    } catch (error) {
+        console.error('Failed to fetch ISL video cache stats:', error);
+        throw new Error('Failed to fetch ISL video cache stats');
+    } finally {
+        await db.close();
+    }
+}
+
+// Deletes every cached stitch and resets the hit/miss counters.
+export async function clearIslVideoCache(): Promise<{ success: boolean; message: string }> {
+    const cacheDir = path.join(process.cwd(), 'public', 'isl_video', ISL_VIDEO_CACHE_FOLDER);
+    const db = await getDb();
+    try {
+        let removed = 0;
+        try {
+            const files = await fs.readdir(cacheDir);
+            for (const file of files) {
+                await fs.unlink(path.join(cacheDir, file)).catch(() => {});
+                removed++;
+            }
+        } catch {
+            // Cache folder not created yet
+        }
+        await db.run('DELETE FROM isl_video_cache');
+        await db.run('UPDATE isl_video_cache_stats SET hits = 0, misses = 0, evictions = 0, reset_at = CURRENT_TIMESTAMP WHERE id = 1');
+        revalidatePath('/isl-video-cache');
+        return { success: true, message: `Cleared ${removed} cached file(s).` };
+    } catch (error) {
+        console.error('Failed to clear ISL video cache:', error);
+        return { success: false, message: 'Failed to clear the ISL video cache.' };
+    } finally {
+        await db.close();
+    }
+}
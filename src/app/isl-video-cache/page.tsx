@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { HardDrive, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { getIslVideoCacheStats, clearIslVideoCache } from '@/app/isl-video-cache-actions';
+import { IslVideoCacheStats, formatBytes, getCacheHitRate } from '@/lib/isl-video-cache';
+
+export default function IslVideoCachePage() {
+    const [stats, setStats] = useState<IslVideoCacheStats | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isClearing, setIsClearing] = useState(false);
+    const { toast } = useToast();
+
+    const loadStats = async () => {
+        setIsLoading(true);
+        try {
+            setStats(await getIslVideoCacheStats());
+        } catch (error) {
+            console.error('Failed to load ISL video cache stats:', error);
+            toast({ variant: 'destructive', title: 'Error', description: 'Failed to load ISL video cache stats.' });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadStats();
+    }, []);
+
+    const handleClear = async () => {
+        setIsClearing(true);
+        try {
+            const result = await clearIslVideoCache();
+            toast({
+                variant: result.success ? 'default' : 'destructive',
+                title: result.success ? 'Cache Cleared' : 'Error',
+                description: result.message,
+            });
+            if (result.success) await loadStats();
+        } finally {
+            setIsClearing(false);
+        }
+    };
+
+    const hitRate = stats ? getCacheHitRate(stats) : null;
+    const usagePercent = stats && stats.maxBytes > 0 ? Math.min(100, (stats.totalBytes / stats.maxBytes) * 100) : 0;
+
+    return (
+        <div className="w-full space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-lg font-semibold md:text-2xl flex items-center gap-2">
+                        <HardDrive className="h-6 w-6 text-primary" />
+                        ISL Video Cache
+                    </h1>
+                    <p className="text-muted-foreground">
+                        Stitched ISL announcement videos are reused when the same signs are requested again.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={loadStats} disabled={isLoading}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Refresh
+                    </Button>
+                    <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                            <Button variant="destructive" disabled={isClearing || !stats || stats.entries.length === 0}>
+                                {isClearing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                                Clear Cache
+                            </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                            <AlertDialogHeader>
+                                <AlertDialogTitle>Clear the ISL video cache?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                    All cached videos are deleted and the hit counters reset. Videos are rebuilt the next time they are needed.
+                                </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={handleClear}>Clear</AlertDialogAction>
+                            </AlertDialogFooter>
+                        </AlertDialogContent>
+                    </AlertDialog>
+                </div>
+            </div>
+
+            {isLoading && !stats ? (
+                <div className="flex justify-center py-8">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+            ) : stats && (
+                <>
+                    <div className="grid gap-4 md:grid-cols-3">
+                        <Card>
+                            <CardHeader className="pb-2">
+                                <CardDescription>Hit Rate</CardDescription>
+                                <CardTitle className="text-3xl">{hitRate === null ? '—' : `${(hitRate * 100).toFixed(1)}%`}</CardTitle>
+                            </CardHeader>
+                            <CardContent className="text-xs text-muted-foreground">
+                                {stats.hits} hits, {stats.misses} misses
+                                {stats.reset_at && ` since ${new Date(stats.reset_at + 'Z').toLocaleString()}`}
+                            </CardContent>
+                        </Card>
+                        <Card>
+                            <CardHeader className="pb-2">
+                                <CardDescription>Disk Usage</CardDescription>
+                                <CardTitle className="text-3xl">{formatBytes(stats.totalBytes)}</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-2">
+                                <Progress value={usagePercent} className="h-2" />
+                                <p className="text-xs text-muted-foreground">of {formatBytes(stats.maxBytes)} limit</p>
+                            </CardContent>
+                        </Card>
+                        <Card>
+                            <CardHeader className="pb-2">
+                                <CardDescription>Cached Videos</CardDescription>
+                                <CardTitle className="text-3xl">{stats.entries.length}</CardTitle>
+                            </CardHeader>
+                            <CardContent className="text-xs text-muted-foreground">
+                                {stats.evictions} evicted to stay under the limit
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Entries</CardTitle>
+                            <CardDescription>Most recently used first. The least recently used are evicted when the cache is full.</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {stats.entries.length === 0 ? (
+                                <p className="text-sm text-muted-foreground text-center py-8">The cache is empty.</p>
+                            ) : (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Video</TableHead>
+                                            <TableHead>Avatar</TableHead>
+                                            <TableHead className="text-right">Clips</TableHead>
+                                            <TableHead className="text-right">Size</TableHead>
+                                            <TableHead className="text-right">Hits</TableHead>
+                                            <TableHead>Last Used</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {stats.entries.map(entry => (
+                                            <TableRow key={entry.cache_key}>
+                                                <TableCell>
+                                                    <a href={entry.file_path} target="_blank" rel="noopener noreferrer" className="font-mono text-xs text-primary hover:underline">
+                                                        {entry.cache_key.slice(0, 12)}
+                                                    </a>
+                                                </TableCell>
+                                                <TableCell>
+                                                    <Badge variant="secondary" className="capitalize">{entry.avatar_model}</Badge>
+                                                </TableCell>
+                                                <TableCell className="text-right">{entry.clip_count}</TableCell>
+                                                <TableCell className="text-right">{formatBytes(entry.size_bytes)}</TableCell>
+                                                <TableCell className="text-right">{entry.hit_count}</TableCell>
+                                                <TableCell className="text-xs">{new Date(entry.last_used_at + 'Z').toLocaleString()}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            )}
+                        </CardContent>
+                    </Card>
+                </>
+            )}
+        </div>
+    );
+}
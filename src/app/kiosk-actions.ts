@@ -0,0 +1,151 @@
+'use server';
+
+import * as path from 'path';
+import { getDb } from './actions';
+import { getTrainSchedules } from './scheduler-actions';
+import { getDisplayTargetsForAnnouncement } from './display-target-actions';
+import { parseTimeOfDay } from '@/lib/schedule-utils';
+import { findInvalidMediaPath } from '@/lib/public-media';
+import { copyPublicMediaFile } from '@/lib/public-media-copy';
+import {
+    ALL_PLATFORMS,
+    KIOSK_REPLAY_WINDOW_MINUTES,
+    KioskAnnouncement,
+    KioskAnnouncementInput,
+    UpcomingTrain,
+    broadcastKioskAnnouncement,
+    isForPlatform,
+    normalizePlatform,
+} from '@/lib/kiosk-feed';
+
+// Media is copied here on publish (see copyPublicMediaFile).
+const KIOSK_FOLDER = 'kiosk_announcements';
+
+function toKioskAnnouncement(row: any): KioskAnnouncement {
+    return {
+        ...JSON.parse(row.payload),
+        id: row.id,
+        platform: row.platform,
+        target_ids: row.target_ids ? JSON.parse(row.target_ids) : [],
+        created_at: row.created_at,
+    };
+}
+
+/**
+ * Sends an announcement to the display screens its platform and category are routed to.
+ */
+export async function publishKioskAnnouncement(input: KioskAnnouncementInput): Promise<{ success: boolean; message: string; id?: number }> {
+    const invalidPath = findInvalidMediaPath([
+        input.video_path,
+        input.intro_audio_path,
+        input.playout?.audio_path,
+        input.gloss_track?.vtt,
+        ...input.audio.map(item => item.audio_path),
+    ]);
+    if (invalidPath) {
+        return { success: false, message: `${invalidPath} is not a media file the displays can use.` };
+    }
+    // Announcements without a platform still reach the screens that rules send them to
+    const platform = normalizePlatform(input.platform) === ALL_PLATFORMS ? '' : input.platform.trim();
+    const targets = await getDisplayTargetsForAnnouncement(platform, input.category ?? '');
+    if (targets.length === 0) {
+        const forPlatform = platform ? ` for platform ${platform}` : ' without a platform';
+        return { success: false, message: `No display screens receive ${input.category ?? ''} announcements${forPlatform}.` };
+    }
+
+    const folderName = `${Date.now()}`;
+    const extension = (publicPath: string) => path.extname(publicPath) || '.wav';
+    const announcement: KioskAnnouncementInput = {
+        ...input,
+        platform,
+        video_path: input.video_path ? await copyPublicMediaFile(input.video_path, KIOSK_FOLDER, folderName, `isl${path.extname(input.video_path) || '.mp4'}`) : null,
+        audio: await Promise.all(input.audio.map(async item => ({
+            language_code: item.language_code,
+            audio_path: await copyPublicMediaFile(item.audio_path, KIOSK_FOLDER, folderName, `${item.language_code}${extension(item.audio_path)}`),
+        }))),
+        playout: input.playout
+            ? { ...input.playout, audio_path: await copyPublicMediaFile(input.playout.audio_path, KIOSK_FOLDER, folderName, `playout${extension(input.playout.audio_path)}`) }
+            : null,
+        gloss_track: input.gloss_track
+            ? { ...input.gloss_track, vtt: input.gloss_track.vtt ? await copyPublicMediaFile(input.gloss_track.vtt, KIOSK_FOLDER, folderName, 'gloss.vtt') : null }
+            : null,
+    };
+
+    const db = await getDb();
+    try {
+        const { platform, ...payload } = announcement;
+        const result = await db.run(
+            'INSERT INTO kiosk_announcements (platform, payload, target_ids) VALUES (?, ?, ?)',
+            [platform, JSON.stringify(payload), JSON.stringify(targets.map(target => target.id))]
+        );
+        const row = await db.get('SELECT * FROM kiosk_announcements WHERE id = ?', [result.lastID]);
+        broadcastKioskAnnouncement(toKioskAnnouncement(row));
+        return { success: true, message: `Announcement sent to ${targets.map(target => target.name).join(', ')}.`, id: row.id };
+    } catch (error) {
+        console.error('Failed to publish announcement to displays:', error);
+        return { success: false, message: 'Failed to publish announcement to displays.' };
+    } finally {
+        await db.close();
+    }
+}
+
+// Announcements a display screen missed while it was disconnected, oldest first.
+export async function getKioskAnnouncementsSince(targetId: number, afterId: number): Promise<KioskAnnouncement[]> {
+    const db = await getDb();
+    try {
+        const rows = await db.all(
+            `SELECT * FROM kiosk_announcements
+             WHERE id > ? AND created_at >= datetime('now', ?)
+             ORDER BY id ASC`,
+            [afterId, `-${KIOSK_REPLAY_WINDOW_MINUTES} minutes`]
+        );
+        return rows.map(toKioskAnnouncement).filter(announcement => announcement.target_ids.includes(targetId));
+    } catch (error) {
+        console.error('Failed to fetch kiosk announcements:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+// Id of the newest published announcement, so a fresh display knows where its feed starts.
+export async function getLatestKioskAnnouncementId(): Promise<number> {
+    const db = await getDb();
+    try {
+        const row = await db.get('SELECT MAX(id) AS id FROM kiosk_announcements');
+        return row?.id ?? 0;
+    } catch (error) {
+        console.error('Failed to fetch the latest kiosk announcement:', error);
+        return 0;
+    } finally {
+        await db.close();
+    }
+}
+
+// The next trains on a platform (or anywhere, for "all") later today, from the timetable.
+export async function getUpcomingTrains(displayPlatform: string, limit: number = 5): Promise<UpcomingTrain[]> {
+    const now = new Date();
+    const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+    const schedules = await getTrainSchedules();
+    return schedules
+        .filter(schedule => isForPlatform(displayPlatform, schedule.platform))
+        .map(schedule => {
+            const kind: UpcomingTrain['kind'] = schedule.arrival_time ? 'arrival' : 'departure';
+            const time = schedule.arrival_time ?? schedule.departure_time;
+            return {
+                minutes: parseTimeOfDay(time),
+                train: {
+                    train_number: schedule.train_number ?? '',
+                    train_name: schedule.train_name ?? '',
+                    platform: schedule.platform,
+                    time: time ?? '',
+                    kind,
+                },
+            };
+        })
+        .filter((item): item is { minutes: number; train: UpcomingTrain } => item.minutes !== null && item.minutes >= nowMinutes)
+        .sort((a, b) => a.minutes - b.minutes)
+        .slice(0, limit)
+        .map(item => item.train);
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useParams } from 'next/navigation';
+import { Loader2, Train, VolumeX, WifiOff } from 'lucide-react';
+import { useKioskFeed } from '@/hooks/use-kiosk-feed';
+import { KioskAnnouncement, UpcomingTrain } from '@/lib/kiosk-feed';
+import { DisplayTarget } from '@/lib/display-targets';
+import { estimateCaptionDuration } from '@/lib/subtitles';
+
+const LANGUAGE_NAMES: { [key: string]: string } = {
+    en: 'English',
+    hi: 'हिंदी',
+    mr: 'मराठी',
+    gu: 'ગુજરાતી',
+};
+
+// Shown for at least this long, so a very short announcement can still be read.
+const MIN_DISPLAY_MS = 15000;
+// Pause after the last audio file before going back to the idle screen.
+const END_HOLD_MS = 3000;
+
+type AudioItem = { path: string; languageCode: string | null };
+
+// Everything that is played, in order: a playout file on its own, or the chime and each language.
+function getAudioItems(announcement: KioskAnnouncement): AudioItem[] {
+    if (announcement.playout) return [{ path: announcement.playout.audio_path, languageCode: null }];
+    const items: AudioItem[] = announcement.audio.map(item => ({ path: item.audio_path, languageCode: item.language_code }));
+    if (announcement.intro_audio_path && items.length > 0) {
+        items.unshift({ path: announcement.intro_audio_path, languageCode: items[0].languageCode });
+    }
+    return items;
+}
+
+// Reading time of every language, used when there is no audio or it cannot be played.
+function getReadingTimeMs(announcement: KioskAnnouncement): number {
+    const seconds = Object.values(announcement.texts).reduce((sum, text) => sum + (text ? estimateCaptionDuration(text) : 0), 0);
+    return Math.max(MIN_DISPLAY_MS, seconds * 1000);
+}
+
+function KioskAnnouncementPlayer({ announcement, onFinished }: { announcement: KioskAnnouncement; onFinished: () => void }) {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [audioIndex, setAudioIndex] = useState(0);
+    const [tickerLanguage, setTickerLanguage] = useState<string>(Object.keys(announcement.texts)[0] ?? 'en');
+    const [glossText, setGlossText] = useState<string | null>(null);
+    const [soundBlocked, setSoundBlocked] = useState(false);
+    const audioItems = getAudioItems(announcement);
+    const startedAt = useRef(Date.now());
+    // Kept in a ref so a new callback from the parent doesn't restart the timers below
+    const onFinishedRef = useRef(onFinished);
+    onFinishedRef.current = onFinished;
+
+    const finish = () => {
+        const remaining = Math.max(END_HOLD_MS, MIN_DISPLAY_MS - (Date.now() - startedAt.current));
+        setTimeout(() => onFinishedRef.current(), remaining);
+    };
+
+    // Without playable audio the announcement stays up for its reading time, cycling the ticker
+    const timedByReading = audioItems.length === 0 || soundBlocked;
+    useEffect(() => {
+        if (!timedByReading) return;
+        const languages = Object.keys(announcement.texts).filter(lang => announcement.texts[lang]);
+        const totalMs = getReadingTimeMs(announcement);
+        let index = 0;
+        const cycle = setInterval(() => {
+            index = (index + 1) % Math.max(1, languages.length);
+            if (languages[index]) setTickerLanguage(languages[index]);
+        }, totalMs / Math.max(1, languages.length));
+        const done = setTimeout(() => onFinishedRef.current(), totalMs);
+        return () => {
+            clearInterval(cycle);
+            clearTimeout(done);
+        };
+    }, [timedByReading, announcement]);
+
+    useEffect(() => {
+        const audio = audioRef.current;
+        const item = audioItems[audioIndex];
+        if (!audio || !item || soundBlocked) return;
+        if (item.languageCode) setTickerLanguage(item.languageCode);
+        audio.src = item.path;
+        audio.play().catch(error => {
+            // Kiosk browsers should allow autoplay; otherwise fall back to a silent display
+            console.warn('Announcement audio could not be played:', error);
+            setSoundBlocked(true);
+        });
+    }, [audioIndex, soundBlocked]);
+
+    const handleAudioEnded = () => {
+        if (audioIndex + 1 < audioItems.length) setAudioIndex(audioIndex + 1);
+        else finish();
+    };
+
+    // With a playout file, the cue sheet says which language is being spoken
+    const handleAudioTimeUpdate = () => {
+        const time = audioRef.current?.currentTime ?? 0;
+        const cue = announcement.playout?.cues.find(item => time >= item.start && time < item.end);
+        if (cue) setTickerLanguage(cue.language_code);
+    };
+
+    const handleVideoTimeUpdate = () => {
+        const cues = announcement.gloss_track?.cues;
+        if (!cues) return;
+        const time = videoRef.current?.currentTime ?? 0;
+        const cue = cues.find(item => time >= item.start && time < item.end);
+        setGlossText(cue ? (cue.translation ? `${cue.gloss} · ${cue.translation}` : cue.gloss) : null);
+    };
+
+    return (
+        <div className="flex h-full flex-col">
+            <div className="flex items-center justify-between px-8 py-4 bg-[#1a1a1a]">
+                <div className="text-3xl font-bold">{announcement.title}</div>
+                {announcement.platform && <div className="text-2xl text-white/70">Platform {announcement.platform}</div>}
+            </div>
+            <div className="relative flex flex-1 items-center justify-center overflow-hidden">
+                {announcement.video_path ? (
+                    <video
+                        ref={videoRef}
+                        src={announcement.video_path}
+                        className="h-full w-full object-contain"
+                        autoPlay
+                        muted
+                        loop
+                        playsInline
+                        onTimeUpdate={handleVideoTimeUpdate}
+                    />
+                ) : (
+                    <Train className="h-40 w-40 text-white/30" />
+                )}
+                {glossText && (
+                    <div className="absolute top-6 left-1/2 -translate-x-1/2 rounded-lg bg-black/70 px-6 py-3 text-4xl font-bold">
+                        {glossText}
+                    </div>
+                )}
+                {soundBlocked && (
+                    <div className="absolute top-6 right-6 flex items-center gap-2 rounded-lg bg-black/70 px-4 py-2 text-lg text-white/80">
+                        <VolumeX className="h-5 w-5" /> Sound blocked by the browser
+                    </div>
+                )}
+            </div>
+            <div className="flex min-h-[120px] items-center justify-center gap-6 bg-[#1a1a1a] px-8 py-6">
+                <span className="rounded bg-white/10 px-3 py-1 text-lg text-white/70">{LANGUAGE_NAMES[tickerLanguage] || tickerLanguage}</span>
+                <p className="text-4xl leading-snug">{announcement.texts[tickerLanguage]}</p>
+            </div>
+            <audio
+                ref={audioRef}
+                onEnded={handleAudioEnded}
+                onError={handleAudioEnded}
+                onTimeUpdate={handleAudioTimeUpdate}
+            />
+        </div>
+    );
+}
+
+function KioskIdleScreen({ display, upcoming }: { display: DisplayTarget | null; upcoming: UpcomingTrain[] }) {
+    const [now, setNow] = useState<Date | null>(null);
+
+    useEffect(() => {
+        setNow(new Date());
+        const timer = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // Screens off the platforms list trains for every platform
+    const showPlatform = display?.kind !== 'platform';
+
+    return (
+        <div className="flex h-full flex-col items-center justify-center gap-12 px-12">
+            <div className="text-center">
+                <div className="text-[9rem] font-bold leading-none tabular-nums">
+                    {now?.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false })}
+                </div>
+                <div className="mt-4 text-3xl text-white/70">
+                    {now?.toLocaleDateString('en-IN', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}
+                </div>
+                <div className="mt-2 text-2xl text-white/50">{display?.name}</div>
+            </div>
+            <div className="w-full max-w-5xl">
+                <h2 className="mb-4 text-3xl font-bold">Next Trains</h2>
+                {upcoming.length === 0 ? (
+                    <p className="text-2xl text-white/50">No more trains scheduled today.</p>
+                ) : (
+                    <table className="w-full text-2xl">
+                        <tbody>
+                            {upcoming.map(train => (
+                                <tr key={`${train.train_number}-${train.time}`} className="border-b border-white/10">
+                                    <td className="py-3 pr-6 font-bold tabular-nums">{train.time}</td>
+                                    <td className="py-3 pr-6">{train.train_number}</td>
+                                    <td className="py-3 pr-6">{train.train_name}</td>
+                                    <td className="py-3 pr-6 text-white/70">{train.kind === 'arrival' ? 'Arrives' : 'Departs'}</td>
+                                    {showPlatform && <td className="py-3 text-white/70">PF {train.platform}</td>}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Full-screen page for one registered display screen, e.g. /kiosk/3 for screen id 3.
+ * Open it once: announcements routed to the screen play as they arrive, and the clock
+ * and next trains are shown in between.
+ */
+export default function KioskPage() {
+    const params = useParams<{ display: string }>();
+    const { display, current, upcoming, status, dismiss } = useKioskFeed(params.display);
+
+    return (
+        <div className="fixed inset-0 overflow-hidden bg-black text-white">
+            {current ? (
+                <KioskAnnouncementPlayer key={current.id} announcement={current} onFinished={() => dismiss(current.id)} />
+            ) : (
+                <KioskIdleScreen display={display} upcoming={upcoming} />
+            )}
+            {status !== 'live' && (
+                <div className="absolute bottom-4 left-4 flex items-center gap-2 rounded-lg bg-black/70 px-3 py-2 text-sm text-white/70">
+                    {status === 'connecting' ? <Loader2 className="h-4 w-4 animate-spin" /> : <WifiOff className="h-4 w-4" />}
+                    {status === 'connecting' ? 'Connecting…' : 'Reconnecting…'}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -18,6 +18,13 @@ import {
   Megaphone,
   Languages,
   MessageSquare,
+  CalendarClock,
+  Bell,
+  Tags,
+  BookA,
+  HardDrive,
+  ListChecks,
+  MonitorPlay,
 } from 'lucide-react';
 import Link from 'next/link';
 import { Sheet, SheetTrigger, SheetContent } from '@/components/ui/sheet';
@@ -31,6 +38,9 @@ import TemplateAudioPage from '@/app/ai-database/template-audio/page';
 import CustomAudioPage from '@/app/ai-database/custom-audio/page';
 import CustomAudioGenerationPage from '@/app/custom-audio-generation/page';
 import IslDatasetPage from '@/app/isl-dataset/page';
+import IslLexiconPage from '@/app/isl-lexicon/page';
+import IslVideoCachePage from '@/app/isl-video-cache/page';
+import RenderJobsPage from '@/app/render-jobs/page';
 import AnnouncementTemplatesPage from '@/app/announcement-templates/page';
 import SpeechToIslPage from '@/app/speech-to-isl/page';
 import TextToIslPage from '@/app/text-to-isl/page';
@@ -41,6 +51,10 @@ import GeneralAnnouncementPage from '@/app/general-announcement/page';
 import SpeechLanguageDetectionPage from '@/app/speech-language-detection/page';
 import AudioFileAnalysisPage from '@/app/audio-file-analysis/page';
 import PmModiMannKiBaatPage from '@/app/pm-modi-mann-ki-baat/page';
+import AnnouncementSchedulerPage from '@/app/announcement-scheduler/page';
+import ChimeLibraryPage from '@/app/chime-library/page';
+import AnnouncementCategoriesPage from '@/app/announcement-categories/page';
+import DisplayTargetsPage from '@/app/display-targets/page';
 
 
 export default function HomePage() {
@@ -53,6 +67,8 @@ export default function HomePage() {
         return <Dashboard />;
       case 'route-management':
         return <TrainRouteManagementPage />;
+      case 'announcement-scheduler':
+        return <AnnouncementSchedulerPage />;
       case 'ai-database':
         return <AiDatabasePage onViewChange={setActiveView} />;
       case 'translations':
@@ -67,8 +83,20 @@ export default function HomePage() {
         return <CustomAudioGenerationPage />;
       case 'isl-dataset':
         return <IslDatasetPage />;
+      case 'isl-lexicon':
+        return <IslLexiconPage />;
+      case 'isl-video-cache':
+        return <IslVideoCachePage />;
+      case 'render-jobs':
+        return <RenderJobsPage />;
       case 'announcement-templates':
         return <AnnouncementTemplatesPage />;
+      case 'chime-library':
+        return <ChimeLibraryPage />;
+      case 'announcement-categories':
+        return <AnnouncementCategoriesPage />;
+      case 'display-targets':
+        return <DisplayTargetsPage />;
       case 'speech-to-isl':
         return <SpeechToIslPage />;
       case 'text-to-isl':
@@ -145,6 +173,13 @@ export default function HomePage() {
                   <GitFork className="h-4 w-4 text-red-600" />
                   Route Management
                 </div>
+                <div
+                  onClick={() => setActiveView('announcement-scheduler')}
+                  className={getLinkClassName('announcement-scheduler')}
+                >
+                  <CalendarClock className="h-4 w-4 text-red-600" />
+                  Announcement Scheduler
+                </div>
               </div>
 
               {/* AI & Content Generation Section */}
@@ -168,6 +203,27 @@ export default function HomePage() {
                   <ClipboardList className="h-4 w-4" />
                   Announcement Templates
                 </div>
+                <div
+                  onClick={() => setActiveView('announcement-categories')}
+                  className={getLinkClassName('announcement-categories')}
+                >
+                  <Tags className="h-4 w-4" />
+                  Announcement Categories
+                </div>
+                <div
+                  onClick={() => setActiveView('chime-library')}
+                  className={getLinkClassName('chime-library')}
+                >
+                  <Bell className="h-4 w-4" />
+                  Chime Library
+                </div>
+                <div
+                  onClick={() => setActiveView('display-targets')}
+                  className={getLinkClassName('display-targets')}
+                >
+                  <MonitorPlay className="h-4 w-4" />
+                  Display Screens
+                </div>
                 <div
                   onClick={() => setActiveView('ai-database')}
                   className={getLinkClassName('ai-database')}
@@ -212,6 +268,27 @@ export default function HomePage() {
                   <FolderKanban className="h-4 w-4 text-red-600" />
                   ISL Dataset
                 </div>
+                <div
+                  onClick={() => setActiveView('isl-lexicon')}
+                  className={getLinkClassName('isl-lexicon')}
+                >
+                  <BookA className="h-4 w-4" />
+                  ISL Lexicon
+                </div>
+                <div
+                  onClick={() => setActiveView('isl-video-cache')}
+                  className={getLinkClassName('isl-video-cache')}
+                >
+                  <HardDrive className="h-4 w-4" />
+                  ISL Video Cache
+                </div>
+                <div
+                  onClick={() => setActiveView('render-jobs')}
+                  className={getLinkClassName('render-jobs')}
+                >
+                  <ListChecks className="h-4 w-4" />
+                  Render Jobs
+                </div>
                 {/* <div
                   onClick={() => setActiveView('speech-to-isl')}
                   className={getLinkClassName('speech-to-isl')}
@@ -309,6 +386,13 @@ export default function HomePage() {
                       <GitFork className="h-5 w-5 text-red-600" />
                       Route Management
                     </div>
+                    <div
+                      onClick={() => setActiveView('announcement-scheduler')}
+                      className={getMobileLinkClassName('announcement-scheduler')}
+                    >
+                      <CalendarClock className="h-5 w-5 text-red-600" />
+                      Announcement Scheduler
+                    </div>
                   </div>
 
                   {/* AI & Content Generation Section */}
@@ -332,6 +416,27 @@ export default function HomePage() {
                       <ClipboardList className="h-5 w-5" />
                       Announcement Templates
                     </div>
+                    <div
+                      onClick={() => setActiveView('announcement-categories')}
+                      className={getMobileLinkClassName('announcement-categories')}
+                    >
+                      <Tags className="h-5 w-5" />
+                      Announcement Categories
+                    </div>
+                    <div
+                      onClick={() => setActiveView('chime-library')}
+                      className={getMobileLinkClassName('chime-library')}
+                    >
+                      <Bell className="h-5 w-5" />
+                      Chime Library
+                    </div>
+                    <div
+                      onClick={() => setActiveView('display-targets')}
+                      className={getMobileLinkClassName('display-targets')}
+                    >
+                      <MonitorPlay className="h-5 w-5" />
+                      Display Screens
+                    </div>
                     <div
                       onClick={() => setActiveView('ai-database')}
                       className={getMobileLinkClassName('ai-database')}
@@ -376,6 +481,27 @@ export default function HomePage() {
                       <FolderKanban className="h-5 w-5 text-red-600" />
                       ISL Dataset
                     </div>
+                    <div
+                      onClick={() => setActiveView('isl-lexicon')}
+                      className={getMobileLinkClassName('isl-lexicon')}
+                    >
+                      <BookA className="h-5 w-5" />
+                      ISL Lexicon
+                    </div>
+                    <div
+                      onClick={() => setActiveView('isl-video-cache')}
+                      className={getMobileLinkClassName('isl-video-cache')}
+                    >
+                      <HardDrive className="h-5 w-5" />
+                      ISL Video Cache
+                    </div>
+                    <div
+                      onClick={() => setActiveView('render-jobs')}
+                      className={getMobileLinkClassName('render-jobs')}
+                    >
+                      <ListChecks className="h-5 w-5" />
+                      Render Jobs
+                    </div>
                     {/* <div
                       onClick={() => setActiveView('speech-to-isl')}
                       className={getMobileLinkClassName('speech-to-isl')}
@@ -12,7 +12,9 @@ import { Separator } from '@/components/ui/separator';
 import { Plus, Play, Download, Calendar, User, Trash2, Upload, FileAudio, Eye, Loader2, CheckCircle, AlertCircle, X, Globe } from 'lucide-react';
 import { toast } from 'sonner';
 import { getPodcastPlaylists, updatePodcastPlaylist, initializePmModiPodcast, deletePodcastPlaylist, createPodcastPlaylist } from '@/app/podcast-actions';
-import { PodcastPlaylist, transcribeAndTranslateAudio, getIslVideoPlaylist, stitchVideosWithFfmpeg } from '@/app/actions';
+import { PodcastPlaylist, transcribeAndTranslateAudio, getIslVideoPlaylist } from '@/app/actions';
+import { queueVideoStitch } from '@/app/render-job-actions';
+import { waitForRenderJob } from '@/hooks/use-render-job';
 
 export default function PmModiMannKiBaatPage() {
   const [playlists, setPlaylists] = useState<PodcastPlaylist[]>([]);
@@ -130,12 +132,17 @@ export default function PmModiMannKiBaatPage() {
       const timestamp = Date.now();
       const outputFileName = `podcast_episode_${playlistId}_${timestamp}.mp4`;
       
-      // Stitch the videos together
-      const stitchedVideoPath = await stitchVideosWithFfmpeg(islResult.playlist, outputFileName, true);
+      // Stitch the videos together in the render queue, showing ffmpeg's progress as it runs
+      const stitchJobId = await queueVideoStitch(islResult.playlist, outputFileName, true);
+      const stitchJob = await waitForRenderJob<{ videoPath: string }>(stitchJobId, job => {
+        toast.loading(`${job.message || 'Stitching videos'} (${Math.round(job.progress ?? 0)}%)`, { id: `render-job-${stitchJobId}` });
+      });
+      toast.dismiss(`render-job-${stitchJobId}`);
       
-      if (!stitchedVideoPath) {
-        throw new Error('Failed to stitch ISL videos');
+      if (stitchJob.status !== 'completed' || !stitchJob.result?.videoPath) {
+        throw new Error(stitchJob.error || 'Failed to stitch ISL videos');
       }
+      const stitchedVideoPath = stitchJob.result.videoPath;
       
       // Move the stitched video to the podcast directory
       const finalVideoPath = `/podcasts/pm-modi-mann-ki-baat/${outputFileName}`;
@@ -371,12 +378,17 @@ export default function PmModiMannKiBaatPage() {
       const timestamp = Date.now();
       const outputFileName = `podcast_episode_${timestamp}.mp4`;
       
-      // Stitch the videos together
-      const stitchedVideoPath = await stitchVideosWithFfmpeg(islResult.playlist, outputFileName, true);
+      // Stitch the videos together in the render queue, showing ffmpeg's progress as it runs
+      const stitchJobId = await queueVideoStitch(islResult.playlist, outputFileName, true);
+      const stitchJob = await waitForRenderJob<{ videoPath: string }>(stitchJobId, job => {
+        toast.loading(`${job.message || 'Stitching videos'} (${Math.round(job.progress ?? 0)}%)`, { id: `render-job-${stitchJobId}` });
+      });
+      toast.dismiss(`render-job-${stitchJobId}`);
       
-      if (!stitchedVideoPath) {
-        throw new Error('Failed to stitch ISL videos');
+      if (stitchJob.status !== 'completed' || !stitchJob.result?.videoPath) {
+        throw new Error(stitchJob.error || 'Failed to stitch ISL videos');
       }
+      const stitchedVideoPath = stitchJob.result.videoPath;
       
       // Move the stitched video to the podcast directory
       const finalVideoPath = `/podcasts/pm-modi-mann-ki-baat/${outputFileName}`;
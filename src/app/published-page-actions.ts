@@ -0,0 +1,74 @@
+'use server';
+
+import * as path from 'path';
+import { getDb } from './actions';
+import { copyPublicMediaFile } from '@/lib/public-media-copy';
+import { PublishedPageData, validatePublishedPageData } from '@/lib/published-page';
+
+// Media is copied here on publish (see copyPublicMediaFile).
+const PUBLISHED_FOLDER = 'published_pages';
+
+function toPublishedPageData(row: any): PublishedPageData {
+    return JSON.parse(row.data);
+}
+
+/**
+ * Stores a page and returns the URL it is served from (/published/<id>).
+ */
+export async function publishPage(data: PublishedPageData): Promise<{ success: boolean; message: string; id?: number; url?: string }> {
+    const validationError = validatePublishedPageData(data);
+    if (validationError) {
+        return { success: false, message: validationError };
+    }
+
+    const folderName = `${Date.now()}`;
+    const extension = (publicPath: string, fallback: string) => path.extname(publicPath) || fallback;
+    const subtitleTracks: PublishedPageData['subtitle_tracks'] = {};
+    for (const [lang, trackPath] of Object.entries(data.subtitle_tracks)) {
+        subtitleTracks[lang] = await copyPublicMediaFile(trackPath, PUBLISHED_FOLDER, folderName, `captions_${lang}.vtt`);
+    }
+    const page: PublishedPageData = {
+        ...data,
+        title: data.title.trim(),
+        video_path: data.video_path ? await copyPublicMediaFile(data.video_path, PUBLISHED_FOLDER, folderName, `isl${extension(data.video_path, '.mp4')}`) : null,
+        audio: await Promise.all(data.audio.map(async (item, index) => ({
+            language_code: item.language_code,
+            audio_path: await copyPublicMediaFile(item.audio_path, PUBLISHED_FOLDER, folderName, `${item.language_code ?? `audio_${index}`}${extension(item.audio_path, '.wav')}`),
+        }))),
+        playout: data.playout
+            ? { ...data.playout, audio_path: await copyPublicMediaFile(data.playout.audio_path, PUBLISHED_FOLDER, folderName, `playout${extension(data.playout.audio_path, '.wav')}`) }
+            : null,
+        subtitle_tracks: subtitleTracks,
+        gloss_track: data.gloss_track
+            ? { ...data.gloss_track, vtt: data.gloss_track.vtt ? await copyPublicMediaFile(data.gloss_track.vtt, PUBLISHED_FOLDER, folderName, 'gloss.vtt') : null }
+            : null,
+    };
+
+    const db = await getDb();
+    try {
+        const result = await db.run(
+            'INSERT INTO published_pages (kind, title, data) VALUES (?, ?, ?)',
+            page.kind, page.title, JSON.stringify(page)
+        );
+        const id = result.lastID!;
+        return { success: true, message: `Published "${page.title}".`, id, url: `/published/${id}` };
+    } catch (error) {
+        console.error('Failed to publish page:', error);
+        return { success: false, message: 'Failed to publish page.' };
+    } finally {
+        await db.close();
+    }
+}
+
+export async function getPublishedPage(id: number): Promise<PublishedPageData | null> {
+    const db = await getDb();
+    try {
+        const row = await db.get('SELECT * FROM published_pages WHERE id = ?', id);
+        return row ? toPublishedPageData(row) : null;
+    } catch (error) {
+        console.error('Failed to fetch published page:', error);
+        return null;
+    } finally {
+        await db.close();
+    }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublishedPage } from '@/app/published-page-actions';
+import { getPublishedPageTheme } from '@/lib/config';
+import { applyPublishedPageOptions, renderPublishedPage } from '@/lib/published-page';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * A published ISL page, in the configured theme with the viewer's ?contrast=, ?scale=,
+ * ?ticker= and ?position= choices applied.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const id = parseInt((await params).id, 10);
+  const page = isNaN(id) ? null : await getPublishedPage(id);
+  if (!page) {
+    return NextResponse.json({ success: false, message: 'Published page not found' }, { status: 404 });
+  }
+
+  const theme = applyPublishedPageOptions(getPublishedPageTheme(), request.nextUrl.searchParams);
+  return new NextResponse(renderPublishedPage(page, theme), {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
@@ -0,0 +1,212 @@
+'use server';
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+    getDb,
+    stitchVideosWithFfmpeg,
+    mergeAudioWithVideo,
+    mergeMultipleAudioWithVideo,
+    getIslVideoPlaylistForGloss,
+    regenerateAnnouncementIslVideo,
+    generateAnnouncementSubtitles,
+} from './actions';
+import {
+    enqueueRenderJob,
+    registerRenderJobHandler,
+    requestRenderJobCancel,
+    requeueRenderJob,
+    startRenderWorkers,
+    toRenderJob,
+} from '@/lib/job-queue';
+import { writeConcatList } from '@/lib/media-tools';
+import { IslTransitionConfig, MAX_TRANSITION_DURATION_MS, TRANSITION_LABELS } from '@/lib/isl-transitions';
+import { findInvalidMediaPath } from '@/lib/public-media';
+import { AnnouncementIslVideoOptions, AnnouncementIslVideoResult, RenderJob, RenderJobStatus } from '@/lib/render-jobs';
+
+registerRenderJobHandler('stitch_videos', async (payload, job) => {
+    const videoPath = await stitchVideosWithFfmpeg(payload.videoPaths, payload.outputFileName, payload.normalize, job);
+    if (!videoPath) throw new Error('Failed to stitch ISL videos');
+    return { videoPath };
+});
+
+registerRenderJobHandler('merge_audio_video', async (payload, job) => {
+    const outputPath = payload.audioPaths.length === 1
+        ? await mergeAudioWithVideo(payload.videoPath, payload.audioPaths[0], payload.outputFileName, undefined, job)
+        : await mergeMultipleAudioWithVideo(payload.videoPath, payload.audioPaths, payload.outputFileName, undefined, job);
+    if (!outputPath) throw new Error('Failed to merge audio with video');
+    return { outputPath };
+});
+
+registerRenderJobHandler('isl_gloss_video', async (payload, job) => {
+    const announcement: AnnouncementIslVideoOptions | null = payload.announcement ?? null;
+    if (!announcement) {
+        return await getIslVideoPlaylistForGloss(payload.gloss, payload.avatarModel, job, payload.transition ?? undefined);
+    }
+    const video = await regenerateAnnouncementIslVideo(
+        payload.gloss,
+        payload.avatarModel,
+        announcement.introChimePath,
+        announcement.outroChimePath,
+        announcement.audioDurations,
+        job
+    );
+    const result: AnnouncementIslVideoResult = {
+        ...video,
+        subtitles: video.playlist.length === 1 ? await generateAnnouncementSubtitles(announcement.announcements, video.playlist[0]) : {},
+    };
+    return result;
+});
+
+// Uploaded clips saved by /api/stitch-videos: normalize each one, then join them into a preview.
+registerRenderJobHandler('stitch_uploaded_videos', async (payload, job) => {
+    const { sessionDir, inputPaths, fileNames, videoName } = payload as {
+        sessionDir: string;
+        inputPaths: string[];
+        fileNames: string[];
+        videoName: string;
+    };
+    // Preprocessing takes most of the time, so it gets the first 90% of the progress bar
+    const preprocessedPaths: string[] = [];
+    for (let i = 0; i < inputPaths.length; i++) {
+        const outputPath = path.join(sessionDir, `preprocessed_${i}.mp4`);
+        const ffmpegArgs = [
+            '-i', inputPaths[i],
+            '-vf', 'fps=30:round=up,scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2',
+            '-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-an',
+            '-movflags', '+faststart', '-pix_fmt', 'yuv420p',
+            '-y', outputPath,
+        ];
+        const range: [number, number] = [(i / inputPaths.length) * 90, ((i + 1) / inputPaths.length) * 90];
+        try {
+            await job.runFfmpeg(ffmpegArgs, { range, message: `Preprocessing video ${i + 1} of ${inputPaths.length}` });
+        } catch (error) {
+            if (job.signal.aborted) throw error;
+            console.error(`Failed to preprocess video ${i + 1}:`, error);
+            throw new Error(`Failed to preprocess video "${fileNames[i]}". Please ensure it's a valid video file.`);
+        }
+        preprocessedPaths.push(outputPath);
+    }
+
+    const fileListPath = path.join(sessionDir, 'filelist.txt');
+    await writeConcatList(fileListPath, preprocessedPaths);
+
+    const outputPath = path.join(sessionDir, `${videoName}_stitched.mp4`);
+    try {
+        await job.runFfmpeg(['-f', 'concat', '-safe', '0', '-i', fileListPath, '-c', 'copy', '-y', outputPath], { range: [90, 100], message: 'Joining videos' });
+    } catch (error) {
+        if (job.signal.aborted) throw error;
+        console.error('Failed to stitch videos:', error);
+        throw new Error('Failed to stitch videos together. Please ensure all videos are valid and compatible.');
+    }
+
+    const previewDir = path.join(process.cwd(), 'public', 'temp-videos', 'previews');
+    await fs.mkdir(previewDir, { recursive: true });
+    const previewFileName = `${videoName}_preview_${Date.now()}.mp4`;
+    await fs.rename(outputPath, path.join(previewDir, previewFileName));
+    await fs.rm(sessionDir, { recursive: true, force: true });
+
+    return { previewUrl: `/temp-videos/previews/${previewFileName}`, videoName };
+});
+
+export async function queueVideoStitch(videoPaths: string[], outputFileName: string, normalize: boolean = false): Promise<number> {
+    return enqueueRenderJob('stitch_videos', { videoPaths, outputFileName, normalize });
+}
+
+export async function queueAudioVideoMerge(videoPath: string, audioPaths: string[], outputFileName: string): Promise<number> {
+    return enqueueRenderJob('merge_audio_video', { videoPath, audioPaths, outputFileName });
+}
+
+// Without `transition` the video uses the configured one (islTransitions in config/server.json).
+// With `announcement` the job renders a dashboard announcement video and returns an AnnouncementIslVideoResult.
+export async function queueIslGlossVideo(
+    gloss: string,
+    avatarModel: 'male' | 'female' = 'male',
+    transition?: IslTransitionConfig,
+    announcement?: AnnouncementIslVideoOptions
+): Promise<number> {
+    if (transition && !(transition.type in TRANSITION_LABELS)) {
+        throw new Error(`Unknown transition "${transition.type}"`);
+    }
+    const invalidChime = announcement && findInvalidMediaPath([announcement.introChimePath, announcement.outroChimePath]);
+    if (invalidChime) {
+        throw new Error(`Invalid chime path "${invalidChime}"`);
+    }
+    const checkedTransition = transition && {
+        type: transition.type,
+        durationMs: Math.min(Math.max(Math.round(transition.durationMs) || 0, 0), MAX_TRANSITION_DURATION_MS),
+    };
+    return enqueueRenderJob('isl_gloss_video', { gloss, avatarModel, transition: checkedTransition ?? null, announcement: announcement ?? null });
+}
+
+// The session folder is cleaned up by the job; uploads are not retried since a failure is almost always a bad file.
+export async function queueUploadedVideoStitch(sessionDir: string, inputPaths: string[], fileNames: string[], videoName: string): Promise<number> {
+    // The job deletes the session folder, so only accept folders created by /api/stitch-videos
+    const tempDir = path.join(process.cwd(), 'public', 'temp-videos');
+    const resolvedSessionDir = path.resolve(sessionDir);
+    if (path.dirname(resolvedSessionDir) !== tempDir || !path.basename(resolvedSessionDir).startsWith('stitch_')) {
+        throw new Error('Invalid stitching session folder');
+    }
+    if (inputPaths.some(inputPath => path.dirname(path.resolve(inputPath)) !== resolvedSessionDir)) {
+        throw new Error('Stitching inputs must be inside the session folder');
+    }
+    if (!/^[a-z0-9_-]+$/.test(videoName)) {
+        throw new Error('Invalid video name');
+    }
+    return enqueueRenderJob('stitch_uploaded_videos', { sessionDir: resolvedSessionDir, inputPaths, fileNames, videoName }, 1);
+}
+
+export async function getRenderJob(jobId: number): Promise<RenderJob | null> {
+    // The queue starts with the server (src/instrumentation.ts); a poll also wakes it in case it is idle
+    startRenderWorkers();
+    const db = await getDb();
+    try {
+        const row = await db.get('SELECT * FROM render_jobs WHERE id = ?', jobId);
+        return row ? toRenderJob(row) : null;
+    } catch (error) {
+        console.error('Failed to fetch render job:', error);
+        throw new Error('Failed to fetch render job');
+    } finally {
+        await db.close();
+    }
+}
+
+export async function getRenderJobs(status?: RenderJobStatus, limit: number = 100): Promise<RenderJob[]> {
+    startRenderWorkers();
+    const db = await getDb();
+    try {
+        const rows = status
+            ? await db.all('SELECT * FROM render_jobs WHERE status = ? ORDER BY id DESC LIMIT ?', status, limit)
+            : await db.all('SELECT * FROM render_jobs ORDER BY id DESC LIMIT ?', limit);
+        return rows.map(toRenderJob);
+    } catch (error) {
+        console.error('Failed to fetch render jobs:', error);
+        throw new Error('Failed to fetch render jobs');
+    } finally {
+        await db.close();
+    }
+}
+
+export async function cancelRenderJob(jobId: number): Promise<{ success: boolean; message: string }> {
+    try {
+        const cancelled = await requestRenderJobCancel(jobId);
+        return cancelled
+            ? { success: true, message: 'Cancellation requested.' }
+            : { success: false, message: 'Job has already finished.' };
+    } catch (error) {
+        console.error('Failed to cancel render job:', error);
+        return { success: false, message: 'Failed to cancel job.' };
+    }
+}
+
+export async function retryRenderJob(jobId: number): Promise<{ success: boolean; message: string }> {
+    try {
+        const requeued = await requeueRenderJob(jobId);
+        return requeued
+            ? { success: true, message: 'Job queued again.' }
+            : { success: false, message: 'Only failed or cancelled jobs can be retried.' };
+    } catch (error) {
+        console.error('Failed to retry render job:', error);
+        return { success: false, message: 'Failed to retry job.' };
+    }
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ListChecks, Loader2, RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+import { getRenderJobs, cancelRenderJob, retryRenderJob } from '@/app/render-job-actions';
+import { RenderJob, RenderJobStatus, RENDER_JOB_TYPE_LABELS, isTerminalJobStatus } from '@/lib/render-jobs';
+
+const STATUS_VARIANTS: { [status in RenderJobStatus]: 'default' | 'secondary' | 'destructive' | 'outline' } = {
+    queued: 'outline',
+    running: 'default',
+    completed: 'secondary',
+    failed: 'destructive',
+    cancelled: 'outline',
+};
+
+// While anything is queued or running the list refreshes itself at this rate
+const REFRESH_INTERVAL_MS = 2000;
+
+export default function RenderJobsPage() {
+    const [jobs, setJobs] = useState<RenderJob[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [busyJobId, setBusyJobId] = useState<number | null>(null);
+    const { toast } = useToast();
+
+    const loadJobs = async (showSpinner = true) => {
+        if (showSpinner) setIsLoading(true);
+        try {
+            setJobs(await getRenderJobs());
+        } catch (error) {
+            console.error('Failed to load render jobs:', error);
+            toast({ variant: 'destructive', title: 'Error', description: 'Failed to load render jobs.' });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadJobs();
+    }, []);
+
+    const hasActiveJobs = jobs.some(job => !isTerminalJobStatus(job.status));
+
+    useEffect(() => {
+        if (!hasActiveJobs) return;
+        const timer = setInterval(() => loadJobs(false), REFRESH_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [hasActiveJobs]);
+
+    const handleAction = async (jobId: number, action: typeof cancelRenderJob) => {
+        setBusyJobId(jobId);
+        try {
+            const result = await action(jobId);
+            toast({
+                variant: result.success ? 'default' : 'destructive',
+                title: result.success ? 'Success' : 'Error',
+                description: result.message,
+            });
+            await loadJobs(false);
+        } finally {
+            setBusyJobId(null);
+        }
+    };
+
+    return (
+        <div className="w-full space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-lg font-semibold md:text-2xl flex items-center gap-2">
+                        <ListChecks className="h-6 w-6 text-primary" />
+                        Render Jobs
+                    </h1>
+                    <p className="text-muted-foreground">
+                        Video stitching and audio merging run in the background. Failed jobs are retried automatically.
+                    </p>
+                </div>
+                <Button variant="outline" onClick={() => loadJobs()} disabled={isLoading}>
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Refresh
+                </Button>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Recent Jobs</CardTitle>
+                    <CardDescription>The 100 most recent jobs, newest first.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading && jobs.length === 0 ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : jobs.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">No render jobs yet.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-16">#</TableHead>
+                                    <TableHead>Job</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead className="w-48">Progress</TableHead>
+                                    <TableHead className="text-right">Attempts</TableHead>
+                                    <TableHead>Created</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {jobs.map(job => (
+                                    <TableRow key={job.id}>
+                                        <TableCell className="font-mono text-xs">{job.id}</TableCell>
+                                        <TableCell>
+                                            <div className="font-medium">{RENDER_JOB_TYPE_LABELS[job.type] ?? job.type}</div>
+                                            {job.status === 'failed' && job.error ? (
+                                                <div className="text-xs text-destructive line-clamp-2" title={job.error}>{job.error}</div>
+                                            ) : job.message && (
+                                                <div className="text-xs text-muted-foreground">{job.message}</div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant={STATUS_VARIANTS[job.status]} className="capitalize">
+                                                {job.status === 'running' && job.cancel_requested ? 'cancelling' : job.status}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell>
+                                            {job.status === 'running' || job.status === 'completed' ? (
+                                                <div className="flex items-center gap-2">
+                                                    <Progress value={job.progress ?? 0} className="h-2" />
+                                                    <span className="text-xs w-10 text-right">{Math.round(job.progress ?? 0)}%</span>
+                                                </div>
+                                            ) : (
+                                                <span className="text-xs text-muted-foreground">—</span>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right">{job.attempts} / {job.max_attempts}</TableCell>
+                                        <TableCell className="text-xs">{new Date(job.created_at + 'Z').toLocaleString()}</TableCell>
+                                        <TableCell className="text-right">
+                                            {!isTerminalJobStatus(job.status) ? (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => handleAction(job.id, cancelRenderJob)}
+                                                    disabled={busyJobId === job.id || job.cancel_requested}
+                                                >
+                                                    <XCircle className="mr-2 h-4 w-4" />
+                                                    Cancel
+                                                </Button>
+                                            ) : job.status !== 'completed' && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => handleAction(job.id, retryRenderJob)}
+                                                    disabled={busyJobId === job.id}
+                                                >
+                                                    <RotateCcw className="mr-2 h-4 w-4" />
+                                                    Retry
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,489 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getDb } from './actions';
+import { getAnnouncementCategories } from './category-actions';
+import { DEFAULT_CATEGORY_PRIORITY } from '@/lib/announcement-categories';
+import { getOperatorInputPlaceholders } from '@/lib/announcement-placeholders';
+import { generateAnnouncement } from '@/ai/flows/announcement-flow';
+import {
+    ScheduleReference,
+    QueueItemStatus,
+    GENERATING_TIMEOUT_MINUTES,
+    READY_EXPIRY_MINUTES,
+    formatTimeOfDay,
+    getQueueFireTimes,
+    getQueueItemStatus,
+    getServiceDate,
+    shiftServiceDate,
+    parseTimeOfDay,
+} from '@/lib/schedule-utils';
+
+export type ScheduleRule = {
+    id?: number;
+    category: string;
+    reference: ScheduleReference;
+    offset_minutes: number;
+};
+
+export type TrainSchedule = {
+    id?: number;
+    route_id: number;
+    train_number?: string;
+    train_name?: string;
+    arrival_time: string | null;
+    departure_time: string | null;
+    platform: string;
+    status?: string;
+    rules: ScheduleRule[];
+};
+
+export type SchedulerQueueItem = {
+    schedule_id: number;
+    rule_id: number;
+    route_id: number;
+    train_number: string;
+    train_name: string;
+    platform: string;
+    category: string;
+    reference: ScheduleReference;
+    offset_minutes: number;
+    fire_time: string; // 'HH:MM'
+    scheduled_for: string; // ISO timestamp
+    service_date: string; // 'YYYY-MM-DD' the item is logged under
+    status: QueueItemStatus;
+};
+
+export type SchedulerLogEntry = {
+    id: number;
+    schedule_id: number;
+    rule_id: number;
+    route_id: number;
+    train_number: string;
+    train_name: string | null;
+    platform: string;
+    category: string;
+    service_date: string;
+    scheduled_for: string;
+    status: string;
+    audio_files: { [key: string]: string };
+    playout_path: string | null;
+    error: string | null;
+    created_at: string;
+};
+
+const PAUSED_SETTING_KEY = 'paused';
+
+function validateSchedule(schedule: TrainSchedule): string | null {
+    if (!schedule.route_id) return 'A train route is required.';
+    if (!schedule.platform || !schedule.platform.trim()) return 'A platform is required.';
+    if (schedule.arrival_time && parseTimeOfDay(schedule.arrival_time) === null) return 'Arrival time must be in HH:MM format.';
+    if (schedule.departure_time && parseTimeOfDay(schedule.departure_time) === null) return 'Departure time must be in HH:MM format.';
+    if (!schedule.arrival_time && !schedule.departure_time) return 'Either an arrival or a departure time is required.';
+    for (const rule of schedule.rules) {
+        if (!rule.category) return 'Every rule needs a category.';
+        if (rule.reference === 'arrival' && !schedule.arrival_time) return `Rule "${rule.category}" refers to the arrival time, which is not set.`;
+        if (rule.reference === 'departure' && !schedule.departure_time) return `Rule "${rule.category}" refers to the departure time, which is not set.`;
+        if (!Number.isInteger(rule.offset_minutes)) return 'Rule offsets must be whole minutes.';
+    }
+    return null;
+}
+
+export async function getTrainSchedules(): Promise<TrainSchedule[]> {
+    const db = await getDb();
+    try {
+        const schedules = await db.all(`
+            SELECT ts.*, tr.train_number, tr.train_name
+            FROM train_schedules ts
+            JOIN train_routes tr ON tr.id = ts.route_id
+            WHERE ts.status = 'active'
+            ORDER BY COALESCE(ts.arrival_time, ts.departure_time) ASC
+        `);
+        const rules = await db.all('SELECT * FROM schedule_announcement_rules ORDER BY offset_minutes DESC');
+
+        return schedules.map(schedule => ({
+            id: schedule.id,
+            route_id: schedule.route_id,
+            train_number: schedule.train_number,
+            train_name: schedule.train_name,
+            arrival_time: schedule.arrival_time,
+            departure_time: schedule.departure_time,
+            platform: schedule.platform,
+            status: schedule.status,
+            rules: rules
+                .filter(rule => rule.schedule_id === schedule.id)
+                .map(rule => ({
+                    id: rule.id,
+                    category: rule.category,
+                    reference: rule.reference,
+                    offset_minutes: rule.offset_minutes,
+                })),
+        }));
+    } catch (error) {
+        console.error('Failed to fetch train schedules:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+export async function saveTrainSchedule(schedule: TrainSchedule): Promise<{ success: boolean; message: string; scheduleId?: number }> {
+    const validationError = validateSchedule(schedule);
+    if (validationError) {
+        return { success: false, message: validationError };
+    }
+
+    const db = await getDb();
+    try {
+        // Scheduled announcements are generated with no operator at hand, so their templates
+        // cannot ask for values that are typed in on the dashboard (delay, expected time, ...).
+        const categories = Array.from(new Set(schedule.rules.map(rule => rule.category)));
+        const templates: { category: string; template_text: string }[] = categories.length > 0
+            ? await db.all(
+                `SELECT category, template_text FROM announcement_templates WHERE category IN (${categories.map(() => '?').join(', ')})`,
+                categories
+            )
+            : [];
+        for (const category of categories) {
+            const keys = new Set(templates
+                .filter(template => template.category === category)
+                .flatMap(template => getOperatorInputPlaceholders(template.template_text).map(definition => definition.key)));
+            if (keys.size > 0) {
+                return {
+                    success: false,
+                    message: `The ${category.replace(/_/g, ' ')} template needs ${Array.from(keys).map(key => `{${key}}`).join(', ')} from an operator, so it cannot be scheduled. Announce it from the dashboard instead.`,
+                };
+            }
+        }
+
+        let scheduleId = schedule.id;
+        if (scheduleId) {
+            await db.run(`
+                UPDATE train_schedules
+                SET route_id = ?, arrival_time = ?, departure_time = ?, platform = ?, updated_at = CURRENT_TIMESTAMP
+                WHERE id = ?
+            `, [schedule.route_id, schedule.arrival_time || null, schedule.departure_time || null, schedule.platform.trim(), scheduleId]);
+        } else {
+            const result = await db.run(`
+                INSERT INTO train_schedules (route_id, arrival_time, departure_time, platform)
+                VALUES (?, ?, ?, ?)
+            `, [schedule.route_id, schedule.arrival_time || null, schedule.departure_time || null, schedule.platform.trim()]);
+            scheduleId = result.lastID!;
+        }
+
+        // Rules are updated in place so they keep their ids: the log records one entry per rule
+        // and service date, so an edited rule that already fired today does not fire again.
+        const existingRules: { id: number }[] = await db.all('SELECT id FROM schedule_announcement_rules WHERE schedule_id = ?', [scheduleId]);
+        const existingIds = new Set(existingRules.map(rule => rule.id));
+        const keptIds = new Set(schedule.rules.map(rule => rule.id).filter(id => id && existingIds.has(id)));
+        for (const id of existingIds) {
+            if (!keptIds.has(id)) {
+                await db.run('DELETE FROM schedule_announcement_rules WHERE id = ?', [id]);
+            }
+        }
+        for (const rule of schedule.rules) {
+            if (rule.id && keptIds.has(rule.id)) {
+                await db.run(`
+                    UPDATE schedule_announcement_rules SET category = ?, reference = ?, offset_minutes = ?
+                    WHERE id = ? AND schedule_id = ?
+                `, [rule.category, rule.reference, rule.offset_minutes, rule.id, scheduleId]);
+            } else {
+                await db.run(`
+                    INSERT INTO schedule_announcement_rules (schedule_id, category, reference, offset_minutes)
+                    VALUES (?, ?, ?, ?)
+                `, [scheduleId, rule.category, rule.reference, rule.offset_minutes]);
+            }
+        }
+
+        revalidatePath('/announcement-scheduler');
+        return { success: true, message: 'Schedule saved successfully.', scheduleId };
+    } catch (error) {
+        console.error('Failed to save train schedule:', error);
+        return { success: false, message: `Failed to save schedule: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    } finally {
+        await db.close();
+    }
+}
+
+export async function deleteTrainSchedule(id: number): Promise<{ success: boolean; message: string }> {
+    const db = await getDb();
+    try {
+        await db.run('DELETE FROM schedule_announcement_rules WHERE schedule_id = ?', [id]);
+        await db.run('DELETE FROM train_schedules WHERE id = ?', [id]);
+        revalidatePath('/announcement-scheduler');
+        return { success: true, message: 'Schedule deleted successfully.' };
+    } catch (error) {
+        console.error('Failed to delete train schedule:', error);
+        return { success: false, message: 'Failed to delete schedule.' };
+    } finally {
+        await db.close();
+    }
+}
+
+export async function isSchedulerPaused(): Promise<boolean> {
+    const db = await getDb();
+    try {
+        const row = await db.get('SELECT value FROM scheduler_settings WHERE key = ?', [PAUSED_SETTING_KEY]);
+        return row?.value === 'true';
+    } finally {
+        await db.close();
+    }
+}
+
+export async function setSchedulerPaused(paused: boolean): Promise<{ paused: boolean }> {
+    const db = await getDb();
+    try {
+        await db.run(
+            'INSERT OR REPLACE INTO scheduler_settings (key, value) VALUES (?, ?)',
+            [PAUSED_SETTING_KEY, paused ? 'true' : 'false']
+        );
+        return { paused };
+    } finally {
+        await db.close();
+    }
+}
+
+export async function getSchedulerQueue(now: Date = new Date()): Promise<{ paused: boolean; serviceDate: string; items: SchedulerQueueItem[] }> {
+    const serviceDate = getServiceDate(now);
+    const [schedules, paused] = await Promise.all([getTrainSchedules(), isSchedulerPaused()]);
+
+    // Items around midnight belong to the previous or next service date (see getQueueFireTimes).
+    const db = await getDb();
+    let logRows: { rule_id: number; service_date: string; status: string }[] = [];
+    try {
+        logRows = await db.all(
+            'SELECT rule_id, service_date, status FROM scheduler_log WHERE service_date IN (?, ?, ?)',
+            [shiftServiceDate(serviceDate, -1), serviceDate, shiftServiceDate(serviceDate, 1)]
+        );
+    } finally {
+        await db.close();
+    }
+    const loggedStatus = new Map(logRows.map(row => [`${row.rule_id}:${row.service_date}`, row.status]));
+
+    const items: SchedulerQueueItem[] = [];
+    for (const schedule of schedules) {
+        for (const rule of schedule.rules) {
+            if (!rule.id || !schedule.id) continue;
+            const referenceTime = rule.reference === 'arrival' ? schedule.arrival_time : schedule.departure_time;
+            for (const { serviceDate: itemServiceDate, fireAt } of getQueueFireTimes(referenceTime, rule.offset_minutes, now)) {
+                items.push({
+                    schedule_id: schedule.id,
+                    rule_id: rule.id,
+                    route_id: schedule.route_id,
+                    train_number: schedule.train_number || '',
+                    train_name: schedule.train_name || '',
+                    platform: schedule.platform,
+                    category: rule.category,
+                    reference: rule.reference,
+                    offset_minutes: rule.offset_minutes,
+                    fire_time: formatTimeOfDay(fireAt.getHours() * 60 + fireAt.getMinutes()),
+                    scheduled_for: fireAt.toISOString(),
+                    service_date: itemServiceDate,
+                    status: getQueueItemStatus(fireAt, now, loggedStatus.get(`${rule.id}:${itemServiceDate}`)),
+                });
+            }
+        }
+    }
+
+    items.sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for));
+    return { paused, serviceDate, items };
+}
+
+// Skips an item that has not fired yet, or one that was generated but not played.
+export async function skipQueueItem(item: SchedulerQueueItem): Promise<{ success: boolean; message: string }> {
+    const db = await getDb();
+    try {
+        const result = await db.run(`
+            INSERT OR IGNORE INTO scheduler_log (
+                schedule_id, rule_id, route_id, train_number, train_name, platform, category,
+                service_date, scheduled_for, status
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'skipped')
+        `, [
+            item.schedule_id,
+            item.rule_id,
+            item.route_id,
+            item.train_number,
+            item.train_name,
+            item.platform,
+            item.category,
+            item.service_date,
+            item.scheduled_for,
+        ]);
+        if (result.changes === 0) {
+            const ready = await db.run(
+                "UPDATE scheduler_log SET status = 'skipped' WHERE rule_id = ? AND service_date = ? AND status = 'ready'",
+                [item.rule_id, item.service_date]
+            );
+            if (ready.changes === 0) {
+                return { success: false, message: 'This announcement has already been handled.' };
+            }
+        }
+        return { success: true, message: `${item.category.replace(/_/g, ' ')} announcement for ${item.train_number} skipped.` };
+    } finally {
+        await db.close();
+    }
+}
+
+// Generates every announcement that is currently due and logs it as 'ready' for a scheduler
+// console to play (see takeReadyAnnouncements). Runs on the server every few seconds (src/lib/scheduler-runner.ts).
+export async function generateDueAnnouncements(): Promise<number> {
+    await expireStaleLogEntries();
+
+    const now = new Date();
+    const { paused, items } = await getSchedulerQueue(now);
+    if (paused) return 0;
+
+    // When several announcements are due together, higher-priority categories go first.
+    const priorityOf = await getCategoryPriorities();
+    const due = items
+        .filter(i => i.status === 'due')
+        .sort((a, b) => priorityOf(b.category) - priorityOf(a.category) || a.scheduled_for.localeCompare(b.scheduled_for));
+
+    let generated = 0;
+    for (const item of due) {
+        // Claim the item first so it is never generated twice.
+        const db = await getDb();
+        let logId: number | undefined;
+        try {
+            const claim = await db.run(`
+                INSERT OR IGNORE INTO scheduler_log (
+                    schedule_id, rule_id, route_id, train_number, train_name, platform, category,
+                    service_date, scheduled_for, status
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'generating')
+            `, [
+                item.schedule_id,
+                item.rule_id,
+                item.route_id,
+                item.train_number,
+                item.train_name,
+                item.platform,
+                item.category,
+                item.service_date,
+                item.scheduled_for,
+            ]);
+            if (claim.changes === 0) continue;
+            logId = claim.lastID;
+        } finally {
+            await db.close();
+        }
+
+        try {
+            const announcement = await generateAnnouncement({
+                routeId: item.route_id,
+                platform: item.platform,
+                category: item.category,
+            });
+            const audioFiles: { [key: string]: string } = {};
+            for (const a of announcement.announcements) {
+                if (a.audio_path) audioFiles[a.language_code] = a.audio_path;
+            }
+            await updateLogEntry(logId!, 'ready', audioFiles, null, announcement.playout?.audio_path ?? null);
+            generated++;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Scheduled announcement failed for rule ${item.rule_id}:`, error);
+            await updateLogEntry(logId!, 'failed', {}, message);
+        }
+    }
+
+    return generated;
+}
+
+// Hands the generated announcements to the scheduler console, which plays them in the order
+// returned. Each one is logged as played as it is handed over, so only one console plays it.
+export async function takeReadyAnnouncements(): Promise<SchedulerLogEntry[]> {
+    await expireStaleLogEntries();
+    const priorityOf = await getCategoryPriorities();
+
+    const db = await getDb();
+    try {
+        const rows = await db.all("SELECT * FROM scheduler_log WHERE status = 'ready'");
+        rows.sort((a, b) => priorityOf(b.category) - priorityOf(a.category) || a.scheduled_for.localeCompare(b.scheduled_for));
+
+        const taken: SchedulerLogEntry[] = [];
+        for (const row of rows) {
+            const result = await db.run("UPDATE scheduler_log SET status = 'played' WHERE id = ? AND status = 'ready'", [row.id]);
+            if (result.changes) {
+                taken.push(toSchedulerLogEntry({ ...row, status: 'played' }));
+            }
+        }
+        return taken;
+    } finally {
+        await db.close();
+    }
+}
+
+async function getCategoryPriorities(): Promise<(category: string) => number> {
+    const categories = await getAnnouncementCategories();
+    return (category: string) => categories.find(c => c.key === category)?.priority ?? DEFAULT_CATEGORY_PRIORITY;
+}
+
+// Fails generations that never finished (the server restarted mid-way) and marks announcements
+// no console took in time as missed, so they are neither stuck nor played late.
+async function expireStaleLogEntries(): Promise<void> {
+    const readyCutoff = new Date(Date.now() - READY_EXPIRY_MINUTES * 60000).toISOString();
+    const db = await getDb();
+    try {
+        await db.run(
+            `UPDATE scheduler_log SET status = 'failed', error = 'Generation did not finish (timed out or interrupted by a restart).'
+             WHERE status = 'generating' AND created_at <= datetime('now', ?)`,
+            [`-${GENERATING_TIMEOUT_MINUTES} minutes`]
+        );
+        await db.run(
+            `UPDATE scheduler_log SET status = 'missed', error = 'No scheduler console was running to play it.'
+             WHERE status = 'ready' AND scheduled_for < ?`,
+            [readyCutoff]
+        );
+    } finally {
+        await db.close();
+    }
+}
+
+async function updateLogEntry(
+    id: number,
+    status: string,
+    audioFiles: { [key: string]: string },
+    error: string | null,
+    playoutPath: string | null = null
+): Promise<void> {
+    const db = await getDb();
+    try {
+        await db.run(
+            'UPDATE scheduler_log SET status = ?, audio_files = ?, playout_path = ?, error = ? WHERE id = ?',
+            [status, JSON.stringify(audioFiles), playoutPath, error, id]
+        );
+    } finally {
+        await db.close();
+    }
+}
+
+function toSchedulerLogEntry(row: any): SchedulerLogEntry {
+    return {
+        ...row,
+        audio_files: JSON.parse(row.audio_files || '{}'),
+        playout_path: row.playout_path ?? null,
+    };
+}
+
+export async function getSchedulerLog(limit: number = 100): Promise<SchedulerLogEntry[]> {
+    const db = await getDb();
+    try {
+        const rows = await db.all('SELECT * FROM scheduler_log ORDER BY created_at DESC, id DESC LIMIT ?', [limit]);
+        return rows.map(toSchedulerLogEntry);
+    } catch (error) {
+        console.error('Failed to fetch scheduler log:', error);
+        return [];
+    } finally {
+        await db.close();
+    }
+}
+
+export async function clearSchedulerLog(): Promise<{ message: string }> {
+    const db = await getDb();
+    try {
+        await db.run('DELETE FROM scheduler_log');
+        return { message: 'Scheduler log cleared.' };
+    } finally {
+        await db.close();
+    }
+}
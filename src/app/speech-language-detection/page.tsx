@@ -7,7 +7,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Mic, MicOff, Play, Square, Loader2, MessageSquare, Video, Film, Languages } from 'lucide-react';
 import { toast } from 'sonner';
 import { getIslVideoPlaylist } from '@/app/actions';
-import { generateTextToIslHtml } from '@/lib/utils';
+import { openPublishedPage } from '@/lib/utils';
+import { createPublishedPageData, toPublishedTexts } from '@/lib/published-page';
 
 const IslVideoPlayer = ({ playlist, title, onPublish, isPublishing }: { playlist: string[]; title: string; onPublish?: (playbackSpeed: number) => void; isPublishing?: boolean }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -383,26 +384,14 @@ export default function SpeechLanguageDetectionPage() {
       console.log('Publishing with video path:', videoPath);
       console.log('ISL Playlist:', islPlaylist);
 
-      // Create translations object for the HTML generation
-      const translations = {
-        en: transcriptionResult.englishTranslation,
-        mr: '', // No Marathi translation available
-        hi: '', // No Hindi translation available  
-        gu: ''  // No Gujarati translation available
-      };
-
-      const htmlContent = generateTextToIslHtml(
-        transcriptionResult.originalText,
-        translations,
-        videoPath,
-        { en: '', mr: '', hi: '', gu: '' }, // No audio files
-        playbackSpeed,
-        false // Show info header
-      );
-
-      const blob = new Blob([htmlContent], { type: 'text/html' });
-      const url = URL.createObjectURL(blob);
-      window.open(url, '_blank');
+      await openPublishedPage(createPublishedPageData({
+        title: `ISL Announcement - ${transcriptionResult.originalText}`,
+        heading: transcriptionResult.originalText,
+        // Only the English translation is available
+        texts: toPublishedTexts({ en: transcriptionResult.englishTranslation }),
+        video_path: videoPath,
+        playback_speed: playbackSpeed,
+      }));
       
       toast.success(`ISL announcement published with ${playbackSpeed}x speed`);
     } catch (error) {
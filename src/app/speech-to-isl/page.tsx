@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { Mic, MicOff, Loader2, Languages, MessageSquare, Video, Speech, Rocket, Film, X, Globe, Brain, Volume2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { describeUnmatchedWords } from '@/lib/isl-lexicon';
 import { translateSpeechText, getIslVideoPlaylist, translateTextToMultipleLanguages } from '@/app/actions';
 import { detectAudioLanguage } from '@/ai/speech-language-detection';
 
@@ -359,7 +360,7 @@ export default function SpeechToIslPage() {
             // Show toast based on results
             if (result.playlist.length === 0) {
                 // No videos generated at all
-                const unmatchedText = result.unmatchedWords.join(', ');
+                const unmatchedText = describeUnmatchedWords(result.unmatchedWords, result.suggestions);
                 toast({
                     title: "No ISL Videos Found",
                     description: `No matching ISL videos found for any words: ${unmatchedText}`,
@@ -367,7 +368,7 @@ export default function SpeechToIslPage() {
                 });
             } else if (result.unmatchedWords.length > 0) {
                 // Some videos generated, but some words unmatched
-                const unmatchedText = result.unmatchedWords.join(', ');
+                const unmatchedText = describeUnmatchedWords(result.unmatchedWords, result.suggestions);
                 toast({
                     title: "ISL Video Generated",
                     description: `ISL video generated successfully. No matching videos found for: ${unmatchedText}`,
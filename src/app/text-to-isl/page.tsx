@@ -8,10 +8,16 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Textarea } from '@/components/ui/textarea';
 import { Loader2, Languages, MessageSquare, Video, Text, Film, Rocket, Globe, Volume2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { translateInputText, getIslVideoPlaylist, translateTextToMultipleLanguages, generateTextToSpeech, saveTextToIslAudio } from '@/app/actions';
+import { describeUnmatchedWords } from '@/lib/isl-lexicon';
+import { translateInputText, generateIslGloss, translateTextToMultipleLanguages, generateTextToSpeech, saveTextToIslAudio, IslPlaylistResult } from '@/app/actions';
+import { queueIslGlossVideo } from '@/app/render-job-actions';
+import { waitForRenderJob } from '@/hooks/use-render-job';
 // Audio generation and saving functions commented out for future use:
 // generateTextToSpeech, saveTextToIslAudio
-import { generateTextToIslHtml } from '@/lib/utils';
+import { openPublishedPage, DEFAULT_INTRO_AUDIO_PATH } from '@/lib/utils';
+import { createPublishedPageData, toPublishedTexts } from '@/lib/published-page';
+import { IslTiming, describeIslTiming } from '@/lib/isl-timing';
+import type { GlossTrack } from '@/lib/isl-gloss-track';
 
 // Source language is fixed to English only
 const SOURCE_LANGUAGE = 'en';
@@ -128,6 +134,10 @@ export default function TextToIslPage() {
     const [inputText, setInputText] = useState('');
     const [islPlaylist, setIslPlaylist] = useState<string[]>([]);
     const [isGeneratingVideo, setIsGeneratingVideo] = useState(false);
+    const [videoProgress, setVideoProgress] = useState<number | null>(null);
+    const [islTiming, setIslTiming] = useState<IslTiming | null>(null);
+    const [islGlossTrack, setIslGlossTrack] = useState<GlossTrack | null>(null);
+    const [islGloss, setIslGloss] = useState('');
     const [translations, setTranslations] = useState<{ en: string; mr: string; hi: string; gu: string }>({
         en: '',
         mr: '',
@@ -339,25 +349,16 @@ export default function TextToIslPage() {
         setIsPublishing(true);
 
         try {
-            // Get all translations
-            const allTranslations = {
-                en: translations.en,
-                mr: translations.mr,
-                hi: translations.hi,
-                gu: translations.gu
-            };
-
-            // Convert relative video path to absolute URL (same logic as Speech to ISL)
-            const baseUrl = window.location.origin;
-            const absoluteVideoPath = `${baseUrl}${islPlaylist[0]}`;
-
-            // Generate HTML content directly (audio files commented out for future use)
-            const htmlContent = generateTextToIslHtml(inputText, allTranslations, absoluteVideoPath, {}, selectedPlaybackSpeed);
-
-            // Create blob and open in new tab (like Dashboard)
-            const blob = new Blob([htmlContent], { type: 'text/html' });
-            const url = URL.createObjectURL(blob);
-            window.open(url, '_blank');
+            // Audio files are left out for now; the page shows the word for each sign over the video
+            await openPublishedPage(createPublishedPageData({
+                title: `ISL Announcement - ${inputText}`,
+                heading: inputText,
+                texts: toPublishedTexts({ en: translations.en, mr: translations.mr, hi: translations.hi, gu: translations.gu }),
+                video_path: islPlaylist[0],
+                intro_audio_path: DEFAULT_INTRO_AUDIO_PATH,
+                gloss_track: islGlossTrack,
+                playback_speed: selectedPlaybackSpeed,
+            }));
 
             toast({
                 title: "Published Successfully",
@@ -474,11 +475,25 @@ export default function TextToIslPage() {
         return () => clearTimeout(timeoutId);
     }, [inputText, handleTranslateText]);
 
+    // Re-gloss whenever the English translation changes; operators can then edit the gloss.
+    useEffect(() => {
+        const englishText = translations.en.trim();
+        if (!englishText) {
+            setIslGloss('');
+            return;
+        }
+        let cancelled = false;
+        generateIslGloss(englishText)
+            .then(result => { if (!cancelled) setIslGloss(result.gloss); })
+            .catch(error => console.error('ISL gloss generation failed:', error));
+        return () => { cancelled = true; };
+    }, [translations.en]);
+
     const handleGenerateVideo = async () => {
-        // Use English translation from translations area
-        const englishText = translations.en || inputText;
+        // Signs are looked up from the (possibly edited) gloss, not the raw English text
+        const gloss = islGloss.trim() || (await generateIslGloss(translations.en || inputText)).gloss;
         
-        if (!englishText.trim()) {
+        if (!gloss.trim()) {
             toast({
                 variant: "destructive",
                 title: "Error",
@@ -488,9 +503,18 @@ export default function TextToIslPage() {
         }
         
         setIsGeneratingVideo(true);
+        setVideoProgress(null);
         try {
-            const result = await getIslVideoPlaylist(englishText);
+            // Stitching runs in the render queue so long glosses don't time out the request
+            const jobId = await queueIslGlossVideo(gloss);
+            const job = await waitForRenderJob<IslPlaylistResult>(jobId, update => setVideoProgress(update.progress));
+            if (job.status !== 'completed' || !job.result) {
+                throw new Error(job.error || 'Failed to generate ISL video');
+            }
+            const result = job.result;
             setIslPlaylist(result.playlist);
+            setIslTiming(result.timing ?? null);
+            setIslGlossTrack(result.glossTrack ?? null);
             
             // Set the first video as the ISL video path for publishing
             if (result.playlist.length > 0) {
@@ -503,7 +527,7 @@ export default function TextToIslPage() {
             // Show toast based on results
             if (result.playlist.length === 0) {
                 // No videos generated at all - clear audio files
-                const unmatchedText = result.unmatchedWords.join(', ');
+                const unmatchedText = describeUnmatchedWords(result.unmatchedWords, result.suggestions);
                 
                 // Clear audio files from public folder
                 try {
@@ -531,7 +555,7 @@ export default function TextToIslPage() {
                 });
             } else if (result.unmatchedWords.length > 0) {
                 // Some videos generated, but some words unmatched
-                const unmatchedText = result.unmatchedWords.join(', ');
+                const unmatchedText = describeUnmatchedWords(result.unmatchedWords, result.suggestions);
                 toast({
                     title: "ISL Video Generated",
                     description: `ISL video generated successfully. No matching videos found for: ${unmatchedText}`,
@@ -559,6 +583,8 @@ export default function TextToIslPage() {
     const handleClearInput = () => {
         setInputText('');
         setIslPlaylist([]);
+        setIslTiming(null);
+        setIslGlossTrack(null);
         setTranslations({ en: '', mr: '', hi: '', gu: '' });
         // Audio state clearing commented out for future use:
         // setAudioStates({});
@@ -585,6 +611,8 @@ export default function TextToIslPage() {
         // Clear all state
         setInputText('');
         setIslPlaylist([]);
+        setIslTiming(null);
+        setIslGlossTrack(null);
         setTranslations({ en: '', mr: '', hi: '', gu: '' });
         // Audio state clearing commented out for future use:
         // setAudioStates({});
@@ -874,8 +902,11 @@ export default function TextToIslPage() {
                             <div className="flex-1 flex flex-col">
                                 <div className="flex-1 min-h-0">
                                     {isGeneratingVideo ? (
-                                        <div className="flex items-center justify-center h-full rounded-lg bg-muted">
+                                        <div className="flex flex-col items-center justify-center gap-2 h-full rounded-lg bg-muted">
                                             <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                                            {videoProgress !== null && (
+                                                <span className="text-sm text-muted-foreground">{Math.round(videoProgress)}%</span>
+                                            )}
                                         </div>
                                     ) : (
                                         <IslVideoPlayer 
@@ -885,8 +916,22 @@ export default function TextToIslPage() {
                                         />
                                     )}
                                 </div>
+                                {islTiming && !isGeneratingVideo && (
+                                    <p className="mt-2 text-xs text-muted-foreground flex-shrink-0">{describeIslTiming(islTiming)}</p>
+                                )}
                                 
-                                <div className="mt-4 flex gap-2 flex-shrink-0">
+                                <div className="mt-4 space-y-1 flex-shrink-0">
+                                    <label htmlFor="isl-gloss" className="text-sm font-medium text-muted-foreground">ISL Gloss</label>
+                                    <Textarea
+                                        id="isl-gloss"
+                                        value={islGloss}
+                                        onChange={(e) => setIslGloss(e.target.value)}
+                                        placeholder="The ISL sign order will appear here"
+                                        className="font-mono text-xs min-h-[60px]"
+                                    />
+                                </div>
+
+                                <div className="mt-2 flex gap-2 flex-shrink-0">
                                     <Button onClick={handleGenerateVideo} disabled={isGeneratingVideo || !translations.en} className="w-full">
                                         {isGeneratingVideo ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : null}
                                         {isGeneratingVideo ? "Generating..." : "Generate ISL Video"}
@@ -0,0 +1,34 @@
+'use client';
+
+import {
+  Megaphone,
+  TrainFront,
+  Clock,
+  Timer,
+  XCircle,
+  Ban,
+  ArrowRightLeft,
+  AlertTriangle,
+  Info,
+  Bell,
+  LucideIcon,
+} from 'lucide-react';
+import { DEFAULT_CATEGORY_ICON } from '@/lib/announcement-categories';
+
+const ICONS: { [name: string]: LucideIcon } = {
+  Megaphone,
+  TrainFront,
+  Clock,
+  Timer,
+  XCircle,
+  Ban,
+  ArrowRightLeft,
+  AlertTriangle,
+  Info,
+  Bell,
+};
+
+export default function CategoryIcon({ icon, color, className = 'h-4 w-4' }: { icon?: string | null; color?: string | null; className?: string }) {
+  const Icon = ICONS[icon || DEFAULT_CATEGORY_ICON] || ICONS[DEFAULT_CATEGORY_ICON];
+  return <Icon className={className} style={color ? { color } : undefined} />;
+}
@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
     Tooltip,
@@ -17,28 +18,55 @@ import {
     TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { Separator } from '@/components/ui/separator';
-import { Search, Volume2, Accessibility, Loader2, Video, Rocket, Save, Eye } from 'lucide-react';
-import { getTrainRoutes, TrainRoute, handleGenerateAnnouncement, clearAnnouncementsFolder, saveAnnouncementToDatabase, saveAnnouncementToFiles, SavedAnnouncement, clearIslVideoFolder } from '@/app/actions';
-import { generateTextToIslHtml } from '@/lib/utils';
+import { Label } from '@/components/ui/label';
+import { Search, Volume2, Accessibility, Loader2, Video, Rocket, Save, Eye, RefreshCw, MonitorPlay } from 'lucide-react';
+import { getAnnouncementCategories } from '@/app/category-actions';
+import { AnnouncementCategory, getCategoryDisplayName } from '@/lib/announcement-categories';
+import CategoryIcon from '@/components/category-icon';
+import { getTrainRoutes, TrainRoute, handleGenerateAnnouncement, clearAnnouncementsFolder, saveAnnouncementToDatabase, saveAnnouncementToFiles, SavedAnnouncement, clearIslVideoFolder, getAnnouncementTemplates, Template } from '@/app/actions';
+import { cancelRenderJob, queueIslGlossVideo } from '@/app/render-job-actions';
+import { publishKioskAnnouncement } from '@/app/kiosk-actions';
+import { getDisplayTargetsForAnnouncement } from '@/app/display-target-actions';
+import { getOperatorInputPlaceholders, findMissingPlaceholderValues, validatePlaceholderValue, PlaceholderValues } from '@/lib/announcement-placeholders';
+import { openPublishedPage, DEFAULT_INTRO_AUDIO_PATH } from '@/lib/utils';
+import { createPublishedPageData, toPublishedTexts } from '@/lib/published-page';
+import type { PlayoutCueSheet } from '@/lib/audio-assembly';
+import { IslTiming, describeIslTiming } from '@/lib/isl-timing';
+import { SubtitleFiles, SUBTITLE_LANGUAGE_NAMES } from '@/lib/subtitles';
+import type { GlossTrack } from '@/lib/isl-gloss-track';
+import type { DisplayTarget } from '@/lib/display-targets';
+import type { AudioSegment, AudioSegmentSource } from '@/ai/flows/announcement-flow';
 import { useToast } from '@/hooks/use-toast';
+import { waitForRenderJob } from '@/hooks/use-render-job';
+import type { AnnouncementIslVideoResult } from '@/lib/render-jobs';
 
 type DisplayRoute = TrainRoute & {
   platform: string;
   category: string;
+  placeholderValues: PlaceholderValues;
 };
 
 type Announcement = {
     language_code: string;
     text: string;
     audio_path: string | null;
+    segments?: AudioSegment[];
+    body_duration?: number;
+    gap_ms?: number;
 }
 
 type FullAnnouncement = {
     announcements: Announcement[];
     isl_video_playlist: string[];
+    isl_gloss?: string;
+    isl_timing?: IslTiming | null;
+    isl_gloss_track?: GlossTrack | null;
+    subtitles?: { [languageCode: string]: SubtitleFiles };
+    intro_chime_path?: string | null;
+    outro_chime_path?: string | null;
+    playout?: PlayoutCueSheet | null;
 }
 
-const ANNOUNCEMENT_CATEGORIES = ['Arriving', 'Delay', 'Cancelled', 'Platform_Change'];
 const LANGUAGE_MAP: { [key: string]: string } = {
   'en': 'English',
   'mr': 'मराठी',
@@ -47,7 +75,58 @@ const LANGUAGE_MAP: { [key: string]: string } = {
 };
 
 
-const IslVideoPlayer = ({ playlist, onPublish }: { playlist: string[]; onPublish?: (playbackSpeed: number) => void }) => {
+const SEGMENT_SOURCE_LABELS: { [source in AudioSegmentSource]: string } = {
+  template_part: 'Template',
+  route_audio: 'Route',
+  custom_number: 'Recorded',
+  tts: 'TTS',
+  missing: 'Missing',
+};
+
+// Shows which source each text span of an announcement was spoken from, so gaps are visible before publishing.
+const SegmentProvenance = ({ announcement }: { announcement: Announcement }) => {
+    const segments = announcement.segments;
+    if (!segments || segments.length === 0) return null;
+    const problems = segments.filter(segment => segment.issue);
+    return (
+        <div>
+            <h4 className="font-semibold text-sm mb-1 flex items-center gap-2">
+                Audio Segments:
+                {problems.length > 0 ? (
+                    <Badge variant="destructive">{problems.length} gap{problems.length > 1 ? 's' : ''}</Badge>
+                ) : (
+                    <Badge variant="secondary">complete</Badge>
+                )}
+            </h4>
+            <div className="border rounded-md divide-y text-xs">
+                {segments.map((segment, index) => (
+                    <div key={index} className={`flex items-start gap-2 p-2 ${segment.issue ? 'bg-destructive/10' : ''}`}>
+                        <Badge variant={segment.source === 'missing' ? 'destructive' : 'outline'} className="shrink-0 w-[72px] justify-center">
+                            {SEGMENT_SOURCE_LABELS[segment.source]}
+                        </Badge>
+                        <div className="flex-1 min-w-0">
+                            <p className="break-words">
+                                {segment.placeholder && <span className="font-mono text-primary mr-1">{`{${segment.placeholder}}`}</span>}
+                                {segment.text}
+                            </p>
+                            {segment.issue && <p className="text-destructive">{segment.issue}</p>}
+                        </div>
+                        <span className="shrink-0 text-muted-foreground tabular-nums">
+                            {segment.start !== null && segment.end !== null ? `${segment.start.toFixed(2)}–${segment.end.toFixed(2)}s` : '—'}
+                        </span>
+                    </div>
+                ))}
+            </div>
+            {announcement.body_duration !== undefined && (
+                <p className="text-xs text-muted-foreground mt-1">
+                    {announcement.body_duration.toFixed(2)}s without chimes, {announcement.gap_ms}ms silence between segments.
+                </p>
+            )}
+        </div>
+    );
+};
+
+const IslVideoPlayer = ({ playlist, timing, onPublish }: { playlist: string[]; timing?: IslTiming | null; onPublish?: (playbackSpeed: number) => void }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
 
@@ -92,6 +171,9 @@ const IslVideoPlayer = ({ playlist, onPublish }: { playlist: string[]; onPublish
                 <div className="mt-2 text-xs text-muted-foreground break-all">
                    Video: {playlist[0].split('/').pop()?.replace('.mp4', '').replace(/_/g, ' ')}
                 </div>
+                {timing && (
+                    <div className="mt-1 text-xs text-muted-foreground">{describeIslTiming(timing)}</div>
+                )}
                 
                 {/* Playback Speed Controls */}
                 <div className="mt-3">
@@ -139,19 +221,109 @@ export function Dashboard() {
   const [selectedRoutes, setSelectedRoutes] = useState<TrainRoute[]>([]);
   const [displayedRoutes, setDisplayedRoutes] = useState<DisplayRoute[]>([]);
   const [generatedData, setGeneratedData] = useState<FullAnnouncement | null>(null);
+  const [glossDraft, setGlossDraft] = useState('');
+  const [isRenderingIsl, setIsRenderingIsl] = useState(false);
+  const [islProgress, setIslProgress] = useState<number | null>(null);
+  // Bumped for every ISL render so a superseded one (new gloss, closed dialog) is ignored when it finishes.
+  const islRenderRef = useRef(0);
+  const islJobRef = useRef<number | null>(null);
+  const [burnInLanguage, setBurnInLanguage] = useState('none');
+  const [showSignWords, setShowSignWords] = useState(true);
+  const [isSavingAnnouncement, setIsSavingAnnouncement] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [publishTargets, setPublishTargets] = useState<DisplayTarget[] | null>(null);
   const [currentRouteInfo, setCurrentRouteInfo] = useState<DisplayRoute | null>(null);
   const [searchNumber, setSearchNumber] = useState('');
   const [searchName, setSearchName] = useState('');
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [categories, setCategories] = useState<AnnouncementCategory[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
     async function fetchRoutes() {
-      const routes = await getTrainRoutes();
+      const [routes, fetchedTemplates, fetchedCategories] = await Promise.all([getTrainRoutes(), getAnnouncementTemplates(), getAnnouncementCategories()]);
       setAllRoutes(routes);
+      setTemplates(fetchedTemplates);
+      setCategories(fetchedCategories);
     }
     fetchRoutes();
   }, []);
 
+  // Screens the open announcement would be published to, from the display routing rules
+  useEffect(() => {
+    setPublishTargets(null);
+    if (!currentRouteInfo) return;
+    getDisplayTargetsForAnnouncement(currentRouteInfo.platform, currentRouteInfo.category)
+      .then(setPublishTargets)
+      .catch(error => console.error('Failed to resolve display screens:', error));
+  }, [currentRouteInfo]);
+
+  // The English template decides which extra values the operator has to fill in.
+  const getTemplateText = (category: string) =>
+    templates.find(t => t.category === category && t.language_code === 'en')?.template_text || '';
+
+  // New rows start on the first category in the registry's display order.
+  const defaultCategory = categories[0]?.key || 'Arriving';
+
+  // Renders the announcement's ISL video from a gloss in the render queue, with its chimes and
+  // captions, and fills it in when the job finishes.
+  const renderIslVideo = async (data: FullAnnouncement, gloss: string) => {
+    const renderId = ++islRenderRef.current;
+    const isCurrent = () => islRenderRef.current === renderId;
+    setIsRenderingIsl(true);
+    setIslProgress(null);
+    try {
+        const jobId = await queueIslGlossVideo(gloss, 'male', undefined, {
+            introChimePath: data.intro_chime_path ?? null,
+            outroChimePath: data.outro_chime_path ?? null,
+            audioDurations: Object.fromEntries(data.announcements.map(a => [a.language_code, a.body_duration ?? null])),
+            announcements: data.announcements,
+        });
+        if (!isCurrent()) {
+            cancelRenderJob(jobId);
+            return;
+        }
+        islJobRef.current = jobId;
+        const job = await waitForRenderJob<AnnouncementIslVideoResult>(jobId, update => {
+            if (isCurrent()) setIslProgress(update.progress);
+        });
+        if (!isCurrent()) return;
+        if (job.status !== 'completed' || !job.result) {
+            throw new Error(job.error || 'ISL video render failed');
+        }
+        const { playlist, timing, glossTrack, subtitles } = job.result;
+        setGeneratedData(current => current && { ...current, isl_video_playlist: playlist, isl_gloss: gloss, isl_timing: timing, isl_gloss_track: glossTrack, subtitles });
+        if (playlist.length === 0) {
+            toast({ variant: "destructive", title: "No ISL Videos Found", description: "None of the gloss words matched an ISL video." });
+        }
+    } catch (error) {
+        if (!isCurrent()) return;
+        console.error("ISL video render failed:", error);
+        toast({ variant: "destructive", title: "Error", description: "Failed to build the ISL video from the gloss." });
+    } finally {
+        if (isCurrent()) {
+            islJobRef.current = null;
+            setIsRenderingIsl(false);
+        }
+    }
+  };
+
+  // Stops following the current ISL render and cancels its job.
+  const stopIslRender = () => {
+    islRenderRef.current++;
+    if (islJobRef.current !== null) {
+        cancelRenderJob(islJobRef.current);
+        islJobRef.current = null;
+    }
+    setIsRenderingIsl(false);
+  };
+
+  // Rebuilds the ISL video from the operator's edited gloss.
+  const handleRegenerateIsl = async () => {
+    if (!generatedData || !glossDraft.trim()) return;
+    await renderIslVideo(generatedData, glossDraft);
+  };
+
   const handleSelectRoute = (route: TrainRoute) => {
     setSelectedRoutes(prevSelected => {
       if (prevSelected.find(r => r.id === route.id)) {
@@ -163,7 +335,7 @@ export function Dashboard() {
   };
 
   const handleAddSelectedRoutes = () => {
-    setDisplayedRoutes(selectedRoutes.map(r => ({ ...r, platform: '1', category: 'Arriving' })));
+    setDisplayedRoutes(selectedRoutes.map(r => ({ ...r, platform: '1', category: defaultCategory, placeholderValues: {} })));
     setIsRouteModalOpen(false);
   };
   
@@ -171,14 +343,14 @@ export function Dashboard() {
     const results = allRoutes.filter(route =>
       route['Train Number'].includes(searchNumber)
     );
-    setDisplayedRoutes(results.map(r => ({ ...r, platform: '1', category: 'Arriving' })));
+    setDisplayedRoutes(results.map(r => ({ ...r, platform: '1', category: defaultCategory, placeholderValues: {} })));
   };
 
   const handleSearchByName = () => {
     const results = allRoutes.filter(route =>
       route['Train Name'].toLowerCase().includes(searchName.toLowerCase())
     );
-    setDisplayedRoutes(results.map(r => ({ ...r, platform: '1', category: 'Arriving' })));
+    setDisplayedRoutes(results.map(r => ({ ...r, platform: '1', category: defaultCategory, placeholderValues: {} })));
   };
 
   const clearSearch = () => {
@@ -201,20 +373,56 @@ export function Dashboard() {
       prev.map(r => (r.id === routeId ? { ...r, category } : r))
     );
   };
+
+  const handlePlaceholderValueChange = (routeId: number | undefined, key: string, value: string) => {
+    if (routeId === undefined) return;
+    setDisplayedRoutes(prev =>
+      prev.map(r => (r.id === routeId ? { ...r, placeholderValues: { ...r.placeholderValues, [key]: value } } : r))
+    );
+  };
   
   const onGenerateAnnouncement = async (route: DisplayRoute) => {
     if (!route.id) return;
+
+    const templateText = getTemplateText(route.category);
+    const missing = findMissingPlaceholderValues(templateText, route.placeholderValues);
+    if (missing.length > 0) {
+        toast({
+            variant: "destructive",
+            title: "Missing Details",
+            description: `Please fill in ${missing.map(key => `{${key}}`).join(', ')} for the ${getCategoryDisplayName(categories, route.category)} template.`
+        });
+        return;
+    }
+    const placeholderValues: PlaceholderValues = {};
+    for (const definition of getOperatorInputPlaceholders(templateText)) {
+        const value = route.placeholderValues[definition.key];
+        const validationError = validatePlaceholderValue(definition.key, value);
+        if (validationError) {
+            toast({ variant: "destructive", title: "Invalid Details", description: validationError });
+            return;
+        }
+        placeholderValues[definition.key] = value;
+    }
+
     setIsGenerating(true);
+    stopIslRender();
     setGeneratedData(null);
     setCurrentRouteInfo(route);
     try {
         const result = await handleGenerateAnnouncement({
             routeId: route.id,
             platform: route.platform,
-            category: route.category
+            category: route.category,
+            placeholderValues
         });
         setGeneratedData(result);
+        setGlossDraft(result.isl_gloss || '');
         setIsAnnouncementModalOpen(true);
+        // The audio is ready to play while the video renders
+        if (result.isl_gloss) {
+            renderIslVideo(result, result.isl_gloss);
+        }
     } catch(error) {
         console.error("Announcement generation failed:", error);
         toast({
@@ -230,6 +438,7 @@ export function Dashboard() {
   const handleModalOpenChange = (open: boolean) => {
       setIsAnnouncementModalOpen(open);
       if (!open) {
+          stopIslRender();
           clearAnnouncementsFolder();
       }
   };
@@ -237,14 +446,16 @@ export function Dashboard() {
   const handleSaveAnnouncement = async () => {
     if (!generatedData || !currentRouteInfo) return;
     
+    setIsSavingAnnouncement(true);
     try {
       // Save files using server action
-      const { audioFiles, islVideoFiles, announcementTexts } = await saveAnnouncementToFiles(
+      const { audioFiles, islVideoFiles, announcementTexts, burnedInLanguage } = await saveAnnouncementToFiles(
         currentRouteInfo['Train Number'],
         currentRouteInfo.platform,
         currentRouteInfo.category,
         generatedData.announcements,
-        generatedData.isl_video_playlist
+        generatedData.isl_video_playlist,
+        burnInLanguage === 'none' ? null : burnInLanguage
       );
       
       // Save to database
@@ -266,6 +477,13 @@ export function Dashboard() {
         title: "Success",
         description: `Announcement saved for Train number ${currentRouteInfo['Train Number']}`,
       });
+      if (burnInLanguage !== 'none' && burnedInLanguage !== burnInLanguage) {
+        toast({
+          variant: "destructive",
+          title: "Captions Not Burned In",
+          description: "The video was saved without burned-in captions. Subtitle files were still saved alongside it.",
+        });
+      }
     } catch (error) {
       console.error('Failed to save announcement:', error);
       toast({
@@ -273,93 +491,91 @@ export function Dashboard() {
         title: "Error",
         description: "Failed to save announcement. Please try again.",
       });
+    } finally {
+      setIsSavingAnnouncement(false);
     }
   };
 
-  const handlePreviewPublishedAnnouncement = (selectedPlaybackSpeed: number = 1.0) => {
+  // WebVTT track per language for the published page
+  const getSubtitleTracks = (): { [languageCode: string]: string } =>
+    Object.fromEntries(Object.entries(generatedData?.subtitles ?? {}).map(([lang, files]) => [lang, files.vtt]));
+
+  const handlePreviewPublishedAnnouncement = async (selectedPlaybackSpeed: number = 1.0) => {
     if (!generatedData || !currentRouteInfo) return;
 
     const { announcements, isl_video_playlist } = generatedData;
-    const { 'Train Name': trainName, 'Train Number': trainNumber, 'Start Station': startStation, 'End Station': endStation, 'Start Code': startCode, 'End Code': endCode } = currentRouteInfo;
+    const { 'Train Name': trainName, 'Train Number': trainNumber, 'Start Station': startStation, 'End Station': endStation } = currentRouteInfo;
 
     // Create the original text (train announcement)
     const originalText = `${trainName} (${trainNumber}) from ${startStation} to ${endStation}`;
-    
-    // Create translations object from announcements
-    const translations = {
-      en: announcements.find(a => a.language_code === 'en')?.text || originalText,
-      hi: announcements.find(a => a.language_code === 'hi')?.text || '',
-      mr: announcements.find(a => a.language_code === 'mr')?.text || '',
-      gu: announcements.find(a => a.language_code === 'gu')?.text || ''
-    };
-    
-    // Create audio files object
-    const audioFiles = {
-      en: announcements.find(a => a.language_code === 'en')?.audio_path || '',
-      hi: announcements.find(a => a.language_code === 'hi')?.audio_path || '',
-      mr: announcements.find(a => a.language_code === 'mr')?.audio_path || '',
-      gu: announcements.find(a => a.language_code === 'gu')?.audio_path || ''
-    };
-    
-    // Use the first video from the playlist
-    const videoPath = isl_video_playlist[0] || '';
-    
-    // Generate HTML using the same function as General Announcements
-    const htmlContent = generateTextToIslHtml(
-      originalText,
-      translations,
-      videoPath,
-      audioFiles,
-      selectedPlaybackSpeed,
-      false // Show info-header for Dashboard announcements
-    );
+    const languages = ['en', 'hi', 'mr', 'gu'];
+    const findAnnouncement = (lang: string) => announcements.find(a => a.language_code === lang);
 
-    const blob = new Blob([htmlContent], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    window.open(url, '_blank');
+    try {
+      await openPublishedPage(createPublishedPageData({
+        title: `ISL Announcement - ${originalText}`,
+        heading: originalText,
+        texts: toPublishedTexts(Object.fromEntries(languages.map(lang => [lang, findAnnouncement(lang)?.text || (lang === 'en' ? originalText : '')]))),
+        // Use the first video from the playlist
+        video_path: isl_video_playlist[0] || null,
+        audio: languages
+          .filter(lang => findAnnouncement(lang)?.audio_path)
+          .map(lang => ({ language_code: lang, audio_path: findAnnouncement(lang)!.audio_path! })),
+        intro_audio_path: generatedData.intro_chime_path ? null : DEFAULT_INTRO_AUDIO_PATH, // Chime is already in the audio
+        playout: generatedData.playout ?? null,
+        subtitle_tracks: getSubtitleTracks(),
+        gloss_track: showSignWords ? generatedData.isl_gloss_track ?? null : null,
+        playback_speed: selectedPlaybackSpeed,
+      }));
+    } catch (error) {
+      console.error('Failed to publish page:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to publish page.",
+      });
+    }
   };
 
-  const handlePublishAnnouncement = () => {
+  // Sends the announcement to the display screens it is routed to (see /kiosk/<screen id>)
+  const handlePublishAnnouncement = async () => {
     if (!generatedData || !currentRouteInfo) return;
 
     const { announcements, isl_video_playlist } = generatedData;
-    const { 'Train Name': trainName, 'Train Number': trainNumber, 'Start Station': startStation, 'End Station': endStation, 'Start Code': startCode, 'End Code': endCode } = currentRouteInfo;
+    const { 'Train Name': trainName, 'Train Number': trainNumber } = currentRouteInfo;
 
-    // Create the original text (train announcement)
-    const originalText = `${trainName} (${trainNumber}) from ${startStation} to ${endStation}`;
-    
-    // Create translations object from announcements
-    const translations = {
-      en: announcements.find(a => a.language_code === 'en')?.text || originalText,
-      hi: announcements.find(a => a.language_code === 'hi')?.text || '',
-      mr: announcements.find(a => a.language_code === 'mr')?.text || '',
-      gu: announcements.find(a => a.language_code === 'gu')?.text || ''
-    };
-    
-    // Create audio files object
-    const audioFiles = {
-      en: announcements.find(a => a.language_code === 'en')?.audio_path || '',
-      hi: announcements.find(a => a.language_code === 'hi')?.audio_path || '',
-      mr: announcements.find(a => a.language_code === 'mr')?.audio_path || '',
-      gu: announcements.find(a => a.language_code === 'gu')?.audio_path || ''
-    };
-    
-    // Use the first video from the playlist
-    const videoPath = isl_video_playlist[0] || '';
-    
-    // Generate HTML using the same function as General Announcements
-    const htmlContent = generateTextToIslHtml(
-      originalText,
-      translations,
-      videoPath,
-      audioFiles,
-      1.0, // Default playback speed
-      false // Show info-header for Dashboard announcements
-    );
-
-    const blob = new Blob([htmlContent], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    window.open(url, '_blank');
+    setIsPublishing(true);
+    try {
+      const result = await publishKioskAnnouncement({
+        platform: currentRouteInfo.platform,
+        train_number: trainNumber,
+        train_name: trainName,
+        category: currentRouteInfo.category,
+        title: `${trainNumber} ${trainName}`,
+        texts: Object.fromEntries(announcements.map(a => [a.language_code, a.text])),
+        video_path: isl_video_playlist[0] || null,
+        audio: announcements
+          .filter(a => a.audio_path)
+          .map(a => ({ language_code: a.language_code, audio_path: a.audio_path! })),
+        intro_audio_path: generatedData.intro_chime_path ? null : DEFAULT_INTRO_AUDIO_PATH, // Chime is already in the audio
+        playout: generatedData.playout ?? null,
+        gloss_track: showSignWords ? generatedData.isl_gloss_track ?? null : null,
+      });
+      toast({
+        variant: result.success ? "default" : "destructive",
+        title: result.success ? "Published" : "Error",
+        description: result.message,
+      });
+    } catch (error) {
+      console.error('Failed to publish announcement:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to publish announcement to displays.",
+      });
+    } finally {
+      setIsPublishing(false);
+    }
   };
 
   return (
@@ -554,6 +770,7 @@ export function Dashboard() {
                             <TableHead>End Station</TableHead>
                             <TableHead className="w-[120px]">Platform</TableHead>
                             <TableHead className="w-[200px]">Category</TableHead>
+                            <TableHead className="w-[220px]">Details</TableHead>
                              <TableHead>Action</TableHead>
                         </TableRow>
                     </TableHeader>
@@ -581,14 +798,36 @@ export function Dashboard() {
                                             <SelectValue placeholder="Select category" />
                                         </SelectTrigger>
                                         <SelectContent>
-                                            {ANNOUNCEMENT_CATEGORIES.map(category => (
-                                                <SelectItem key={category} value={category}>
-                                                    {category.replace('_', ' ')}
+                                            {categories.map(category => (
+                                                <SelectItem key={category.key} value={category.key}>
+                                                    <span className="flex items-center gap-2">
+                                                        <CategoryIcon icon={category.icon} color={category.color} />
+                                                        {category.display_names.en || category.key}
+                                                    </span>
                                                 </SelectItem>
                                             ))}
                                         </SelectContent>
                                     </Select>
                                 </TableCell>
+                                <TableCell>
+                                    {getOperatorInputPlaceholders(getTemplateText(route.category)).length > 0 ? (
+                                        <div className="flex flex-col gap-1">
+                                            {getOperatorInputPlaceholders(getTemplateText(route.category)).map(definition => (
+                                                <Input
+                                                    key={definition.key}
+                                                    type={definition.inputType === 'number' ? 'number' : definition.inputType === 'time' ? 'time' : 'text'}
+                                                    placeholder={definition.label}
+                                                    title={definition.description}
+                                                    value={route.placeholderValues[definition.key] || ''}
+                                                    onChange={(e) => handlePlaceholderValueChange(route.id, definition.key, e.target.value)}
+                                                    className="h-8"
+                                                />
+                                            ))}
+                                        </div>
+                                    ) : (
+                                        <span className="text-xs text-muted-foreground">None</span>
+                                    )}
+                                </TableCell>
                                 <TableCell>
                                     <TooltipProvider>
                                         <Tooltip>
@@ -651,25 +890,114 @@ export function Dashboard() {
                                          <h4 className="font-semibold text-sm mb-1">Generated Audio:</h4>
                                          {ann.audio_path ? (
                                             <audio controls className="w-full h-10" key={ann.audio_path}>
-                                                <source src={ann.audio_path} type="audio/wav" />
+                                                <source src={ann.audio_path} />
                                                 Your browser does not support the audio element.
                                             </audio>
                                          ) : (
                                             <p className="text-sm text-destructive">Audio generation failed. Ensure all source audio files exist.</p>
                                          )}
                                     </div>
+                                    <SegmentProvenance announcement={ann} />
                                </CardContent>
                            </Card>
                         ))}
+                        {generatedData?.playout && (
+                           <Card>
+                               <CardHeader>
+                                   <CardTitle className="text-lg">Playout (All Languages)</CardTitle>
+                                   <CardDescription>
+                                       {generatedData.playout.cues.map(cue => LANGUAGE_MAP[cue.language_code] || cue.language_code).join(' → ')} · {generatedData.playout.duration.toFixed(1)}s
+                                   </CardDescription>
+                               </CardHeader>
+                               <CardContent>
+                                   <audio controls className="w-full h-10" key={generatedData.playout.audio_path}>
+                                       <source src={generatedData.playout.audio_path} />
+                                       Your browser does not support the audio element.
+                                   </audio>
+                               </CardContent>
+                           </Card>
+                        )}
                     </div>
                 </div>
 
-                <div className="h-full overflow-hidden">
-                     {generatedData && <IslVideoPlayer playlist={generatedData.isl_video_playlist} onPublish={handlePreviewPublishedAnnouncement} />}
+                <div className="h-full overflow-hidden flex flex-col gap-3">
+                     {generatedData?.isl_gloss !== undefined && (
+                        <div className="space-y-1 flex-shrink-0">
+                            <Label htmlFor="isl-gloss" className="text-sm font-semibold">ISL Gloss</Label>
+                            <div className="flex gap-2">
+                                <Input
+                                    id="isl-gloss"
+                                    value={glossDraft}
+                                    onChange={(e) => setGlossDraft(e.target.value)}
+                                    className="font-mono text-xs"
+                                />
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={handleRegenerateIsl}
+                                    disabled={isRenderingIsl || !glossDraft.trim() || glossDraft === generatedData.isl_gloss}
+                                >
+                                    {isRenderingIsl ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                                    Update Video
+                                </Button>
+                            </div>
+                            <p className="text-xs text-muted-foreground">Signs are looked up in this order. Edit the gloss to fix word order or wording.</p>
+                        </div>
+                     )}
+                     <div className="flex-1 min-h-0">
+                        {generatedData && (isRenderingIsl ? (
+                            <div className="flex flex-col items-center justify-center gap-2 h-full rounded-lg bg-muted">
+                                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                                <span className="text-sm text-muted-foreground">
+                                    Rendering ISL video{islProgress !== null ? ` (${Math.round(islProgress)}%)` : '...'}
+                                </span>
+                            </div>
+                        ) : (
+                            <IslVideoPlayer playlist={generatedData.isl_video_playlist} timing={generatedData.isl_timing} onPublish={handlePreviewPublishedAnnouncement} />
+                        ))}
+                     </div>
                 </div>
 
              </div>
+            {generatedData && generatedData.isl_video_playlist.length > 0 && publishTargets && (
+                <p className="text-sm text-muted-foreground">
+                    <MonitorPlay className="inline mr-1 h-4 w-4" />
+                    {publishTargets.length > 0
+                        ? `Publishing shows this on: ${publishTargets.map(target => target.name).join(', ')}`
+                        : 'No display screens receive this announcement. Add screens or routing rules under Display Screens.'}
+                </p>
+            )}
             <DialogFooter className="mt-4">
+                {generatedData && generatedData.isl_video_playlist.length > 0 && (
+                    <div className="flex items-center gap-2 mr-auto">
+                        {generatedData.isl_gloss_track && (
+                            <div className="flex items-center gap-2 mr-4">
+                                <Checkbox id="show-sign-words" checked={showSignWords} onCheckedChange={(checked) => setShowSignWords(checked === true)} />
+                                <Label htmlFor="show-sign-words" className="text-sm text-muted-foreground whitespace-nowrap">Show sign words</Label>
+                            </div>
+                        )}
+                        <Label className="text-sm text-muted-foreground whitespace-nowrap">Burn in captions</Label>
+                        <Select value={burnInLanguage} onValueChange={setBurnInLanguage}>
+                            <SelectTrigger className="w-36">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="none">None</SelectItem>
+                                {Object.keys(generatedData.subtitles ?? {}).map(lang => (
+                                    <SelectItem key={lang} value={lang}>{SUBTITLE_LANGUAGE_NAMES[lang] || lang.toUpperCase()}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button variant="outline" onClick={handleSaveAnnouncement} disabled={isSavingAnnouncement}>
+                            {isSavingAnnouncement ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                            Save Announcement
+                        </Button>
+                        <Button variant="outline" onClick={handlePublishAnnouncement} disabled={isPublishing || publishTargets?.length === 0}>
+                            {isPublishing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MonitorPlay className="mr-2 h-4 w-4" />}
+                            Publish to Displays
+                        </Button>
+                    </div>
+                )}
                 <Button variant="outline" onClick={async () => {
                     try {
                         const result = await clearIslVideoFolder();
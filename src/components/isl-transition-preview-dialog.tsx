@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { waitForRenderJob } from '@/hooks/use-render-job';
+import { Loader2, Clapperboard } from 'lucide-react';
+import { IslPlaylistResult, getDefaultIslTransition } from '@/app/actions';
+import { queueIslGlossVideo } from '@/app/render-job-actions';
+import { describeUnmatchedWords } from '@/lib/isl-lexicon';
+import {
+  IslTransitionConfig,
+  IslTransitionType,
+  MAX_TRANSITION_DURATION_MS,
+  TRANSITION_LABELS,
+  DEFAULT_ISL_TRANSITION_CONFIG,
+} from '@/lib/isl-transitions';
+
+type IslTransitionPreviewDialogProps = {
+  open: boolean;
+  avatarModel: 'male' | 'female';
+  onOpenChange: (open: boolean) => void;
+};
+
+export function IslTransitionPreviewDialog({ open, avatarModel, onOpenChange }: IslTransitionPreviewDialogProps) {
+  const [gloss, setGloss] = useState('TRAIN PLATFORM ARRIVE');
+  const [transition, setTransition] = useState<IslTransitionConfig>(DEFAULT_ISL_TRANSITION_CONFIG);
+  const [configuredTransition, setConfiguredTransition] = useState<IslTransitionConfig | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    getDefaultIslTransition()
+      .then(config => {
+        setConfiguredTransition(config);
+        setTransition(config);
+      })
+      .catch(error => console.error('Failed to load the configured ISL transition:', error));
+  }, [open]);
+
+  const handleRender = async () => {
+    if (!gloss.trim()) {
+      toast({ variant: 'destructive', title: 'Error', description: 'Enter the signs to preview.' });
+      return;
+    }
+
+    setIsRendering(true);
+    setProgress(null);
+    setPreviewUrl(null);
+    try {
+      const jobId = await queueIslGlossVideo(gloss, avatarModel, transition);
+      const job = await waitForRenderJob<IslPlaylistResult>(jobId, update => setProgress(update.progress));
+      if (job.status !== 'completed' || !job.result) {
+        throw new Error(job.error || 'Failed to render the preview');
+      }
+      if (job.result.playlist.length === 0) {
+        toast({
+          variant: 'destructive',
+          title: 'No Signs Found',
+          description: describeUnmatchedWords(job.result.unmatchedWords, job.result.suggestions),
+        });
+        return;
+      }
+      // A single clip is played as-is, so there is nothing to join
+      setPreviewUrl(job.result.playlist[0]);
+      if (job.result.unmatchedWords.length > 0) {
+        toast({ title: 'Some Signs Skipped', description: describeUnmatchedWords(job.result.unmatchedWords, job.result.suggestions) });
+      }
+    } catch (error) {
+      console.error('Transition preview failed:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Preview Failed',
+        description: error instanceof Error ? error.message : 'Failed to render the preview',
+      });
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clapperboard className="h-5 w-5" />
+            Transition Preview
+          </DialogTitle>
+          <DialogDescription>
+            Render a few signs from the {avatarModel} dataset with a transition to see how the clips join.
+            Announcements use the transition set under islTransitions in config/server.json
+            {configuredTransition && ` (currently ${TRANSITION_LABELS[configuredTransition.type].toLowerCase()}, ${configuredTransition.durationMs}ms)`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="preview-gloss">Signs</Label>
+            <Input
+              id="preview-gloss"
+              value={gloss}
+              onChange={(e) => setGloss(e.target.value)}
+              placeholder="e.g. TRAIN PLATFORM ARRIVE"
+              className="font-mono"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Transition</Label>
+              <Select
+                value={transition.type}
+                onValueChange={(value) => setTransition({ ...transition, type: value as IslTransitionType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TRANSITION_LABELS) as IslTransitionType[]).map(type => (
+                    <SelectItem key={type} value={type}>{TRANSITION_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transition-duration">Duration (ms)</Label>
+              <Input
+                id="transition-duration"
+                type="number"
+                min={0}
+                max={MAX_TRANSITION_DURATION_MS}
+                step={50}
+                value={transition.durationMs}
+                disabled={transition.type === 'cut'}
+                onChange={(e) => setTransition({ ...transition, durationMs: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+          </div>
+
+          {isRendering && (
+            <div className="space-y-1">
+              <Progress value={progress ?? 0} className="h-2" />
+              <p className="text-xs text-muted-foreground text-right">{Math.round(progress ?? 0)}%</p>
+            </div>
+          )}
+
+          {previewUrl && (
+            <video key={previewUrl} controls autoPlay muted className="w-full rounded-md">
+              <source src={previewUrl} type="video/mp4" />
+              Your browser does not support the video tag.
+            </video>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={handleRender} disabled={isRendering}>
+              {isRendering && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Render Preview
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Save, History, RotateCcw, AlertTriangle } from 'lucide-react';
+import {
+  Template,
+  TemplateVersion,
+  saveAnnouncementTemplate,
+  getTemplateVersions,
+  rollbackAnnouncementTemplate,
+} from '@/app/actions';
+import { diffWords, DiffSegment } from '@/lib/template-diff';
+import { lintTemplate, TemplateLintIssue } from '@/lib/template-lint';
+
+const LANGUAGE_OPTIONS = [
+  { code: 'en', label: 'English' },
+  { code: 'hi', label: 'हिंदी' },
+  { code: 'mr', label: 'मराठी' },
+  { code: 'gu', label: 'ગુજરાતી' },
+];
+
+type TemplateEditorDialogProps = {
+  category: string | null;
+  templates: Template[];
+  requiredPlaceholders: string[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => Promise<void> | void;
+};
+
+function DiffView({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <p className="text-sm leading-relaxed">
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          className={
+            segment.type === 'added'
+              ? 'bg-green-500/20 text-green-700 dark:text-green-400'
+              : segment.type === 'removed'
+                ? 'bg-destructive/20 text-destructive line-through'
+                : ''
+          }
+        >
+          {segment.text}{' '}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export default function TemplateEditorDialog({ category, templates, requiredPlaceholders, onOpenChange, onSaved }: TemplateEditorDialogProps) {
+  const [languageCode, setLanguageCode] = useState('en');
+  const [draftText, setDraftText] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+  // A save or restore the server refused because of lint errors, waiting for the user to confirm
+  const [blockedSave, setBlockedSave] = useState<{ restoreVersion: number | null; errors: TemplateLintIssue[] } | null>(null);
+  const { toast } = useToast();
+
+  const current = templates.find(t => t.category === category && t.language_code === languageCode);
+  const currentText = current?.template_text || '';
+  const siblings = Object.fromEntries(
+    templates
+      .filter(t => t.category === category && t.language_code !== languageCode)
+      .map(t => [t.language_code, t.template_text])
+  );
+  const lintIssues = draftText.trim() ? lintTemplate(languageCode, draftText, siblings, requiredPlaceholders) : [];
+
+  const loadVersions = async () => {
+    if (!category) return;
+    setVersions(await getTemplateVersions(category, languageCode));
+  };
+
+  useEffect(() => {
+    setDraftText(currentText);
+    setChangeNote('');
+    loadVersions();
+  }, [category, languageCode, currentText]);
+
+  const reportResult = (title: string, result: Awaited<ReturnType<typeof saveAnnouncementTemplate>>) => {
+    if (!result.changed) {
+      toast({ title: 'No Changes', description: 'The template text is unchanged.' });
+      return;
+    }
+    const audioNote = result.regeneratedParts > 0 || result.reusedParts > 0
+      ? ` Audio: ${result.reusedParts} part(s) reused, ${result.regeneratedParts} regenerated.`
+      : '';
+    toast({ title, description: `Saved as version ${result.version}.${audioNote}` });
+    if (result.issues.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: `Template Issues (${result.issues.length})`,
+        description: result.issues.map(issue => `${issue.language_code}: ${issue.message}`).join(' '),
+      });
+    }
+  };
+
+  // True when the server refused the save; the user is then asked whether to save anyway
+  const isBlocked = (result: Awaited<ReturnType<typeof saveAnnouncementTemplate>>, restoreVersion: number | null) => {
+    if (!result.blocked) return false;
+    setBlockedSave({ restoreVersion, errors: result.issues.filter(issue => issue.severity === 'error') });
+    return true;
+  };
+
+  const handleSave = async (allowLintErrors: boolean = false) => {
+    if (!category || !draftText.trim()) return;
+    setIsSaving(true);
+    try {
+      const result = await saveAnnouncementTemplate(
+        { category, language_code: languageCode, template_text: draftText.trim() },
+        changeNote.trim() || undefined,
+        [],
+        allowLintErrors
+      );
+      if (isBlocked(result, null)) return;
+      reportResult('Template Saved', result);
+      await onSaved();
+      await loadVersions();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message || 'Failed to save template.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: number, allowLintErrors: boolean = false) => {
+    if (!category) return;
+    setRestoringVersion(version);
+    try {
+      const result = await rollbackAnnouncementTemplate(category, languageCode, version, allowLintErrors);
+      if (isBlocked(result, version)) return;
+      reportResult('Template Restored', result);
+      await onSaved();
+      await loadVersions();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message || 'Failed to restore template.' });
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!category} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Edit Template - {category?.replace(/_/g, ' ')}</DialogTitle>
+          <DialogDescription>
+            Each save creates a new version. Only the parts of the text that changed get new audio.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Label>Language</Label>
+          <Select value={languageCode} onValueChange={setLanguageCode}>
+            <SelectTrigger className="w-[160px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LANGUAGE_OPTIONS.map(option => (
+                <SelectItem key={option.code} value={option.code}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {current?.version && <Badge variant="secondary">v{current.version}</Badge>}
+        </div>
+
+        <Tabs defaultValue="edit">
+          <TabsList>
+            <TabsTrigger value="edit">Edit</TabsTrigger>
+            <TabsTrigger value="history">
+              <History className="mr-2 h-4 w-4" />
+              History ({versions.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="edit" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-text">Template Text</Label>
+              <Textarea id="template-text" rows={4} value={draftText} onChange={(e) => setDraftText(e.target.value)} />
+              {lintIssues.map((issue, index) => (
+                <div key={index} className={`flex items-center gap-1 text-xs ${issue.severity === 'error' ? 'text-destructive' : 'text-amber-600'}`}>
+                  <AlertTriangle className="h-3 w-3 shrink-0" />
+                  <span>{issue.language_code}: {issue.message}</span>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="change-note">Change Note</Label>
+              <Input id="change-note" value={changeNote} onChange={(e) => setChangeNote(e.target.value)} placeholder="e.g. Reworded platform sentence" />
+            </div>
+            {draftText.trim() !== currentText && currentText && (
+              <div className="space-y-1 rounded-md border p-3">
+                <Label className="text-xs text-muted-foreground">Changes</Label>
+                <DiffView segments={diffWords(currentText, draftText)} />
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={() => handleSave()} disabled={isSaving || !draftText.trim() || draftText.trim() === currentText}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Version
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            {versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No saved versions yet.</p>
+            ) : (
+              <ScrollArea className="h-[360px] pr-4">
+                <div className="space-y-3">
+                  {versions.map(version => (
+                    <div key={version.id} className="rounded-md border p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={version.version === current?.version ? 'default' : 'outline'}>v{version.version}</Badge>
+                          <span className="text-xs text-muted-foreground">{new Date(version.created_at).toLocaleString()}</span>
+                          {version.has_audio && <Badge variant="secondary">audio</Badge>}
+                        </div>
+                        {version.version !== current?.version && (
+                          <Button size="sm" variant="outline" onClick={() => handleRestore(version.version)} disabled={restoringVersion !== null}>
+                            {restoringVersion === version.version ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                            Restore
+                          </Button>
+                        )}
+                      </div>
+                      {version.change_note && <p className="text-xs italic text-muted-foreground">{version.change_note}</p>}
+                      {version.version === current?.version ? (
+                        <p className="text-sm">{version.template_text}</p>
+                      ) : (
+                        <DiffView segments={diffWords(version.template_text, currentText)} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <AlertDialog open={!!blockedSave} onOpenChange={(open) => !open && setBlockedSave(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Template Has Errors</AlertDialogTitle>
+              <AlertDialogDescription>
+                This text will not play correctly until these are fixed. Save it anyway?
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-1">
+              {blockedSave?.errors.map((issue, index) => (
+                <div key={index} className="flex items-center gap-1 text-xs text-destructive">
+                  <AlertTriangle className="h-3 w-3 shrink-0" />
+                  <span>{issue.language_code}: {issue.message}</span>
+                </div>
+              ))}
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  const pending = blockedSave;
+                  setBlockedSave(null);
+                  if (pending && pending.restoreVersion !== null) {
+                    handleRestore(pending.restoreVersion, true);
+                  } else {
+                    handleSave(true);
+                  }
+                }}
+              >
+                Save Anyway
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
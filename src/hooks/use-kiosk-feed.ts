@@ -0,0 +1,97 @@
+"use client"
+
+import * as React from "react"
+
+import { DisplayTarget } from "@/lib/display-targets"
+import { KIOSK_HEARTBEAT_MS, KIOSK_RETRY_MS, KioskAnnouncement, UpcomingTrain } from "@/lib/kiosk-feed"
+
+export type KioskConnectionStatus = "connecting" | "live" | "reconnecting"
+
+// A stream that has sent nothing for this long is treated as dead and reopened.
+const STALE_AFTER_MS = KIOSK_HEARTBEAT_MS * 3
+// Reconnect delays double after each failed attempt, up to this limit.
+const MAX_RETRY_MS = 60000
+
+/**
+ * Follows the live announcement feed of a display screen. Announcements queue up in the
+ * order they were published; call `dismiss` once the current one has been shown.
+ * The connection is reopened after errors, silent drops and when the browser comes back
+ * online, and the last event id is carried over so nothing is missed.
+ */
+export function useKioskFeed(targetId: string) {
+  const [display, setDisplay] = React.useState<DisplayTarget | null>(null)
+  const [queue, setQueue] = React.useState<KioskAnnouncement[]>([])
+  const [upcoming, setUpcoming] = React.useState<UpcomingTrain[]>([])
+  const [status, setStatus] = React.useState<KioskConnectionStatus>("connecting")
+
+  React.useEffect(() => {
+    let source: EventSource | null = null
+    let stopped = false
+    let lastEventId = ""
+    let retryMs = KIOSK_RETRY_MS
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    let staleTimer: ReturnType<typeof setTimeout> | undefined
+
+    const markAlive = () => {
+      clearTimeout(staleTimer)
+      staleTimer = setTimeout(() => reconnect(0), STALE_AFTER_MS)
+    }
+
+    const connect = () => {
+      if (stopped) return
+      const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : ""
+      source = new EventSource(`/api/kiosk/${encodeURIComponent(targetId)}/events${query}`)
+      markAlive()
+
+      const onEvent = (handler?: (data: any) => void) => (event: MessageEvent) => {
+        if (event.lastEventId) lastEventId = event.lastEventId
+        retryMs = KIOSK_RETRY_MS
+        setStatus("live")
+        markAlive()
+        handler?.(JSON.parse(event.data))
+      }
+      source.addEventListener("hello", onEvent(target => setDisplay(target)))
+      source.addEventListener("heartbeat", onEvent())
+      source.addEventListener("upcoming", onEvent(trains => setUpcoming(trains)))
+      source.addEventListener("announcement", onEvent(announcement => {
+        setQueue(current => current.some(item => item.id === announcement.id) ? current : [...current, announcement])
+      }))
+
+      source.onerror = () => {
+        setStatus("reconnecting")
+        // The browser retries by itself unless the stream was closed for good
+        if (source?.readyState === EventSource.CLOSED) {
+          reconnect(retryMs)
+          retryMs = Math.min(retryMs * 2, MAX_RETRY_MS)
+        }
+      }
+    }
+
+    const reconnect = (delayMs: number) => {
+      source?.close()
+      source = null
+      clearTimeout(retryTimer)
+      clearTimeout(staleTimer)
+      setStatus("reconnecting")
+      retryTimer = setTimeout(connect, delayMs)
+    }
+
+    const handleOnline = () => reconnect(0)
+    window.addEventListener("online", handleOnline)
+    connect()
+
+    return () => {
+      stopped = true
+      window.removeEventListener("online", handleOnline)
+      clearTimeout(retryTimer)
+      clearTimeout(staleTimer)
+      source?.close()
+    }
+  }, [targetId])
+
+  const dismiss = React.useCallback((id: number) => {
+    setQueue(current => current.filter(item => item.id !== id))
+  }, [])
+
+  return { display, current: queue[0] ?? null, queued: queue.length, upcoming, status, dismiss }
+}
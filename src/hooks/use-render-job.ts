@@ -0,0 +1,72 @@
+"use client"
+
+import * as React from "react"
+
+import { RenderJob, isTerminalJobStatus } from "@/lib/render-jobs"
+
+const POLL_INTERVAL_MS = 1000
+
+async function fetchRenderJob(jobId: number): Promise<RenderJob> {
+  const response = await fetch(`/api/render-jobs/${jobId}`, { cache: "no-store" })
+  const data = await response.json()
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || "Failed to fetch render job")
+  }
+  return data.job
+}
+
+/**
+ * Polls a render job until it completes, fails or is cancelled. Resolves with the
+ * finished job; `onUpdate` sees every poll so callers can show progress.
+ */
+export async function waitForRenderJob<TResult = any>(
+  jobId: number,
+  onUpdate?: (job: RenderJob<TResult>) => void
+): Promise<RenderJob<TResult>> {
+  while (true) {
+    const job = await fetchRenderJob(jobId)
+    onUpdate?.(job)
+    if (isTerminalJobStatus(job.status)) {
+      return job
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+}
+
+// Follows a render job from a component; pass null when there is no job to follow.
+export function useRenderJob<TResult = any>(jobId: number | null) {
+  const [job, setJob] = React.useState<RenderJob<TResult> | null>(null)
+
+  React.useEffect(() => {
+    setJob(null)
+    if (jobId === null) return
+
+    let stopped = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+      try {
+        const latest = await fetchRenderJob(jobId)
+        if (stopped) return
+        setJob(latest)
+        if (isTerminalJobStatus(latest.status)) return
+      } catch (error) {
+        console.error("Failed to poll render job:", error)
+      }
+      if (!stopped) timer = setTimeout(poll, POLL_INTERVAL_MS)
+    }
+    poll()
+
+    return () => {
+      stopped = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [jobId])
+
+  const cancel = React.useCallback(async () => {
+    if (jobId === null) return
+    await fetch(`/api/render-jobs/${jobId}`, { method: "DELETE" })
+  }, [jobId])
+
+  return { job, cancel }
+}
@@ -0,0 +1,17 @@
+/**
+ * Runs once when the Next.js server starts (also under server.js).
+ *
+ * Starts the render queue, so jobs interrupted by a restart are re-queued and picked up
+ * straight away rather than when a page first polls a job, and the announcement scheduler.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Importing the actions module registers the render job handlers.
+  await import('@/app/render-job-actions');
+  const { startRenderWorkers } = await import('@/lib/job-queue');
+  startRenderWorkers();
+
+  const { startAnnouncementScheduler } = await import('@/lib/scheduler-runner');
+  startAnnouncementScheduler();
+}
@@ -0,0 +1,50 @@
+/**
+ * Shared shape of the announcement category registry.
+ *
+ * Categories live in the announcement_categories table; the key is what templates,
+ * schedules and audio folders refer to, everything else is presentation and defaults.
+ */
+
+export type CategoryDisplayNames = { [languageCode: string]: string };
+
+export type AnnouncementCategory = {
+    id?: number;
+    key: string;
+    display_names: CategoryDisplayNames;
+    icon: string;
+    color: string;
+    // Higher fires first when several scheduled announcements are due together.
+    priority: number;
+    required_placeholders: string[];
+    sort_order: number;
+};
+
+// Icons offered in the category editor, by lucide-react component name.
+export const CATEGORY_ICON_NAMES = [
+    'Megaphone',
+    'TrainFront',
+    'Clock',
+    'Timer',
+    'XCircle',
+    'Ban',
+    'ArrowRightLeft',
+    'AlertTriangle',
+    'Info',
+    'Bell',
+];
+
+export const DEFAULT_CATEGORY_ICON = 'Megaphone';
+export const DEFAULT_CATEGORY_COLOR = '#2563eb';
+export const DEFAULT_CATEGORY_PRIORITY = 5;
+
+// Category keys name audio folders and JSON keys, so they stay filesystem- and identifier-safe.
+export const CATEGORY_KEY_REGEX = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export function getCategoryDisplayName(
+    categories: AnnouncementCategory[],
+    key: string,
+    languageCode: string = 'en'
+): string {
+    const category = categories.find(c => c.key === key);
+    return category?.display_names[languageCode] || category?.display_names.en || key.replace(/_/g, ' ');
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { formatPlaceholderSpeech, formatPlaceholderText } from './announcement-placeholders';
+
+describe('placeholder formatting', () => {
+    it('keeps digits in the on-screen text', () => {
+        expect(formatPlaceholderText('expected_time', ' 9:05 ', 'en')).toBe('09:05');
+        expect(formatPlaceholderText('expected_time', '13:45', 'hi')).toBe('13:45');
+        expect(formatPlaceholderText('delay_minutes', '65', 'en')).toBe('1 hour 5 minutes');
+        expect(formatPlaceholderText('delay_minutes', '35', 'mr')).toBe('35 मिनिटे');
+    });
+
+    it('writes times and the delay out in words for speech', () => {
+        expect(formatPlaceholderSpeech('expected_time', '13:45', 'en')).toBe('thirteen forty-five hours');
+        expect(formatPlaceholderSpeech('expected_time', '13:45', 'hi')).toBe('दोपहर एक बजकर पैंतालीस मिनट');
+        expect(formatPlaceholderSpeech('delay_minutes', '65', 'gu')).toBe('એક કલાક પાંચ મિનિટ');
+    });
+
+    it('speaks other values as they are shown', () => {
+        expect(formatPlaceholderSpeech('coach_position', 'slr, a1 b1', 'en')).toBe('SLR A1 B1');
+    });
+});
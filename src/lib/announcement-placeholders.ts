@@ -0,0 +1,129 @@
+/**
+ * Registry of the placeholders announcement templates may use.
+ *
+ * Route placeholders are filled from the train route and its translations,
+ * operator placeholders are typed in on the dashboard when an announcement is generated.
+ */
+
+import { formatDuration, glossDuration, glossTime, verbalizeDuration, verbalizeTime } from '@/lib/spoken-numbers';
+
+export type PlaceholderInputType = 'number' | 'time' | 'text' | 'station';
+
+export type PlaceholderDefinition = {
+    key: string;
+    label: string;
+    source: 'route' | 'operator';
+    inputType: PlaceholderInputType;
+    description: string;
+};
+
+export type PlaceholderValues = { [key: string]: string };
+
+export const PLACEHOLDER_DEFINITIONS: PlaceholderDefinition[] = [
+    { key: 'train_number', label: 'Train Number', source: 'route', inputType: 'text', description: 'Train number from the route.' },
+    { key: 'train_name', label: 'Train Name', source: 'route', inputType: 'text', description: 'Translated train name.' },
+    { key: 'start_station', label: 'Start Station', source: 'route', inputType: 'station', description: 'Translated origin station.' },
+    { key: 'end_station', label: 'End Station', source: 'route', inputType: 'station', description: 'Translated destination station.' },
+    { key: 'platform', label: 'Platform', source: 'operator', inputType: 'number', description: 'Platform selected on the dashboard.' },
+    { key: 'delay_minutes', label: 'Delay (min)', source: 'operator', inputType: 'number', description: 'Minutes late, shown and announced with its unit (e.g. "1 hour 5 minutes").' },
+    { key: 'expected_time', label: 'Expected Time', source: 'operator', inputType: 'time', description: 'Expected arrival or departure time (HH:MM).' },
+    { key: 'coach_position', label: 'Coach Position', source: 'operator', inputType: 'text', description: 'Coach order from the engine, e.g. "SLR A1 B1 B2 S1".' },
+    { key: 'via_station', label: 'Via Station', source: 'operator', inputType: 'station', description: 'Intermediate station, entered in English.' },
+    { key: 'new_platform', label: 'New Platform', source: 'operator', inputType: 'number', description: 'Platform the train has been moved to.' },
+];
+
+const PLACEHOLDER_REGEX = /{([a-zA-Z0-9_]+)}/g;
+
+export function getPlaceholderDefinition(key: string): PlaceholderDefinition | undefined {
+    return PLACEHOLDER_DEFINITIONS.find(def => def.key === key);
+}
+
+// Returns the distinct placeholder keys used in a template, in order of first appearance.
+export function extractPlaceholders(templateText: string): string[] {
+    const keys: string[] = [];
+    for (const match of templateText.matchAll(PLACEHOLDER_REGEX)) {
+        if (!keys.includes(match[1])) keys.push(match[1]);
+    }
+    return keys;
+}
+
+// Placeholders the engine has no way to fill. Templates using them should be flagged.
+export function findUnsupportedPlaceholders(templateText: string): string[] {
+    return extractPlaceholders(templateText).filter(key => !getPlaceholderDefinition(key));
+}
+
+// Operator placeholders that need a typed value on the dashboard (platform has its own column).
+export function getOperatorInputPlaceholders(templateText: string): PlaceholderDefinition[] {
+    return extractPlaceholders(templateText)
+        .map(key => getPlaceholderDefinition(key))
+        .filter((def): def is PlaceholderDefinition => !!def && def.source === 'operator' && def.key !== 'platform');
+}
+
+export function findMissingPlaceholderValues(templateText: string, values: PlaceholderValues): string[] {
+    return getOperatorInputPlaceholders(templateText)
+        .filter(def => !values[def.key] || !values[def.key].trim())
+        .map(def => def.key);
+}
+
+export function validatePlaceholderValue(key: string, value: string): string | null {
+    const definition = getPlaceholderDefinition(key);
+    if (!definition) return `Unknown placeholder {${key}}.`;
+    const trimmed = value.trim();
+    switch (definition.inputType) {
+        case 'number':
+            return /^\d+$/.test(trimmed) ? null : `${definition.label} must be a whole number.`;
+        case 'time':
+            return /^([01]?\d|2[0-3]):[0-5]\d$/.test(trimmed) ? null : `${definition.label} must be a time in HH:MM format.`;
+        default:
+            return trimmed ? null : `${definition.label} cannot be empty.`;
+    }
+}
+
+// Text rendered into the on-screen announcement for a placeholder value.
+// Numbers stay as digits; the delay gets its unit, e.g. "1 hour 5 minutes".
+export function formatPlaceholderText(key: string, value: string, languageCode: string): string {
+    const definition = getPlaceholderDefinition(key);
+    const trimmed = value.trim();
+    if (definition?.inputType === 'time') {
+        const [hours, minutes] = trimmed.split(':');
+        return `${hours.padStart(2, '0')}:${minutes}`;
+    }
+    if (key === 'delay_minutes') {
+        return formatDuration(trimmed, languageCode);
+    }
+    if (key === 'coach_position') {
+        return trimmed.toUpperCase().replace(/\s*,\s*|\s+/g, ' ');
+    }
+    return trimmed;
+}
+
+// Text sent to text-to-speech for a placeholder value. Times and the delay are
+// written out the way they are spoken in each language.
+export function formatPlaceholderSpeech(key: string, value: string, languageCode: string): string {
+    const definition = getPlaceholderDefinition(key);
+    const trimmed = value.trim();
+    if (definition?.inputType === 'time') {
+        return verbalizeTime(trimmed, languageCode);
+    }
+    if (key === 'delay_minutes') {
+        return verbalizeDuration(trimmed, languageCode);
+    }
+    return formatPlaceholderText(key, value, languageCode);
+}
+
+// English text fed to the ISL video lookup for a placeholder value.
+// Times drop the colon so the hour and minute digits map to number signs.
+export function formatPlaceholderForIsl(key: string, value: string): string {
+    const definition = getPlaceholderDefinition(key);
+    const trimmed = value.trim();
+    if (definition?.inputType === 'time') {
+        return glossTime(trimmed);
+    }
+    if (key === 'delay_minutes') {
+        return glossDuration(trimmed);
+    }
+    if (key === 'coach_position') {
+        return trimmed.toLowerCase().replace(/[,]/g, ' ');
+    }
+    return trimmed;
+}
@@ -0,0 +1,205 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AudioConfig, AudioOutputFormat } from '@/lib/config';
+import { runFfmpeg } from '@/lib/media-tools';
+
+export type WavInfo = {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  data: Buffer;
+};
+
+export type AudioCue = {
+  language_code: string;
+  repeat: number;
+  start: number; // seconds from the start of the file
+  end: number;
+};
+
+export type PlayoutCueSheet = {
+  audio_path: string;
+  duration: number;
+  cues: AudioCue[];
+};
+
+// Where an input segment landed in the assembled file, by its index in the input list.
+// Segments that could not be decoded have no span.
+export type SegmentSpan = {
+  index: number;
+  start: number;
+  end: number;
+};
+
+export type PlayoutSegment = {
+  filePath: string;
+  // Segments with a language code get a cue; chimes are left unlabelled.
+  language_code?: string;
+  repeat?: number;
+};
+
+export const AUDIO_EXTENSIONS: { [format in AudioOutputFormat]: string } = {
+  wav: '.wav',
+  mp3: '.mp3',
+  opus: '.opus'
+};
+
+const ENCODER_ARGS: { [format in AudioOutputFormat]: string[] } = {
+  wav: ['-c:a', 'pcm_s16le'],
+  mp3: ['-c:a', 'libmp3lame', '-b:a', '64k'],
+  opus: ['-c:a', 'libopus', '-b:a', '32k']
+};
+
+// Walks the RIFF chunks of a WAV file and returns its format and sample data.
+// Unlike a fixed 44-byte header this copes with LIST/fact chunks and odd-sized chunks.
+export function parseWav(buffer: Buffer): WavInfo | null {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let format: Omit<WavInfo, 'data'> | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ' && chunkStart + 16 <= buffer.length) {
+      format = {
+        audioFormat: buffer.readUInt16LE(chunkStart),
+        channels: buffer.readUInt16LE(chunkStart + 2),
+        sampleRate: buffer.readUInt32LE(chunkStart + 4),
+        bitsPerSample: buffer.readUInt16LE(chunkStart + 14)
+      };
+    } else if (chunkId === 'data' && format) {
+      // Some encoders write a bogus data size when streaming, so clamp it to the file.
+      const end = Math.min(chunkStart + chunkSize, buffer.length);
+      return { ...format, data: buffer.subarray(chunkStart, end) };
+    }
+
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+  return null;
+}
+
+export function buildWav(pcm: Buffer, sampleRate: number, channels: number): Buffer {
+  const header = Buffer.alloc(44);
+  const blockAlign = channels * 2;
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+// Decodes any input ffmpeg understands to 16-bit PCM at the target rate and channel count.
+// Files that already match are used as-is without spawning ffmpeg.
+async function decodeToPcm(filePath: string, sampleRate: number, channels: number): Promise<Buffer> {
+  const content = await fs.readFile(filePath);
+  const wav = parseWav(content);
+  if (wav && wav.audioFormat === 1 && wav.bitsPerSample === 16 && wav.sampleRate === sampleRate && wav.channels === channels) {
+    return wav.data;
+  }
+
+  const { stdout } = await runFfmpeg(['-v', 'error', '-i', filePath, '-ac', String(channels), '-ar', String(sampleRate), '-f', 's16le', '-c:a', 'pcm_s16le', '-']);
+  return stdout;
+}
+
+/**
+ * Joins audio snippets into a single file.
+ * Every snippet is resampled to the configured rate and channel count, separated by
+ * `gapMs` of silence, loudness-normalised (when `loudnessLufs` is set) and encoded to
+ * the requested format. Returns the path of the written file, whose extension follows the format.
+ */
+export async function assembleAudio(filePaths: string[], outputPath: string, options: AudioConfig): Promise<string | null> {
+  const result = await assembleSegments(filePaths.map(filePath => ({ filePath })), outputPath, options);
+  return result ? result.path : null;
+}
+
+// Same as assembleAudio, but also reports where each segment starts and ends.
+export async function assembleSegments(
+  segments: PlayoutSegment[],
+  outputPath: string,
+  options: AudioConfig
+): Promise<{ path: string; duration: number; cues: AudioCue[]; spans: SegmentSpan[] } | null> {
+  const { sampleRate, channels, gapMs } = options;
+  const bytesPerSecond = sampleRate * channels * 2;
+
+  const decoded: { segment: PlayoutSegment; index: number; pcm: Buffer }[] = [];
+  for (const [index, segment] of segments.entries()) {
+    try {
+      const pcm = await decodeToPcm(segment.filePath, sampleRate, channels);
+      if (pcm.length > 0) decoded.push({ segment, index, pcm });
+    } catch (error) {
+      console.warn(`Could not decode audio file: ${segment.filePath}`, error);
+    }
+  }
+  if (decoded.length === 0) return null;
+
+  const gapSamples = Math.max(0, Math.round((sampleRate * gapMs) / 1000));
+  const silence = Buffer.alloc(gapSamples * channels * 2);
+  const joined: Buffer[] = [];
+  const cues: AudioCue[] = [];
+  const spans: SegmentSpan[] = [];
+  let offsetBytes = 0;
+  decoded.forEach(({ segment, index, pcm }, position) => {
+    if (position > 0 && silence.length > 0) {
+      joined.push(silence);
+      offsetBytes += silence.length;
+    }
+    spans.push({ index, start: offsetBytes / bytesPerSecond, end: (offsetBytes + pcm.length) / bytesPerSecond });
+    if (segment.language_code) {
+      cues.push({
+        language_code: segment.language_code,
+        repeat: segment.repeat ?? 1,
+        start: offsetBytes / bytesPerSecond,
+        end: (offsetBytes + pcm.length) / bytesPerSecond,
+      });
+    }
+    joined.push(pcm);
+    offsetBytes += pcm.length;
+  });
+
+  const finalPath = await encodeAssembled(buildWav(Buffer.concat(joined), sampleRate, channels), outputPath, options);
+  return { path: finalPath, duration: offsetBytes / bytesPerSecond, cues, spans };
+}
+
+async function encodeAssembled(wavBuffer: Buffer, outputPath: string, options: AudioConfig): Promise<string> {
+  const { sampleRate, channels, loudnessLufs, outputFormat } = options;
+
+  const finalPath = outputPath.replace(/\.[^./\\]+$/, '') + AUDIO_EXTENSIONS[outputFormat];
+  await fs.mkdir(path.dirname(finalPath), { recursive: true });
+
+  if (outputFormat === 'wav' && loudnessLufs === null) {
+    await fs.writeFile(finalPath, wavBuffer);
+    return finalPath;
+  }
+
+  const tempPath = path.join(os.tmpdir(), `assembly_${Date.now()}_${Math.random().toString(36).slice(2)}.wav`);
+  await fs.writeFile(tempPath, wavBuffer);
+  try {
+    const filter = loudnessLufs === null ? [] : ['-af', `loudnorm=I=${loudnessLufs}:TP=-1.5:LRA=11`];
+    await runFfmpeg(['-v', 'error', '-i', tempPath, ...filter, '-ar', String(sampleRate), '-ac', String(channels), ...ENCODER_ARGS[outputFormat], '-y', finalPath]);
+  } catch (error) {
+    if (outputFormat !== 'wav') {
+      throw new Error(`Failed to encode announcement audio as ${outputFormat}: ${error instanceof Error ? error.message : error}`);
+    }
+    // Loudness normalisation is best-effort, the assembled WAV is still usable.
+    console.warn('Loudness normalisation failed, writing un-normalised audio:', error);
+    await fs.writeFile(finalPath, wavBuffer);
+  } finally {
+    await fs.unlink(tempPath).catch(() => {});
+  }
+  return finalPath;
+}
@@ -3,6 +3,7 @@
 
 export interface ClientConfig {
   serverUrl: string;
+  frontendUrl: string;
   serverIP: string;
   serverPort: number;
   protocol: string;
@@ -26,6 +27,7 @@ export function getClientConfig(): ClientConfig {
   // Fallback configuration
   return {
     serverUrl: 'https://27.107.17.167:5001',
+    frontendUrl: 'https://27.107.17.167:9002',
     serverIP: '27.107.17.167',
     serverPort: 5001,
     protocol: 'https',
@@ -38,6 +40,11 @@ export function getServerUrl(): string {
   return config.serverUrl;
 }
 
+export function getFrontendUrl(): string {
+  const config = getClientConfig();
+  return config.frontendUrl;
+}
+
 export function getServerIP(): string {
   const config = getClientConfig();
   return config.serverIP;
@@ -1,10 +1,18 @@
 import fs from 'fs';
 import path from 'path';
+import { DEFAULT_ISL_GLOSS_RULES, IslGlossRules } from '@/lib/isl-gloss';
+import { DEFAULT_FINGERSPELLING_CONFIG, FingerspellingConfig } from '@/lib/isl-fingerspelling';
+import { DEFAULT_ISL_VIDEO_CACHE_CONFIG, IslVideoCacheConfig } from '@/lib/isl-video-cache';
+import { DEFAULT_ISL_TRANSITION_CONFIG, IslTransitionConfig } from '@/lib/isl-transitions';
+import { DEFAULT_ISL_TIMING_CONFIG, IslTimingConfig } from '@/lib/isl-timing';
+import { DEFAULT_ISL_GLOSS_TRACK_CONFIG, IslGlossTrackConfig } from '@/lib/isl-gloss-track';
+import { DEFAULT_PUBLISHED_PAGE_THEME, PublishedPageTheme } from '@/lib/published-page';
 
 export interface ServerConfig {
   server: {
     ip: string;
     port: number;
+    frontendPort?: number;
     protocol: string;
     domain: string;
   };
@@ -14,8 +22,60 @@ export interface ServerConfig {
     keyPath: string;
   };
   environment: string;
+  audio?: Partial<AudioConfig>;
+  playout?: Partial<PlayoutConfig>;
+  islGloss?: Partial<IslGlossRules>;
+  islFingerspelling?: Partial<FingerspellingConfig>;
+  islVideoCache?: Partial<IslVideoCacheConfig>;
+  islTransitions?: Partial<IslTransitionConfig>;
+  islTiming?: Partial<IslTimingConfig>;
+  islGlossTrack?: Partial<IslGlossTrackConfig>;
+  renderQueue?: Partial<RenderQueueConfig>;
+  publishedPage?: Partial<PublishedPageTheme>;
 }
 
+export type AudioOutputFormat = 'wav' | 'mp3' | 'opus';
+
+export interface AudioConfig {
+  outputFormat: AudioOutputFormat;
+  sampleRate: number;
+  channels: number;
+  gapMs: number;
+  loudnessLufs: number | null;
+}
+
+// How the per-language announcements are sequenced into one playout file.
+export interface PlayoutConfig {
+  order: string[];
+  gapMs: number;
+  repeat: number;
+}
+
+// Background ffmpeg job queue. Each running job holds one ffmpeg process.
+export interface RenderQueueConfig {
+  concurrency: number;
+  maxAttempts: number;
+}
+
+const DEFAULT_RENDER_QUEUE_CONFIG: RenderQueueConfig = {
+  concurrency: 1,
+  maxAttempts: 2
+};
+
+const DEFAULT_PLAYOUT_CONFIG: PlayoutConfig = {
+  order: ['en', 'hi', 'mr', 'gu'],
+  gapMs: 1000,
+  repeat: 1
+};
+
+const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  outputFormat: 'wav',
+  sampleRate: 24000,
+  channels: 1,
+  gapMs: 250,
+  loudnessLufs: -16
+};
+
 let configCache: ServerConfig | null = null;
 
 export function getServerConfig(): ServerConfig {
@@ -53,6 +113,16 @@ export function getServerUrl(): string {
   return `${config.server.protocol}://${config.server.domain}:${config.server.port}`;
 }
 
+// Port the Next.js app listens on when frontendPort is not set (see server.js and `npm run dev`).
+const DEFAULT_FRONTEND_PORT = 9002;
+
+// Origin of the Next.js app that serves files from /public (e.g. chimes and intro audio).
+export function getFrontendUrl(): string {
+  const config = getServerConfig();
+  const port = config.server.frontendPort || DEFAULT_FRONTEND_PORT;
+  return `${config.server.protocol}://${config.server.domain}:${port}`;
+}
+
 export function getServerIP(): string {
   const config = getServerConfig();
   return config.server.ip;
@@ -78,6 +148,58 @@ export function getSSLKeyPath(): string {
   return config.ssl.keyPath;
 }
 
+// Settings for assembling announcement audio. Missing keys fall back to the defaults.
+export function getAudioConfig(): AudioConfig {
+  const config = getServerConfig();
+  return { ...DEFAULT_AUDIO_CONFIG, ...(config.audio || {}) };
+}
+
+export function getPlayoutConfig(): PlayoutConfig {
+  const config = getServerConfig();
+  return { ...DEFAULT_PLAYOUT_CONFIG, ...(config.playout || {}) };
+}
+
+// Lists given in the config replace the defaults rather than extending them.
+export function getIslGlossRules(): IslGlossRules {
+  const config = getServerConfig();
+  return { ...DEFAULT_ISL_GLOSS_RULES, ...(config.islGloss || {}) };
+}
+
+export function getFingerspellingConfig(): FingerspellingConfig {
+  const config = getServerConfig();
+  return { ...DEFAULT_FINGERSPELLING_CONFIG, ...(config.islFingerspelling || {}) };
+}
+
+export function getIslVideoCacheConfig(): IslVideoCacheConfig {
+  const config = getServerConfig();
+  return { ...DEFAULT_ISL_VIDEO_CACHE_CONFIG, ...(config.islVideoCache || {}) };
+}
+
+export function getIslTransitionConfig(): IslTransitionConfig {
+  const config = getServerConfig();
+  return { ...DEFAULT_ISL_TRANSITION_CONFIG, ...(config.islTransitions || {}) };
+}
+
+export function getIslTimingConfig(): IslTimingConfig {
+  const config = getServerConfig();
+  return { ...DEFAULT_ISL_TIMING_CONFIG, ...(config.islTiming || {}) };
+}
+
+export function getIslGlossTrackConfig(): IslGlossTrackConfig {
+  const config = getServerConfig();
+  return { ...DEFAULT_ISL_GLOSS_TRACK_CONFIG, ...(config.islGlossTrack || {}) };
+}
+
+export function getRenderQueueConfig(): RenderQueueConfig {
+  const config = getServerConfig();
+  return { ...DEFAULT_RENDER_QUEUE_CONFIG, ...(config.renderQueue || {}) };
+}
+
+export function getPublishedPageTheme(): PublishedPageTheme {
+  const config = getServerConfig();
+  return { ...DEFAULT_PUBLISHED_PAGE_THEME, ...(config.publishedPage || {}) };
+}
+
 // Clear cache function for development
 export function clearConfigCache(): void {
   configCache = null;
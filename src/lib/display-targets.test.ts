@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DisplayRoutingRule, DisplayTarget, getAdjacentPlatforms, resolveDisplayTargets } from './display-targets';
+
+const targets: DisplayTarget[] = [
+    { id: 1, name: 'PF 1 board', kind: 'platform', platform: '1', location: '', enabled: true },
+    { id: 2, name: 'PF 2 board', kind: 'platform', platform: '2', location: '', enabled: true },
+    { id: 3, name: 'PF 3 board', kind: 'platform', platform: '3', location: '', enabled: true },
+    { id: 4, name: 'PF 2 north', kind: 'platform', platform: ' 2 ', location: '', enabled: false },
+    { id: 5, name: 'Main concourse', kind: 'concourse', platform: null, location: '', enabled: true },
+    { id: 6, name: 'Upper class waiting hall', kind: 'waiting_hall', platform: null, location: '', enabled: true },
+];
+
+const rule = (overrides: Partial<DisplayRoutingRule>): DisplayRoutingRule => ({
+    category: null, destination: 'announcement_platform', include_adjacent: false, target_kind: null, target_id: null, enabled: true,
+    ...overrides,
+});
+
+const resolve = (platform: string, category: string, rules: DisplayRoutingRule[]) =>
+    resolveDisplayTargets(platform, category, targets, rules).map(target => target.id);
+
+describe('getAdjacentPlatforms', () => {
+    it('lists the numbered platforms either side', () => {
+        expect(getAdjacentPlatforms('2')).toEqual(['1', '3']);
+        expect(getAdjacentPlatforms('1')).toEqual(['2']);
+        expect(getAdjacentPlatforms('1A')).toEqual([]);
+    });
+});
+
+describe('resolveDisplayTargets', () => {
+    it('sends announcements with no matching rule to the enabled screens of their own platform', () => {
+        expect(resolve('2', 'arriving', [])).toEqual([2]);
+        expect(resolve('2', 'arriving', [rule({ category: 'cancelled', destination: 'target_kind', target_kind: 'concourse' })])).toEqual([2]);
+        expect(resolve('2', 'arriving', [rule({ destination: 'target_kind', target_kind: 'concourse', enabled: false })])).toEqual([2]);
+    });
+
+    it('combines every matching rule, in registry order', () => {
+        expect(resolve('3', 'Cancelled', [
+            rule({ category: 'cancelled', destination: 'target', target_id: 6 }),
+            rule({ destination: 'target_kind', target_kind: 'concourse' }),
+            rule({ category: 'cancelled' }),
+        ])).toEqual([3, 5, 6]);
+    });
+
+    it('includes the platforms next to the announcement when the rule asks for them', () => {
+        expect(resolve('2', 'arriving', [rule({ include_adjacent: true })])).toEqual([1, 2, 3]);
+    });
+
+    it('never routes to a disabled screen', () => {
+        expect(resolve('2', 'arriving', [rule({ destination: 'target', target_id: 4 })])).toEqual([]);
+    });
+
+    it('replaces the platform fallback once any rule matches', () => {
+        expect(resolve('2', 'arriving', [rule({ destination: 'target_kind', target_kind: 'waiting_hall' })])).toEqual([6]);
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Registry of station display screens and the rules that route announcements to them.
+ *
+ * Targets are the physical screens (platform boards, concourse screens, waiting halls);
+ * each one opens /kiosk/<id>. Routing rules add screens for announcements of one
+ * category, or of every category. An announcement that no rule matches goes to the
+ * screens of its own platform.
+ */
+
+import { normalizePlatform } from '@/lib/kiosk-feed';
+
+export type DisplayTargetKind = 'platform' | 'concourse' | 'waiting_hall';
+
+export const DISPLAY_TARGET_KINDS: DisplayTargetKind[] = ['platform', 'concourse', 'waiting_hall'];
+
+export const DISPLAY_TARGET_KIND_LABELS: { [kind in DisplayTargetKind]: string } = {
+    platform: 'Platform screen',
+    concourse: 'Concourse screen',
+    waiting_hall: 'Waiting hall',
+};
+
+export type DisplayTarget = {
+    id?: number;
+    name: string;
+    kind: DisplayTargetKind;
+    // Platform the screen stands on; platform screens only.
+    platform: string | null;
+    location: string;
+    enabled: boolean;
+};
+
+// announcement_platform: screens on the announcement's platform (and optionally the ones next to it);
+// target_kind: every screen of a kind; target: one screen.
+export type RoutingDestination = 'announcement_platform' | 'target_kind' | 'target';
+
+export const ROUTING_DESTINATION_LABELS: { [destination in RoutingDestination]: string } = {
+    announcement_platform: "The announcement's platform",
+    target_kind: 'Every screen of a kind',
+    target: 'One screen',
+};
+
+export type DisplayRoutingRule = {
+    id?: number;
+    // Category key the rule applies to, or null for every category.
+    category: string | null;
+    destination: RoutingDestination;
+    // announcement_platform only: also the platforms numbered one either side.
+    include_adjacent: boolean;
+    target_kind: DisplayTargetKind | null;
+    target_id: number | null;
+    enabled: boolean;
+};
+
+// Platforms numbered one either side of `platform`; none for platforms like "1A".
+export function getAdjacentPlatforms(platform: string): string[] {
+    const normalized = normalizePlatform(platform);
+    if (!/^\d+$/.test(normalized)) return [];
+    const number = parseInt(normalized, 10);
+    return [number - 1, number + 1].filter(adjacent => adjacent > 0).map(String);
+}
+
+function ruleMatchesCategory(rule: DisplayRoutingRule, category: string): boolean {
+    return rule.category === null || rule.category.toLowerCase() === category.toLowerCase();
+}
+
+function getRuleTargets(rule: DisplayRoutingRule, platform: string, targets: DisplayTarget[]): DisplayTarget[] {
+    switch (rule.destination) {
+        case 'announcement_platform': {
+            const platforms = [normalizePlatform(platform), ...(rule.include_adjacent ? getAdjacentPlatforms(platform) : [])];
+            return targets.filter(target => target.kind === 'platform' && target.platform !== null && platforms.includes(normalizePlatform(target.platform)));
+        }
+        case 'target_kind':
+            return targets.filter(target => target.kind === rule.target_kind);
+        case 'target':
+            return targets.filter(target => target.id === rule.target_id);
+    }
+}
+
+/**
+ * Enabled screens that show an announcement for `platform` and `category`, in registry
+ * order.
+ */
+export function resolveDisplayTargets(
+    platform: string,
+    category: string,
+    targets: DisplayTarget[],
+    rules: DisplayRoutingRule[]
+): DisplayTarget[] {
+    const enabledTargets = targets.filter(target => target.enabled);
+    const matchingRules = rules.filter(rule => rule.enabled && ruleMatchesCategory(rule, category));
+    const fallback: DisplayRoutingRule = {
+        category: null, destination: 'announcement_platform', include_adjacent: false, target_kind: null, target_id: null, enabled: true,
+    };
+
+    const selected = new Set<number | undefined>();
+    for (const rule of matchingRules.length > 0 ? matchingRules : [fallback]) {
+        getRuleTargets(rule, platform, enabledTargets).forEach(target => selected.add(target.id));
+    }
+    return enabledTargets.filter(target => selected.has(target.id));
+}
+
+// e.g. "Every concourse screen", for the rule list.
+export function describeRoutingDestination(rule: DisplayRoutingRule, targets: DisplayTarget[]): string {
+    switch (rule.destination) {
+        case 'announcement_platform':
+            return rule.include_adjacent ? "The announcement's platform and the ones next to it" : "The announcement's platform";
+        case 'target_kind':
+            return `Every ${rule.target_kind ? DISPLAY_TARGET_KIND_LABELS[rule.target_kind].toLowerCase() : 'screen'}`;
+        case 'target':
+            return targets.find(target => target.id === rule.target_id)?.name ?? 'A removed screen';
+    }
+}
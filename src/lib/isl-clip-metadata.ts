@@ -0,0 +1,50 @@
+/**
+ * Per-clip metadata kept alongside the ISL dataset videos: in/out points (see
+ * isl-transitions), the signer's natural speed, tags and the reviewer's decision.
+ *
+ * Only approved clips are used for announcements. Clips uploaded from the ISL dataset
+ * page start out pending; clips already in the dataset, or copied into its folders and
+ * picked up by a sync, count as approved.
+ */
+
+import type { ClipTrim } from '@/lib/isl-transitions';
+
+export type IslClipReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export const REVIEW_STATUS_LABELS: { [status in IslClipReviewStatus]: string } = {
+  pending: 'Pending review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const ISL_CLIP_TAGS = ['number', 'station', 'verb', 'phrase'] as const;
+
+export type IslClipTag = typeof ISL_CLIP_TAGS[number];
+
+export type IslClipMetadata = ClipTrim & {
+  // Relative to a typical signer: 1.2 means this signer signs 20% faster.
+  signingSpeed: number | null;
+  tags: IslClipTag[];
+};
+
+export const MIN_SIGNING_SPEED = 0.25;
+export const MAX_SIGNING_SPEED = 4;
+
+// Tags are stored as a JSON array; anything unreadable or unknown is dropped.
+export function parseClipTags(value: string | null | undefined): IslClipTag[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((tag): tag is IslClipTag => ISL_CLIP_TAGS.includes(tag)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function validateSigningSpeed(speed: number | null): string | null {
+  if (speed === null) return null;
+  if (isNaN(speed) || speed < MIN_SIGNING_SPEED || speed > MAX_SIGNING_SPEED) {
+    return `Signing speed must be between ${MIN_SIGNING_SPEED} and ${MAX_SIGNING_SPEED}.`;
+  }
+  return null;
+}
@@ -0,0 +1,59 @@
+/**
+ * Fingerspelling fallback: words with no sign (mostly station and train names) are
+ * spelled out from the per-letter alphabet clips of the avatar's dataset, with the
+ * word captioned over the video. Settings live in the `islFingerspelling` section of
+ * config/server.json.
+ */
+
+export interface FingerspellingConfig {
+  enabled: boolean;
+  // Each letter clip is sped up or slowed down to this length.
+  letterDurationMs: number;
+  caption: boolean;
+  captionFontSize: number;
+  // Longer words are left unmatched rather than producing a very long spelled clip.
+  maxWordLength: number;
+}
+
+export const DEFAULT_FINGERSPELLING_CONFIG: FingerspellingConfig = {
+  enabled: true,
+  letterDurationMs: 600,
+  caption: true,
+  captionFontSize: 64,
+  maxWordLength: 14,
+};
+
+// Letters of a word that can be fingerspelled, or null when it contains anything else.
+export function getSpellableLetters(word: string, config: FingerspellingConfig): string[] | null {
+  const normalized = word.toLowerCase();
+  if (!/^[a-z]+$/.test(normalized) || normalized.length > config.maxWordLength) {
+    return null;
+  }
+  return normalized.split('');
+}
+
+export function getFingerspellingFileName(word: string, avatarModel: 'male' | 'female', config: FingerspellingConfig): string {
+  return `fingerspell_${avatarModel}_${word.toLowerCase()}_${config.letterDurationMs}${config.caption ? '' : '_nocaption'}.mp4`;
+}
+
+/**
+ * ffmpeg filter graph that fits each letter input to the configured duration, joins them
+ * and captions the result. `clipDurations` are the source clip lengths in seconds, in input order.
+ */
+export function buildFingerspellingFilter(word: string, clipDurations: number[], config: FingerspellingConfig): string {
+  const letterSeconds = config.letterDurationMs / 1000;
+  const fitted = clipDurations.map((duration, index) => {
+    const factor = duration > 0 ? letterSeconds / duration : 1;
+    return `[${index}:v]setpts=${factor.toFixed(4)}*(PTS-STARTPTS),fps=30,scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,setsar=1[l${index}]`;
+  });
+  const inputs = clipDurations.map((_, index) => `[l${index}]`).join('');
+  const concat = `${inputs}concat=n=${clipDurations.length}:v=1:a=0[spelled]`;
+
+  if (!config.caption) {
+    return [...fitted, concat.replace('[spelled]', '[out]')].join(';');
+  }
+
+  // Only [A-Z] reaches here, so the caption text needs no escaping.
+  const caption = `[spelled]drawtext=text='${word.toUpperCase()}':fontcolor=white:fontsize=${config.captionFontSize}:box=1:boxcolor=black@0.6:boxborderw=16:x=(w-text_w)/2:y=h-text_h-48[out]`;
+  return [...fitted, concat, caption].join(';');
+}
@@ -0,0 +1,58 @@
+/**
+ * Timed gloss track for a stitched ISL video: the word for each sign while it is signed.
+ *
+ * Passengers who are still learning ISL can match each sign to its word. Cues come from
+ * the ordered clip list and the clip timeline (trims, transitions and speed change
+ * included), and carry the English gloss plus an optional second language. The track is
+ * written as a WebVTT file next to the video and can be drawn over the video on the
+ * published page.
+ */
+
+import { SubtitleCue, formatWebVtt } from '@/lib/subtitles';
+
+export interface IslGlossTrackConfig {
+  enabled: boolean;
+  // Language code the gloss words are also shown in, or null for English only.
+  secondLanguage: string | null;
+}
+
+export const DEFAULT_ISL_GLOSS_TRACK_CONFIG: IslGlossTrackConfig = {
+  enabled: true,
+  secondLanguage: 'hi',
+};
+
+export type GlossCue = {
+  start: number;
+  end: number;
+  gloss: string;
+  translation: string | null;
+};
+
+export type GlossTrack = {
+  cues: GlossCue[];
+  // Public path of the WebVTT file, or null if it could not be written.
+  vtt: string | null;
+};
+
+export function buildGlossCues(
+  labels: string[],
+  timeline: { start: number; end: number }[],
+  translations: Map<string, string> = new Map()
+): GlossCue[] {
+  return labels.map((label, index) => ({
+    start: timeline[index]?.start ?? 0,
+    end: timeline[index]?.end ?? 0,
+    gloss: label,
+    translation: translations.get(label) ?? null,
+  })).filter(cue => cue.end > cue.start);
+}
+
+// One cue per sign: the gloss, with the translation on a second line.
+export function formatGlossVtt(cues: GlossCue[]): string {
+  const subtitleCues: SubtitleCue[] = cues.map(cue => ({
+    start: cue.start,
+    end: cue.end,
+    text: cue.translation ? `${cue.gloss}\n${cue.translation}` : cue.gloss,
+  }));
+  return formatWebVtt(subtitleCues);
+}
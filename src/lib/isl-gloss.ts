@@ -0,0 +1,170 @@
+/**
+ * Turns English text into an ISL gloss: the sign order the video lookup should follow.
+ *
+ * ISL drops articles, copulas and auxiliaries, puts time expressions first,
+ * states the topic before the comment (so the verb ends the clause) and
+ * signs negation last. Each rule can be switched off or tuned through the
+ * `islGloss` section of config/server.json.
+ */
+
+export interface IslGlossRules {
+  // Words with no sign of their own, dropped from the gloss.
+  stopWords: string[];
+  // Move time expressions to the front of their clause.
+  timeFirst: boolean;
+  timeWords: string[];
+  timeUnits: string[];
+  // Words that introduce a time ("at 10 30"); dropped when they do.
+  timeMarkers: string[];
+  // Move the verb phrase to the end of its clause.
+  topicComment: boolean;
+  verbs: string[];
+  // Words that stay attached to a verb when it moves ("running late").
+  verbModifiers: string[];
+  negationLast: boolean;
+  negationWords: string[];
+  // Optional word replacements applied last, e.g. { "arriving": "arrive" }.
+  lemmas: { [word: string]: string };
+}
+
+export const DEFAULT_ISL_GLOSS_RULES: IslGlossRules = {
+  stopWords: [
+    'a', 'an', 'the',
+    'is', 'are', 'am', 'was', 'were', 'be', 'been', 'being',
+    'has', 'have', 'had', 'will', 'shall', 'do', 'does', 'did',
+    'of', 'on',
+  ],
+  timeFirst: true,
+  timeWords: ['today', 'tomorrow', 'yesterday', 'tonight', 'now', 'shortly', 'soon', 'morning', 'afternoon', 'evening', 'night'],
+  timeUnits: ['minute', 'minutes', 'hour', 'hours'],
+  timeMarkers: ['at', 'by'],
+  topicComment: true,
+  verbs: [
+    'arrive', 'arriving', 'arrived', 'depart', 'departing', 'departed', 'leave', 'leaving',
+    'run', 'running', 'come', 'coming', 'go', 'going', 'reach', 'reaching', 'stop', 'stopping',
+    'cancel', 'cancelled', 'delay', 'delayed', 'change', 'changed', 'divert', 'diverted',
+    'terminate', 'terminated', 'reschedule', 'rescheduled', 'expect', 'expected',
+  ],
+  verbModifiers: ['late', 'early', 'back'],
+  negationLast: true,
+  negationWords: ['not', 'no', 'never'],
+  lemmas: {},
+};
+
+export type IslGlossResult = {
+  gloss: string;
+  tokens: string[];
+  dropped: string[];
+};
+
+const CLAUSE_SPLIT_REGEX = /[.!?;]+/;
+const isNumber = (word: string) => /^\d+$/.test(word);
+
+function tokenize(clause: string): string[] {
+  return clause
+    .toLowerCase()
+    .replace(/[,:"“”()]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Pulls time expressions out of a clause: time words, number runs followed by a
+// unit ("1 hour 5 minute") and number runs after a marker ("at 1 3 4 5").
+function extractTimes(words: string[], rules: IslGlossRules, dropped: string[]): { times: string[]; rest: string[] } {
+  const times: string[] = [];
+  const rest: string[] = [];
+  let i = 0;
+  while (i < words.length) {
+    const word = words[i];
+    if (rules.timeWords.includes(word)) {
+      times.push(word);
+      i++;
+      continue;
+    }
+
+    if (rules.timeMarkers.includes(word) && isNumber(words[i + 1] || '')) {
+      dropped.push(word);
+      i++;
+      while (i < words.length && (isNumber(words[i]) || rules.timeUnits.includes(words[i]))) {
+        times.push(words[i++]);
+      }
+      continue;
+    }
+
+    if (isNumber(word)) {
+      let end = i;
+      while (end < words.length && isNumber(words[end])) end++;
+      if (rules.timeUnits.includes(words[end] || '')) {
+        // Keep chained durations together, e.g. "1 hour 5 minute".
+        while (end < words.length && (isNumber(words[end]) || rules.timeUnits.includes(words[end]))) end++;
+        times.push(...words.slice(i, end));
+        i = end;
+        continue;
+      }
+      rest.push(...words.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    rest.push(word);
+    i++;
+  }
+  return { times, rest };
+}
+
+function glossClause(clause: string, rules: IslGlossRules, dropped: string[]): string[] {
+  let words = tokenize(clause);
+
+  let times: string[] = [];
+  if (rules.timeFirst) {
+    ({ times, rest: words } = extractTimes(words, rules, dropped));
+  }
+
+  words = words.filter(word => {
+    if (!rules.stopWords.includes(word)) return true;
+    dropped.push(word);
+    return false;
+  });
+
+  let negations: string[] = [];
+  if (rules.negationLast) {
+    negations = words.filter(word => rules.negationWords.includes(word));
+    words = words.filter(word => !rules.negationWords.includes(word));
+  }
+
+  let predicate: string[] = [];
+  if (rules.topicComment) {
+    const topic: string[] = [];
+    for (let i = 0; i < words.length; i++) {
+      if (rules.verbs.includes(words[i])) {
+        predicate.push(words[i]);
+        while (i + 1 < words.length && rules.verbModifiers.includes(words[i + 1])) {
+          predicate.push(words[++i]);
+        }
+      } else {
+        topic.push(words[i]);
+      }
+    }
+    words = topic;
+  }
+
+  return [...times, ...words, ...predicate, ...negations].map(word => rules.lemmas[word] || word);
+}
+
+export function generateGloss(text: string, rules: IslGlossRules = DEFAULT_ISL_GLOSS_RULES): IslGlossResult {
+  const dropped: string[] = [];
+  const tokens = text
+    .split(CLAUSE_SPLIT_REGEX)
+    .flatMap(clause => glossClause(clause, rules, dropped));
+  return { gloss: formatGloss(tokens), tokens, dropped };
+}
+
+// Glosses are shown in capitals by convention; lookups are case-insensitive.
+export function formatGloss(tokens: string[]): string {
+  return tokens.join(' ').toUpperCase();
+}
+
+// Reads a (possibly operator-edited) gloss back into lookup tokens.
+export function parseGloss(gloss: string): string[] {
+  return gloss.toLowerCase().replace(/[.,!?;:]/g, ' ').split(/\s+/).filter(Boolean);
+}
@@ -0,0 +1,136 @@
+/**
+ * ISL lexicon: aliases that point a word at an existing sign video.
+ *
+ * Clips are named after their sign ("arrive"), so inflections ("arrives", "arrival")
+ * and synonyms ("reach") only match through an alias. Entries live in the isl_lexicon
+ * table and can target one avatar model or both.
+ */
+
+export type IslLexiconAvatar = 'all' | 'male' | 'female';
+
+export type IslLexiconKind = 'inflection' | 'lemma' | 'synonym';
+
+export type IslLexiconEntry = {
+    id?: number;
+    alias: string;
+    sign: string;
+    avatar_model: IslLexiconAvatar;
+    kind: IslLexiconKind;
+};
+
+export const LEXICON_KIND_LABELS: { [kind in IslLexiconKind]: string } = {
+    inflection: 'Inflection',
+    lemma: 'Lemma',
+    synonym: 'Synonym',
+};
+
+export const DEFAULT_ISL_LEXICON: IslLexiconEntry[] = [
+    { alias: 'arrives', sign: 'arrive', avatar_model: 'all', kind: 'inflection' },
+    { alias: 'arrived', sign: 'arrive', avatar_model: 'all', kind: 'inflection' },
+    { alias: 'arrival', sign: 'arrive', avatar_model: 'all', kind: 'lemma' },
+    { alias: 'reach', sign: 'arrive', avatar_model: 'all', kind: 'synonym' },
+    { alias: 'reaching', sign: 'arriving', avatar_model: 'all', kind: 'synonym' },
+    { alias: 'trains', sign: 'train', avatar_model: 'all', kind: 'inflection' },
+    { alias: 'platforms', sign: 'platform', avatar_model: 'all', kind: 'inflection' },
+    { alias: 'stations', sign: 'station', avatar_model: 'all', kind: 'inflection' },
+    { alias: 'cancel', sign: 'cancelled', avatar_model: 'all', kind: 'lemma' },
+    { alias: 'canceled', sign: 'cancelled', avatar_model: 'all', kind: 'inflection' },
+    { alias: 'cancellation', sign: 'cancelled', avatar_model: 'all', kind: 'lemma' },
+    { alias: 'delayed', sign: 'late', avatar_model: 'all', kind: 'synonym' },
+    { alias: 'comes', sign: 'come', avatar_model: 'all', kind: 'inflection' },
+    { alias: 'goes', sign: 'go', avatar_model: 'all', kind: 'inflection' },
+];
+
+export function normalizeLexiconWord(word: string): string {
+    return word.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Clip files are named after their sign, optionally with an upload timestamp ("arrive_1712345678.mp4").
+export function getSignNameFromPath(videoPath: string): string {
+    const fileName = videoPath.split('/').pop()?.replace('.mp4', '') ?? '';
+    return fileName.replace(/_\d+$/, '').toLowerCase();
+}
+
+/**
+ * Adds lexicon aliases to a sign → video map. Entries for the specific avatar win over
+ * 'all' entries, and an alias never hides a real clip of the same name.
+ */
+export function applyLexicon(
+    videoMap: Map<string, string>,
+    entries: IslLexiconEntry[],
+    avatarModel: 'male' | 'female'
+): Map<string, string> {
+    const merged = new Map<string, string>(videoMap);
+    const ordered = [
+        ...entries.filter(entry => entry.avatar_model === 'all'),
+        ...entries.filter(entry => entry.avatar_model === avatarModel),
+    ];
+    for (const entry of ordered) {
+        const alias = normalizeLexiconWord(entry.alias);
+        const video = videoMap.get(normalizeLexiconWord(entry.sign));
+        if (video && !videoMap.has(alias)) {
+            merged.set(alias, video);
+        }
+    }
+    return merged;
+}
+
+// Crude English suffix stripping, only used to rank suggestions.
+export function stemWord(word: string): string {
+    const suffixes = ['ations', 'ation', 'ings', 'ing', 'ied', 'ies', 'ed', 'es', 'al', 's'];
+    for (const suffix of suffixes) {
+        if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+            return word.slice(0, -suffix.length).replace(/(.)\1$/, '$1').replace(/e$/, '');
+        }
+    }
+    return word.replace(/e$/, '');
+}
+
+// Edit distance that counts a swapped pair of letters ("trian") as one edit.
+function editDistance(a: string, b: string): number {
+    const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+    for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return rows[a.length][b.length];
+}
+
+/**
+ * Closest existing signs for a word with no clip: same stem first, then by spelling distance.
+ * Distant matches are left out rather than offering a misleading guess.
+ */
+export function suggestSigns(word: string, signs: string[], limit: number = 3): string[] {
+    const normalized = normalizeLexiconWord(word);
+    if (!normalized || /^\d+$/.test(normalized)) return [];
+
+    const stem = stemWord(normalized);
+    const maxDistance = Math.max(1, Math.floor(normalized.length / 4));
+
+    return signs
+        .filter(sign => !/^\d+$/.test(sign))
+        .map(sign => ({
+            sign,
+            score: Math.min(editDistance(normalized, sign), editDistance(stem, stemWord(sign))),
+        }))
+        .filter(candidate => candidate.score <= maxDistance)
+        .sort((a, b) => a.score - b.score || a.sign.localeCompare(b.sign))
+        .slice(0, limit)
+        .map(candidate => candidate.sign);
+}
+
+// "arival (did you mean arrive, arriving?), foo" for unmatched-word toasts.
+export function describeUnmatchedWords(unmatchedWords: string[], suggestions: { [word: string]: string[] } = {}): string {
+    return unmatchedWords
+        .map(word => {
+            const closest = suggestions[word];
+            return closest && closest.length > 0 ? `${word} (did you mean ${closest.join(', ')}?)` : word;
+        })
+        .join(', ');
+}
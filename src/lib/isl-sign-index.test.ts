@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { IslLexiconEntry } from './isl-lexicon';
+import { buildSignIndex, matchSignPhrases } from './isl-sign-index';
+
+const clip = (name: string) => `/isl_dataset/${name}/${name}.mp4`;
+
+const signs = new Map<string, string>([
+  ['please', clip('please')],
+  ['stand', clip('stand')],
+  ['train', clip('train')],
+  ['arrive', clip('arrive')],
+  ['reach', clip('reach')],
+  ['good-day', clip('good-day')],
+  ['please-stand-behind-the-yellow-line', clip('please-stand-behind-the-yellow-line')],
+]);
+
+const lexicon: IslLexiconEntry[] = [
+  { alias: 'arrives', sign: 'arrive', avatar_model: 'all', kind: 'inflection' },
+  { alias: 'reach', sign: 'arrive', avatar_model: 'all', kind: 'synonym' },
+  { alias: 'good day', sign: 'arrive', avatar_model: 'all', kind: 'synonym' },
+];
+
+const index = buildSignIndex(signs, lexicon, 'male');
+
+describe('matchSignPhrases', () => {
+  it('matches a phrase longer than three words as one clip', () => {
+    expect(index.maxPhraseLength).toBe(6);
+    expect(matchSignPhrases(index, ['please', 'stand', 'behind', 'the', 'yellow', 'line', 'train'])).toEqual([
+      { words: ['please', 'stand', 'behind', 'the', 'yellow', 'line'], video: clip('please-stand-behind-the-yellow-line') },
+      { words: ['train'], video: clip('train') },
+    ]);
+  });
+
+  it('falls back to the longest shorter match when a phrase is cut off', () => {
+    expect(matchSignPhrases(index, ['please', 'stand', 'behind', 'the', 'train'])).toEqual([
+      { words: ['please'], video: clip('please') },
+      { words: ['stand'], video: clip('stand') },
+      { words: ['behind'], video: null },
+      { words: ['the'], video: null },
+      { words: ['train'], video: clip('train') },
+    ]);
+  });
+
+  it('splits hyphenated and underscored gloss words like sign names', () => {
+    expect(matchSignPhrases(index, ['good_day'])).toEqual([{ words: ['good', 'day'], video: clip('good-day') }]);
+  });
+
+  it('matches lexicon aliases to the sign they point at', () => {
+    expect(matchSignPhrases(index, ['train', 'arrives'])).toEqual([
+      { words: ['train'], video: clip('train') },
+      { words: ['arrives'], video: clip('arrive') },
+    ]);
+  });
+
+  it('prefers a sign\'s own clip over an alias for the same words', () => {
+    expect(matchSignPhrases(index, ['reach'])).toEqual([{ words: ['reach'], video: clip('reach') }]);
+    expect(matchSignPhrases(index, ['good', 'day'])).toEqual([{ words: ['good', 'day'], video: clip('good-day') }]);
+  });
+});
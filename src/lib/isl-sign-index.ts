@@ -0,0 +1,118 @@
+/**
+ * In-memory index of the ISL sign videos for one avatar model.
+ *
+ * Sign names are split into words ("have-a-good-day" → have / a / good / day) and stored
+ * in a trie, so a gloss is matched greedily against the longest known phrase at each
+ * position. The walk from each word is bounded by the longest phrase in the index, so
+ * matching is linear in the number of gloss words.
+ *
+ * Indexes are cached per model and must be invalidated whenever the dataset or the
+ * lexicon changes.
+ */
+
+import { IslLexiconEntry, applyLexicon } from '@/lib/isl-lexicon';
+
+type AvatarModel = 'male' | 'female';
+
+export type SignTrieNode = {
+  children: Map<string, SignTrieNode>;
+  video?: string;
+};
+
+export type SignIndex = {
+  root: SignTrieNode;
+  // Signs that have their own clip, by name. Aliases are only in the trie.
+  signs: Map<string, string>;
+  maxPhraseLength: number;
+};
+
+export type SignMatch = {
+  words: string[];
+  video: string | null;
+};
+
+// Upload names use hyphens or underscores between words, glosses use spaces.
+export function getSignTokens(name: string): string[] {
+  return name.toLowerCase().split(/[\s_-]+/).filter(Boolean);
+}
+
+export function buildSignIndex(signs: Map<string, string>, lexicon: IslLexiconEntry[], avatarModel: AvatarModel): SignIndex {
+  const root: SignTrieNode = { children: new Map() };
+  let maxPhraseLength = 0;
+
+  for (const [name, video] of Array.from(applyLexicon(signs, lexicon, avatarModel))) {
+    const tokens = getSignTokens(name);
+    if (tokens.length === 0) continue;
+
+    let node = root;
+    for (const token of tokens) {
+      let child = node.children.get(token);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(token, child);
+      }
+      node = child;
+    }
+    // A sign's own clip wins over an alias or a differently-separated name for the same words.
+    if (!node.video || signs.get(name) === video) {
+      node.video = video;
+    }
+    maxPhraseLength = Math.max(maxPhraseLength, tokens.length);
+  }
+
+  return { root, signs, maxPhraseLength };
+}
+
+/**
+ * Splits the words into the longest phrases the index has a video for. Words with no
+ * match come back one at a time with a null video, in their original position.
+ */
+export function matchSignPhrases(index: SignIndex, words: string[]): SignMatch[] {
+  const tokens = words.flatMap(getSignTokens);
+  const matches: SignMatch[] = [];
+  let i = 0;
+
+  while (i < tokens.length) {
+    let node: SignTrieNode | undefined = index.root;
+    let matchEnd = -1;
+    let matchVideo: string | null = null;
+
+    for (let j = i; j < tokens.length && j - i < index.maxPhraseLength; j++) {
+      node = node.children.get(tokens[j]);
+      if (!node) break;
+      if (node.video) {
+        matchEnd = j;
+        matchVideo = node.video;
+      }
+    }
+
+    if (matchVideo) {
+      matches.push({ words: tokens.slice(i, matchEnd + 1), video: matchVideo });
+      i = matchEnd + 1;
+    } else {
+      matches.push({ words: [tokens[i]], video: null });
+      i++;
+    }
+  }
+
+  return matches;
+}
+
+const indexCache = new Map<AvatarModel, SignIndex>();
+
+export function getCachedSignIndex(avatarModel: AvatarModel): SignIndex | undefined {
+  return indexCache.get(avatarModel);
+}
+
+export function setCachedSignIndex(avatarModel: AvatarModel, index: SignIndex): void {
+  indexCache.set(avatarModel, index);
+}
+
+// Drops the cached index for one model, or for both when no model is given.
+export function invalidateSignIndex(avatarModel?: AvatarModel): void {
+  if (avatarModel) {
+    indexCache.delete(avatarModel);
+  } else {
+    indexCache.clear();
+  }
+}
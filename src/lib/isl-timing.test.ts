@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ISL_TIMING_CONFIG, IslTimingConfig, computeIslTiming, describeIslTiming, pickAudioDuration } from './isl-timing';
+
+const config: IslTimingConfig = { ...DEFAULT_ISL_TIMING_CONFIG };
+
+describe('pickAudioDuration', () => {
+  it('follows the configured language', () => {
+    expect(pickAudioDuration({ en: 8, hi: 10 }, config)).toBe(8);
+  });
+
+  it('falls back to the longest language that has audio', () => {
+    expect(pickAudioDuration({ en: null, hi: 10, mr: 9 }, config)).toBe(10);
+    expect(pickAudioDuration({ en: 8, hi: 10 }, { ...config, audioLanguage: 'longest' })).toBe(10);
+    expect(pickAudioDuration({ en: 0, hi: undefined }, config)).toBeNull();
+  });
+});
+
+describe('computeIslTiming', () => {
+  it('speeds the clips up or slows them down to the audio', () => {
+    expect(computeIslTiming(12, 6, 10, config)).toEqual({
+      source: 'audio', speedFactor: 1.2, clamped: false, naturalDurationSec: 12, targetDurationSec: 10, outputDurationSec: 10,
+    });
+    expect(computeIslTiming(9, 6, 10, config)).toMatchObject({ source: 'audio', speedFactor: 0.9, clamped: false });
+  });
+
+  it('times to the signing rate when there is no audio', () => {
+    // 6 signs at 24 a minute take 15 seconds
+    expect(computeIslTiming(18, 6, null, config)).toMatchObject({ source: 'signing_rate', speedFactor: 1.2, targetDurationSec: 15 });
+  });
+
+  it('keeps the factor within the configured bounds', () => {
+    expect(computeIslTiming(30, 6, 10, config)).toMatchObject({ speedFactor: 1.5, clamped: true, outputDurationSec: 20 });
+    expect(computeIslTiming(5, 6, 10, config)).toMatchObject({ speedFactor: 0.8, clamped: true });
+  });
+
+  it('rounds the factor so near-identical renders share a cache entry', () => {
+    expect(computeIslTiming(10.004, 6, 10, config).speedFactor).toBe(1);
+  });
+
+  it('plays at natural speed when the clips or the target cannot be measured', () => {
+    expect(computeIslTiming(null, 6, 10, config)).toMatchObject({ source: 'natural', speedFactor: 1, targetDurationSec: 10 });
+    expect(computeIslTiming(12, 0, null, config)).toMatchObject({ source: 'natural', speedFactor: 1, outputDurationSec: 12 });
+  });
+});
+
+describe('describeIslTiming', () => {
+  it('names the source and the speed, and says when the bounds cut in', () => {
+    expect(describeIslTiming(computeIslTiming(12, 6, 10, config))).toBe('Timed to the spoken audio: 1.20x');
+    expect(describeIslTiming(computeIslTiming(30, 6, 10, config))).toBe('Timed to the spoken audio: 1.50x, limited by the speed bounds');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * How fast a stitched ISL announcement is played.
+ *
+ * The video is sped up or slowed down so that it runs about as long as the spoken
+ * announcement it accompanies. Without audio, the target comes from a typical signing
+ * rate for the number of signs. Either way the factor is kept within the configured
+ * bounds, so short announcements aren't dragged into slow motion and long ones don't
+ * become unreadable.
+ */
+
+export interface IslTimingConfig {
+  // Language whose spoken audio the video follows; "longest" follows the longest language.
+  // Languages without audio fall back to the longest one that has it.
+  audioLanguage: string;
+  // Used when there is no audio to follow.
+  signsPerMinute: number;
+  // 1.25 means the video may play at no less than 0.8x.
+  maxSlowDown: number;
+  // 1.5 means the video may play at no more than 1.5x.
+  maxSpeedUp: number;
+}
+
+export const DEFAULT_ISL_TIMING_CONFIG: IslTimingConfig = {
+  audioLanguage: 'en',
+  signsPerMinute: 24,
+  maxSlowDown: 1.25,
+  maxSpeedUp: 1.5,
+};
+
+// audio: timed to spoken audio; signing_rate: timed to signsPerMinute; natural: the clips' own length
+// because it could not be measured.
+export type IslTimingSource = 'audio' | 'signing_rate' | 'natural';
+
+export type IslTiming = {
+  source: IslTimingSource;
+  // Playback speed applied to the stitched clips: 1.2 plays 20% faster.
+  speedFactor: number;
+  // True when the factor needed to hit the target was outside the configured bounds.
+  clamped: boolean;
+  naturalDurationSec: number | null;
+  targetDurationSec: number | null;
+  outputDurationSec: number | null;
+};
+
+export const TIMING_SOURCE_LABELS: { [source in IslTimingSource]: string } = {
+  audio: 'Timed to the spoken audio',
+  signing_rate: 'Timed to the signing rate',
+  natural: 'Natural clip speed',
+};
+
+// Picks the audio duration to follow from the per-language durations of an announcement.
+export function pickAudioDuration(durations: { [languageCode: string]: number | null | undefined }, config: IslTimingConfig): number | null {
+  const known = Object.values(durations).filter((duration): duration is number => typeof duration === 'number' && duration > 0);
+  if (known.length === 0) return null;
+  const preferred = config.audioLanguage === 'longest' ? undefined : durations[config.audioLanguage];
+  return typeof preferred === 'number' && preferred > 0 ? preferred : Math.max(...known);
+}
+
+/**
+ * Speed factor that brings clips of `naturalDurationSec` to the audio duration, or to
+ * the signing rate for `signCount` signs when there is no audio.
+ */
+export function computeIslTiming(
+  naturalDurationSec: number | null,
+  signCount: number,
+  audioDurationSec: number | null,
+  config: IslTimingConfig
+): IslTiming {
+  const targetDurationSec = audioDurationSec && audioDurationSec > 0
+    ? audioDurationSec
+    : config.signsPerMinute > 0 && signCount > 0 ? (signCount / config.signsPerMinute) * 60 : null;
+
+  if (!naturalDurationSec || naturalDurationSec <= 0 || !targetDurationSec) {
+    return { source: 'natural', speedFactor: 1, clamped: false, naturalDurationSec, targetDurationSec, outputDurationSec: naturalDurationSec };
+  }
+
+  const minFactor = 1 / Math.max(1, config.maxSlowDown);
+  const maxFactor = Math.max(1, config.maxSpeedUp);
+  const wanted = naturalDurationSec / targetDurationSec;
+  // Rounded so that near-identical renders share a cache entry
+  const speedFactor = Math.round(Math.min(maxFactor, Math.max(minFactor, wanted)) * 100) / 100;
+
+  return {
+    source: audioDurationSec && audioDurationSec > 0 ? 'audio' : 'signing_rate',
+    speedFactor,
+    clamped: wanted < minFactor || wanted > maxFactor,
+    naturalDurationSec,
+    targetDurationSec,
+    outputDurationSec: naturalDurationSec / speedFactor,
+  };
+}
+
+// e.g. "Timed to the spoken audio: 1.15x", for the UI.
+export function describeIslTiming(timing: IslTiming): string {
+  const speed = `${timing.speedFactor.toFixed(2)}x`;
+  const bound = timing.clamped ? ', limited by the speed bounds' : '';
+  return `${TIMING_SOURCE_LABELS[timing.source]}: ${speed}${bound}`;
+}
@@ -0,0 +1,152 @@
+/**
+ * How ISL clips are joined into an announcement video.
+ *
+ * A hard cut uses the concat demuxer and copies the streams. Crossfade and hold-frame, any
+ * clip with stored in/out points, and any speed change, go through a filter graph that trims
+ * each clip, normalises it to 1280x720 @ 30fps, joins it to the next one and retimes the result.
+ */
+
+export type IslTransitionType = 'cut' | 'crossfade' | 'hold';
+
+export interface IslTransitionConfig {
+  type: IslTransitionType;
+  // Length of the crossfade, or how long the last frame of each clip is held.
+  durationMs: number;
+}
+
+export const DEFAULT_ISL_TRANSITION_CONFIG: IslTransitionConfig = {
+  type: 'cut',
+  durationMs: 300,
+};
+
+export const TRANSITION_LABELS: { [type in IslTransitionType]: string } = {
+  cut: 'Hard cut',
+  crossfade: 'Crossfade',
+  hold: 'Hold last frame',
+};
+
+export const MAX_TRANSITION_DURATION_MS = 2000;
+
+// Seconds into the clip where the signing starts and stops; null keeps the clip's own start or end.
+export type ClipTrim = {
+  inPoint: number | null;
+  outPoint: number | null;
+};
+
+export type TransitionClip = {
+  durationSec: number;
+  trim?: ClipTrim | null;
+};
+
+export function hasTrim(trim: ClipTrim | null | undefined): boolean {
+  return !!trim && (trim.inPoint !== null || trim.outPoint !== null);
+}
+
+// Returns an error message, or null when the points fit inside a clip of the given length.
+export function validateClipTrim(trim: ClipTrim, durationSec?: number): string | null {
+  const { inPoint, outPoint } = trim;
+  if (inPoint !== null && (isNaN(inPoint) || inPoint < 0)) return 'In point must be zero or more seconds.';
+  if (outPoint !== null && (isNaN(outPoint) || outPoint <= 0)) return 'Out point must be more than zero seconds.';
+  if (inPoint !== null && outPoint !== null && outPoint - inPoint < 0.1) return 'Out point must be at least 0.1s after the in point.';
+  if (durationSec !== undefined && inPoint !== null && inPoint >= durationSec) return 'In point is past the end of the clip.';
+  return null;
+}
+
+export function getTrimmedDuration(clip: TransitionClip): number {
+  const start = clip.trim?.inPoint ?? 0;
+  const end = Math.min(clip.trim?.outPoint ?? clip.durationSec, clip.durationSec);
+  return Math.max(0.1, end - start);
+}
+
+/**
+ * ffmpeg filter graph joining inputs 0..n-1 into `[out]` with the given transition, played
+ * `speedFactor` times as fast. Returns the graph and the length of the result in seconds.
+ */
+export function buildTransitionFilter(clips: TransitionClip[], transition: IslTransitionConfig, speedFactor: number = 1): { filter: string; durationSec: number } {
+  const joined = buildJoinFilter(clips, transition, speedFactor === 1 ? 'out' : 'joined');
+  if (speedFactor === 1) return joined;
+  return {
+    filter: `${joined.filter};[joined]setpts=PTS/${speedFactor.toFixed(3)},fps=30[out]`,
+    durationSec: joined.durationSec / speedFactor,
+  };
+}
+
+/**
+ * When each clip is on screen in the joined video, in seconds, after the speed change.
+ * A crossfade is split down the middle between the two clips it joins, and a held frame
+ * counts towards the clip it holds.
+ */
+export function getClipTimeline(clips: TransitionClip[], transition: IslTransitionConfig, speedFactor: number = 1): { start: number; end: number }[] {
+  const durations = clips.map(getTrimmedDuration);
+  const transitionSec = getTransitionSeconds(durations, transition);
+  const timeline: { start: number; end: number }[] = [];
+  let start = 0;
+  durations.forEach((duration, index) => {
+    const isLast = index === durations.length - 1;
+    let next: number;
+    let end: number;
+    if (transition.type === 'crossfade') {
+      next = start + duration - transitionSec;
+      end = isLast ? start + duration : next + transitionSec / 2;
+    } else {
+      next = start + duration + (transition.type === 'hold' && !isLast ? transitionSec : 0);
+      end = next;
+    }
+    const shownFrom = transition.type === 'crossfade' && index > 0 ? start + transitionSec / 2 : start;
+    timeline.push({ start: shownFrom / speedFactor, end: end / speedFactor });
+    start = next;
+  });
+  return timeline;
+}
+
+// A crossfade can't be longer than half of the shortest clip it joins.
+function getTransitionSeconds(durations: number[], transition: IslTransitionConfig): number {
+  if (transition.type === 'cut') return 0;
+  const requested = Math.min(Math.max(transition.durationMs, 0), MAX_TRANSITION_DURATION_MS) / 1000;
+  return transition.type === 'crossfade' ? Math.min(requested, Math.min(...durations) / 2) : requested;
+}
+
+function buildJoinFilter(clips: TransitionClip[], transition: IslTransitionConfig, output: string): { filter: string; durationSec: number } {
+  const durations = clips.map(getTrimmedDuration);
+  const transitionSec = getTransitionSeconds(durations, transition);
+
+  const prepared = clips.map((clip, index) => {
+    const steps: string[] = [];
+    if (hasTrim(clip.trim)) {
+      const bounds = [
+        clip.trim!.inPoint !== null ? `start=${clip.trim!.inPoint.toFixed(3)}` : null,
+        clip.trim!.outPoint !== null ? `end=${clip.trim!.outPoint.toFixed(3)}` : null,
+      ].filter(Boolean);
+      steps.push(`trim=${bounds.join(':')}`);
+    }
+    steps.push('setpts=PTS-STARTPTS', 'fps=30', 'scale=1280:720:force_original_aspect_ratio=decrease', 'pad=1280:720:(ow-iw)/2:(oh-ih)/2', 'setsar=1', 'format=yuv420p');
+    if (transition.type === 'hold' && transitionSec > 0 && index < clips.length - 1) {
+      steps.push(`tpad=stop_mode=clone:stop_duration=${transitionSec.toFixed(3)}`);
+    }
+    return `[${index}:v]${steps.join(',')}[c${index}]`;
+  });
+
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+
+  if (clips.length === 1) {
+    return { filter: [...prepared, `[c0]null[${output}]`].join(';'), durationSec: total };
+  }
+
+  if (transition.type === 'crossfade' && transitionSec > 0) {
+    const fades: string[] = [];
+    let previous = 'c0';
+    let offset = durations[0] - transitionSec;
+    for (let index = 1; index < clips.length; index++) {
+      const label = index === clips.length - 1 ? output : `x${index}`;
+      fades.push(`[${previous}][c${index}]xfade=transition=fade:duration=${transitionSec.toFixed(3)}:offset=${offset.toFixed(3)}[${label}]`);
+      previous = label;
+      offset += durations[index] - transitionSec;
+    }
+    return { filter: [...prepared, ...fades].join(';'), durationSec: total - transitionSec * (clips.length - 1) };
+  }
+
+  const inputs = clips.map((_, index) => `[c${index}]`).join('');
+  const concat = `${inputs}concat=n=${clips.length}:v=1:a=0[${output}]`;
+  const held = transition.type === 'hold' ? transitionSec * (clips.length - 1) : 0;
+  return { filter: [...prepared, concat].join(';'), durationSec: total + held };
+}
@@ -0,0 +1,81 @@
+/**
+ * Cache of stitched ISL announcement videos.
+ *
+ * A stitched video is keyed by the hash of its ordered clip list (with each clip's size
+ * and modification time, so re-uploaded clips miss), the avatar model and the render
+ * settings. Entries live in public/isl_video/cache and the isl_video_cache table, and the
+ * least recently used ones are evicted once the cache grows past `maxSizeMb`.
+ */
+
+import type { ClipTrim, IslTransitionConfig } from '@/lib/isl-transitions';
+
+export interface IslVideoCacheConfig {
+  enabled: boolean;
+  maxSizeMb: number;
+}
+
+export const DEFAULT_ISL_VIDEO_CACHE_CONFIG: IslVideoCacheConfig = {
+  enabled: true,
+  maxSizeMb: 2048,
+};
+
+// Relative to public/isl_video, so "Clear ISL videos" (top-level files only) leaves it alone.
+export const ISL_VIDEO_CACHE_FOLDER = 'cache';
+
+export type IslVideoRenderSettings = {
+  speedFactor: number;
+  transition: IslTransitionConfig;
+  // In/out points of each clip, in playlist order.
+  trims: (ClipTrim | null)[];
+};
+
+export type IslVideoCacheEntry = {
+  cache_key: string;
+  file_path: string;
+  avatar_model: 'male' | 'female';
+  clip_count: number;
+  size_bytes: number;
+  hit_count: number;
+  created_at: string;
+  last_used_at: string;
+};
+
+export type IslVideoCacheStats = {
+  hits: number;
+  misses: number;
+  evictions: number;
+  reset_at: string | null;
+  totalBytes: number;
+  maxBytes: number;
+  entries: IslVideoCacheEntry[];
+};
+
+export function getCacheHitRate(stats: Pick<IslVideoCacheStats, 'hits' | 'misses'>): number | null {
+  const lookups = stats.hits + stats.misses;
+  return lookups > 0 ? stats.hits / lookups : null;
+}
+
+/**
+ * Least recently used entries to delete so the cache fits in `maxBytes`.
+ * `keepKey` (the entry just written) is never evicted, even if it alone is over the limit.
+ */
+export function selectEvictions(entries: IslVideoCacheEntry[], maxBytes: number, keepKey?: string): IslVideoCacheEntry[] {
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.size_bytes, 0);
+  const evictions: IslVideoCacheEntry[] = [];
+  const oldestFirst = [...entries].sort((a, b) => a.last_used_at.localeCompare(b.last_used_at));
+
+  for (const entry of oldestFirst) {
+    if (totalBytes <= maxBytes) break;
+    if (entry.cache_key === keepKey) continue;
+    evictions.push(entry);
+    totalBytes -= entry.size_bytes;
+  }
+  return evictions;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
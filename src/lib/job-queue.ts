@@ -0,0 +1,311 @@
+/**
+ * Server-side runner for the render_jobs table.
+ *
+ * Jobs are persisted in SQLite, so a restart re-queues whatever was running; the workers
+ * start with the server (src/instrumentation.ts). Up to `renderQueue.concurrency` jobs run
+ * at once in this process; each job type has a handler registered by
+ * src/app/render-job-actions.ts. Handlers run ffmpeg through
+ * `context.runFfmpeg`, which reports progress and stops ffmpeg when the job is cancelled.
+ */
+
+import { getDb } from '@/app/actions';
+import { getRenderQueueConfig } from '@/lib/config';
+import { MediaRunResult, MediaToolError, runFfmpeg } from '@/lib/media-tools';
+import { RenderJob, RenderJobType } from '@/lib/render-jobs';
+
+export type RenderJobContext = {
+  jobId: number;
+  signal: AbortSignal;
+  // Progress is 0-100; null clears it (e.g. while probing inputs).
+  setProgress: (progress: number | null, message?: string) => Promise<void>;
+  /**
+   * Runs ffmpeg with the given arguments, mapping its position onto `range` of the job's
+   * progress. Without `durationSec` the length is read from the first input's banner.
+   */
+  runFfmpeg: (
+    args: string[],
+    options?: { durationSec?: number; range?: [number, number]; message?: string }
+  ) => Promise<MediaRunResult>;
+};
+
+export type RenderJobHandler = (payload: any, context: RenderJobContext) => Promise<any>;
+
+export class RenderJobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'RenderJobCancelledError';
+  }
+}
+
+// Kept on globalThis so every bundle that imports this module in the same server process shares one queue.
+type QueueState = {
+  handlers: Map<RenderJobType, RenderJobHandler>;
+  running: Map<number, AbortController>;
+  recovered: boolean;
+  pumping: boolean;
+  // Set when a job is queued or freed up while the queue is being scanned, so it is scanned again.
+  rescan: boolean;
+};
+
+const globalForQueue = globalThis as unknown as { __renderJobQueue?: QueueState };
+const state: QueueState = globalForQueue.__renderJobQueue ?? (globalForQueue.__renderJobQueue = {
+  handlers: new Map(),
+  running: new Map(),
+  recovered: false,
+  pumping: false,
+  rescan: false,
+});
+
+// Progress is written at most this often; the same write picks up cancel requests.
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+export function registerRenderJobHandler(type: RenderJobType, handler: RenderJobHandler): void {
+  state.handlers.set(type, handler);
+}
+
+export function toRenderJob(row: any): RenderJob {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    progress: row.progress ?? null,
+    message: row.message ?? null,
+    payload: row.payload ? JSON.parse(row.payload) : null,
+    result: row.result ? JSON.parse(row.result) : null,
+    error: row.error ?? null,
+    attempts: row.attempts ?? 0,
+    max_attempts: row.max_attempts ?? 1,
+    cancel_requested: !!row.cancel_requested,
+    created_at: row.created_at,
+    started_at: row.started_at ?? null,
+    finished_at: row.finished_at ?? null,
+  };
+}
+
+export async function enqueueRenderJob(type: RenderJobType, payload: any, maxAttempts?: number): Promise<number> {
+  const db = await getDb();
+  let jobId: number;
+  try {
+    const result = await db.run(
+      `INSERT INTO render_jobs (type, status, payload, max_attempts, message) VALUES (?, 'queued', ?, ?, 'Waiting for a worker')`,
+      type,
+      JSON.stringify(payload),
+      maxAttempts ?? getRenderQueueConfig().maxAttempts
+    );
+    jobId = result.lastID!;
+  } finally {
+    await db.close();
+  }
+  startRenderWorkers();
+  return jobId;
+}
+
+/**
+ * Queued jobs are cancelled straight away; running ones are flagged and their ffmpeg
+ * process is stopped by the worker. Returns false if the job had already finished.
+ */
+export async function requestRenderJobCancel(jobId: number): Promise<boolean> {
+  const db = await getDb();
+  try {
+    const queued = await db.run(
+      `UPDATE render_jobs SET status = 'cancelled', cancel_requested = 1, message = 'Cancelled', finished_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = 'queued'`,
+      jobId
+    );
+    if (queued.changes) return true;
+
+    const running = await db.run(`UPDATE render_jobs SET cancel_requested = 1 WHERE id = ? AND status = 'running'`, jobId);
+    state.running.get(jobId)?.abort();
+    return !!running.changes;
+  } finally {
+    await db.close();
+  }
+}
+
+// Puts a failed or cancelled job back in the queue with a fresh set of attempts.
+export async function requeueRenderJob(jobId: number): Promise<boolean> {
+  const db = await getDb();
+  try {
+    const result = await db.run(
+      `UPDATE render_jobs SET status = 'queued', attempts = 0, progress = NULL, error = NULL, result = NULL,
+         cancel_requested = 0, message = 'Waiting for a worker', started_at = NULL, finished_at = NULL
+       WHERE id = ? AND status IN ('failed', 'cancelled')`,
+      jobId
+    );
+    if (!result.changes) return false;
+  } finally {
+    await db.close();
+  }
+  startRenderWorkers();
+  return true;
+}
+
+export function startRenderWorkers(): void {
+  pump().catch(error => console.error('Render queue failed:', error));
+}
+
+async function pump(): Promise<void> {
+  if (state.pumping) {
+    state.rescan = true;
+    return;
+  }
+  state.pumping = true;
+  state.rescan = false;
+  try {
+    if (!state.recovered) {
+      state.recovered = true;
+      await recoverInterruptedJobs();
+    }
+
+    const { concurrency } = getRenderQueueConfig();
+    while (state.running.size < Math.max(1, concurrency)) {
+      const job = await claimNextJob();
+      if (!job) break;
+      const controller = new AbortController();
+      state.running.set(job.id, controller);
+      runJob(job, controller)
+        .catch(error => console.error(`Render job ${job.id} crashed:`, error))
+        .finally(() => {
+          state.running.delete(job.id);
+          startRenderWorkers();
+        });
+    }
+  } finally {
+    state.pumping = false;
+    if (state.rescan) startRenderWorkers();
+  }
+}
+
+// Jobs left 'running' by a previous server process never finished; run them again.
+async function recoverInterruptedJobs(): Promise<void> {
+  const db = await getDb();
+  try {
+    const result = await db.run(
+      `UPDATE render_jobs SET status = 'queued', message = 'Re-queued after a server restart' WHERE status = 'running'`
+    );
+    if (result.changes) {
+      console.log(`Re-queued ${result.changes} render job(s) interrupted by a restart`);
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+async function claimNextJob(): Promise<RenderJob | null> {
+  const db = await getDb();
+  try {
+    // Only claim job types this process has a handler for.
+    const types = Array.from(state.handlers.keys());
+    if (types.length === 0) return null;
+    const row = await db.get(
+      `SELECT * FROM render_jobs WHERE status = 'queued' AND type IN (${types.map(() => '?').join(', ')}) ORDER BY id LIMIT 1`,
+      ...types
+    );
+    if (!row) return null;
+    const claimed = await db.run(
+      `UPDATE render_jobs SET status = 'running', attempts = attempts + 1, progress = NULL, message = 'Starting',
+         started_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'queued'`,
+      row.id
+    );
+    if (!claimed.changes) return null;
+    return toRenderJob({ ...row, status: 'running', attempts: row.attempts + 1 });
+  } finally {
+    await db.close();
+  }
+}
+
+// `finished` stamps (true) or clears (false) finished_at; leave it out to keep the current value.
+async function updateJob(jobId: number, fields: { [column: string]: any }, finished?: boolean): Promise<{ cancelRequested: boolean }> {
+  const db = await getDb();
+  try {
+    const columns = Object.keys(fields);
+    const assignments = columns.map(column => `${column} = ?`);
+    if (finished !== undefined) {
+      assignments.push(finished ? 'finished_at = CURRENT_TIMESTAMP' : 'finished_at = NULL');
+    }
+    if (assignments.length > 0) {
+      await db.run(
+        `UPDATE render_jobs SET ${assignments.join(', ')} WHERE id = ?`,
+        ...columns.map(column => fields[column]),
+        jobId
+      );
+    }
+    const row = await db.get('SELECT cancel_requested FROM render_jobs WHERE id = ?', jobId);
+    return { cancelRequested: !!row?.cancel_requested };
+  } finally {
+    await db.close();
+  }
+}
+
+async function runJob(job: RenderJob, controller: AbortController): Promise<void> {
+  const handler = state.handlers.get(job.type)!;
+  let lastWrite = 0;
+
+  const setProgress = async (progress: number | null, message?: string) => {
+    const now = Date.now();
+    // Always write message changes; throttle pure progress ticks.
+    if (message === undefined && now - lastWrite < PROGRESS_WRITE_INTERVAL_MS) return;
+    lastWrite = now;
+    const fields: { [column: string]: any } = { progress: progress === null ? null : Math.round(progress * 10) / 10 };
+    if (message !== undefined) fields.message = message;
+    const { cancelRequested } = await updateJob(job.id, fields);
+    if (cancelRequested) controller.abort();
+  };
+
+  const context: RenderJobContext = {
+    jobId: job.id,
+    signal: controller.signal,
+    setProgress,
+    runFfmpeg: (args, options = {}) => runFfmpegWithProgress(args, controller.signal, setProgress, options),
+  };
+
+  try {
+    const result = await handler(job.payload, context);
+    if (controller.signal.aborted) throw new RenderJobCancelledError();
+    await updateJob(job.id, {
+      status: 'completed',
+      progress: 100,
+      message: 'Done',
+      result: JSON.stringify(result ?? null),
+      error: null,
+    }, true);
+  } catch (error: any) {
+    const cancelled = controller.signal.aborted || error instanceof RenderJobCancelledError;
+    const retry = !cancelled && job.attempts < job.max_attempts;
+    console.error(`Render job ${job.id} (${job.type}) ${cancelled ? 'cancelled' : 'failed'}:`, error);
+    await updateJob(job.id, {
+      status: cancelled ? 'cancelled' : retry ? 'queued' : 'failed',
+      message: cancelled ? 'Cancelled' : retry ? `Retrying (attempt ${job.attempts + 1} of ${job.max_attempts})` : 'Failed',
+      error: cancelled ? null : String(error?.message || error),
+    }, !retry);
+  }
+}
+
+async function runFfmpegWithProgress(
+  args: string[],
+  signal: AbortSignal,
+  setProgress: RenderJobContext['setProgress'],
+  options: { durationSec?: number; range?: [number, number]; message?: string }
+): Promise<MediaRunResult> {
+  if (signal.aborted) throw new RenderJobCancelledError();
+
+  const [rangeStart, rangeEnd] = options.range ?? [0, 100];
+  if (options.message) {
+    await setProgress(rangeStart, options.message).catch(() => {});
+  }
+
+  try {
+    return await runFfmpeg(args, {
+      signal,
+      durationSec: options.durationSec,
+      onProgress: fraction => {
+        setProgress(rangeStart + (rangeEnd - rangeStart) * fraction).catch(() => {});
+      },
+    });
+  } catch (error) {
+    if (error instanceof MediaToolError && error.kind === 'cancelled') {
+      throw new RenderJobCancelledError();
+    }
+    throw error;
+  }
+}
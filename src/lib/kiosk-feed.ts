@@ -0,0 +1,106 @@
+/**
+ * Live feed of published announcements for station display boards.
+ *
+ * Publishing records the announcement in the kiosk_announcements table, together with the
+ * display screens it is routed to (src/lib/display-targets.ts), and hands it to those
+ * screens. Displays follow the feed over Server-Sent Events (/api/kiosk/<display id>/events);
+ * event ids are the row ids, so a display that reconnects with Last-Event-ID is sent
+ * whatever it missed from the table.
+ */
+
+import type { PlayoutCueSheet } from '@/lib/audio-assembly';
+import type { GlossTrack } from '@/lib/isl-gloss-track';
+
+// Screens that are not on a platform list the next trains of every platform.
+export const ALL_PLATFORMS = 'all';
+
+// How long a display waits before reconnecting after the stream drops.
+export const KIOSK_RETRY_MS = 5000;
+// Sent this often so proxies keep an idle stream open and displays notice a dead one.
+export const KIOSK_HEARTBEAT_MS = 15000;
+// The next-trains list sent to displays is refreshed at this rate.
+export const KIOSK_UPCOMING_REFRESH_MS = 60000;
+// A display that reconnects is not sent announcements older than this.
+export const KIOSK_REPLAY_WINDOW_MINUTES = 10;
+
+export type KioskAudio = {
+  language_code: string;
+  audio_path: string;
+};
+
+export type KioskAnnouncement = {
+  id: number;
+  platform: string;
+  train_number: string | null;
+  train_name: string | null;
+  category: string | null;
+  title: string;
+  // Announcement text by language code, in the order it is spoken.
+  texts: { [languageCode: string]: string };
+  video_path: string | null;
+  // Played in order after the intro chime; unused when there is a playout file.
+  audio: KioskAudio[];
+  intro_audio_path: string | null;
+  playout: PlayoutCueSheet | null;
+  gloss_track: GlossTrack | null;
+  // Ids of the display screens it was routed to.
+  target_ids: number[];
+  created_at: string;
+};
+
+export type KioskAnnouncementInput = Omit<KioskAnnouncement, 'id' | 'target_ids' | 'created_at'>;
+
+export type UpcomingTrain = {
+  train_number: string;
+  train_name: string;
+  platform: string;
+  // HH:MM, the arrival time or the departure time for trains that start here.
+  time: string;
+  kind: 'arrival' | 'departure';
+};
+
+export type KioskEventType = 'hello' | 'announcement' | 'upcoming' | 'heartbeat';
+
+export function normalizePlatform(platform: string): string {
+  return platform.trim().toLowerCase();
+}
+
+// Whether a screen listing trains for `displayPlatform` includes trains on `platform`.
+export function isForPlatform(displayPlatform: string, platform: string): boolean {
+  const display = normalizePlatform(displayPlatform);
+  return display === ALL_PLATFORMS || display === normalizePlatform(platform);
+}
+
+// One Server-Sent Events message; `data` is sent as a single JSON line.
+export function formatSseEvent(event: KioskEventType, data: unknown, id?: number): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+type KioskListener = (announcement: KioskAnnouncement) => void;
+
+// Kept on globalThis so the server action that publishes and the route that streams share
+// one set of listeners even when they are bundled separately.
+const globalForFeed = globalThis as unknown as { __kioskListeners?: Set<KioskListener> };
+const listeners: Set<KioskListener> = globalForFeed.__kioskListeners ?? (globalForFeed.__kioskListeners = new Set());
+
+// Calls `listener` with every announcement routed to display screen `targetId` from now on.
+export function subscribeToKioskFeed(targetId: number, listener: (announcement: KioskAnnouncement) => void): () => void {
+  const filtered: KioskListener = announcement => {
+    if (announcement.target_ids.includes(targetId)) listener(announcement);
+  };
+  listeners.add(filtered);
+  return () => {
+    listeners.delete(filtered);
+  };
+}
+
+export function broadcastKioskAnnouncement(announcement: KioskAnnouncement): void {
+  for (const listener of listeners) {
+    try {
+      listener(announcement);
+    } catch (error) {
+      console.error('Kiosk feed listener failed:', error);
+    }
+  }
+}
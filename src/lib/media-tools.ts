@@ -0,0 +1,222 @@
+/**
+ * Typed wrapper around the ffmpeg and ffprobe binaries.
+ *
+ * Both tools are spawned with an argument array and never through a shell, so uploaded
+ * file names containing quotes, spaces or `$(...)` reach ffmpeg untouched. Failures are
+ * thrown as MediaToolError, carrying the exit code and the tail of stderr.
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import { parseFfmpegDuration, parseFfmpegProgress } from '@/lib/render-jobs';
+
+export type MediaTool = 'ffmpeg' | 'ffprobe';
+
+// not_installed: the binary is missing; failed: non-zero exit; cancelled: aborted through the signal;
+// bad_output: the tool ran but its output could not be understood.
+export type MediaToolErrorKind = 'not_installed' | 'failed' | 'cancelled' | 'bad_output';
+
+export class MediaToolError extends Error {
+  constructor(
+    message: string,
+    readonly tool: MediaTool,
+    readonly kind: MediaToolErrorKind,
+    readonly exitCode: number | null = null,
+    readonly stderr: string = ''
+  ) {
+    super(message);
+    this.name = 'MediaToolError';
+  }
+}
+
+export type MediaRunOptions = {
+  signal?: AbortSignal;
+  // Called with 0-1 as ffmpeg works through the output. Without `durationSec` the
+  // length is read from the first input's banner.
+  onProgress?: (fraction: number) => void;
+  durationSec?: number;
+  // Working directory, for filters such as `subtitles` that take a file name inside the graph.
+  cwd?: string;
+};
+
+export type MediaRunResult = {
+  stdout: Buffer;
+  stderr: string;
+};
+
+export type VideoStreamInfo = {
+  index: number;
+  codec: string;
+  width: number;
+  height: number;
+  frameRate: number | null;
+  pixelFormat: string | null;
+  durationSec: number | null;
+};
+
+export type AudioStreamInfo = {
+  index: number;
+  codec: string;
+  sampleRate: number | null;
+  channels: number | null;
+  durationSec: number | null;
+};
+
+export type MediaInfo = {
+  formatName: string;
+  durationSec: number | null;
+  sizeBytes: number | null;
+  bitRate: number | null;
+  video: VideoStreamInfo[];
+  audio: AudioStreamInfo[];
+};
+
+const STDERR_TAIL_BYTES = 16 * 1024;
+
+export function runFfmpeg(args: string[], options: MediaRunOptions = {}): Promise<MediaRunResult> {
+  // -progress writes machine-readable key=value lines to stdout; -nostats keeps stderr short.
+  const fullArgs = options.onProgress
+    ? ['-hide_banner', '-nostdin', '-progress', 'pipe:1', '-nostats', ...args]
+    : ['-hide_banner', '-nostdin', ...args];
+  return runMediaTool('ffmpeg', fullArgs, options);
+}
+
+export function runFfprobe(args: string[], options: { signal?: AbortSignal } = {}): Promise<MediaRunResult> {
+  return runMediaTool('ffprobe', args, options);
+}
+
+/**
+ * Streams, duration and size of a media file. Throws MediaToolError if ffprobe
+ * cannot read the file.
+ */
+export async function probeMedia(filePath: string): Promise<MediaInfo> {
+  const { stdout } = await runFfprobe(['-v', 'quiet', '-print_format', 'json', '-show_format', '-show_streams', filePath]);
+  return parseProbeOutput(stdout.toString());
+}
+
+// Container duration in seconds, or null when ffprobe can't tell.
+export async function getMediaDuration(filePath: string): Promise<number | null> {
+  const { stdout } = await runFfprobe(['-v', 'quiet', '-show_entries', 'format=duration', '-of', 'csv=p=0', filePath]);
+  const duration = parseFloat(stdout.toString().trim());
+  return isNaN(duration) ? null : duration;
+}
+
+export function parseProbeOutput(json: string): MediaInfo {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new MediaToolError('ffprobe returned output that is not JSON', 'ffprobe', 'bad_output');
+  }
+  const streams: any[] = Array.isArray(data?.streams) ? data.streams : [];
+
+  return {
+    formatName: data?.format?.format_name ?? '',
+    durationSec: parseNumber(data?.format?.duration),
+    sizeBytes: parseNumber(data?.format?.size),
+    bitRate: parseNumber(data?.format?.bit_rate),
+    video: streams
+      .filter(stream => stream.codec_type === 'video')
+      .map(stream => ({
+        index: stream.index,
+        codec: stream.codec_name ?? '',
+        width: parseInt(stream.width, 10) || 0,
+        height: parseInt(stream.height, 10) || 0,
+        frameRate: parseFrameRate(stream.avg_frame_rate) ?? parseFrameRate(stream.r_frame_rate),
+        pixelFormat: stream.pix_fmt ?? null,
+        durationSec: parseNumber(stream.duration),
+      })),
+    audio: streams
+      .filter(stream => stream.codec_type === 'audio')
+      .map(stream => ({
+        index: stream.index,
+        codec: stream.codec_name ?? '',
+        sampleRate: parseNumber(stream.sample_rate),
+        channels: parseNumber(stream.channels),
+        durationSec: parseNumber(stream.duration),
+      })),
+  };
+}
+
+// ffprobe reports frame rates as fractions ("30000/1001"); "0/0" means unknown.
+export function parseFrameRate(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d+(?:\.\d+)?)(?:\/(\d+(?:\.\d+)?))?$/);
+  if (!match) return null;
+  const numerator = parseFloat(match[1]);
+  const denominator = match[2] === undefined ? 1 : parseFloat(match[2]);
+  if (!denominator || !numerator) return null;
+  return numerator / denominator;
+}
+
+/**
+ * Writes a list for ffmpeg's concat demuxer (`-f concat -safe 0 -i <list>`).
+ * Single quotes in paths are escaped the way the demuxer expects.
+ */
+export async function writeConcatList(listPath: string, absolutePaths: string[]): Promise<void> {
+  const content = absolutePaths.map(filePath => `file '${filePath.replace(/'/g, `'\\''`)}'`).join('\n');
+  await fs.writeFile(listPath, content);
+}
+
+function parseNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === 'N/A') return null;
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(number) ? null : number;
+}
+
+function runMediaTool(tool: MediaTool, args: string[], options: MediaRunOptions): Promise<MediaRunResult> {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new MediaToolError(`${tool} was cancelled`, tool, 'cancelled'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(tool, args, { stdio: ['ignore', 'pipe', 'pipe'], cwd: options.cwd });
+    const stdoutChunks: Buffer[] = [];
+    // Progress lines can be split across chunks; the unfinished tail waits for the next one
+    let progressLine = '';
+    let stderr = '';
+    let durationSec = options.durationSec ?? null;
+
+    const onAbort = () => child.kill('SIGTERM');
+    signal?.addEventListener('abort', onAbort);
+
+    child.stdout.on('data', (data: Buffer) => {
+      if (!onProgress) {
+        stdoutChunks.push(data);
+        return;
+      }
+      const text = progressLine + data.toString();
+      const lastNewline = text.lastIndexOf('\n');
+      progressLine = text.slice(lastNewline + 1);
+      if (lastNewline === -1) return;
+      const position = parseFfmpegProgress(text.slice(0, lastNewline));
+      if (position !== null && durationSec) {
+        onProgress(Math.min(1, position / durationSec));
+      }
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-STDERR_TAIL_BYTES);
+      if (onProgress && durationSec === null) {
+        durationSec = parseFfmpegDuration(stderr);
+      }
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(error.code === 'ENOENT'
+        ? new MediaToolError(`${tool} is not installed or not on the PATH`, tool, 'not_installed')
+        : new MediaToolError(`Failed to start ${tool}: ${error.message}`, tool, 'failed'));
+    });
+    child.on('close', code => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        reject(new MediaToolError(`${tool} was cancelled`, tool, 'cancelled', code, stderr));
+      } else if (code === 0) {
+        resolve({ stdout: Buffer.concat(stdoutChunks), stderr });
+      } else {
+        reject(new MediaToolError(`${tool} exited with code ${code}: ${stderr.slice(-500).trim()}`, tool, 'failed', code, stderr));
+      }
+    });
+  });
+}
@@ -0,0 +1,31 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { isPublicMediaPath } from '@/lib/public-media';
+
+/**
+ * Copies a media file under public/ into public/<folder>/<folderName>/ and returns its
+ * new public path. Used when publishing, because the generation folders are cleared when
+ * the dialogs close and published media has to stay.
+ *
+ * Throws for a path that is not public media (see isPublicMediaPath); callers validate
+ * their paths first. Any other failure falls back to the original path, since the file
+ * may still be there.
+ */
+export async function copyPublicMediaFile(publicPath: string, folder: string, folderName: string, fileName: string): Promise<string> {
+  const publicDir = path.join(process.cwd(), 'public');
+  const sourcePath = path.resolve(publicDir, `.${publicPath}`);
+  if (!isPublicMediaPath(publicPath) || !sourcePath.startsWith(publicDir + path.sep)) {
+    throw new Error(`Refusing to copy ${publicPath}: not a public media file.`);
+  }
+  const safeFileName = fileName.replace(/[^\w.-]/g, '_').replace(/^\./, '_');
+
+  try {
+    const targetDir = path.join(publicDir, folder, folderName);
+    await fs.mkdir(targetDir, { recursive: true });
+    await fs.copyFile(sourcePath, path.join(targetDir, safeFileName));
+    return `/${folder}/${folderName}/${safeFileName}`;
+  } catch (error) {
+    console.warn(`Could not copy ${publicPath} into ${folder}:`, error);
+    return publicPath;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Which public paths may be handed to the server as media.
+ *
+ * Publishing copies the media a page or display announcement refers to, and the paths
+ * come from the browser. A path is only accepted when it names an audio, video or
+ * caption file in one of the folders the app writes media to, and has no `.` or `..`
+ * segments, so it cannot lead outside public/ (to database.db, config/ or .env).
+ */
+
+// Top-level folders of public/ that hold generated or uploaded media.
+export const PUBLIC_MEDIA_FOLDERS = [
+  'audio',
+  'isl_video',
+  'isl_dataset',
+  'isl_dataset_female',
+  'text_to_isl',
+  'general_announcements',
+  'saved_announcements',
+  'podcasts',
+  'temp-videos',
+  'kiosk_announcements',
+  'published_pages',
+];
+
+const MEDIA_EXTENSIONS = ['.mp4', '.webm', '.mov', '.wav', '.mp3', '.ogg', '.opus', '.m4a', '.aac', '.vtt'];
+
+export function isPublicMediaPath(publicPath: string): boolean {
+  if (typeof publicPath !== 'string' || !publicPath.startsWith('/') || /[\\\0]/.test(publicPath)) {
+    return false;
+  }
+  const segments = publicPath.slice(1).split('/');
+  if (segments.length < 2 || segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+    return false;
+  }
+  const fileName = segments[segments.length - 1].toLowerCase();
+  return PUBLIC_MEDIA_FOLDERS.includes(segments[0]) && MEDIA_EXTENSIONS.some(extension => fileName.endsWith(extension));
+}
+
+// The first of `paths` that is not an acceptable media path, ignoring empty ones.
+export function findInvalidMediaPath(paths: (string | null | undefined)[]): string | null {
+  return paths.find(publicPath => publicPath && !isPublicMediaPath(publicPath)) ?? null;
+}
@@ -0,0 +1,402 @@
+/**
+ * The published ISL page: a full-screen video with a multilingual ticker, the
+ * announcement audio, captions and the sign-word overlay.
+ *
+ * Pages are stored as PublishedPageData (the published_pages table) and rendered on
+ * request by /published/<id>, so every publisher produces the same page and a change
+ * of theme applies to pages that are already out. The same data is served as JSON by
+ * /api/published/<id>. The look comes from the publishedPage section of
+ * config/server.json; viewers can also ask for high contrast, larger text or another
+ * ticker layout in the URL (?contrast=high&scale=1.5&ticker=stacked&position=top).
+ */
+
+import type { PlayoutCueSheet } from '@/lib/audio-assembly';
+import type { GlossTrack } from '@/lib/isl-gloss-track';
+import { findInvalidMediaPath } from '@/lib/public-media';
+import { SUBTITLE_LANGUAGE_NAMES } from '@/lib/subtitles';
+
+// Bumped when a field changes meaning; stored pages keep the version they were written with.
+export const PUBLISHED_PAGE_VERSION = 1;
+
+export type PublishedPageKind = 'announcement' | 'podcast';
+
+export type PublishedPageData = {
+  version: number;
+  kind: PublishedPageKind;
+  title: string;
+  // Line shown above the video, or null for none.
+  heading: string | null;
+  video_path: string | null;
+  // Ticker text by language, in the order the languages are shown.
+  texts: { language_code: string; text: string }[];
+  // Played in order, each after the intro chime, and then from the start again.
+  // Unused when there is a playout file.
+  audio: { language_code: string | null; audio_path: string }[];
+  intro_audio_path: string | null;
+  playout: PlayoutCueSheet | null;
+  // WebVTT file per language.
+  subtitle_tracks: { [languageCode: string]: string };
+  gloss_track: GlossTrack | null;
+  playback_speed: number;
+};
+
+// cycle: one language at a time; scroll: every language in one moving line;
+// stacked: every language on its own line.
+export type TickerLayout = 'cycle' | 'scroll' | 'stacked';
+
+export const TICKER_LAYOUTS: TickerLayout[] = ['cycle', 'scroll', 'stacked'];
+
+export interface PublishedPageTheme {
+  // Shown in a bar across the top with the logo; null and null hide the bar.
+  brandName: string | null;
+  logoPath: string | null;
+  accentColor: string;
+  backgroundColor: string;
+  textColor: string;
+  tickerBackground: string;
+  tickerLayout: TickerLayout;
+  tickerPosition: 'top' | 'bottom';
+  // How long each language stays up in the cycle layout when there is no audio to follow.
+  tickerIntervalSec: number;
+  // Multiplies every font size on the page.
+  fontScale: number;
+  highContrast: boolean;
+}
+
+export const DEFAULT_PUBLISHED_PAGE_THEME: PublishedPageTheme = {
+  brandName: 'Western Railway',
+  logoPath: '/logo.png',
+  accentColor: '#2563eb',
+  backgroundColor: '#000000',
+  textColor: '#ffffff',
+  tickerBackground: '#1a1a1a',
+  tickerLayout: 'cycle',
+  tickerPosition: 'bottom',
+  tickerIntervalSec: 8,
+  fontScale: 1,
+  highContrast: false,
+};
+
+const MIN_FONT_SCALE = 0.5;
+const MAX_FONT_SCALE = 3;
+// Ticker lines longer than this are set smaller so they still fit.
+const LONG_TEXT_CHARS = 80;
+
+export function createPublishedPageData(
+  fields: Partial<PublishedPageData> & Pick<PublishedPageData, 'title'>
+): PublishedPageData {
+  return {
+    version: PUBLISHED_PAGE_VERSION,
+    kind: 'announcement',
+    heading: null,
+    video_path: null,
+    texts: [],
+    audio: [],
+    intro_audio_path: null,
+    playout: null,
+    subtitle_tracks: {},
+    gloss_track: null,
+    playback_speed: 1,
+    ...fields,
+  };
+}
+
+// Ticker texts from a language-to-text map, skipping empty languages.
+export function toPublishedTexts(texts: { [languageCode: string]: string | null | undefined }): PublishedPageData['texts'] {
+  return Object.entries(texts)
+    .filter((entry): entry is [string, string] => !!entry[1] && entry[1].trim() !== '')
+    .map(([language_code, text]) => ({ language_code, text }));
+}
+
+export function validatePublishedPageData(data: PublishedPageData): string | null {
+  if (data.version !== PUBLISHED_PAGE_VERSION) {
+    return `Unsupported page version ${data.version}.`;
+  }
+  if (!data.title || !data.title.trim()) {
+    return 'A page title is required.';
+  }
+  if (!data.video_path && data.texts.length === 0) {
+    return 'A page needs a video or some text to show.';
+  }
+  if (!(data.playback_speed > 0)) {
+    return 'Playback speed must be greater than zero.';
+  }
+  const invalidPath = findInvalidMediaPath([
+    data.video_path,
+    data.intro_audio_path,
+    data.playout?.audio_path,
+    data.gloss_track?.vtt,
+    ...data.audio.map(item => item.audio_path),
+    ...Object.values(data.subtitle_tracks),
+  ]);
+  if (invalidPath) {
+    return `${invalidPath} is not a media file the page can use.`;
+  }
+  return null;
+}
+
+// Applies the viewer's ?contrast=, ?scale=, ?ticker= and ?position= choices to the theme.
+export function applyPublishedPageOptions(theme: PublishedPageTheme, params: URLSearchParams): PublishedPageTheme {
+  const result = { ...theme };
+  const contrast = params.get('contrast');
+  if (contrast === 'high') result.highContrast = true;
+  else if (contrast === 'normal') result.highContrast = false;
+
+  const scale = parseFloat(params.get('scale') ?? '');
+  if (!isNaN(scale)) result.fontScale = scale;
+
+  const ticker = params.get('ticker') as TickerLayout | null;
+  if (ticker && TICKER_LAYOUTS.includes(ticker)) result.tickerLayout = ticker;
+
+  const position = params.get('position');
+  if (position === 'top' || position === 'bottom') result.tickerPosition = position;
+  return result;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// JSON that is safe inside a <script> element.
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function clampFontScale(scale: number): number {
+  return Math.min(MAX_FONT_SCALE, Math.max(MIN_FONT_SCALE, scale || 1));
+}
+
+export function renderPublishedPage(data: PublishedPageData, theme: PublishedPageTheme): string {
+  const fontScale = clampFontScale(theme.fontScale);
+  const hasBrand = !!(theme.brandName || theme.logoPath);
+  const hasTicker = data.texts.length > 0;
+  const hasAudio = !!data.playout || data.audio.length > 0;
+
+  // Captions per language, plus the sign words as their own track
+  const tracks = Object.entries(data.subtitle_tracks)
+    .filter(([, trackPath]) => trackPath)
+    .map(([lang, trackPath]) => ({ lang, label: SUBTITLE_LANGUAGE_NAMES[lang] || lang.toUpperCase(), src: trackPath }));
+  if (data.gloss_track?.vtt) {
+    tracks.push({ lang: 'en', label: 'ISL signs', src: data.gloss_track.vtt });
+  }
+  const trackHtml = tracks
+    .map(track => `<track kind="subtitles" srclang="${escapeHtml(track.lang)}" label="${escapeHtml(track.label)}" src="${escapeHtml(track.src)}">`)
+    .join('');
+
+  const tickerItemsHtml = data.texts
+    .map((item, index) => {
+      const classes = ['ticker-item', index === 0 ? 'active' : '', item.text.length > LONG_TEXT_CHARS ? 'long' : ''].filter(Boolean).join(' ');
+      return `<span class="${classes}" lang="${escapeHtml(item.language_code)}" data-lang="${escapeHtml(item.language_code)}">${escapeHtml(item.text)}</span>`;
+    })
+    .join('');
+  // The scrolling line takes longer the more there is to read
+  const scrollSeconds = Math.max(15, data.texts.reduce((sum, item) => sum + item.text.length, 0) / 12);
+
+  const bodyClasses = [
+    `ticker-${theme.tickerLayout}`,
+    `ticker-${theme.tickerPosition}`,
+    theme.highContrast ? 'high-contrast' : '',
+  ].filter(Boolean).join(' ');
+
+  const options = {
+    tickerLayout: theme.tickerLayout,
+    tickerIntervalSec: theme.tickerIntervalSec,
+    fontScale,
+    minFontScale: MIN_FONT_SCALE,
+    maxFontScale: MAX_FONT_SCALE,
+  };
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(data.title)}</title>
+    <style>
+        :root { --bg: ${theme.backgroundColor}; --fg: ${theme.textColor}; --accent: ${theme.accentColor}; --ticker-bg: ${theme.tickerBackground}; --font-scale: ${fontScale}; }
+        body.high-contrast { --bg: #000000; --fg: #ffffff; --accent: #ffff00; --ticker-bg: #000000; }
+        * { box-sizing: border-box; }
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; margin: 0; background-color: var(--bg); color: var(--fg); display: flex; flex-direction: column; height: 100vh; overflow: hidden; font-size: calc(16px * var(--font-scale)); }
+        .brand-bar { order: -2; display: flex; align-items: center; gap: 0.75em; padding: 0.5em 1.25em; border-bottom: 3px solid var(--accent); font-size: 1.4em; font-weight: 700; }
+        .brand-bar img { height: 1.8em; width: auto; }
+        .main-content { flex-grow: 1; min-height: 0; display: flex; flex-direction: column; justify-content: center; align-items: center; padding: 1.25em; }
+        .info-header { text-align: center; margin-bottom: 1.25em; padding: 0.6em 1.5em; border-radius: 12px; background-color: rgba(255, 255, 255, 0.1); font-size: 1.6em; letter-spacing: 1px; }
+        .video-container { position: relative; width: 80%; max-width: 960px; aspect-ratio: 16 / 9; background-color: #111; overflow: hidden; box-shadow: 0 10px 30px rgba(0, 0, 0, 0.5); }
+        video { width: 100%; height: 100%; object-fit: contain; }
+        .gloss-overlay { position: absolute; top: 16px; left: 50%; transform: translateX(-50%); padding: 0.25em 0.6em; border-radius: 8px; background-color: rgba(0, 0, 0, 0.7); font-size: 2em; font-weight: 600; text-align: center; line-height: 1.3; pointer-events: none; }
+        .gloss-overlay:empty { display: none; }
+        .gloss-overlay .gloss-translation { display: block; font-size: 0.7em; font-weight: 400; opacity: 0.85; }
+        .ticker-wrap { background-color: var(--ticker-bg); padding: 1.25em; overflow: hidden; min-height: 5em; display: flex; justify-content: center; align-items: center; }
+        body.ticker-top .ticker-wrap { order: -1; }
+        .ticker { line-height: 1.4; text-align: center; width: 100%; }
+        .ticker-item { font-size: 2.8em; }
+        .ticker-item.long { font-size: 1.9em; }
+        body.ticker-cycle .ticker-item { display: none; }
+        body.ticker-cycle .ticker-item.active { display: inline; }
+        body.ticker-stacked .ticker { display: flex; flex-direction: column; gap: 0.25em; }
+        body.ticker-stacked .ticker-item { font-size: 1.6em; opacity: 0.6; }
+        body.ticker-stacked .ticker-item.active { opacity: 1; color: var(--accent); }
+        body.ticker-scroll .ticker { white-space: nowrap; text-align: left; display: inline-block; width: auto; padding-left: 100%; animation: ticker-scroll ${scrollSeconds.toFixed(0)}s linear infinite; }
+        body.ticker-scroll .ticker-wrap { justify-content: flex-start; }
+        body.ticker-scroll .ticker-item { margin-right: 3em; }
+        body.ticker-scroll .ticker-item.active { color: var(--accent); }
+        @keyframes ticker-scroll { from { transform: translateX(0); } to { transform: translateX(-100%); } }
+        body.high-contrast .ticker-wrap { border-top: 4px solid var(--accent); }
+        body.high-contrast .ticker-item, body.high-contrast .info-header, body.high-contrast .gloss-overlay { font-weight: 700; }
+        body.high-contrast .ticker-item.active { color: var(--accent); }
+        @media (prefers-reduced-motion: reduce) { body.ticker-scroll .ticker { animation: none; padding-left: 0; white-space: normal; } }
+    </style>
+</head>
+<body class="${bodyClasses}">
+    ${hasBrand ? `<div class="brand-bar">${theme.logoPath ? `<img src="${escapeHtml(theme.logoPath)}" alt="">` : ''}${theme.brandName ? `<span>${escapeHtml(theme.brandName)}</span>` : ''}</div>` : ''}
+    <div class="main-content">
+        ${data.heading ? `<div class="info-header">${escapeHtml(data.heading)}</div>` : ''}
+        ${data.video_path ? `<div class="video-container">
+            <video id="isl-video" src="${escapeHtml(data.video_path)}" muted playsinline loop${tracks.length > 0 ? ' controls' : ''}>${trackHtml}</video>
+            ${data.gloss_track ? '<div id="gloss-overlay" class="gloss-overlay"></div>' : ''}
+        </div>` : ''}
+    </div>
+    ${hasTicker ? `<div class="ticker-wrap"><div id="ticker" class="ticker">${tickerItemsHtml}</div></div>` : ''}
+    ${hasAudio ? '<audio id="announcement-audio"></audio><audio id="intro-audio" preload="auto"></audio>' : ''}
+    <script id="page-data" type="application/json">${toScriptJson(data)}</script>
+    <script id="page-options" type="application/json">${toScriptJson(options)}</script>
+    <script>${PAGE_SCRIPT}</script>
+</body>
+</html>`;
+}
+
+// Plays the page. Kept free of template placeholders: everything it needs is read from
+// the two JSON blocks above it.
+const PAGE_SCRIPT = `
+(function () {
+    var data = JSON.parse(document.getElementById('page-data').textContent);
+    var options = JSON.parse(document.getElementById('page-options').textContent);
+    var video = document.getElementById('isl-video');
+    var items = Array.prototype.slice.call(document.querySelectorAll('.ticker-item'));
+    var activeIndex = 0;
+    var tickerTimer = null;
+
+    function showTickerItem(index) {
+        if (items.length === 0) return;
+        activeIndex = index % items.length;
+        items.forEach(function (item, i) { item.classList.toggle('active', i === activeIndex); });
+    }
+
+    function showTickerLanguage(languageCode) {
+        for (var i = 0; i < items.length; i++) {
+            if (items[i].dataset.lang === languageCode) return showTickerItem(i);
+        }
+    }
+
+    // Without audio to follow, the cycle layout moves on by itself
+    function startTickerTimer() {
+        if (tickerTimer || options.tickerLayout !== 'cycle' || items.length < 2) return;
+        tickerTimer = setInterval(function () { showTickerItem(activeIndex + 1); }, options.tickerIntervalSec * 1000);
+    }
+
+    if (video) {
+        video.playbackRate = data.playback_speed;
+        video.addEventListener('loadedmetadata', function () { video.playbackRate = data.playback_speed; });
+        video.addEventListener('canplay', function () {
+            video.play().catch(function (e) { console.error('Video play error:', e); });
+        }, { once: true });
+    }
+
+    // Sign-word overlay: the cue for the video's current time
+    var glossOverlay = document.getElementById('gloss-overlay');
+    var glossCues = data.gloss_track ? data.gloss_track.cues : [];
+    if (video && glossOverlay) {
+        var activeGlossCue = null;
+        video.addEventListener('timeupdate', function () {
+            var time = video.currentTime;
+            var cue = glossCues.find(function (c) { return time >= c.start && time < c.end; }) || null;
+            if (cue === activeGlossCue) return;
+            activeGlossCue = cue;
+            glossOverlay.textContent = '';
+            if (!cue) return;
+            glossOverlay.append(cue.gloss);
+            if (cue.translation) {
+                var translation = document.createElement('span');
+                translation.className = 'gloss-translation';
+                translation.textContent = cue.translation;
+                glossOverlay.append(translation);
+            }
+        });
+    }
+
+    var audio = document.getElementById('announcement-audio');
+    var intro = document.getElementById('intro-audio');
+    var playlist = data.playout ? [{ language_code: null, audio_path: data.playout.audio_path }] : data.audio;
+    var audioIndex = 0;
+
+    function playAudio(element) {
+        return element.play().catch(function (e) {
+            // Browsers block sound until the page is interacted with; start on the first click or key
+            console.warn('Audio is waiting for a click:', e);
+            var resume = function () { element.play().catch(function () {}); };
+            document.addEventListener('click', resume, { once: true });
+            document.addEventListener('keydown', resume, { once: true });
+        });
+    }
+
+    function playNextAudio() {
+        if (audioIndex >= playlist.length) {
+            audioIndex = 0;
+            setTimeout(playNextAudio, 1000);
+            return;
+        }
+        var item = playlist[audioIndex++];
+        if (item.language_code) showTickerLanguage(item.language_code);
+        var playItem = function () {
+            audio.src = item.audio_path;
+            playAudio(audio);
+        };
+        if (intro && data.intro_audio_path) {
+            intro.src = data.intro_audio_path;
+            intro.onended = playItem;
+            intro.onerror = playItem;
+            playAudio(intro);
+        } else {
+            playItem();
+        }
+    }
+
+    if (audio && playlist.length > 0) {
+        audio.addEventListener('ended', playNextAudio);
+        audio.addEventListener('error', playNextAudio);
+        // A playout file's cue sheet says which language is being spoken
+        if (data.playout) {
+            audio.addEventListener('timeupdate', function () {
+                var time = audio.currentTime;
+                var cue = data.playout.cues.find(function (c) { return time >= c.start && time < c.end; });
+                if (cue) showTickerLanguage(cue.language_code);
+            });
+        }
+        window.addEventListener('load', playNextAudio, { once: true });
+    } else {
+        startTickerTimer();
+    }
+
+    // 1-6: video speed; g: sign words; c: high contrast; + and -: text size
+    var speeds = { '1': 0.5, '2': 0.75, '3': 1.0, '4': 1.25, '5': 1.5, '6': 2.0 };
+    var fontScale = options.fontScale;
+    document.addEventListener('keydown', function (e) {
+        if (speeds[e.key] && video) {
+            video.playbackRate = speeds[e.key];
+        } else if (e.key === 'g' && glossOverlay) {
+            glossOverlay.hidden = !glossOverlay.hidden;
+        } else if (e.key === 'c') {
+            document.body.classList.toggle('high-contrast');
+        } else if (e.key === '+' || e.key === '=' || e.key === '-') {
+            var step = e.key === '-' ? -0.1 : 0.1;
+            fontScale = Math.min(options.maxFontScale, Math.max(options.minFontScale, fontScale + step));
+            document.documentElement.style.setProperty('--font-scale', fontScale.toFixed(2));
+        }
+    });
+})();
+`;
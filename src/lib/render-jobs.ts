@@ -0,0 +1,83 @@
+/**
+ * Shared shape of the background render job queue (ffmpeg stitching and merging).
+ *
+ * Jobs are rows in the render_jobs table; the queue itself runs on the server
+ * (src/lib/job-queue.ts) and pages follow a job by polling /api/render-jobs/<id>.
+ */
+
+import type { GlossTrack } from '@/lib/isl-gloss-track';
+import type { IslTiming } from '@/lib/isl-timing';
+import type { SubtitleFiles } from '@/lib/subtitles';
+
+export type RenderJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type RenderJobType = 'stitch_videos' | 'stitch_uploaded_videos' | 'merge_audio_video' | 'isl_gloss_video';
+
+export type RenderJob<TResult = any> = {
+  id: number;
+  type: RenderJobType;
+  status: RenderJobStatus;
+  // 0-100, or null while ffmpeg has not reported a position yet.
+  progress: number | null;
+  message: string | null;
+  payload: any;
+  result: TResult | null;
+  error: string | null;
+  attempts: number;
+  max_attempts: number;
+  cancel_requested: boolean;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+// Extra input for an isl_gloss_video job rendering a dashboard announcement: the video gets the
+// category's chimes, is timed to the spoken audio and gets captions for each language.
+export type AnnouncementIslVideoOptions = {
+  introChimePath: string | null;
+  outroChimePath: string | null;
+  // Spoken body length in seconds per language code.
+  audioDurations: { [languageCode: string]: number | null };
+  announcements: { language_code: string; text: string; body_duration?: number }[];
+};
+
+export type AnnouncementIslVideoResult = {
+  playlist: string[];
+  timing: IslTiming | null;
+  glossTrack: GlossTrack | null;
+  subtitles: { [languageCode: string]: SubtitleFiles };
+};
+
+export const RENDER_JOB_TYPE_LABELS: { [type in RenderJobType]: string } = {
+  stitch_videos: 'Stitch ISL videos',
+  stitch_uploaded_videos: 'Stitch uploaded videos',
+  merge_audio_video: 'Merge audio with video',
+  isl_gloss_video: 'ISL announcement video',
+};
+
+export function isTerminalJobStatus(status: RenderJobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Reads the position out of `ffmpeg -progress` key=value output. Returns the last
+ * reported position in seconds, or null if the chunk carries none.
+ */
+export function parseFfmpegProgress(chunk: string): number | null {
+  let seconds: number | null = null;
+  for (const line of chunk.split('\n')) {
+    // out_time_us and out_time_ms are both microseconds in ffmpeg's progress output.
+    const match = line.match(/^out_time_(?:us|ms)=(\d+)/);
+    if (match) {
+      seconds = parseInt(match[1], 10) / 1_000_000;
+    }
+  }
+  return seconds;
+}
+
+// Input duration from ffmpeg's stderr banner ("Duration: 00:01:23.45"), for commands with no known length.
+export function parseFfmpegDuration(stderr: string): number | null {
+  const match = stderr.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { computeFireTime, getQueueFireTimes, getQueueItemStatus, shiftServiceDate } from './schedule-utils';
+
+describe('getQueueItemStatus', () => {
+    const fireAt = new Date(2026, 0, 15, 10, 0);
+    const minutesAfter = (minutes: number) => new Date(fireAt.getTime() + minutes * 60000);
+
+    it('works out unlogged items from the clock', () => {
+        expect(getQueueItemStatus(fireAt, minutesAfter(-1))).toBe('pending');
+        expect(getQueueItemStatus(fireAt, minutesAfter(0))).toBe('due');
+        expect(getQueueItemStatus(fireAt, minutesAfter(2))).toBe('due');
+        expect(getQueueItemStatus(fireAt, minutesAfter(3))).toBe('missed');
+    });
+
+    it('reports the logged status, including items still being generated or waiting to play', () => {
+        expect(getQueueItemStatus(fireAt, minutesAfter(1), 'generating')).toBe('generating');
+        expect(getQueueItemStatus(fireAt, minutesAfter(30), 'ready')).toBe('ready');
+        expect(getQueueItemStatus(fireAt, minutesAfter(1), 'played')).toBe('played');
+        expect(getQueueItemStatus(fireAt, minutesAfter(-5), 'skipped')).toBe('skipped');
+        expect(getQueueItemStatus(fireAt, minutesAfter(1), 'missed')).toBe('missed');
+    });
+});
+
+describe('computeFireTime', () => {
+    it('fires before the reference time for a positive offset and after it for a negative one', () => {
+        expect(computeFireTime('10:00', 5, '2026-01-15')).toEqual(new Date(2026, 0, 15, 9, 55));
+        expect(computeFireTime('10:00', -5, '2026-01-15')).toEqual(new Date(2026, 0, 15, 10, 5));
+        expect(computeFireTime(null, 5, '2026-01-15')).toBeNull();
+    });
+});
+
+describe('getQueueFireTimes', () => {
+    it('announces a train just after midnight on the evening before', () => {
+        // 00:05 arrival announced 10 minutes early fires at 23:55, under the next day's service date
+        const fireTimes = getQueueFireTimes('00:05', 10, new Date(2026, 0, 15, 23, 50));
+        expect(fireTimes).toEqual([{ serviceDate: '2026-01-16', fireAt: new Date(2026, 0, 15, 23, 55) }]);
+        expect(getQueueItemStatus(fireTimes[0].fireAt, new Date(2026, 0, 15, 23, 50))).toBe('pending');
+    });
+
+    it('does not queue a time that already passed on the previous evening', () => {
+        expect(getQueueFireTimes('00:05', 10, new Date(2026, 0, 16, 0, 10))).toEqual([
+            { serviceDate: '2026-01-17', fireAt: new Date(2026, 0, 16, 23, 55) },
+        ]);
+    });
+
+    it('keeps an item due just before midnight in the queue after the date changes', () => {
+        expect(getQueueFireTimes('23:59', 0, new Date(2026, 0, 16, 0, 0))).toEqual([
+            { serviceDate: '2026-01-15', fireAt: new Date(2026, 0, 15, 23, 59) },
+            { serviceDate: '2026-01-16', fireAt: new Date(2026, 0, 16, 23, 59) },
+        ]);
+    });
+
+    it('keeps a daytime rule on its own service date', () => {
+        expect(getQueueFireTimes('10:00', 5, new Date(2026, 0, 15, 8, 0))).toEqual([
+            { serviceDate: '2026-01-15', fireAt: new Date(2026, 0, 15, 9, 55) },
+        ]);
+    });
+});
+
+describe('shiftServiceDate', () => {
+    it('crosses month and year boundaries', () => {
+        expect(shiftServiceDate('2026-01-31', 1)).toBe('2026-02-01');
+        expect(shiftServiceDate('2026-01-01', -1)).toBe('2025-12-31');
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Timetable helpers for the automatic announcement scheduler.
+ * Times are stored as "HH:MM" strings in station local time.
+ */
+
+export type ScheduleReference = 'arrival' | 'departure';
+
+// 'generating' and 'ready' come from the log: the server is generating the item, or has
+// generated it and is waiting for a scheduler console to play it.
+export type QueueItemStatus = 'pending' | 'due' | 'generating' | 'ready' | 'played' | 'skipped' | 'failed' | 'missed';
+
+// How long after its fire time an item is still considered due.
+// Anything older is reported as missed instead of being played late.
+export const DUE_GRACE_MINUTES = 2;
+
+// A 'generating' log row older than this was interrupted (e.g. by a restart) and is marked failed.
+export const GENERATING_TIMEOUT_MINUTES = 10;
+
+// A generated announcement no console has taken this long after its fire time is marked missed.
+export const READY_EXPIRY_MINUTES = 10;
+
+const LOGGED_QUEUE_STATUSES: QueueItemStatus[] = ['generating', 'ready', 'played', 'skipped', 'failed', 'missed'];
+
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+    if (!value) return null;
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+}
+
+export function formatTimeOfDay(totalMinutes: number): string {
+    const normalized = ((totalMinutes % 1440) + 1440) % 1440;
+    const hours = Math.floor(normalized / 60);
+    const minutes = normalized % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Returns the local date string (YYYY-MM-DD) used to key the scheduler log per day.
+export function getServiceDate(date: Date = new Date()): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+// Computes the fire time for a rule, as a Date on the given service day.
+// A positive offset fires before the reference time, a negative one after it.
+export function computeFireTime(
+    referenceTime: string | null | undefined,
+    offsetMinutes: number,
+    serviceDate: string
+): Date | null {
+    const referenceMinutes = parseTimeOfDay(referenceTime);
+    if (referenceMinutes === null) return null;
+
+    const [year, month, day] = serviceDate.split('-').map(Number);
+    const fireAt = new Date(year, month - 1, day, 0, 0, 0, 0);
+    fireAt.setMinutes(referenceMinutes - offsetMinutes);
+    return fireAt;
+}
+
+export function shiftServiceDate(serviceDate: string, days: number): string {
+    const [year, month, day] = serviceDate.split('-').map(Number);
+    return getServiceDate(new Date(year, month - 1, day + days));
+}
+
+// Fire times of a rule that belong in the queue at `now`: those falling on today's date,
+// plus any still within the due grace period from before midnight. A rule is keyed by the
+// service date of its train, so a 00:05 train announced ten minutes early fires at 23:55 on
+// the previous day, under the next day's service date.
+export function getQueueFireTimes(
+    referenceTime: string | null | undefined,
+    offsetMinutes: number,
+    now: Date
+): { serviceDate: string; fireAt: Date }[] {
+    const today = getServiceDate(now);
+    const fireTimes: { serviceDate: string; fireAt: Date }[] = [];
+    for (const days of [-1, 0, 1]) {
+        const serviceDate = shiftServiceDate(today, days);
+        const fireAt = computeFireTime(referenceTime, offsetMinutes, serviceDate);
+        if (!fireAt) continue;
+        const minutesSinceFire = (now.getTime() - fireAt.getTime()) / 60000;
+        if (getServiceDate(fireAt) === today || (minutesSinceFire >= 0 && minutesSinceFire <= DUE_GRACE_MINUTES)) {
+            fireTimes.push({ serviceDate, fireAt });
+        }
+    }
+    return fireTimes;
+}
+
+export function getQueueItemStatus(fireAt: Date, now: Date, loggedStatus?: string | null): QueueItemStatus {
+    if (loggedStatus && LOGGED_QUEUE_STATUSES.includes(loggedStatus as QueueItemStatus)) {
+        return loggedStatus as QueueItemStatus;
+    }
+    const diffMinutes = (now.getTime() - fireAt.getTime()) / 60000;
+    if (diffMinutes < 0) return 'pending';
+    if (diffMinutes <= DUE_GRACE_MINUTES) return 'due';
+    return 'missed';
+}
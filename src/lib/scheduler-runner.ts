@@ -0,0 +1,45 @@
+/**
+ * Server-side trigger for the announcement scheduler.
+ *
+ * Started with the server (src/instrumentation.ts). Every tick generates whatever is due,
+ * so announcements are prepared on time whether or not a scheduler console is open; the
+ * console only plays what was generated (see takeReadyAnnouncements).
+ */
+
+import { generateDueAnnouncements } from '@/app/scheduler-actions';
+
+const TICK_INTERVAL_MS = 15000;
+
+// Kept on globalThis so a second import of this module does not start a second timer.
+type RunnerState = {
+  timer: ReturnType<typeof setInterval> | null;
+  // Generation can outlast a tick; the next tick is skipped rather than overlapping it.
+  ticking: boolean;
+};
+
+const globalForRunner = globalThis as unknown as { __announcementScheduler?: RunnerState };
+const state: RunnerState = globalForRunner.__announcementScheduler ?? (globalForRunner.__announcementScheduler = {
+  timer: null,
+  ticking: false,
+});
+
+export function startAnnouncementScheduler(): void {
+  if (state.timer) return;
+  state.timer = setInterval(tick, TICK_INTERVAL_MS);
+  tick();
+}
+
+async function tick(): Promise<void> {
+  if (state.ticking) return;
+  state.ticking = true;
+  try {
+    const generated = await generateDueAnnouncements();
+    if (generated > 0) {
+      console.log(`Scheduler generated ${generated} announcement(s)`);
+    }
+  } catch (error) {
+    console.error('Announcement scheduler tick failed:', error);
+  } finally {
+    state.ticking = false;
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+    formatDuration,
+    glossDuration,
+    glossTime,
+    verbalizeDigits,
+    verbalizeDuration,
+    verbalizeNumber,
+    verbalizeTime,
+} from './spoken-numbers';
+
+describe('verbalizeNumber', () => {
+    it('reads English cardinals around the digit boundaries', () => {
+        expect(verbalizeNumber(0, 'en')).toBe('zero');
+        expect(verbalizeNumber(9, 'en')).toBe('nine');
+        expect(verbalizeNumber(10, 'en')).toBe('ten');
+        expect(verbalizeNumber(21, 'en')).toBe('twenty-one');
+        expect(verbalizeNumber(99, 'en')).toBe('ninety-nine');
+        expect(verbalizeNumber(100, 'en')).toBe('one hundred');
+        expect(verbalizeNumber(105, 'en')).toBe('one hundred five');
+        expect(verbalizeNumber(2000, 'en')).toBe('two thousand');
+        expect(verbalizeNumber(9999, 'en')).toBe('nine thousand nine hundred ninety-nine');
+    });
+
+    it('reads Hindi cardinals', () => {
+        expect(verbalizeNumber(0, 'hi')).toBe('शून्य');
+        expect(verbalizeNumber(9, 'hi')).toBe('नौ');
+        expect(verbalizeNumber(10, 'hi')).toBe('दस');
+        expect(verbalizeNumber(99, 'hi')).toBe('निन्यानबे');
+        expect(verbalizeNumber(100, 'hi')).toBe('एक सौ');
+        expect(verbalizeNumber(1205, 'hi')).toBe('एक हज़ार दो सौ पांच');
+    });
+
+    it('reads Marathi cardinals with the fused hundreds', () => {
+        expect(verbalizeNumber(0, 'mr')).toBe('शून्य');
+        expect(verbalizeNumber(9, 'mr')).toBe('नऊ');
+        expect(verbalizeNumber(10, 'mr')).toBe('दहा');
+        expect(verbalizeNumber(99, 'mr')).toBe('नव्व्याण्णव');
+        expect(verbalizeNumber(100, 'mr')).toBe('शंभर');
+        expect(verbalizeNumber(101, 'mr')).toBe('एकशे एक');
+        expect(verbalizeNumber(250, 'mr')).toBe('दोनशे पन्नास');
+    });
+
+    it('reads Gujarati cardinals', () => {
+        expect(verbalizeNumber(0, 'gu')).toBe('શૂન્ય');
+        expect(verbalizeNumber(9, 'gu')).toBe('નવ');
+        expect(verbalizeNumber(10, 'gu')).toBe('દસ');
+        expect(verbalizeNumber(99, 'gu')).toBe('નવ્વાણું');
+        expect(verbalizeNumber(100, 'gu')).toBe('એક સો');
+        expect(verbalizeNumber(3001, 'gu')).toBe('ત્રણ હજાર એક');
+    });
+
+    it('falls back to digits above the cardinal range or for non-numbers', () => {
+        expect(verbalizeNumber(10000, 'en')).toBe('one zero zero zero zero');
+        expect(verbalizeNumber('2A', 'en')).toBe('two A');
+        expect(verbalizeDigits('12', 'hi')).toBe('एक दो');
+    });
+
+    it('treats unknown languages as English', () => {
+        expect(verbalizeNumber(12, 'ta')).toBe('twelve');
+    });
+});
+
+describe('verbalizeTime', () => {
+    it('uses railway 24-hour style in English', () => {
+        expect(verbalizeTime('00:00', 'en')).toBe('zero hundred hours');
+        expect(verbalizeTime('12:00', 'en')).toBe('twelve hundred hours');
+        expect(verbalizeTime('13:45', 'en')).toBe('thirteen forty-five hours');
+        expect(verbalizeTime('23:59', 'en')).toBe('twenty-three fifty-nine hours');
+        expect(verbalizeTime('9:05', 'en')).toBe('nine oh five hours');
+    });
+
+    it('supports the 12-hour clock in English', () => {
+        expect(verbalizeTime('00:00', 'en', '12h')).toBe('twelve a.m.');
+        expect(verbalizeTime('12:00', 'en', '12h')).toBe('twelve p.m.');
+        expect(verbalizeTime('13:45', 'en', '12h')).toBe('one forty-five p.m.');
+    });
+
+    it('uses the 12-hour clock with a time-of-day word in Hindi', () => {
+        expect(verbalizeTime('00:00', 'hi')).toBe('रात बारह बजे');
+        expect(verbalizeTime('12:00', 'hi')).toBe('दोपहर बारह बजे');
+        expect(verbalizeTime('13:45', 'hi')).toBe('दोपहर एक बजकर पैंतालीस मिनट');
+        expect(verbalizeTime('07:05', 'hi')).toBe('सुबह सात बजकर पांच मिनट');
+        expect(verbalizeTime('18:30', 'hi')).toBe('शाम छह बजकर तीस मिनट');
+    });
+
+    it('uses the 12-hour clock with a time-of-day word in Marathi', () => {
+        expect(verbalizeTime('00:00', 'mr')).toBe('रात्री बारा वाजता');
+        expect(verbalizeTime('12:00', 'mr')).toBe('दुपारी बारा वाजता');
+        expect(verbalizeTime('13:01', 'mr')).toBe('दुपारी एक वाजून एक मिनिट');
+        expect(verbalizeTime('21:15', 'mr')).toBe('रात्री नऊ वाजून पंधरा मिनिटे');
+    });
+
+    it('uses the 12-hour clock with a time-of-day word in Gujarati', () => {
+        expect(verbalizeTime('00:00', 'gu')).toBe('રાત્રે બાર વાગ્યે');
+        expect(verbalizeTime('12:00', 'gu')).toBe('બપોરે બાર વાગ્યે');
+        expect(verbalizeTime('08:20', 'gu')).toBe('સવારે આઠ વાગીને વીસ મિનિટે');
+    });
+
+    it('reads the hour as is in the regional 24-hour style', () => {
+        expect(verbalizeTime('13:45', 'hi', '24h')).toBe('तेरह बजकर पैंतालीस मिनट');
+        expect(verbalizeTime('00:00', 'mr', '24h')).toBe('शून्य वाजता');
+    });
+
+    it('returns invalid times unchanged', () => {
+        expect(verbalizeTime('24:00', 'en')).toBe('24:00');
+        expect(verbalizeTime('12:60', 'hi')).toBe('12:60');
+        expect(verbalizeTime('noon', 'en')).toBe('noon');
+    });
+});
+
+describe('verbalizeDuration', () => {
+    it('reads minutes and hours in English', () => {
+        expect(verbalizeDuration(0, 'en')).toBe('zero minutes');
+        expect(verbalizeDuration(1, 'en')).toBe('one minute');
+        expect(verbalizeDuration(35, 'en')).toBe('thirty-five minutes');
+        expect(verbalizeDuration(60, 'en')).toBe('one hour');
+        expect(verbalizeDuration('65', 'en')).toBe('one hour five minutes');
+        expect(verbalizeDuration(150, 'en')).toBe('two hours thirty minutes');
+    });
+
+    it('reads durations in Hindi, Marathi and Gujarati', () => {
+        expect(verbalizeDuration(0, 'hi')).toBe('शून्य मिनट');
+        expect(verbalizeDuration(65, 'hi')).toBe('एक घंटा पांच मिनट');
+        expect(verbalizeDuration(120, 'hi')).toBe('दो घंटे');
+        expect(verbalizeDuration(1, 'mr')).toBe('एक मिनिट');
+        expect(verbalizeDuration(75, 'mr')).toBe('एक तास पंधरा मिनिटे');
+        expect(verbalizeDuration(10, 'gu')).toBe('દસ મિનિટ');
+        expect(verbalizeDuration(90, 'gu')).toBe('એક કલાક ત્રીસ મિનિટ');
+    });
+
+    it('returns invalid durations unchanged', () => {
+        expect(verbalizeDuration('-5', 'en')).toBe('-5');
+        expect(verbalizeDuration('soon', 'hi')).toBe('soon');
+    });
+});
+
+describe('formatDuration', () => {
+    it('keeps the digits and adds the unit words', () => {
+        expect(formatDuration(0, 'en')).toBe('0 minutes');
+        expect(formatDuration(65, 'en')).toBe('1 hour 5 minutes');
+        expect(formatDuration(120, 'hi')).toBe('2 घंटे');
+        expect(formatDuration(1, 'mr')).toBe('1 मिनिट');
+        expect(formatDuration(90, 'gu')).toBe('1 કલાક 30 મિનિટ');
+    });
+});
+
+describe('ISL gloss', () => {
+    it('spells times and durations as digits', () => {
+        expect(glossTime('9:05')).toBe('0 9 0 5');
+        expect(glossTime('00:00')).toBe('0 0 0 0');
+        expect(glossDuration(65)).toBe('1 hour 5 minute');
+        expect(glossDuration(0)).toBe('0 minute');
+    });
+});
@@ -0,0 +1,243 @@
+/**
+ * Spoken renderings of numbers, clock times and durations for announcements.
+ *
+ * Covers en/hi/mr/gu. Cardinals go up to 9999; anything larger (or any value
+ * that is not a plain whole number) is read out digit by digit.
+ */
+
+export type SpokenLanguage = 'en' | 'hi' | 'mr' | 'gu';
+
+export type TimeStyle = '12h' | '24h';
+
+export const MAX_CARDINAL = 9999;
+
+// English announcements use railway 24-hour style, the regional ones use
+// the 12-hour clock with a time-of-day word as spoken on station PA systems.
+export const DEFAULT_TIME_STYLE: { [lang: string]: TimeStyle } = {
+    en: '24h',
+    hi: '12h',
+    mr: '12h',
+    gu: '12h',
+};
+
+const EN_ONES = [
+    'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+    'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+// Hindi, Marathi and Gujarati have an irregular word for every number below 100.
+const HI_0_99 = [
+    'शून्य', 'एक', 'दो', 'तीन', 'चार', 'पांच', 'छह', 'सात', 'आठ', 'नौ',
+    'दस', 'ग्यारह', 'बारह', 'तेरह', 'चौदह', 'पंद्रह', 'सोलह', 'सत्रह', 'अठारह', 'उन्नीस',
+    'बीस', 'इक्कीस', 'बाईस', 'तेईस', 'चौबीस', 'पच्चीस', 'छब्बीस', 'सत्ताईस', 'अट्ठाईस', 'उनतीस',
+    'तीस', 'इकतीस', 'बत्तीस', 'तैंतीस', 'चौंतीस', 'पैंतीस', 'छत्तीस', 'सैंतीस', 'अड़तीस', 'उनतालीस',
+    'चालीस', 'इकतालीस', 'बयालीस', 'तैंतालीस', 'चवालीस', 'पैंतालीस', 'छियालीस', 'सैंतालीस', 'अड़तालीस', 'उनचास',
+    'पचास', 'इक्यावन', 'बावन', 'तिरेपन', 'चौवन', 'पचपन', 'छप्पन', 'सत्तावन', 'अट्ठावन', 'उनसठ',
+    'साठ', 'इकसठ', 'बासठ', 'तिरेसठ', 'चौंसठ', 'पैंसठ', 'छियासठ', 'सड़सठ', 'अड़सठ', 'उनहत्तर',
+    'सत्तर', 'इकहत्तर', 'बहत्तर', 'तिहत्तर', 'चौहत्तर', 'पचहत्तर', 'छिहत्तर', 'सतहत्तर', 'अठहत्तर', 'उन्यासी',
+    'अस्सी', 'इक्यासी', 'बयासी', 'तिरासी', 'चौरासी', 'पचासी', 'छियासी', 'सत्तासी', 'अट्ठासी', 'नवासी',
+    'नब्बे', 'इक्यानबे', 'बानबे', 'तिरानबे', 'चौरानबे', 'पंचानबे', 'छियानबे', 'सत्तानबे', 'अट्ठानबे', 'निन्यानबे',
+];
+
+const MR_0_99 = [
+    'शून्य', 'एक', 'दोन', 'तीन', 'चार', 'पाच', 'सहा', 'सात', 'आठ', 'नऊ',
+    'दहा', 'अकरा', 'बारा', 'तेरा', 'चौदा', 'पंधरा', 'सोळा', 'सतरा', 'अठरा', 'एकोणीस',
+    'वीस', 'एकवीस', 'बावीस', 'तेवीस', 'चोवीस', 'पंचवीस', 'सव्वीस', 'सत्तावीस', 'अठ्ठावीस', 'एकोणतीस',
+    'तीस', 'एकतीस', 'बत्तीस', 'तेहेतीस', 'चौतीस', 'पस्तीस', 'छत्तीस', 'सदतीस', 'अडतीस', 'एकोणचाळीस',
+    'चाळीस', 'एक्केचाळीस', 'बेचाळीस', 'त्रेचाळीस', 'चव्वेचाळीस', 'पंचेचाळीस', 'सेहेचाळीस', 'सत्तेचाळीस', 'अठ्ठेचाळीस', 'एकोणपन्नास',
+    'पन्नास', 'एक्कावन्न', 'बावन्न', 'त्रेपन्न', 'चोपन्न', 'पंचावन्न', 'छप्पन्न', 'सत्तावन्न', 'अठ्ठावन्न', 'एकोणसाठ',
+    'साठ', 'एकसष्ट', 'बासष्ट', 'त्रेसष्ट', 'चौसष्ट', 'पासष्ट', 'सहासष्ट', 'सदुसष्ट', 'अडुसष्ट', 'एकोणसत्तर',
+    'सत्तर', 'एकाहत्तर', 'बाहत्तर', 'त्र्याहत्तर', 'चौऱ्याहत्तर', 'पंचाहत्तर', 'शहात्तर', 'सत्याहत्तर', 'अठ्ठ्याहत्तर', 'एकोणऐंशी',
+    'ऐंशी', 'एक्याऐंशी', 'ब्याऐंशी', 'त्र्याऐंशी', 'चौऱ्याऐंशी', 'पंच्याऐंशी', 'शहाऐंशी', 'सत्त्याऐंशी', 'अठ्ठ्याऐंशी', 'एकोणनव्वद',
+    'नव्वद', 'एक्याण्णव', 'ब्याण्णव', 'त्र्याण्णव', 'चौऱ्याण्णव', 'पंच्याण्णव', 'शहाण्णव', 'सत्त्याण्णव', 'अठ्ठ्याण्णव', 'नव्व्याण्णव',
+];
+
+const GU_0_99 = [
+    'શૂન્ય', 'એક', 'બે', 'ત્રણ', 'ચાર', 'પાંચ', 'છ', 'સાત', 'આઠ', 'નવ',
+    'દસ', 'અગિયાર', 'બાર', 'તેર', 'ચૌદ', 'પંદર', 'સોળ', 'સત્તર', 'અઢાર', 'ઓગણીસ',
+    'વીસ', 'એકવીસ', 'બાવીસ', 'ત્રેવીસ', 'ચોવીસ', 'પચ્ચીસ', 'છવ્વીસ', 'સત્તાવીસ', 'અઠ્ઠાવીસ', 'ઓગણત્રીસ',
+    'ત્રીસ', 'એકત્રીસ', 'બત્રીસ', 'તેત્રીસ', 'ચોત્રીસ', 'પાંત્રીસ', 'છત્રીસ', 'સાડત્રીસ', 'આડત્રીસ', 'ઓગણચાલીસ',
+    'ચાલીસ', 'એકતાલીસ', 'બેતાલીસ', 'તેતાલીસ', 'ચુંમાલીસ', 'પિસ્તાલીસ', 'છેતાલીસ', 'સુડતાલીસ', 'અડતાલીસ', 'ઓગણપચાસ',
+    'પચાસ', 'એકાવન', 'બાવન', 'ત્રેપન', 'ચોપન', 'પંચાવન', 'છપ્પન', 'સત્તાવન', 'અઠ્ઠાવન', 'ઓગણસાઠ',
+    'સાઠ', 'એકસઠ', 'બાસઠ', 'ત્રેસઠ', 'ચોસઠ', 'પાંસઠ', 'છાસઠ', 'સડસઠ', 'અડસઠ', 'અગણોસિત્તેર',
+    'સિત્તેર', 'એકોતેર', 'બોતેર', 'તોતેર', 'ચુમોતેર', 'પંચોતેર', 'છોતેર', 'સિત્યોતેર', 'ઇઠ્યોતેર', 'ઓગણાએંસી',
+    'એંસી', 'એક્યાસી', 'બ્યાસી', 'ત્યાસી', 'ચોર્યાસી', 'પંચાસી', 'છ્યાસી', 'સિત્યાસી', 'ઈઠ્યાસી', 'નેવ્યાસી',
+    'નેવું', 'એકાણું', 'બાણું', 'ત્રાણું', 'ચોરાણું', 'પંચાણું', 'છન્નું', 'સત્તાણું', 'અઠ્ઠાણું', 'નવ્વાણું',
+];
+
+const BELOW_100: { [lang: string]: string[] } = { hi: HI_0_99, mr: MR_0_99, gu: GU_0_99 };
+
+const HUNDRED: { [lang: string]: string } = { en: 'hundred', hi: 'सौ', mr: 'शे', gu: 'સો' };
+const THOUSAND: { [lang: string]: string } = { en: 'thousand', hi: 'हज़ार', mr: 'हजार', gu: 'હજાર' };
+
+function isSupportedLanguage(lang: string): lang is SpokenLanguage {
+    return lang === 'en' || lang === 'hi' || lang === 'mr' || lang === 'gu';
+}
+
+function englishBelow100(n: number): string {
+    if (n < 20) return EN_ONES[n];
+    const tens = EN_TENS[Math.floor(n / 10)];
+    return n % 10 === 0 ? tens : `${tens}-${EN_ONES[n % 10]}`;
+}
+
+function below100(n: number, lang: SpokenLanguage): string {
+    return lang === 'en' ? englishBelow100(n) : BELOW_100[lang][n];
+}
+
+function hundreds(count: number, lang: SpokenLanguage, hasRemainder: boolean): string {
+    if (lang === 'mr') {
+        // Marathi fuses the multiplier: "शंभर" on its own, "एकशे", "दोनशे" ... otherwise.
+        if (count === 1 && !hasRemainder) return 'शंभर';
+        return `${MR_0_99[count]}${HUNDRED.mr}`;
+    }
+    return `${below100(count, lang)} ${HUNDRED[lang]}`;
+}
+
+// Reads each digit separately, e.g. train numbers or values above MAX_CARDINAL.
+export function verbalizeDigits(value: string, lang: string): string {
+    const language = isSupportedLanguage(lang) ? lang : 'en';
+    return value
+        .split('')
+        .filter(char => char.trim())
+        .map(char => (/\d/.test(char) ? below100(Number(char), language) : char))
+        .join(' ');
+}
+
+export function verbalizeNumber(value: number | string, lang: string): string {
+    const language = isSupportedLanguage(lang) ? lang : 'en';
+    const text = String(value).trim();
+    if (!/^\d+$/.test(text) || Number(text) > MAX_CARDINAL) {
+        return verbalizeDigits(text, language);
+    }
+
+    const n = Number(text);
+    if (n < 100) return below100(n, language);
+
+    const words: string[] = [];
+    const thousandCount = Math.floor(n / 1000);
+    const hundredCount = Math.floor((n % 1000) / 100);
+    const rest = n % 100;
+
+    if (thousandCount > 0) words.push(`${below100(thousandCount, language)} ${THOUSAND[language]}`);
+    if (hundredCount > 0) words.push(hundreds(hundredCount, language, rest > 0 || thousandCount > 0));
+    if (rest > 0) words.push(below100(rest, language));
+    return words.join(' ');
+}
+
+function timeOfDayWord(hours: number, lang: SpokenLanguage): string {
+    const words: { [lang: string]: [string, string, string, string] } = {
+        en: ['a.m.', 'p.m.', 'p.m.', 'p.m.'],
+        hi: ['सुबह', 'दोपहर', 'शाम', 'रात'],
+        mr: ['सकाळी', 'दुपारी', 'संध्याकाळी', 'रात्री'],
+        gu: ['સવારે', 'બપોરે', 'સાંજે', 'રાત્રે'],
+    };
+    const [morning, afternoon, evening, night] = words[lang];
+    if (lang === 'en') return hours < 12 ? morning : afternoon;
+    if (hours >= 4 && hours < 12) return morning;
+    if (hours >= 12 && hours < 16) return afternoon;
+    if (hours >= 16 && hours < 20) return evening;
+    return night;
+}
+
+function regionalClock(hourWord: string, minutes: number, lang: SpokenLanguage): string {
+    const minuteWord = below100(minutes, lang);
+    switch (lang) {
+        case 'hi':
+            return minutes === 0 ? `${hourWord} बजे` : `${hourWord} बजकर ${minuteWord} मिनट`;
+        case 'mr':
+            return minutes === 0 ? `${hourWord} वाजता` : `${hourWord} वाजून ${minuteWord} ${minutes === 1 ? 'मिनिट' : 'मिनिटे'}`;
+        case 'gu':
+            return minutes === 0 ? `${hourWord} વાગ્યે` : `${hourWord} વાગીને ${minuteWord} મિનિટે`;
+        default:
+            return hourWord;
+    }
+}
+
+// Renders an "HH:MM" time, e.g. "13:45" -> "thirteen forty-five hours" (en, 24h)
+// or "दोपहर एक बजकर पैंतालीस मिनट" (hi, 12h). Invalid input is returned unchanged.
+export function verbalizeTime(value: string, lang: string, style: TimeStyle = DEFAULT_TIME_STYLE[lang] || '24h'): string {
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return value;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return value;
+
+    const language = isSupportedLanguage(lang) ? lang : 'en';
+
+    if (style === '24h') {
+        if (language === 'en') {
+            const minuteWords = minutes === 0 ? 'hundred' : minutes < 10 ? `oh ${EN_ONES[minutes]}` : englishBelow100(minutes);
+            return `${below100(hours, language)} ${minuteWords} hours`;
+        }
+        return regionalClock(below100(hours, language), minutes, language);
+    }
+
+    const twelveHour = hours % 12 === 0 ? 12 : hours % 12;
+    const hourWord = below100(twelveHour, language);
+    const period = timeOfDayWord(hours, language);
+    if (language === 'en') {
+        const minuteWords = minutes === 0 ? '' : minutes < 10 ? ` oh ${EN_ONES[minutes]}` : ` ${englishBelow100(minutes)}`;
+        return `${hourWord}${minuteWords} ${period}`;
+    }
+    return `${period} ${regionalClock(hourWord, minutes, language)}`;
+}
+
+const DURATION_UNITS: { [lang: string]: { hour: [string, string]; minute: [string, string] } } = {
+    en: { hour: ['hour', 'hours'], minute: ['minute', 'minutes'] },
+    hi: { hour: ['घंटा', 'घंटे'], minute: ['मिनट', 'मिनट'] },
+    mr: { hour: ['तास', 'तास'], minute: ['मिनिट', 'मिनिटे'] },
+    gu: { hour: ['કલાક', 'કલાક'], minute: ['મિનિટ', 'મિનિટ'] },
+};
+
+// Renders a duration given in minutes, e.g. 65 -> "one hour five minutes".
+export function verbalizeDuration(totalMinutes: number | string, lang: string): string {
+    const language = isSupportedLanguage(lang) ? lang : 'en';
+    const minutesValue = Number(String(totalMinutes).trim());
+    if (!Number.isInteger(minutesValue) || minutesValue < 0) return String(totalMinutes);
+
+    const units = DURATION_UNITS[language];
+    const hours = Math.floor(minutesValue / 60);
+    const minutes = minutesValue % 60;
+    const parts: string[] = [];
+
+    if (hours > 0) parts.push(`${verbalizeNumber(hours, language)} ${units.hour[hours === 1 ? 0 : 1]}`);
+    if (minutes > 0 || hours === 0) parts.push(`${verbalizeNumber(minutes, language)} ${units.minute[minutes === 1 ? 0 : 1]}`);
+    return parts.join(' ');
+}
+
+// Writes a duration with digits for on-screen text, e.g. 65 -> "1 hour 5 minutes".
+export function formatDuration(totalMinutes: number | string, lang: string): string {
+    const language = isSupportedLanguage(lang) ? lang : 'en';
+    const minutesValue = Number(String(totalMinutes).trim());
+    if (!Number.isInteger(minutesValue) || minutesValue < 0) return String(totalMinutes);
+
+    const units = DURATION_UNITS[language];
+    const hours = Math.floor(minutesValue / 60);
+    const minutes = minutesValue % 60;
+    const parts: string[] = [];
+
+    if (hours > 0) parts.push(`${hours} ${units.hour[hours === 1 ? 0 : 1]}`);
+    if (minutes > 0 || hours === 0) parts.push(`${minutes} ${units.minute[minutes === 1 ? 0 : 1]}`);
+    return parts.join(' ');
+}
+
+// English gloss for the ISL sign lookup. Signs exist for digits and base-form
+// unit words, so numbers stay as spaced digits and units are singular.
+export function glossTime(value: string): string {
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return value;
+    return `${match[1].padStart(2, '0')} ${match[2]}`.replace(/(\d)/g, ' $1 ').replace(/\s+/g, ' ').trim();
+}
+
+export function glossDuration(totalMinutes: number | string): string {
+    const minutesValue = Number(String(totalMinutes).trim());
+    if (!Number.isInteger(minutesValue) || minutesValue < 0) return String(totalMinutes);
+
+    const hours = Math.floor(minutesValue / 60);
+    const minutes = minutesValue % 60;
+    const parts: string[] = [];
+    if (hours > 0) parts.push(`${hours} hour`);
+    if (minutes > 0 || hours === 0) parts.push(`${minutes} minute`);
+    return parts.join(' ').replace(/(\d)/g, ' $1 ').replace(/\s+/g, ' ').trim();
+}
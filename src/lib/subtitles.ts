@@ -0,0 +1,111 @@
+/**
+ * WebVTT and SRT captions for ISL announcement videos.
+ *
+ * Each language's text is split into short cues and spread across that language's
+ * spoken audio, in proportion to the length of each cue. The files are written next to
+ * the saved or exported video; the published HTML loads the WebVTT ones as <track>s and
+ * ffmpeg burns the SRT ones into the picture.
+ */
+
+export type SubtitleFormat = 'vtt' | 'srt';
+
+export type SubtitleCue = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+// Public paths of one language's caption files.
+export type SubtitleFiles = { [format in SubtitleFormat]: string };
+
+export const SUBTITLE_LANGUAGE_NAMES: { [languageCode: string]: string } = {
+  en: 'English',
+  hi: 'Hindi',
+  mr: 'Marathi',
+  gu: 'Gujarati',
+};
+
+// Two lines of about 42 characters, the usual limit for broadcast captions.
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_CHARS = MAX_LINE_CHARS * 2;
+// Used when a language has no audio to time against.
+const READING_CHARS_PER_SECOND = 15;
+
+export function estimateCaptionDuration(text: string): number {
+  return Math.max(1, text.trim().length / READING_CHARS_PER_SECOND);
+}
+
+/**
+ * Splits `text` into cues that together span `durationSec` from `offsetSec`.
+ * Cues break at sentence ends (including the Devanagari danda) and otherwise at word
+ * boundaries.
+ */
+export function buildSubtitleCues(text: string, durationSec: number, offsetSec: number = 0): SubtitleCue[] {
+  const chunks = splitIntoCueTexts(text);
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  if (chunks.length === 0 || durationSec <= 0) return [];
+
+  const cues: SubtitleCue[] = [];
+  let start = offsetSec;
+  for (const chunk of chunks) {
+    const end = start + (chunk.length / totalChars) * durationSec;
+    cues.push({ start, end, text: wrapCueText(chunk) });
+    start = end;
+  }
+  return cues;
+}
+
+export function formatWebVtt(cues: SubtitleCue[]): string {
+  const body = cues.map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}`);
+  return ['WEBVTT', ...body].join('\n\n') + '\n';
+}
+
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues.map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}`).join('\n\n') + '\n';
+}
+
+// HH:MM:SS.mmm for WebVTT, HH:MM:SS,mmm for SRT.
+function formatTimestamp(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+function splitIntoCueTexts(text: string): string[] {
+  const sentences = text
+    .replace(/\s+/g, ' ')
+    .replace(/([.!?।]) /g, '$1\n')
+    .split('\n')
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  for (const sentence of sentences) {
+    let current = '';
+    for (const word of sentence.split(' ')) {
+      if (current && current.length + 1 + word.length > MAX_CUE_CHARS) {
+        chunks.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) chunks.push(current);
+  }
+  return chunks;
+}
+
+// Breaks a cue over two lines at the space nearest the middle.
+function wrapCueText(text: string): string {
+  if (text.length <= MAX_LINE_CHARS) return text;
+  const middle = Math.floor(text.length / 2);
+  const before = text.lastIndexOf(' ', middle);
+  const after = text.indexOf(' ', middle);
+  const breakAt = before === -1 ? after : after === -1 ? before : (middle - before <= after - middle ? before : after);
+  if (breakAt === -1) return text;
+  return `${text.slice(0, breakAt)}\n${text.slice(breakAt + 1)}`;
+}
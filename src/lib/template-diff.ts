@@ -0,0 +1,98 @@
+/**
+ * Helpers for comparing announcement template versions.
+ *
+ * Static parts are the text runs between placeholders, numbered the same way
+ * the template audio flow numbers its part_N.wav files.
+ */
+
+export type TemplateStaticPart = {
+    index: number;
+    text: string;
+};
+
+export type DiffSegment = {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+};
+
+const PLACEHOLDER_SPLIT_REGEX = /({[a-zA-Z0-9_]+})/;
+
+export function getTemplateStaticParts(templateText: string): TemplateStaticPart[] {
+    const parts: TemplateStaticPart[] = [];
+    // split() with a capture group puts placeholders at the odd positions
+    templateText.split(PLACEHOLDER_SPLIT_REGEX).forEach((part, position) => {
+        if (position % 2 === 1 || part.trim().length === 0) return;
+        parts.push({ index: parts.length, text: part.trim() });
+    });
+    return parts;
+}
+
+// Maps each static part of the new text to existing audio with the same wording.
+// Parts left out of the result need fresh audio.
+export function findReusableAudioParts(
+    newText: string,
+    candidates: { text: string; audioPath: string }[]
+): { [index: number]: string } {
+    const reusable: { [index: number]: string } = {};
+    for (const part of getTemplateStaticParts(newText)) {
+        const match = candidates.find(candidate => candidate.text === part.text);
+        if (match) reusable[part.index] = match.audioPath;
+    }
+    return reusable;
+}
+
+// Audio path of each static part, by static index. template_audio_parts holds one
+// entry per split position (null for placeholders), so positions are mapped back here.
+export function getStaticPartAudioPaths(templateText: string, audioParts: (string | null)[] | null): (string | null)[] {
+    const paths: (string | null)[] = [];
+    templateText.split(PLACEHOLDER_SPLIT_REGEX).forEach((part, position) => {
+        if (position % 2 === 1 || part.trim().length === 0) return;
+        paths.push(audioParts?.[position] ?? null);
+    });
+    return paths;
+}
+
+// Pairs a template's static parts with their audio, skipping parts that have none.
+export function getStaticPartAudio(templateText: string, audioParts: (string | null)[] | null): { text: string; audioPath: string }[] {
+    const paths = getStaticPartAudioPaths(templateText, audioParts);
+    return getTemplateStaticParts(templateText)
+        .map(part => ({ text: part.text, audioPath: paths[part.index] as string }))
+        .filter(part => !!part.audioPath);
+}
+
+// Word-level diff (longest common subsequence) for showing template changes.
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+    const a = oldText.split(/\s+/).filter(Boolean);
+    const b = newText.split(/\s+/).filter(Boolean);
+
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegment['type'], word: string) => {
+        const last = segments[segments.length - 1];
+        if (last && last.type === type) last.text += ` ${word}`;
+        else segments.push({ type, text: word });
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('same', a[i]);
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return segments;
+}
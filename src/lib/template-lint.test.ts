@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { lintTemplate, lintTemplateSet } from './template-lint';
+
+const codes = (issues: { code: string }[]) => issues.map(issue => issue.code);
+
+describe('lintTemplate', () => {
+    it('passes a clean template', () => {
+        expect(lintTemplate('en', 'Train {train_number} will arrive on platform {platform} shortly.')).toEqual([]);
+        expect(lintTemplate('hi', 'गाड़ी संख्या {train_number} प्लेटफॉर्म {platform} पर आएगी।')).toEqual([]);
+    });
+
+    it('reports required placeholders the category needs', () => {
+        const issues = lintTemplate('en', 'Train {train_number} is late.', {}, ['train_number', 'delay_minutes']);
+        expect(issues).toEqual([expect.objectContaining({ code: 'missing_required_placeholder', severity: 'error' })]);
+        expect(issues[0].message).toContain('{delay_minutes}');
+    });
+
+    it('warns about placeholders the engine cannot fill', () => {
+        const issues = lintTemplate('en', 'Train {train_number} has {coach_count} coaches.');
+        expect(issues).toEqual([expect.objectContaining({ code: 'unknown_placeholder', severity: 'warning' })]);
+        expect(issues[0].message).toContain('{coach_count}');
+    });
+
+    it('compares other languages with the reference language', () => {
+        const issues = lintTemplate('hi', 'गाड़ी संख्या {train_number} आएगी।', { en: 'Train {train_number} on platform {platform} shortly.' });
+        expect(issues).toEqual([expect.objectContaining({ code: 'placeholder_mismatch', language_code: 'hi' })]);
+        expect(issues[0].message).toBe('hi template missing {platform}.');
+    });
+
+    it('reports every disagreeing sibling from the reference language', () => {
+        const issues = lintTemplate('en', 'Train {train_number} on platform {platform} shortly.', {
+            hi: 'गाड़ी संख्या {train_number} आएगी।',
+            mr: 'गाडी क्रमांक {train_number} फलाट {platform} {delay_minutes}.',
+        });
+        expect(issues.map(issue => [issue.code, issue.language_code])).toEqual([
+            ['placeholder_mismatch', 'hi'],
+            ['placeholder_mismatch', 'mr'],
+        ]);
+        expect(issues[1].message).toBe('mr template has {delay_minutes} not in en.');
+    });
+
+    it('flags letters from the wrong script, but not placeholders, digits or joiners', () => {
+        const issues = lintTemplate('hi', 'गाड़ी {train_number} platform 5 पर आएगी।');
+        expect(codes(issues)).toEqual(['script_mismatch']);
+        expect(issues[0].message).toContain('"platform"');
+        expect(lintTemplate('mr', 'क्‍र. {train_number} येत आहे.')).toEqual([]);
+        expect(lintTemplate('gu', 'ગાડી {train_number} આવશે।')).toEqual([]);
+    });
+
+    it('warns about templates and segments with nothing to speak', () => {
+        expect(codes(lintTemplate('en', '{train_number} {platform}'))).toEqual(['empty_segment']);
+        expect(lintTemplate('en', 'Train {train_number}{platform} now.')[0].message).toContain('joined with no space');
+        expect(lintTemplate('en', 'Train {train_number} - {platform} now.')[0].message).toBe('Segment "-" has no speakable text.');
+    });
+});
+
+describe('lintTemplateSet', () => {
+    it('reports each cross-language mismatch once', () => {
+        const issues = lintTemplateSet({
+            en: 'Train {train_number} on platform {platform} shortly.',
+            hi: 'गाड़ी संख्या {train_number} आएगी।',
+        });
+        expect(issues.map(issue => [issue.code, issue.language_code])).toEqual([['placeholder_mismatch', 'hi']]);
+    });
+
+    it('checks required placeholders in every language', () => {
+        const issues = lintTemplateSet({ en: 'Train {train_number} is here.', hi: 'गाड़ी {train_number} आ गई है।' }, ['platform']);
+        expect(issues.map(issue => [issue.code, issue.language_code])).toEqual([
+            ['missing_required_placeholder', 'en'],
+            ['missing_required_placeholder', 'hi'],
+        ]);
+    });
+});
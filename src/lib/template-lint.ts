@@ -0,0 +1,180 @@
+/**
+ * Checks announcement templates for problems that would otherwise only be
+ * heard at playout: placeholders that differ between languages, placeholders
+ * the engine cannot fill, letters from the wrong script and static segments
+ * that carry no speakable text.
+ */
+
+import { extractPlaceholders, findUnsupportedPlaceholders } from '@/lib/announcement-placeholders';
+
+export type TemplateLintCode = 'placeholder_mismatch' | 'missing_required_placeholder' | 'unknown_placeholder' | 'script_mismatch' | 'empty_segment';
+
+export type TemplateLintIssue = {
+    code: TemplateLintCode;
+    severity: 'error' | 'warning';
+    language_code: string;
+    message: string;
+};
+
+// Languages are compared against this one for placeholder consistency.
+export const REFERENCE_LANGUAGE = 'en';
+
+// Letters allowed in the static text of each language, besides digits, punctuation and whitespace.
+const SCRIPT_RANGES: { [languageCode: string]: { name: string; ranges: [number, number][] } } = {
+    en: { name: 'Latin', ranges: [[0x41, 0x5a], [0x61, 0x7a]] },
+    hi: { name: 'Devanagari', ranges: [[0x0900, 0x097f]] },
+    mr: { name: 'Devanagari', ranges: [[0x0900, 0x097f]] },
+    // Gujarati text uses the Devanagari danda for full stops.
+    gu: { name: 'Gujarati', ranges: [[0x0a80, 0x0aff], [0x0964, 0x0965]] },
+};
+
+// Zero-width joiners are part of normal Indic spelling.
+const SCRIPT_NEUTRAL = /[\s\d\p{P}\p{S}\u200C\u200D]/u;
+const SPEAKABLE = /[\p{L}\p{N}]/u;
+const PLACEHOLDER_SPLIT_REGEX = /({[a-zA-Z0-9_]+})/;
+
+function isInScript(char: string, ranges: [number, number][]): boolean {
+    const code = char.codePointAt(0)!;
+    return ranges.some(([start, end]) => code >= start && code <= end);
+}
+
+function checkPlaceholderMismatch(
+    languageCode: string,
+    text: string,
+    referenceText: string,
+    referenceLanguage: string
+): TemplateLintIssue[] {
+    const keys = extractPlaceholders(text);
+    const referenceKeys = extractPlaceholders(referenceText);
+    const missing = referenceKeys.filter(key => !keys.includes(key));
+    const extra = keys.filter(key => !referenceKeys.includes(key));
+    const parts: string[] = [];
+    if (missing.length > 0) parts.push(`missing ${missing.map(key => `{${key}}`).join(', ')}`);
+    if (extra.length > 0) parts.push(`has ${extra.map(key => `{${key}}`).join(', ')} not in ${referenceLanguage}`);
+    if (parts.length === 0) return [];
+    return [{
+        code: 'placeholder_mismatch',
+        severity: 'error',
+        language_code: languageCode,
+        message: `${languageCode} template ${parts.join(' and ')}.`,
+    }];
+}
+
+function checkScript(languageCode: string, text: string): TemplateLintIssue[] {
+    const script = SCRIPT_RANGES[languageCode];
+    if (!script) return [];
+
+    const issues: TemplateLintIssue[] = [];
+    const staticText = text.split(PLACEHOLDER_SPLIT_REGEX).filter((_, position) => position % 2 === 0).join(' ');
+    for (const word of staticText.split(/\s+/)) {
+        const foreign = Array.from(word).filter(char => !SCRIPT_NEUTRAL.test(char) && !isInScript(char, script.ranges));
+        if (foreign.length === 0) continue;
+        issues.push({
+            code: 'script_mismatch',
+            severity: 'error',
+            language_code: languageCode,
+            message: `"${word}" contains characters outside the ${script.name} script: ${Array.from(new Set(foreign)).map(char => `${char} (U+${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')})`).join(', ')}.`,
+        });
+    }
+    return issues;
+}
+
+function checkEmptySegments(languageCode: string, text: string): TemplateLintIssue[] {
+    const issues: TemplateLintIssue[] = [];
+    const parts = text.split(PLACEHOLDER_SPLIT_REGEX);
+    if (!parts.some((part, position) => position % 2 === 0 && SPEAKABLE.test(part))) {
+        issues.push({
+            code: 'empty_segment',
+            severity: 'warning',
+            language_code: languageCode,
+            message: `${languageCode} template has no static text, only placeholders.`,
+        });
+        return issues;
+    }
+    parts.forEach((part, position) => {
+        if (position % 2 === 1) return;
+        const betweenPlaceholders = position > 0 && position < parts.length - 1;
+        if (betweenPlaceholders && part.length === 0) {
+            issues.push({
+                code: 'empty_segment',
+                severity: 'warning',
+                language_code: languageCode,
+                message: `${parts[position - 1]} and ${parts[position + 1]} are joined with no space, so their words run together.`,
+            });
+        } else if (part.trim().length > 0 && !SPEAKABLE.test(part)) {
+            // Punctuation-only segments are still sent to text-to-speech as a part of their own.
+            issues.push({
+                code: 'empty_segment',
+                severity: 'warning',
+                language_code: languageCode,
+                message: `Segment "${part.trim()}" has no speakable text.`,
+            });
+        }
+    });
+    return issues;
+}
+
+/**
+ * Lints one language of a category. `siblings` holds the other languages'
+ * templates for the same category; non-reference languages are compared with
+ * the reference language, and the reference language reports every sibling
+ * that disagrees with it. `requiredPlaceholders` comes from the category registry.
+ */
+export function lintTemplate(
+    languageCode: string,
+    templateText: string,
+    siblings: { [languageCode: string]: string } = {},
+    requiredPlaceholders: string[] = []
+): TemplateLintIssue[] {
+    const issues: TemplateLintIssue[] = [];
+
+    const keys = extractPlaceholders(templateText);
+    const missingRequired = requiredPlaceholders.filter(key => !keys.includes(key));
+    if (missingRequired.length > 0) {
+        issues.push({
+            code: 'missing_required_placeholder',
+            severity: 'error',
+            language_code: languageCode,
+            message: `${languageCode} template must include ${missingRequired.map(key => `{${key}}`).join(', ')} for this category.`,
+        });
+    }
+
+    const unknown = findUnsupportedPlaceholders(templateText);
+    if (unknown.length > 0) {
+        issues.push({
+            code: 'unknown_placeholder',
+            severity: 'warning',
+            language_code: languageCode,
+            message: `Unknown placeholders will be left as-is: ${unknown.map(key => `{${key}}`).join(', ')}.`,
+        });
+    }
+
+    if (languageCode === REFERENCE_LANGUAGE) {
+        for (const [siblingCode, siblingText] of Object.entries(siblings)) {
+            if (siblingCode === languageCode) continue;
+            issues.push(...checkPlaceholderMismatch(siblingCode, siblingText, templateText, languageCode));
+        }
+    } else if (siblings[REFERENCE_LANGUAGE] !== undefined) {
+        issues.push(...checkPlaceholderMismatch(languageCode, templateText, siblings[REFERENCE_LANGUAGE], REFERENCE_LANGUAGE));
+    }
+
+    issues.push(...checkScript(languageCode, templateText));
+    issues.push(...checkEmptySegments(languageCode, templateText));
+    return issues;
+}
+
+// Lints every language of a category, reporting each cross-language mismatch once.
+export function lintTemplateSet(
+    templates: { [languageCode: string]: string },
+    requiredPlaceholders: string[] = []
+): TemplateLintIssue[] {
+    const issues: TemplateLintIssue[] = [];
+    for (const [languageCode, templateText] of Object.entries(templates)) {
+        const reference: { [languageCode: string]: string } = {};
+        if (languageCode !== REFERENCE_LANGUAGE && templates[REFERENCE_LANGUAGE] !== undefined) {
+            reference[REFERENCE_LANGUAGE] = templates[REFERENCE_LANGUAGE];
+        }
+        issues.push(...lintTemplate(languageCode, templateText, reference, requiredPlaceholders));
+    }
+    return issues;
+}